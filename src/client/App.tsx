@@ -1,43 +1,122 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { Bookmark, X } from 'lucide-react';
 import { io, Socket } from 'socket.io-client';
-import type { BeadsHealth, Issue, TimeGranularity, CreateIssueRequest } from '@shared/types';
+import type { BeadsHealth, BeadsProject, DashboardConfig, DashboardConfigResponse, DashboardFilters, Issue, IssueRanks, IssueRanksResponse, IssueStatus, Priority, SavedView, SavedViewsResponse, TimeGranularity, CreateIssueRequest, StatusHistoryResponse, StatusTransition } from '@shared/types';
+import { GRANULARITY_OPTIONS, PRIORITY_LABELS } from '@shared/types';
+import { DEFAULT_DASHBOARD_CONFIG } from '@shared/dashboardConfig';
 import { useMetrics } from '@/hooks/useMetrics';
+import { useLocation } from '@/hooks/useLocation';
+import {
+  EMPTY_DASHBOARD_FILTERS,
+  buildDashboardQuery,
+  parseDashboardFilters,
+  parseGranularity,
+} from '@/utils/dashboardFilters';
+import { canGoBack, isAppTab, navigate, parseRoute, routePath, toSearch } from '@/utils/router';
+import type { AppTab } from '@/utils/router';
+import { IssueConflictError, createIssue, saveIssueUpdates, setIssueStatus } from '@/utils/issueApi';
+import { applyIssueUpdates } from '@/utils/issueChanges';
+import { QUICK_ADD_PREFIX } from '@/utils/quickAdd';
+import { shouldIgnoreShortcut } from '@/utils/keyboardShortcuts';
+import type { PaletteCommand } from '@/utils/commandPalette';
+import { fetchProjects, switchProject } from '@/utils/projectApi';
+import { createSavedView, deleteSavedView, setDefaultView, updateSavedView } from '@/utils/savedViewsApi';
+import { buildSearchResultsQuery } from '@/utils/tableUrlState';
 import DashboardView from '@/components/DashboardView';
+import EpicDetailView from '@/components/EpicDetailView';
 import TableView from '@/components/TableView';
 import KanbanBoard from '@/components/KanbanBoard';
+import DependencyGraphView from '@/components/DependencyGraphView';
+import ReadyView from '@/components/ReadyView';
 import SearchBar from '@/components/SearchBar';
 import NewIssueButton from '@/components/NewIssueButton';
 import IssueCreatorModal from '@/components/IssueCreatorModal';
 import IssueEditorModal from '@/components/IssueEditorModal';
 import ProjectSwitcher from '@/components/ProjectSwitcher';
 import BeadsHealthBanner from '@/components/BeadsHealthBanner';
+import SavedViewsSidebar, { isSavedViewTab } from '@/components/SavedViewsSidebar';
+import CommandPalette from '@/components/CommandPalette';
+import CloseIssueDialog from '@/components/CloseIssueDialog';
+import ShortcutHelp from '@/components/ShortcutHelp';
+
+const TAB_LABELS: Record<AppTab, string> = {
+  table: 'Issues',
+  ready: 'Ready',
+  board: 'Board',
+  dashboard: 'Dashboard',
+  graph: 'Graph',
+};
+
+// Statuses the palette offers for the focused issue
+const PALETTE_STATUSES: IssueStatus[] = ['open', 'in_progress', 'blocked', 'deferred', 'closed'];
 
 function App() {
   const [parsedIssues, setParsedIssues] = useState<Issue[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'table' | 'board' | 'dashboard'>(() => {
+  // The URL decides what is shown: /table, /ready, /board, /dashboard, /graph, /issue/:id, /epic/:id
+  const location = useLocation();
+  const route = parseRoute(location.pathname);
+
+  // Last visited tab; also shown underneath the /issue/:id modal
+  const [activeTab, setActiveTab] = useState<AppTab>(() => {
+    if (isAppTab(route.view)) {
+      return route.view;
+    }
     const saved = localStorage.getItem('beads-active-tab');
-    if (saved === 'table' || saved === 'board' || saved === 'dashboard') {
+    if (isAppTab(saved)) {
       return saved;
     }
     return 'table';
   });
   const [_socket, setSocket] = useState<Socket | null>(null);
   const [granularity, setGranularity] = useState<TimeGranularity>(() => {
+    const fromUrl = route.view === 'dashboard' ? parseGranularity(location.search) : null;
     const saved = localStorage.getItem('beads-granularity');
-    return (saved as TimeGranularity) || 'daily';
+    return fromUrl || (saved as TimeGranularity) || 'daily';
   });
 
-  // Global modal state (per arch review: keep local, use overlay layer)
-  const [globalModalIssue, setGlobalModalIssue] = useState<Issue | null>(null);
+  // Epic burnup page, shown in place of the active tab
+  const epicDetailId = route.view === 'epic' ? route.id : null;
+
   const [createModalOpen, setCreateModalOpen] = useState(false);
 
   // Current project path from server
   const [currentProjectPath, setCurrentProjectPath] = useState<string>('');
   const [beadsHealth, setBeadsHealth] = useState<BeadsHealth | null>(null);
+  const [statusHistory, setStatusHistory] = useState<StatusTransition[]>([]);
+  // Board columns and WIP limits from .beads/dashboard.json
+  const [dashboardConfig, setDashboardConfig] = useState<DashboardConfig>(DEFAULT_DASHBOARD_CONFIG);
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
+  // Manual card order from dashboard metadata (GET /api/ranks)
+  const [issueRanks, setIssueRanks] = useState<IssueRanks>({});
+  // Project's saved views and per-tab defaults (GET /api/views); null until first loaded
+  const [savedViews, setSavedViews] = useState<SavedViewsResponse | null>(null);
+  const [savedViewsOpen, setSavedViewsOpen] = useState(false);
+  // Tabs opened this session; a tab's default view only applies the first time it opens
+  const visitedTabsRef = useRef(new Set<AppTab>(isAppTab(route.view) ? [route.view] : []));
+
+  // Dashboard slice, kept in the URL so filtered views can be shared
+  const [dashboardFilters, setDashboardFilters] = useState<DashboardFilters>(() =>
+    route.view === 'dashboard' ? parseDashboardFilters(location.search) : EMPTY_DASHBOARD_FILTERS
+  );
+
+  // Issue opened via /issue/:id (global modal, per arch review: overlay layer)
+  const globalModalIssue = route.view === 'issue'
+    ? parsedIssues.find((i) => i.id === route.id) ?? null
+    : null;
+
+  // Table state as last reported by TableView; restored when returning to the tab
+  const tableQueryRef = useRef(route.view === 'table' ? location.search : '');
+  // Remounts TableView so back/forward can restore a different table state
+  const [tableKey, setTableKey] = useState(0);
 
-  const metrics = useMetrics(parsedIssues, granularity);
+  // Graph state (?epic=) as last seen on /graph; kept while an issue modal is open over it
+  const graphQueryRef = useRef(route.view === 'graph' ? location.search : '');
+  const graphSearch = route.view === 'graph' ? location.search : graphQueryRef.current;
+  const graphRootEpicId = new URLSearchParams(graphSearch).get('epic');
+
+  const metrics = useMetrics(parsedIssues, granularity, statusHistory, dashboardFilters);
 
   const fetchCurrentProject = async () => {
     try {
@@ -77,10 +156,64 @@ function App() {
     }
   };
 
+  const fetchStatusHistory = async () => {
+    try {
+      const res = await fetch('/api/history');
+      if (!res.ok) throw new Error('Failed to fetch status history');
+      const data = await res.json() as StatusHistoryResponse;
+      setStatusHistory(data.transitions);
+    } catch (err) {
+      // The CFD falls back to timestamps inferred from the issues themselves
+      console.error('Failed to fetch status history:', err);
+      setStatusHistory([]);
+    }
+  };
+
+  const fetchDashboardConfig = async () => {
+    try {
+      const res = await fetch('/api/config');
+      if (!res.ok) throw new Error('Failed to fetch dashboard configuration');
+      const data = await res.json() as DashboardConfigResponse;
+      setDashboardConfig(data.config);
+      setConfigErrors(data.errors);
+    } catch (err) {
+      console.error('Failed to fetch dashboard configuration:', err);
+      setDashboardConfig(DEFAULT_DASHBOARD_CONFIG);
+      setConfigErrors([]);
+    }
+  };
+
+  const fetchIssueRanks = async () => {
+    try {
+      const res = await fetch('/api/ranks');
+      if (!res.ok) throw new Error('Failed to fetch issue ranks');
+      const data = await res.json() as IssueRanksResponse;
+      setIssueRanks(data.ranks);
+    } catch (err) {
+      // Keep the last known order; cards fall back to their default order when unranked
+      console.error('Failed to fetch issue ranks:', err);
+    }
+  };
+
+  const fetchSavedViews = async () => {
+    try {
+      const res = await fetch('/api/views');
+      if (!res.ok) throw new Error('Failed to fetch saved views');
+      setSavedViews(await res.json() as SavedViewsResponse);
+    } catch (err) {
+      console.error('Failed to fetch saved views:', err);
+      setSavedViews((prev) => prev ?? { views: [], defaults: {} });
+    }
+  };
+
   useEffect(() => {
     fetchData();
     fetchCurrentProject();
     fetchBeadsHealth();
+    fetchStatusHistory();
+    fetchDashboardConfig();
+    fetchIssueRanks();
+    fetchSavedViews();
 
     const socketInstance = io();
     setSocket(socketInstance);
@@ -90,7 +223,13 @@ function App() {
       fetchData();
       fetchCurrentProject();
       fetchBeadsHealth();
+      fetchStatusHistory();
+      fetchDashboardConfig();
+      fetchIssueRanks();
+      fetchSavedViews();
     });
+    socketInstance.on('ranks-changed', fetchIssueRanks);
+    socketInstance.on('views-changed', fetchSavedViews);
 
     return () => {
       socketInstance.disconnect();
@@ -107,77 +246,402 @@ function App() {
     localStorage.setItem('beads-active-tab', activeTab);
   }, [activeTab]);
 
-  // Keyboard shortcut: "c" for create new issue (like Gmail's compose)
+  // Follow the URL: track the visited tab, send "/" to the last tab, and on
+  // back/forward restore state that lives in the query string
+  useEffect(() => {
+    if (route.view === 'root') {
+      navigate(`/${activeTab}${location.search}`, { replace: true });
+      return;
+    }
+    if (!isAppTab(route.view)) return;
+
+    setActiveTab(route.view);
+    visitedTabsRef.current.add(route.view);
+    // The graph's only state is its URL, so it always follows it
+    if (route.view === 'graph') {
+      graphQueryRef.current = location.search;
+    }
+    if (location.action !== 'pop') return;
+
+    if (route.view === 'table' && location.search !== tableQueryRef.current) {
+      tableQueryRef.current = location.search;
+      setTableKey((key) => key + 1);
+    }
+    if (route.view === 'dashboard') {
+      setDashboardFilters(parseDashboardFilters(location.search));
+      const fromUrl = parseGranularity(location.search);
+      if (fromUrl) setGranularity(fromUrl);
+    }
+  }, [location]);
+
+  // Mirror the dashboard time scale and filters into the URL
+  useEffect(() => {
+    if (route.view === 'dashboard') {
+      navigate(`/dashboard${buildDashboardQuery(granularity, dashboardFilters)}`, { replace: true });
+    }
+  }, [route.view, granularity, dashboardFilters]);
+
+  // Mirror table filters, sort and epic expansion into the URL
+  const handleTableQueryChange = useCallback((query: string) => {
+    tableQueryRef.current = query;
+    if (parseRoute(window.location.pathname).view === 'table') {
+      navigate(`/table${query}`, { replace: true });
+    }
+  }, []);
+
+  // Filter the graph to an epic's subtree (or show everything with null)
+  const handleGraphRootChange = useCallback((epicId: string | null) => {
+    const params = new URLSearchParams();
+    if (epicId) params.set('epic', epicId);
+    navigate(`/graph${toSearch(params)}`, { replace: true });
+  }, []);
+
+  // Tab links keep each tab's query string
+  const tabPath = (tab: AppTab) => {
+    if (tab === 'table') return `/table${tableQueryRef.current}`;
+    if (tab === 'graph') return `/graph${graphQueryRef.current}`;
+    if (tab === 'dashboard') return `/dashboard${buildDashboardQuery(granularity, dashboardFilters)}`;
+    return `/${tab}`;
+  };
+
+  const getDefaultView = (tab: AppTab): SavedView | undefined => {
+    const viewId = isSavedViewTab(tab) ? savedViews?.defaults[tab] : undefined;
+    return viewId ? savedViews?.views.find((view) => view.id === viewId) : undefined;
+  };
+
+  // Show a saved view: its tab, with the filters, sort and columns from its query string.
+  // Table and dashboard state only follow the URL on back/forward, so they're set here too.
+  const applySavedView = useCallback((view: SavedView, replace = false) => {
+    if (view.tab === 'table') {
+      tableQueryRef.current = view.query;
+      setTableKey((key) => key + 1);
+    }
+    if (view.tab === 'dashboard') {
+      setDashboardFilters(parseDashboardFilters(view.query));
+      const fromView = parseGranularity(view.query);
+      if (fromView) setGranularity(fromView);
+    }
+    visitedTabsRef.current.add(view.tab);
+    navigate(`/${view.tab}${view.query}`, { replace });
+  }, []);
+
+  // Switch tabs; the first visit to a tab opens its default view, if it has one
+  const openTab = (tab: AppTab) => {
+    const defaultView = visitedTabsRef.current.has(tab) ? undefined : getDefaultView(tab);
+    if (defaultView) {
+      applySavedView(defaultView);
+    } else {
+      navigate(tabPath(tab));
+    }
+  };
+
+  // Once views load, open the current tab's default view unless the URL already picks a state
+  const defaultViewCheckedRef = useRef(false);
+  useEffect(() => {
+    if (!savedViews || defaultViewCheckedRef.current) return;
+    defaultViewCheckedRef.current = true;
+    const tab = parseRoute(window.location.pathname).view;
+    if (!isAppTab(tab) || window.location.search) return;
+    const defaultView = getDefaultView(tab);
+    if (defaultView) applySavedView(defaultView, true);
+  }, [savedViews]);
+
+  // What the active tab shows now, as a saved view query string (Ready and Board have no saved views)
+  const savedViewTab = isSavedViewTab(activeTab) ? activeTab : null;
+  const currentViewQuery = tabPath(activeTab).slice(activeTab.length + 1);
+  const currentView = savedViews?.views.find((view) => view.tab === savedViewTab && view.query === currentViewQuery) ?? null;
+
+  const handleSaveView = async (name: string) => {
+    if (!savedViewTab) return;
+    const view = await createSavedView({ name, tab: savedViewTab, query: currentViewQuery });
+    setSavedViews((prev) => prev && { ...prev, views: [...prev.views, view] });
+  };
+
+  const handleOverwriteView = async (view: SavedView) => {
+    const updated = await updateSavedView(view.id, { query: currentViewQuery });
+    setSavedViews((prev) => prev && { ...prev, views: prev.views.map((v) => (v.id === updated.id ? updated : v)) });
+  };
+
+  const handleDeleteView = async (view: SavedView) => {
+    await deleteSavedView(view.id);
+    fetchSavedViews();
+  };
+
+  const handleToggleDefaultView = async (view: SavedView) => {
+    const isDefault = savedViews?.defaults[view.tab] === view.id;
+    setSavedViews(await setDefaultView(view.tab, isDefault ? null : view.id));
+  };
+
+  // Leave an /issue/:id or /epic/:id page: back if we came from this app, else the last tab
+  const leaveDetailRoute = useCallback(() => {
+    if (canGoBack()) {
+      window.history.back();
+    } else {
+      navigate(`/${activeTab}`, { replace: true });
+    }
+  }, [activeTab]);
+
+  // Writes are refused server-side while Beads health is read-only
+  const readOnly = beadsHealth?.readOnly ?? false;
+
+  // SearchBar focus callback ref
+  const searchFocusCallback = useRef<((query?: string) => void) | null>(null);
+
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false);
+  // Row or card with keyboard focus in the table or board; palette issue actions apply to it
+  const [focusedIssueId, setFocusedIssueId] = useState<string | null>(null);
+  const handleFocusedIssueChange = useCallback((issue: Issue | null) => {
+    setFocusedIssueId(issue?.id ?? null);
+  }, []);
+  // Issue the palette is closing, while the close reason is asked for
+  const [paletteCloseIssue, setPaletteCloseIssue] = useState<Issue | null>(null);
+  // Failure of a palette action that finished after the palette closed
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Registered projects, loaded when the palette opens
+  const [paletteProjects, setPaletteProjects] = useState<BeadsProject[]>([]);
+
+  useEffect(() => {
+    if (!paletteOpen) return;
+    fetchProjects()
+      .then(setPaletteProjects)
+      .catch((err) => console.error('Failed to fetch projects:', err));
+  }, [paletteOpen]);
+
+  // Keyboard shortcuts: Ctrl/Cmd-K for the palette anywhere, plus single keys
+  // ("c" to create, like Gmail's compose) when not typing
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Skip if in input/textarea or if modifiers are pressed
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) {
+      if ((e.metaKey || e.ctrlKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
         return;
       }
-      if (e.metaKey || e.ctrlKey || e.altKey) {
+      if (shouldIgnoreShortcut(e)) {
         return;
       }
 
-      // "c" for create new issue
-      if (e.key === 'c') {
+      if (e.key === '?') {
+        e.preventDefault();
+        setShortcutHelpOpen(true);
+      } else if (e.key === '/' && searchFocusCallback.current) {
         e.preventDefault();
-        setCreateModalOpen(true);
+        searchFocusCallback.current();
+      } else if (e.key === 'c' && !readOnly) {
+        // "c" for create new issue, as a quick-add line in the search bar
+        e.preventDefault();
+        if (searchFocusCallback.current) {
+          searchFocusCallback.current(QUICK_ADD_PREFIX);
+        } else {
+          setCreateModalOpen(true);
+        }
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  }, [readOnly]);
 
-  // SearchBar focus callback ref
-  const searchFocusCallback = useRef<(() => void) | null>(null);
+  // Open an issue in the global modal via its shareable /issue/:id route
+  const handleOpenIssue = useCallback((issue: Issue) => {
+    navigate(routePath({ view: 'issue', id: issue.id }));
+  }, []);
 
-  // Handle search selection (open in global modal)
-  const handleSearchSelect = useCallback((issue: Issue) => {
-    setGlobalModalIssue(issue);
+  // List every search result in the issue table, best match first
+  const handleSeeAllSearchResults = useCallback((search: string) => {
+    const query = buildSearchResultsQuery(search);
+    tableQueryRef.current = query;
+    setTableKey((key) => key + 1);
+    navigate(`/table${query}`);
   }, []);
 
-  // Handle issue creation
-  const handleCreateIssue = useCallback(async (data: CreateIssueRequest) => {
-    const res = await fetch('/api/issues', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
-    });
+  // Open the burnup page for an epic (from the epics view or the editor modal)
+  const handleOpenEpic = useCallback((epicId: string) => {
+    navigate(routePath({ view: 'epic', id: epicId }), { replace: route.view === 'issue' });
+  }, [route.view]);
 
-    if (!res.ok) {
-      const error = await res.json();
-      throw new Error(error.error || 'Failed to create issue');
-    }
+  // Prefilled fields for the creator modal, e.g. from a quick-add line
+  const [createInitialValues, setCreateInitialValues] = useState<CreateIssueRequest | undefined>(undefined);
 
-    setCreateModalOpen(false);
-    // Data will refresh via socket
+  const openCreateModal = useCallback((initialValues?: CreateIssueRequest) => {
+    setCreateInitialValues(initialValues);
+    setCreateModalOpen(true);
   }, []);
 
-  // Handle issue save (for global modal)
-  const handleIssueSave = useCallback(async (updates: Partial<Issue>) => {
-    if (!globalModalIssue) return;
+  // Quick-add from the search bar: create, then open the new issue once it's loaded
+  const handleQuickAdd = useCallback(async (request: CreateIssueRequest) => {
+    const result = await createIssue(request);
+    if (result.id) {
+      await fetchData();
+      navigate(routePath({ view: 'issue', id: result.id }));
+    }
+    return result;
+  }, []);
 
-    const res = await fetch(`/api/issues/${globalModalIssue.id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updates),
-    });
+  // Handle issue save (for global modal): shown straight away, put back if the save fails
+  const handleIssueSave = useCallback(async (updates: Partial<Issue>, expectedUpdatedAt?: string) => {
+    if (!globalModalIssue) return;
+    const previous = globalModalIssue;
 
-    if (!res.ok) {
-      const error = await res.json();
-      throw new Error(error.error || 'Failed to update issue');
+    setParsedIssues((prev) => prev.map((i) => (i.id === previous.id ? applyIssueUpdates(i, updates) : i)));
+    try {
+      // Keep the issue as saved so its new updated_at is used before the refresh arrives
+      const saved = await saveIssueUpdates(previous.id, updates, expectedUpdatedAt);
+      if (saved) setParsedIssues((prev) => prev.map((i) => (i.id === previous.id ? saved : i)));
+    } catch (err) {
+      // A conflict brings the issue as it is now; show that instead
+      const restored = err instanceof IssueConflictError ? err.issue : previous;
+      setParsedIssues((prev) => prev.map((i) => (i.id === previous.id ? restored : i)));
+      throw err;
     }
 
-    setGlobalModalIssue(null);
+    leaveDetailRoute();
     // Data will refresh via socket
-  }, [globalModalIssue]);
+  }, [globalModalIssue, leaveDetailRoute]);
+
+  // An issue as saved, kept until the refresh brings it anyway
+  const handleIssueUpdated = useCallback((issue: Issue) => {
+    setParsedIssues((prev) => prev.map((i) => (i.id === issue.id ? issue : i)));
+  }, []);
+
+  // Single-field changes from the palette, checked against the issue as shown.
+  // A conflict shows the issue as it is now and rejects, so the palette reports it.
+  const saveIssueChange = useCallback(async (save: () => Promise<Issue | undefined>) => {
+    try {
+      const saved = await save();
+      if (saved) handleIssueUpdated(saved);
+    } catch (err) {
+      if (err instanceof IssueConflictError) handleIssueUpdated(err.issue);
+      throw err;
+    }
+  }, [handleIssueUpdated]);
+
+  const handlePaletteClose = async (reason: string) => {
+    if (!paletteCloseIssue) return;
+    const issue = paletteCloseIssue;
+    setPaletteCloseIssue(null);
+    try {
+      await saveIssueChange(() => setIssueStatus(issue.id, 'closed', reason || undefined, issue.updated_at));
+    } catch (err) {
+      setActionError(`Failed to close ${issue.id}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
 
   // Extract project name from current project path
   const projectName = currentProjectPath
     ? currentProjectPath.split('/').pop() || 'Unknown'
     : '';
 
+  // Everything the palette offers; issue actions apply to the open issue, else the focused row or card
+  const buildPaletteCommands = (): PaletteCommand[] => {
+    const commands: PaletteCommand[] = (Object.keys(TAB_LABELS) as AppTab[]).map((tab) => ({
+      id: `tab:${tab}`,
+      label: `Go to ${TAB_LABELS[tab]}`,
+      group: 'Navigation',
+      run: () => openTab(tab),
+    }));
+
+    if (!readOnly) {
+      commands.push(
+        { id: 'create', label: 'New issue', group: 'Issues', keywords: 'create add', run: () => openCreateModal() },
+        {
+          id: 'quick-add',
+          label: 'Quick-add issue',
+          group: 'Issues',
+          keywords: 'create',
+          shortcut: 'c',
+          run: () => searchFocusCallback.current?.(QUICK_ADD_PREFIX),
+        }
+      );
+    }
+    commands.push(
+      { id: 'search', label: 'Search issues', group: 'Issues', shortcut: '/', run: () => searchFocusCallback.current?.() },
+      { id: 'views', label: 'Open saved views', group: 'Views', run: () => setSavedViewsOpen(true) },
+      ...(savedViews?.views ?? []).map((view) => ({
+        id: `view:${view.id}`,
+        label: `Apply view: ${view.name}`,
+        group: `Views · ${TAB_LABELS[view.tab]}`,
+        run: () => applySavedView(view),
+      })),
+      ...GRANULARITY_OPTIONS.map((option) => ({
+        id: `granularity:${option.value}`,
+        label: `Time scale: ${option.label}`,
+        group: 'Dashboard',
+        keywords: 'granularity',
+        run: () => {
+          setGranularity(option.value);
+          if (activeTab !== 'dashboard' || epicDetailId) openTab('dashboard');
+        },
+      })),
+      ...paletteProjects
+        .filter((project) => project.path !== currentProjectPath)
+        .map((project) => ({
+          id: `project:${project.path}`,
+          label: `Switch to project: ${project.name}`,
+          group: 'Projects',
+          keywords: project.path,
+          run: () => switchProject(project.path),
+        }))
+    );
+
+    const target = globalModalIssue ?? parsedIssues.find((issue) => issue.id === focusedIssueId);
+    if (target) {
+      const group = `Issue ${target.id}`;
+      if (!globalModalIssue) {
+        commands.push({ id: 'issue:open', label: 'Open issue', group, run: () => handleOpenIssue(target) });
+      }
+      commands.push({
+        id: 'issue:copy-id',
+        label: 'Copy issue ID',
+        group,
+        run: () => navigator.clipboard.writeText(target.id),
+      });
+      if (!readOnly) {
+        const assignees = [...new Set(parsedIssues.map((issue) => issue.assignee).filter((name): name is string => !!name))].sort();
+        commands.push(
+          ...PALETTE_STATUSES.filter((status) => status !== target.status).map((status) => ({
+            id: `issue:status:${status}`,
+            label: `Set status: ${status.replace('_', ' ')}`,
+            group,
+            // Closing asks for a reason first, as everywhere else
+            run: () => status === 'closed'
+              ? setPaletteCloseIssue(target)
+              : saveIssueChange(() => setIssueStatus(target.id, status, undefined, target.updated_at)),
+          })),
+          ...([0, 1, 2, 3, 4] as Priority[]).filter((priority) => priority !== target.priority).map((priority) => ({
+            id: `issue:priority:${priority}`,
+            label: `Set priority: P${priority} - ${PRIORITY_LABELS[priority]}`,
+            group,
+            run: () => saveIssueChange(() => saveIssueUpdates(target.id, { priority }, target.updated_at)),
+          })),
+          ...assignees.filter((name) => name !== target.assignee).map((name) => ({
+            id: `issue:assignee:${name}`,
+            label: `Assign to ${name}`,
+            group,
+            run: () => saveIssueChange(() => saveIssueUpdates(target.id, { assignee: name }, target.updated_at)),
+          }))
+        );
+        if (target.assignee) {
+          commands.push({
+            id: 'issue:unassign',
+            label: 'Unassign',
+            group,
+            run: () => saveIssueChange(() => saveIssueUpdates(target.id, { assignee: '' }, target.updated_at)),
+          });
+        }
+      }
+    }
+
+    commands.push({
+      id: 'shortcuts',
+      label: 'Show keyboard shortcuts',
+      group: 'Help',
+      shortcut: '?',
+      run: () => setShortcutHelpOpen(true),
+    });
+    return commands;
+  };
+
   // Filter out tombstones for display count
   const activeIssuesCount = parsedIssues.filter((i) => i.status !== 'tombstone').length;
 
@@ -209,56 +673,130 @@ function App() {
         {/* Search + Create row */}
         <div className="flex items-center gap-4 mb-4">
           <SearchBar
-            issues={parsedIssues}
-            onSelectIssue={handleSearchSelect}
+            onSelectIssue={handleOpenIssue}
+            onSeeAllResults={handleSeeAllSearchResults}
+            onQuickAdd={readOnly ? undefined : handleQuickAdd}
+            onOpenCreateForm={readOnly ? undefined : openCreateModal}
             onFocusRequest={(focusFn) => { searchFocusCallback.current = focusFn; }}
           />
-          <NewIssueButton onClick={() => setCreateModalOpen(true)} />
+          <NewIssueButton onClick={() => openCreateModal()} disabled={readOnly} />
         </div>
 
         <BeadsHealthBanner health={beadsHealth} />
 
-        {/* Tabs - Premium segmented control style */}
-        <div className="inline-flex p-1 bg-slate-100 rounded-lg" role="tablist">
-          <button
-            role="tab"
-            aria-selected={activeTab === 'table'}
-            className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
-              activeTab === 'table'
-                ? 'bg-white text-slate-900 shadow-sm'
-                : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
-            }`}
-            onClick={() => setActiveTab('table')}
-          >
-            Issues
-          </button>
-          <button
-            role="tab"
-            aria-selected={activeTab === 'board'}
-            className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
-              activeTab === 'board'
-                ? 'bg-white text-slate-900 shadow-sm'
-                : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
-            }`}
-            onClick={() => setActiveTab('board')}
-          >
-            Board
-          </button>
+        {configErrors.length > 0 && (
+          <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-950" role="alert">
+            <p className="font-semibold mb-1">Problems in .beads/dashboard.json (defaults are used instead)</p>
+            <ul className="list-disc pl-5 space-y-0.5">
+              {configErrors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {actionError && (
+          <div className="mb-6 p-3 bg-red-100 border border-red-200 text-red-700 text-sm rounded-lg flex items-center justify-between" role="alert">
+            <span>{actionError}</span>
+            <button onClick={() => setActionError(null)} className="text-red-500 hover:text-red-700" aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          {/* Tabs - Premium segmented control style */}
+          <div className="inline-flex p-1 bg-slate-100 rounded-lg" role="tablist">
+            <button
+              role="tab"
+              aria-selected={activeTab === 'table' && !epicDetailId}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+                activeTab === 'table' && !epicDetailId
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
+              }`}
+              onClick={() => openTab('table')}
+            >
+              Issues
+            </button>
+            <button
+              role="tab"
+              aria-selected={activeTab === 'ready' && !epicDetailId}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+                activeTab === 'ready' && !epicDetailId
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
+              }`}
+              onClick={() => openTab('ready')}
+            >
+              Ready
+            </button>
+            <button
+              role="tab"
+              aria-selected={activeTab === 'board' && !epicDetailId}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+                activeTab === 'board' && !epicDetailId
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
+              }`}
+              onClick={() => openTab('board')}
+            >
+              Board
+            </button>
+            <button
+              role="tab"
+              aria-selected={activeTab === 'dashboard' && !epicDetailId}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+                activeTab === 'dashboard' && !epicDetailId
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
+              }`}
+              onClick={() => openTab('dashboard')}
+            >
+              Dashboard
+            </button>
+            <button
+              role="tab"
+              aria-selected={activeTab === 'graph' && !epicDetailId}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
+                activeTab === 'graph' && !epicDetailId
+                  ? 'bg-white text-slate-900 shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
+              }`}
+              onClick={() => openTab('graph')}
+            >
+              Graph
+            </button>
+          </div>
           <button
-            role="tab"
-            aria-selected={activeTab === 'dashboard'}
-            className={`px-4 py-2 text-sm font-medium rounded-md transition-all duration-200 ${
-              activeTab === 'dashboard'
-                ? 'bg-white text-slate-900 shadow-sm'
-                : 'text-slate-600 hover:text-slate-900 hover:bg-slate-50'
-            }`}
-            onClick={() => setActiveTab('dashboard')}
+            onClick={() => setSavedViewsOpen(true)}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-600 rounded-md border border-slate-200 hover:bg-slate-50 hover:text-slate-900"
+            aria-haspopup="dialog"
           >
-            Dashboard
+            <Bookmark className="w-4 h-4" aria-hidden="true" />
+            Views
+            {currentView && !epicDetailId && <span className="text-slate-400">· {currentView.name}</span>}
           </button>
         </div>
       </header>
 
+      {savedViewsOpen && savedViews && (
+        <SavedViewsSidebar
+          savedViews={savedViews}
+          activeTab={savedViewTab}
+          currentViewId={currentView?.id ?? null}
+          onApply={(view) => {
+            applySavedView(view);
+            setSavedViewsOpen(false);
+          }}
+          onSave={handleSaveView}
+          onOverwrite={handleOverwriteView}
+          onDelete={handleDeleteView}
+          onToggleDefault={handleToggleDefaultView}
+          onClose={() => setSavedViewsOpen(false)}
+        />
+      )}
+
       {loading && !parsedIssues.length ? (
         <div className="card py-20 text-center">
           <div className="inline-flex flex-col items-center gap-4">
@@ -285,7 +823,7 @@ function App() {
             </button>
           </div>
         </div>
-      ) : !metrics ? (
+      ) : activeIssuesCount === 0 ? (
         <div className="card border-dashed border-2 py-16 text-center">
           <div className="inline-flex flex-col items-center gap-4">
             <div className="w-16 h-16 rounded-full bg-slate-100 flex items-center justify-center">
@@ -298,40 +836,115 @@ function App() {
               <p className="text-slate-500 text-sm">Get started by creating your first issue</p>
             </div>
             <button
-              onClick={() => setCreateModalOpen(true)}
-              className="mt-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors"
+              onClick={() => openCreateModal()}
+              disabled={readOnly}
+              className="mt-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Create First Issue
             </button>
           </div>
         </div>
+      ) : epicDetailId ? (
+        <EpicDetailView
+          epicId={epicDetailId}
+          issues={parsedIssues}
+          history={statusHistory}
+          onBack={leaveDetailRoute}
+          onOpenIssue={handleOpenIssue}
+        />
+      ) : route.view === 'issue' && !globalModalIssue ? (
+        <div className="card py-16 text-center">
+          <p className="text-slate-700 font-medium mb-3">Issue {route.id} was not found</p>
+          <button
+            onClick={() => navigate(`/${activeTab}`, { replace: true })}
+            className="text-sm text-blue-600 hover:text-blue-700 underline underline-offset-2"
+          >
+            Back to {activeTab === 'table' ? 'issues' : activeTab}
+          </button>
+        </div>
       ) : activeTab === 'table' ? (
-        <TableView issues={parsedIssues} />
+        <TableView
+          key={tableKey}
+          issues={parsedIssues}
+          readOnly={readOnly}
+          onOpenEpic={handleOpenEpic}
+          onOpenIssue={handleOpenIssue}
+          query={tableQueryRef.current}
+          onQueryChange={handleTableQueryChange}
+          ranks={issueRanks}
+          onFocusedIssueChange={handleFocusedIssueChange}
+          onIssueUpdated={handleIssueUpdated}
+        />
       ) : activeTab === 'board' ? (
-        <KanbanBoard issues={parsedIssues} />
+        <KanbanBoard
+          issues={parsedIssues}
+          readOnly={readOnly}
+          onOpenEpic={handleOpenEpic}
+          onOpenIssue={handleOpenIssue}
+          columns={dashboardConfig.board.columns}
+          ranks={issueRanks}
+          onFocusedIssueChange={handleFocusedIssueChange}
+        />
+      ) : activeTab === 'ready' ? (
+        <ReadyView issues={parsedIssues} onOpenIssue={handleOpenIssue} />
+      ) : activeTab === 'graph' ? (
+        <DependencyGraphView
+          issues={parsedIssues}
+          rootEpicId={graphRootEpicId}
+          onRootEpicChange={handleGraphRootChange}
+          onOpenIssue={handleOpenIssue}
+        />
       ) : (
         <DashboardView
           metrics={metrics}
+          issues={parsedIssues}
           granularity={granularity}
           onGranularityChange={setGranularity}
+          filters={dashboardFilters}
+          onFiltersChange={setDashboardFilters}
+          boardColumns={dashboardConfig.board.columns}
         />
       )}
 
       {/* Global modals (overlay layer, per arch review) */}
       {globalModalIssue && (
         <IssueEditorModal
+          key={globalModalIssue.id}
           issue={globalModalIssue}
           allIssues={parsedIssues}
-          onClose={() => setGlobalModalIssue(null)}
+          onClose={leaveDetailRoute}
           onSave={handleIssueSave}
+          readOnly={readOnly}
+          onOpenEpic={handleOpenEpic}
+          onOpenIssue={handleOpenIssue}
         />
       )}
       {createModalOpen && (
         <IssueCreatorModal
           onClose={() => setCreateModalOpen(false)}
-          onCreate={handleCreateIssue}
+          onCreate={createIssue}
+          initialValues={createInitialValues}
+          allIssues={parsedIssues}
+          templates={dashboardConfig.templates}
+        />
+      )}
+      {paletteOpen && (
+        <CommandPalette
+          commands={buildPaletteCommands()}
+          issues={parsedIssues}
+          onOpenIssue={handleOpenIssue}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+      {paletteCloseIssue && (
+        <CloseIssueDialog
+          title={`Close ${paletteCloseIssue.id}`}
+          subtitle={paletteCloseIssue.title || 'Untitled'}
+          onConfirm={handlePaletteClose}
+          onCancel={() => setPaletteCloseIssue(null)}
         />
       )}
+      {shortcutHelpOpen && <ShortcutHelp onClose={() => setShortcutHelpOpen(false)} />}
     </div>
   );
 }
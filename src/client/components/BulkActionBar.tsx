@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Check, X, Tag, UserRound } from 'lucide-react';
+import type { BulkIssueUpdates, Issue, IssueStatus, Priority } from '@shared/types';
+import { PRIORITY_LABELS } from '@shared/types';
+import CloseIssueDialog from './CloseIssueDialog';
+
+const BULK_STATUSES: IssueStatus[] = ['open', 'in_progress', 'blocked', 'deferred'];
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // All issues, used to offer existing labels, assignees and epics
+  issues: Issue[];
+  onApply: (updates: BulkIssueUpdates) => Promise<void>;
+  onClearSelection: () => void;
+  busy: boolean;
+  disabled?: boolean;
+  error: string | null;
+}
+
+function BulkActionBar({ selectedCount, issues, onApply, onClearSelection, busy, disabled = false, error }: BulkActionBarProps) {
+  const [assignee, setAssignee] = useState('');
+  const [label, setLabel] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  const activeIssues = issues.filter((i) => i.status !== 'tombstone');
+  const epics = activeIssues.filter((i) => i.issue_type === 'epic' && i.status !== 'closed');
+  const knownAssignees = Array.from(new Set(activeIssues.map((i) => i.assignee).filter(Boolean) as string[])).sort();
+  const knownLabels = Array.from(new Set(activeIssues.flatMap((i) => i.labels || []))).sort();
+
+  const isDisabled = busy || disabled;
+  const selectClass = 'px-2 py-1 bg-white border border-slate-300 rounded text-xs text-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+  const inputClass = 'w-28 px-2 py-1 bg-white border border-slate-300 rounded text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+  const buttonClass = 'px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50';
+
+  const handleCloseConfirm = async (reason: string) => {
+    setClosing(false);
+    await onApply({ status: 'closed', close_reason: reason || undefined });
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-blue-200 bg-blue-50/70" data-testid="bulk-action-bar">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-xs font-semibold text-blue-800">
+          {selectedCount} selected
+        </span>
+
+        {/* Status */}
+        <select
+          aria-label="Set status"
+          value=""
+          disabled={isDisabled}
+          onChange={(e) => e.target.value && onApply({ status: e.target.value as IssueStatus })}
+          className={selectClass}
+        >
+          <option value="">Status…</option>
+          {BULK_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+
+        {/* Priority */}
+        <select
+          aria-label="Set priority"
+          value=""
+          disabled={isDisabled}
+          onChange={(e) => e.target.value && onApply({ priority: Number(e.target.value) as Priority })}
+          className={selectClass}
+        >
+          <option value="">Priority…</option>
+          {([0, 1, 2, 3, 4] as Priority[]).map((priority) => (
+            <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+          ))}
+        </select>
+
+        {/* Parent epic */}
+        <select
+          aria-label="Set parent epic"
+          value=""
+          disabled={isDisabled}
+          onChange={(e) => {
+            if (!e.target.value) return;
+            onApply({ parent_id: e.target.value === '__none__' ? null : e.target.value });
+          }}
+          className={`${selectClass} max-w-[180px]`}
+        >
+          <option value="">Parent epic…</option>
+          <option value="__none__">No parent</option>
+          {epics.map((epic) => (
+            <option key={epic.id} value={epic.id}>{epic.id}: {epic.title || 'Untitled'}</option>
+          ))}
+        </select>
+
+        {/* Assignee */}
+        <div className="flex items-center gap-1">
+          <UserRound className="w-3.5 h-3.5 text-slate-400" aria-hidden="true" />
+          <input
+            type="text"
+            list="bulk-assignees"
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            placeholder="Assignee"
+            aria-label="Assignee"
+            disabled={isDisabled}
+            className={inputClass}
+          />
+          <datalist id="bulk-assignees">
+            {knownAssignees.map((name) => <option key={name} value={name} />)}
+          </datalist>
+          <button
+            onClick={async () => {
+              await onApply({ assignee: assignee.trim() });
+              setAssignee('');
+            }}
+            disabled={isDisabled}
+            className={`${buttonClass} bg-white border border-slate-300 text-slate-700 hover:bg-slate-50`}
+            title={assignee.trim() ? `Assign to ${assignee.trim()}` : 'Clear assignee'}
+          >
+            {assignee.trim() ? 'Assign' : 'Unassign'}
+          </button>
+        </div>
+
+        {/* Labels */}
+        <div className="flex items-center gap-1">
+          <Tag className="w-3.5 h-3.5 text-slate-400" aria-hidden="true" />
+          <input
+            type="text"
+            list="bulk-labels"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label"
+            aria-label="Label"
+            disabled={isDisabled}
+            className={inputClass}
+          />
+          <datalist id="bulk-labels">
+            {knownLabels.map((name) => <option key={name} value={name} />)}
+          </datalist>
+          <button
+            onClick={async () => {
+              await onApply({ add_labels: [label.trim()] });
+              setLabel('');
+            }}
+            disabled={isDisabled || !label.trim()}
+            className={`${buttonClass} bg-white border border-slate-300 text-slate-700 hover:bg-slate-50`}
+          >
+            Add
+          </button>
+          <button
+            onClick={async () => {
+              await onApply({ remove_labels: [label.trim()] });
+              setLabel('');
+            }}
+            disabled={isDisabled || !label.trim()}
+            className={`${buttonClass} bg-white border border-slate-300 text-slate-700 hover:bg-slate-50`}
+          >
+            Remove
+          </button>
+        </div>
+
+        {/* Close with reason */}
+        <button
+          onClick={() => setClosing(true)}
+          disabled={isDisabled}
+          className={`${buttonClass} inline-flex items-center gap-1 bg-white border border-green-300 text-green-700 hover:bg-green-50`}
+        >
+          <Check className="w-3.5 h-3.5" />
+          Close…
+        </button>
+
+        {busy && (
+          <span className="w-3.5 h-3.5 border-2 border-blue-300 border-t-blue-600 rounded-full animate-spin" aria-label="Updating" />
+        )}
+
+        <button
+          onClick={onClearSelection}
+          disabled={busy}
+          className="ml-auto p-1 text-slate-400 hover:text-slate-600 rounded"
+          title="Clear selection"
+          aria-label="Clear selection"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-2 text-xs text-red-600" role="alert">{error}</p>
+      )}
+
+      {closing && (
+        <CloseIssueDialog
+          title={`Close ${selectedCount} ${selectedCount === 1 ? 'issue' : 'issues'}`}
+          onConfirm={handleCloseConfirm}
+          onCancel={() => setClosing(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default BulkActionBar;
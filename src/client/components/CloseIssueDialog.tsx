@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { CheckCircle2 } from 'lucide-react';
+
+// One-click reasons for the most common ways work gets closed
+export const COMMON_CLOSE_REASONS = ['Done', 'Duplicate', "Won't fix", 'Obsolete'];
+
+interface CloseIssueDialogProps {
+  // e.g. "Close beads-123" or "Close 4 issues"
+  title: string;
+  subtitle?: string;
+  onConfirm: (reason: string) => void | Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * CloseIssueDialog - Asks for an optional close reason before closing.
+ * The reason is passed to bd close --reason; an empty reason closes without one.
+ */
+function CloseIssueDialog({ title, subtitle, onConfirm, onCancel }: CloseIssueDialogProps) {
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      await onConfirm(reason.trim());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+      onKeyDown={(e) => {
+        // Keep Escape from also closing an editor modal underneath
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="close-issue-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="p-5 border-b border-slate-100 flex items-start gap-3">
+          <CheckCircle2 className="w-5 h-5 text-green-600 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          <div className="min-w-0">
+            <h2 id="close-issue-dialog-title" className="text-base font-semibold text-slate-900">{title}</h2>
+            {subtitle && <p className="text-sm text-slate-500 truncate">{subtitle}</p>}
+          </div>
+        </div>
+
+        <div className="p-5 space-y-3">
+          <label htmlFor="close-reason" className="block text-xs font-medium text-slate-500 uppercase tracking-wide">
+            Reason (optional)
+          </label>
+          <textarea
+            id="close-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                e.preventDefault();
+                handleConfirm();
+              }
+            }}
+            rows={3}
+            placeholder="Why is this being closed?"
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            autoFocus
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {COMMON_CLOSE_REASONS.map((suggestion) => (
+              <button
+                key={suggestion}
+                type="button"
+                onClick={() => setReason(suggestion)}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium border transition-colors ${
+                  reason === suggestion
+                    ? 'bg-green-50 border-green-300 text-green-700'
+                    : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'
+                }`}
+              >
+                {suggestion}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 rounded-b-lg flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={submitting}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={submitting}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {submitting ? 'Closing...' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CloseIssueDialog;
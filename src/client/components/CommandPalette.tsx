@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CornerDownLeft, FileText, Search, Zap } from 'lucide-react';
+import type { Issue } from '@shared/types';
+import { fuzzyScore, rankCommands } from '../utils/commandPalette';
+import type { PaletteCommand } from '../utils/commandPalette';
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  // Searched by ID and title once something is typed
+  issues: Issue[];
+  onOpenIssue: (issue: Issue) => void;
+  onClose: () => void;
+}
+
+// Most results shown per section
+const MAX_RESULTS = 8;
+
+/**
+ * CommandPalette - Ctrl/Cmd-K overlay that fuzzy-searches actions and
+ * issues. Arrow keys move through the results and Enter runs one.
+ */
+function CommandPalette({ commands, issues, onOpenIssue, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const matchingCommands = useMemo(() => rankCommands(query, commands).slice(0, MAX_RESULTS), [query, commands]);
+  const matchingIssues = useMemo(() => {
+    if (!query.trim()) return [];
+    return issues
+      .filter((issue) => issue.status !== 'tombstone')
+      .map((issue) => ({ issue, score: fuzzyScore(query, `${issue.id} ${issue.title}`) }))
+      .filter((entry): entry is { issue: Issue; score: number } => entry.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS)
+      .map((entry) => entry.issue);
+  }, [query, issues]);
+  const resultCount = matchingCommands.length + matchingIssues.length;
+
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${highlightedIndex}"]`)
+      ?.scrollIntoView?.({ block: 'nearest' });
+  }, [highlightedIndex]);
+
+  const runCommand = async (command: PaletteCommand) => {
+    setRunning(true);
+    setError(null);
+    try {
+      await command.run();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Command failed');
+      setRunning(false);
+    }
+  };
+
+  const openIssue = (issue: Issue) => {
+    onClose();
+    onOpenIssue(issue);
+  };
+
+  const runHighlighted = () => {
+    if (highlightedIndex < matchingCommands.length) {
+      runCommand(matchingCommands[highlightedIndex]);
+    } else if (matchingIssues[highlightedIndex - matchingCommands.length]) {
+      openIssue(matchingIssues[highlightedIndex - matchingCommands.length]);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlightedIndex((prev) => (resultCount === 0 ? 0 : (prev + 1) % resultCount));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex((prev) => (resultCount === 0 ? 0 : (prev - 1 + resultCount) % resultCount));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (!running) runHighlighted();
+    } else if (e.key === 'Escape') {
+      // Keep Escape from also closing an editor modal underneath
+      e.stopPropagation();
+      onClose();
+    }
+  };
+
+  const optionClassName = (index: number) =>
+    `flex items-center gap-3 px-4 py-2 cursor-pointer text-sm ${
+      index === highlightedIndex ? 'bg-blue-50 text-slate-900' : 'text-slate-700'
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-start justify-center bg-black/40 p-4 pt-[15vh]"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Command palette"
+    >
+      <div className="w-full max-w-xl bg-white rounded-lg shadow-xl overflow-hidden animate-in zoom-in-95 duration-150">
+        <div className="relative border-b border-slate-200">
+          <Search className="absolute left-4 top-3.5 h-4 w-4 text-slate-400" aria-hidden="true" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or search issues..."
+            className="w-full pl-11 pr-4 py-3 text-sm focus:outline-none"
+            role="combobox"
+            aria-expanded={resultCount > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={resultCount > 0 ? `command-palette-option-${highlightedIndex}` : undefined}
+            aria-label="Command"
+          />
+        </div>
+
+        {error && <p className="px-4 py-2 text-xs text-red-600 border-b border-slate-100" role="alert">{error}</p>}
+
+        <ul ref={listRef} id="command-palette-results" role="listbox" className="max-h-96 overflow-y-auto py-2">
+          {resultCount === 0 && <li className="px-4 py-6 text-center text-sm text-slate-400">No matches</li>}
+
+          {matchingCommands.length > 0 && (
+            <li role="presentation" className="px-4 pt-1 pb-1 text-xs font-semibold text-slate-400 uppercase tracking-wide">
+              Actions
+            </li>
+          )}
+          {matchingCommands.map((command, index) => (
+            <li
+              key={command.id}
+              id={`command-palette-option-${index}`}
+              data-index={index}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              className={optionClassName(index)}
+              onClick={() => !running && runCommand(command)}
+              onMouseEnter={() => setHighlightedIndex(index)}
+            >
+              <Zap className="w-4 h-4 text-slate-400 flex-shrink-0" aria-hidden="true" />
+              <span className="flex-1 truncate">{command.label}</span>
+              <span className="text-xs text-slate-400 truncate max-w-[10rem]">{command.group}</span>
+              {command.shortcut && (
+                <kbd className="px-1.5 py-0.5 text-xs font-mono text-slate-500 bg-slate-100 border border-slate-200 rounded">
+                  {command.shortcut}
+                </kbd>
+              )}
+            </li>
+          ))}
+
+          {matchingIssues.length > 0 && (
+            <li role="presentation" className="px-4 pt-3 pb-1 text-xs font-semibold text-slate-400 uppercase tracking-wide">
+              Issues
+            </li>
+          )}
+          {matchingIssues.map((issue, issueIndex) => {
+            const index = matchingCommands.length + issueIndex;
+            return (
+              <li
+                key={issue.id}
+                id={`command-palette-option-${index}`}
+                data-index={index}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                className={optionClassName(index)}
+                onClick={() => openIssue(issue)}
+                onMouseEnter={() => setHighlightedIndex(index)}
+              >
+                <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" aria-hidden="true" />
+                <span className="font-mono text-xs text-slate-500 flex-shrink-0">{issue.id}</span>
+                <span className="flex-1 truncate">{issue.title || 'Untitled'}</span>
+                <span className="text-xs text-slate-400">{issue.status.replace('_', ' ')}</span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex items-center gap-3 px-4 py-2 border-t border-slate-100 text-xs text-slate-400">
+          <span className="flex items-center gap-1">
+            <CornerDownLeft className="w-3 h-3" aria-hidden="true" /> to run
+          </span>
+          <span>↑↓ to move</span>
+          <span>Esc to close</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CommandPalette;
@@ -0,0 +1,26 @@
+import type { ForecastPoint } from '@shared/types';
+import { CONFIDENCE_COLORS } from '@/utils/forecasting';
+
+interface ConfidenceRowProps {
+  point: ForecastPoint;
+  children: React.ReactNode;
+}
+
+/**
+ * One forecast outcome in a list, badged with its confidence level
+ */
+function ConfidenceRow({ point, children }: ConfidenceRowProps) {
+  return (
+    <li className="flex items-center gap-2 text-sm">
+      <span
+        className="inline-block w-12 text-center text-xs font-bold rounded px-1.5 py-0.5 text-white"
+        style={{ backgroundColor: CONFIDENCE_COLORS[point.confidence] }}
+      >
+        {point.confidence}%
+      </span>
+      <span className="text-slate-700">{children}</span>
+    </li>
+  );
+}
+
+export default ConfidenceRow;
@@ -0,0 +1,226 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, Filter, X } from 'lucide-react';
+import type { DashboardFilters, Issue, Priority } from '@shared/types';
+import { PRIORITY_LABELS } from '@shared/types';
+import { EMPTY_DASHBOARD_FILTERS, hasDashboardFilters } from '@/utils/dashboardFilters';
+
+const PRIORITIES: Priority[] = [0, 1, 2, 3, 4];
+
+interface DashboardFilterBarProps {
+  // All issues, used to offer existing labels, types, assignees and epics
+  issues: Issue[];
+  filters: DashboardFilters;
+  onChange: (filters: DashboardFilters) => void;
+}
+
+interface MultiSelectProps<T extends string | number> {
+  label: string;
+  options: T[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  formatOption?: (option: T) => string;
+}
+
+function MultiSelect<T extends string | number>({ label, options, selected, onChange, formatOption = String }: MultiSelectProps<T>) {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const toggle = (option: T) => {
+    onChange(selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option]);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className={`inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium border rounded-md transition-colors ${
+          selected.length > 0
+            ? 'bg-blue-50 text-blue-700 border-blue-300'
+            : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+        }`}
+        aria-expanded={open}
+      >
+        {label}
+        {selected.length > 0 && <span className="font-bold">({selected.length})</span>}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-1 bg-white border border-slate-200 rounded-lg shadow-lg z-50 min-w-[160px] max-h-64 overflow-y-auto">
+          {options.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-slate-400 italic">No values</div>
+          ) : (
+            options.map((option) => (
+              <label key={option} className="flex items-center px-3 py-2 hover:bg-slate-50 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(option)}
+                  onChange={() => toggle(option)}
+                  className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className={selected.includes(option) ? 'font-medium text-slate-900' : 'text-slate-700'}>
+                  {formatOption(option)}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DashboardFilterBar({ issues, filters, onChange }: DashboardFilterBarProps) {
+  const options = useMemo(() => {
+    const active = issues.filter((i) => i.status !== 'tombstone');
+    const sorted = (values: (string | undefined)[]) =>
+      Array.from(new Set(values.filter(Boolean) as string[])).sort();
+    return {
+      labels: sorted(active.flatMap((i) => i.labels || [])),
+      types: sorted(active.map((i) => i.issue_type)),
+      assignees: sorted(active.map((i) => i.assignee || i.owner)),
+      epics: active.filter((i) => i.issue_type === 'epic'),
+    };
+  }, [issues]);
+
+  const update = (changes: Partial<DashboardFilters>) => onChange({ ...filters, ...changes });
+
+  // One removable chip per selected value
+  const chips: { key: string; label: string; onRemove: () => void }[] = [
+    ...filters.labels.map((label) => ({
+      key: `label-${label}`,
+      label: `Label: ${label}`,
+      onRemove: () => update({ labels: filters.labels.filter((l) => l !== label) }),
+    })),
+    ...filters.types.map((type) => ({
+      key: `type-${type}`,
+      label: `Type: ${type}`,
+      onRemove: () => update({ types: filters.types.filter((t) => t !== type) }),
+    })),
+    ...filters.assignees.map((assignee) => ({
+      key: `assignee-${assignee}`,
+      label: `Assignee: ${assignee}`,
+      onRemove: () => update({ assignees: filters.assignees.filter((a) => a !== assignee) }),
+    })),
+    ...filters.priorities.map((priority) => ({
+      key: `priority-${priority}`,
+      label: `Priority: ${PRIORITY_LABELS[priority]}`,
+      onRemove: () => update({ priorities: filters.priorities.filter((p) => p !== priority) }),
+    })),
+    ...(filters.epic
+      ? [{ key: 'epic', label: `Epic: ${filters.epic}`, onRemove: () => update({ epic: null }) }]
+      : []),
+    ...(filters.from
+      ? [{ key: 'from', label: `From: ${filters.from}`, onRemove: () => update({ from: null }) }]
+      : []),
+    ...(filters.to
+      ? [{ key: 'to', label: `To: ${filters.to}`, onRemove: () => update({ to: null }) }]
+      : []),
+  ];
+
+  const inputClass = 'px-2 py-1 bg-white border border-slate-300 rounded-md text-xs text-slate-700 focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="space-y-2" data-testid="dashboard-filter-bar">
+      <div className="flex items-center gap-2 flex-wrap text-sm">
+        <span className="inline-flex items-center gap-1 text-slate-500 font-medium">
+          <Filter className="w-3.5 h-3.5" />
+          Filters:
+        </span>
+        <MultiSelect
+          label="Labels"
+          options={options.labels}
+          selected={filters.labels}
+          onChange={(labels) => update({ labels })}
+        />
+        <MultiSelect
+          label="Type"
+          options={options.types}
+          selected={filters.types}
+          onChange={(types) => update({ types })}
+        />
+        <MultiSelect
+          label="Assignee"
+          options={options.assignees}
+          selected={filters.assignees}
+          onChange={(assignees) => update({ assignees })}
+        />
+        <MultiSelect
+          label="Priority"
+          options={PRIORITIES}
+          selected={filters.priorities}
+          onChange={(priorities) => update({ priorities })}
+          formatOption={(priority) => PRIORITY_LABELS[priority]}
+        />
+        <select
+          aria-label="Parent epic"
+          value={filters.epic ?? ''}
+          onChange={(e) => update({ epic: e.target.value || null })}
+          className={`${inputClass} max-w-[200px]`}
+        >
+          <option value="">Any epic</option>
+          {options.epics.map((epic) => (
+            <option key={epic.id} value={epic.id}>{epic.id}: {epic.title || 'Untitled'}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          aria-label="From date"
+          value={filters.from ?? ''}
+          max={filters.to ?? undefined}
+          onChange={(e) => update({ from: e.target.value || null })}
+          className={inputClass}
+        />
+        <span className="text-slate-400 text-xs">to</span>
+        <input
+          type="date"
+          aria-label="To date"
+          value={filters.to ?? ''}
+          min={filters.from ?? undefined}
+          onChange={(e) => update({ to: e.target.value || null })}
+          className={inputClass}
+        />
+      </div>
+
+      {hasDashboardFilters(filters) && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {chips.map((chip) => (
+            <span
+              key={chip.key}
+              className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+            >
+              {chip.label}
+              <button
+                onClick={chip.onRemove}
+                className="p-0.5 rounded-full hover:bg-blue-200"
+                aria-label={`Remove ${chip.label}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <button
+            onClick={() => onChange(EMPTY_DASHBOARD_FILTERS)}
+            className="text-xs text-slate-500 hover:text-slate-700 underline underline-offset-2"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DashboardFilterBar;
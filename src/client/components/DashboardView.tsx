@@ -14,14 +14,26 @@ import {
   Cell,
   ReferenceLine,
 } from 'recharts';
-import type { Metrics, TimeGranularity } from '@shared/types';
+import { useMemo, useState } from 'react';
+import type { BoardColumnConfig, DashboardFilters, Issue, Metrics, TimeGranularity } from '@shared/types';
 import { GRANULARITY_OPTIONS } from '@shared/types';
+import { DEFAULT_BOARD_COLUMNS } from '@shared/dashboardConfig';
 import { formatTimeValue } from '@/utils/metricsCalculations';
+import { applyDashboardFilters } from '@/utils/dashboardFilters';
+import { getWipUsage } from '@/utils/boardColumns';
+import ForecastPanel from './ForecastPanel';
+import DashboardFilterBar from './DashboardFilterBar';
 
 interface DashboardViewProps {
-  metrics: Metrics;
+  // Null when no issues match the filters
+  metrics: Metrics | null;
+  issues: Issue[];
   granularity: TimeGranularity;
   onGranularityChange: (g: TimeGranularity) => void;
+  filters: DashboardFilters;
+  onFiltersChange: (filters: DashboardFilters) => void;
+  // Board columns, for reporting their WIP limits
+  boardColumns?: BoardColumnConfig[];
 }
 
 interface CustomTooltipProps {
@@ -30,8 +42,8 @@ interface CustomTooltipProps {
     payload: {
       title?: string;
       id?: string;
-      cycleTimeHours?: number;
-      cycleTimeDays?: number;
+      durationHours?: number;
+      durationDays?: number;
       ageHours?: number;
       ageDays?: number;
       closedDateStr?: string;
@@ -40,17 +52,18 @@ interface CustomTooltipProps {
   }>;
   label?: string;
   displayUnit: 'hours' | 'days';
+  durationLabel?: string;
 }
 
-function CustomTooltip({ active, payload, displayUnit }: CustomTooltipProps) {
+function CustomTooltip({ active, payload, displayUnit, durationLabel = 'Lead Time' }: CustomTooltipProps) {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
     return (
       <div className="bg-white p-2 border border-slate-200 shadow-md rounded text-xs">
         <p className="font-bold">{data.title}</p>
         <p>{data.id}</p>
-        {data.cycleTimeHours !== undefined && (
-          <p>Cycle Time: {formatTimeValue(data.cycleTimeHours, displayUnit)}</p>
+        {data.durationHours !== undefined && (
+          <p>{durationLabel}: {formatTimeValue(data.durationHours, displayUnit)}</p>
         )}
         {data.ageHours !== undefined && (
           <p>Age: {formatTimeValue(data.ageHours, displayUnit)}</p>
@@ -63,9 +76,38 @@ function CustomTooltip({ active, payload, displayUnit }: CustomTooltipProps) {
   return null;
 }
 
-function DashboardView({ metrics, granularity, onGranularityChange }: DashboardViewProps) {
-  return (
-    <div className="space-y-6">
+type TimeSeries = 'lead' | 'cycle';
+
+const TIME_SERIES_OPTIONS: { value: TimeSeries; label: string }[] = [
+  { value: 'lead', label: 'Lead Time' },
+  { value: 'cycle', label: 'Cycle Time' },
+];
+
+function DashboardView({
+  metrics,
+  issues,
+  granularity,
+  onGranularityChange,
+  filters,
+  onFiltersChange,
+  boardColumns = DEFAULT_BOARD_COLUMNS,
+}: DashboardViewProps) {
+  const [timeSeries, setTimeSeries] = useState<TimeSeries>('lead');
+
+  // The forecast samples recent throughput, so it ignores the date range
+  const forecastIssues = useMemo(
+    () => applyDashboardFilters(issues, { ...filters, from: null, to: null }),
+    [issues, filters]
+  );
+
+  // Current load against each column's WIP limit, like the board shows it
+  const wipUsage = useMemo(
+    () => getWipUsage(forecastIssues, boardColumns, issues),
+    [forecastIssues, boardColumns, issues]
+  );
+
+  const controls = (
+    <>
       {/* Granularity Picker */}
       <div className="flex items-center space-x-2 text-sm">
         <span className="text-slate-500 font-medium">Time Scale:</span>
@@ -86,6 +128,31 @@ function DashboardView({ metrics, granularity, onGranularityChange }: DashboardV
         </div>
       </div>
 
+      <DashboardFilterBar issues={issues} filters={filters} onChange={onFiltersChange} />
+    </>
+  );
+
+  if (!metrics) {
+    return (
+      <div className="space-y-6">
+        {controls}
+        <div className="card py-16 text-center text-slate-500" data-testid="dashboard-no-matches">
+          No issues match the selected filters.
+        </div>
+      </div>
+    );
+  }
+
+  const isCycle = timeSeries === 'cycle';
+  const timeData = isCycle ? metrics.cycleTimeData : metrics.leadTimeData;
+  const timeP50 = isCycle ? metrics.cycleTimeP50 : metrics.leadTimeP50;
+  const timeP85 = isCycle ? metrics.cycleTimeP85 : metrics.leadTimeP85;
+  const timeLabel = isCycle ? 'Cycle Time' : 'Lead Time';
+
+  return (
+    <div className="space-y-6">
+      {controls}
+
       {/* Summary row */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="card border-l-4 border-l-orange-500 group cursor-default">
@@ -123,11 +190,66 @@ function DashboardView({ metrics, granularity, onGranularityChange }: DashboardV
         </div>
       </div>
 
-      {/* Lead Time Scatterplot */}
+      {/* WIP limits from the board configuration */}
+      {wipUsage.length > 0 && (
+        <div className="card" data-testid="wip-limits">
+          <h3 className="text-sm font-bold mb-4 text-slate-700">
+            WIP Limits
+            <span className="ml-2 text-xs font-normal text-slate-400">board columns right now</span>
+          </h3>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3">
+            {wipUsage.map(({ column, count, limit, exceeded }) => (
+              <li key={column.id} className="text-sm">
+                <div className="flex items-baseline justify-between mb-1">
+                  <span className="font-medium text-slate-700">{column.label}</span>
+                  <span className={exceeded ? 'font-bold text-red-600' : 'text-slate-500'}>
+                    {count} / {limit}
+                    {exceeded && <span className="ml-1 text-xs">(over by {count - limit})</span>}
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${exceeded ? 'bg-red-500' : count === limit ? 'bg-amber-400' : 'bg-emerald-500'}`}
+                    style={{ width: `${Math.min(100, (count / limit) * 100)}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Lead Time / Cycle Time Scatterplot */}
       <div className="card h-[400px]">
-        <h3 className="text-sm font-bold mb-6 text-slate-700">
-          Lead Time Scatterplot (Cycle Time)
-        </h3>
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-sm font-bold text-slate-700">
+            {timeLabel} Scatterplot
+            <span className="ml-2 text-xs font-normal text-slate-400">
+              {isCycle ? 'first in progress → closed' : 'created → closed'}
+            </span>
+            {isCycle && timeData.length === 0 && (
+              <span className="ml-2 text-xs font-normal text-slate-400">
+                (no closed issues with a recorded in-progress transition yet)
+              </span>
+            )}
+          </h3>
+          <div className="inline-flex rounded-md shadow-sm" role="group" aria-label="Time series">
+            {TIME_SERIES_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setTimeSeries(option.value)}
+                aria-pressed={timeSeries === option.value}
+                className={`px-3 py-1 text-xs font-medium border first:rounded-l-md last:rounded-r-md ${
+                  timeSeries === option.value
+                    ? 'bg-blue-600 text-white border-blue-600 z-10'
+                    : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
         <ResponsiveContainer width="100%" height="90%">
           <ScatterChart margin={{ bottom: metrics.displayUnit === 'hours' ? 60 : 5 }}>
             <CartesianGrid strokeDasharray="3 3" />
@@ -148,35 +270,35 @@ function DashboardView({ metrics, granularity, onGranularityChange }: DashboardV
               textAnchor={metrics.displayUnit === 'hours' ? 'end' : 'middle'}
             />
             <YAxis
-              dataKey={metrics.displayUnit === 'hours' ? 'cycleTimeHours' : 'cycleTimeDays'}
-              name="Cycle Time"
+              dataKey={metrics.displayUnit === 'hours' ? 'durationHours' : 'durationDays'}
+              name={timeLabel}
               unit={metrics.displayUnit === 'hours' ? 'h' : 'd'}
               fontSize={10}
             />
-            <Tooltip content={<CustomTooltip displayUnit={metrics.displayUnit} />} />
+            <Tooltip content={<CustomTooltip displayUnit={metrics.displayUnit} durationLabel={timeLabel} />} />
             <ReferenceLine
-              y={metrics.displayUnit === 'hours' ? metrics.cycleTimeP50 : metrics.cycleTimeP50 / 24}
+              y={metrics.displayUnit === 'hours' ? timeP50 : timeP50 / 24}
               stroke="#10b981"
               strokeDasharray="3 3"
               label={{
                 position: 'insideTopRight',
-                value: `50th: ${formatTimeValue(metrics.cycleTimeP50, metrics.displayUnit)}`,
+                value: `50th: ${formatTimeValue(timeP50, metrics.displayUnit)}`,
                 fill: '#10b981',
                 fontSize: 10,
               }}
             />
             <ReferenceLine
-              y={metrics.displayUnit === 'hours' ? metrics.cycleTimeP85 : metrics.cycleTimeP85 / 24}
+              y={metrics.displayUnit === 'hours' ? timeP85 : timeP85 / 24}
               stroke="#f59e0b"
               strokeDasharray="3 3"
               label={{
                 position: 'insideTopRight',
-                value: `85th: ${formatTimeValue(metrics.cycleTimeP85, metrics.displayUnit)}`,
+                value: `85th: ${formatTimeValue(timeP85, metrics.displayUnit)}`,
                 fill: '#f59e0b',
                 fontSize: 10,
               }}
             />
-            <Scatter name="Issues" data={metrics.leadTimeData} fill="#8884d8" />
+            <Scatter name="Issues" data={timeData} fill={isCycle ? '#0ea5e9' : '#8884d8'} />
           </ScatterChart>
         </ResponsiveContainer>
       </div>
@@ -245,13 +367,37 @@ function DashboardView({ metrics, granularity, onGranularityChange }: DashboardV
               fill="#dcfce7"
               name="Completed"
             />
+            <Area
+              type="linear"
+              dataKey="deferred"
+              stackId="1"
+              stroke="#94a3b8"
+              fill="#f1f5f9"
+              name="Deferred"
+            />
+            <Area
+              type="linear"
+              dataKey="blocked"
+              stackId="1"
+              stroke="#ef4444"
+              fill="#fee2e2"
+              name="Blocked"
+            />
+            <Area
+              type="linear"
+              dataKey="in_progress"
+              stackId="1"
+              stroke="#f59e0b"
+              fill="#fef3c7"
+              name="In Progress"
+            />
             <Area
               type="linear"
               dataKey="open"
               stackId="1"
               stroke="#3b82f6"
               fill="#dbeafe"
-              name="WIP (Open)"
+              name="Open"
             />
           </AreaChart>
         </ResponsiveContainer>
@@ -296,6 +442,9 @@ function DashboardView({ metrics, granularity, onGranularityChange }: DashboardV
           </ResponsiveContainer>
         </div>
       </div>
+
+      {/* Throughput run chart & Monte Carlo forecast */}
+      <ForecastPanel issues={forecastIssues} />
     </div>
   );
 }
@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ExternalLink, Network, X } from 'lucide-react';
+import type { Issue, IssueStatus } from '@shared/types';
+import { buildDependencyGraph, edgeKey, getCriticalPath } from '@/utils/dependencyGraph';
+import type { GraphEdge, GraphEdgeType, GraphNode } from '@/utils/dependencyGraph';
+import { compareIdsNaturally } from '@/utils/sortUtils';
+
+interface DependencyGraphViewProps {
+  issues: Issue[];
+  // Epic whose subtree is shown (null = all issues); kept in the URL by the caller
+  rootEpicId: string | null;
+  onRootEpicChange: (epicId: string | null) => void;
+  onOpenIssue: (issue: Issue) => void;
+}
+
+// Node box size and spacing, in SVG units
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 48;
+const LAYER_GAP = 72;
+const ROW_GAP = 16;
+const PADDING = 16;
+
+// Node fill/border per status
+const STATUS_NODE_COLORS: Record<IssueStatus, { fill: string; stroke: string }> = {
+  open: { fill: '#f8fafc', stroke: '#94a3b8' },
+  in_progress: { fill: '#eff6ff', stroke: '#3b82f6' },
+  blocked: { fill: '#fef2f2', stroke: '#ef4444' },
+  closed: { fill: '#f0fdf4', stroke: '#22c55e' },
+  deferred: { fill: '#fffbeb', stroke: '#f59e0b' },
+  pinned: { fill: '#f5f3ff', stroke: '#8b5cf6' },
+  hooked: { fill: '#f5f3ff', stroke: '#8b5cf6' },
+  tombstone: { fill: '#f1f5f9', stroke: '#cbd5e1' },
+};
+
+// Line style per edge type
+const EDGE_STYLES: Record<GraphEdgeType, { label: string; stroke: string; dash?: string }> = {
+  blocks: { label: 'Blocks', stroke: '#475569' },
+  'parent-child': { label: 'Parent / child', stroke: '#94a3b8', dash: '6 4' },
+  'discovered-from': { label: 'Discovered from', stroke: '#d97706', dash: '2 4' },
+  related: { label: 'Related', stroke: '#cbd5e1', dash: '2 4' },
+};
+
+const CRITICAL_COLOR = '#2563eb';
+
+function nodeX(node: GraphNode): number {
+  return PADDING + node.layer * (NODE_WIDTH + LAYER_GAP);
+}
+
+function nodeY(node: GraphNode): number {
+  return PADDING + node.order * (NODE_HEIGHT + ROW_GAP);
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+}
+
+// Curve from the right edge of one node to the left edge of the next
+function edgePath(from: GraphNode, to: GraphNode): string {
+  const x1 = nodeX(from) + NODE_WIDTH;
+  const y1 = nodeY(from) + NODE_HEIGHT / 2;
+  const x2 = nodeX(to);
+  const y2 = nodeY(to) + NODE_HEIGHT / 2;
+  const bend = Math.max(LAYER_GAP / 2, Math.abs(x2 - x1) / 2);
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+/**
+ * DependencyGraphView - Layered view of the dependency DAG.
+ * Clicking a node highlights the longest chain of open blockers leading to it;
+ * double-clicking (or Enter) opens the issue.
+ */
+function DependencyGraphView({ issues, rootEpicId, onRootEpicChange, onOpenIssue }: DependencyGraphViewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showClosed, setShowClosed] = useState(false);
+  const [showUnlinked, setShowUnlinked] = useState(false);
+
+  const epics = useMemo(
+    () =>
+      issues
+        .filter((issue) => issue.issue_type === 'epic' && issue.status !== 'tombstone')
+        .sort((a, b) => compareIdsNaturally(a.id, b.id)),
+    [issues]
+  );
+  // An unknown epic in the URL falls back to the whole graph
+  const rootEpic = rootEpicId ? epics.find((epic) => epic.id === rootEpicId) ?? null : null;
+
+  const graph = useMemo(
+    () =>
+      buildDependencyGraph(issues, {
+        rootEpicId: rootEpic?.id ?? null,
+        includeClosed: showClosed,
+        includeUnlinked: showUnlinked,
+      }),
+    [issues, rootEpic, showClosed, showUnlinked]
+  );
+
+  const nodesById = useMemo(() => new Map(graph.nodes.map((node) => [node.issue.id, node])), [graph]);
+  const selectedNode = selectedId ? nodesById.get(selectedId) ?? null : null;
+
+  const criticalPath = useMemo(
+    () => (selectedNode ? getCriticalPath(selectedNode.issue.id, issues, graph.edges) : []),
+    [selectedNode, issues, graph]
+  );
+  const criticalNodes = new Set(criticalPath);
+  const criticalEdges = new Set(
+    criticalPath.slice(1).map((id, i) => edgeKey({ from: criticalPath[i], to: id, type: 'blocks' }))
+  );
+
+  const rowCount = graph.nodes.reduce((max, node) => Math.max(max, node.order + 1), 0);
+  const width = PADDING * 2 + graph.layerCount * NODE_WIDTH + Math.max(0, graph.layerCount - 1) * LAYER_GAP;
+  const height = PADDING * 2 + rowCount * NODE_HEIGHT + Math.max(0, rowCount - 1) * ROW_GAP;
+
+  const toggleSelected = (issueId: string) => {
+    setSelectedId((prev) => (prev === issueId ? null : issueId));
+  };
+
+  const renderEdge = (edge: GraphEdge) => {
+    const from = nodesById.get(edge.from);
+    const to = nodesById.get(edge.to);
+    if (!from || !to) return null;
+    const key = edgeKey(edge);
+    const critical = criticalEdges.has(key);
+    const style = EDGE_STYLES[edge.type];
+    return (
+      <path
+        key={key}
+        d={edgePath(from, to)}
+        fill="none"
+        stroke={critical ? CRITICAL_COLOR : style.stroke}
+        strokeWidth={critical ? 3 : 1.5}
+        strokeDasharray={critical ? undefined : style.dash}
+        markerEnd={`url(#graph-arrow-${critical ? 'critical' : edge.type})`}
+        data-testid={`graph-edge-${edge.from}-${edge.to}`}
+        data-edge-type={edge.type}
+        data-critical={critical || undefined}
+      />
+    );
+  };
+
+  const renderNode = (node: GraphNode) => {
+    const { issue } = node;
+    const colors = STATUS_NODE_COLORS[issue.status] ?? STATUS_NODE_COLORS.open;
+    const onPath = criticalNodes.has(issue.id);
+    const selected = selectedNode?.issue.id === issue.id;
+    const shortId = issue.id.includes('-') ? issue.id.split('-').pop() : issue.id;
+    return (
+      <g
+        key={issue.id}
+        transform={`translate(${nodeX(node)}, ${nodeY(node)})`}
+        className="cursor-pointer focus:outline-none"
+        role="button"
+        tabIndex={0}
+        aria-label={`${issue.id}: ${issue.title || 'Untitled'}`}
+        aria-pressed={selected}
+        onClick={() => toggleSelected(issue.id)}
+        onDoubleClick={() => onOpenIssue(issue)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onOpenIssue(issue);
+          if (e.key === ' ') {
+            e.preventDefault();
+            toggleSelected(issue.id);
+          }
+        }}
+        data-testid={`graph-node-${issue.id}`}
+        data-status={issue.status}
+        data-critical={onPath || undefined}
+      >
+        <title>{`${issue.id}: ${issue.title || 'Untitled'} (${issue.status})`}</title>
+        <rect
+          width={NODE_WIDTH}
+          height={NODE_HEIGHT}
+          rx={8}
+          fill={colors.fill}
+          stroke={onPath ? CRITICAL_COLOR : colors.stroke}
+          strokeWidth={selected ? 3 : onPath ? 2.5 : 1.5}
+        />
+        <text x={10} y={18} className="font-mono" fontSize={11} fill="#64748b">
+          {shortId} · {issue.issue_type}
+        </text>
+        <text x={10} y={36} fontSize={12} fontWeight={500} fill="#0f172a">
+          {truncate(issue.title || 'Untitled', 26)}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <div className="card space-y-4">
+      {/* Toolbar: subtree filter and visibility toggles */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+        <div className="flex items-center gap-2">
+          <Network className="w-4 h-4" />
+          <span>Epic:</span>
+          <div className="relative">
+            <select
+              value={rootEpic?.id ?? ''}
+              onChange={(e) => onRootEpicChange(e.target.value || null)}
+              className="appearance-none bg-white border border-slate-200 rounded-md px-3 py-1.5 pr-8 text-sm text-slate-700 cursor-pointer hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 max-w-xs"
+              data-testid="graph-epic-select"
+            >
+              <option value="">All issues</option>
+              {epics.map((epic) => (
+                <option key={epic.id} value={epic.id}>
+                  {epic.id}: {truncate(epic.title || 'Untitled', 40)}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="w-4 h-4 absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+          </div>
+        </div>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showClosed}
+            onChange={(e) => setShowClosed(e.target.checked)}
+            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show closed
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showUnlinked}
+            onChange={(e) => setShowUnlinked(e.target.checked)}
+            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+          />
+          Show issues without links
+        </label>
+
+        {/* Edge legend */}
+        <div className="flex items-center gap-3 ml-auto text-xs">
+          {(Object.keys(EDGE_STYLES) as GraphEdgeType[]).map((type) => (
+            <span key={type} className="flex items-center gap-1">
+              <svg width="24" height="6" aria-hidden="true">
+                <line x1="0" y1="3" x2="24" y2="3" stroke={EDGE_STYLES[type].stroke} strokeWidth={2} strokeDasharray={EDGE_STYLES[type].dash} />
+              </svg>
+              {EDGE_STYLES[type].label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Selected issue and its critical path */}
+      {selectedNode && (
+        <div
+          className="flex items-center gap-3 p-3 rounded-lg bg-blue-50 border border-blue-100 text-sm text-blue-900"
+          data-testid="graph-selection"
+        >
+          <span className="flex-1 min-w-0 truncate">
+            <span className="font-mono">{selectedNode.issue.id}</span> {selectedNode.issue.title || 'Untitled'}
+            {' — '}
+            {criticalPath.length > 1
+              ? `critical path: ${criticalPath.length - 1} open ${criticalPath.length === 2 ? 'blocker' : 'blockers'} in a row`
+              : 'no open blockers'}
+          </span>
+          <button
+            onClick={() => onOpenIssue(selectedNode.issue)}
+            className="inline-flex items-center gap-1 text-blue-700 hover:text-blue-900 font-medium"
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+            Open
+          </button>
+          <button
+            onClick={() => setSelectedId(null)}
+            className="text-blue-500 hover:text-blue-700"
+            aria-label="Clear selection"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {graph.nodes.length === 0 ? (
+        <div className="py-12 text-center text-slate-400 text-sm">
+          No dependencies to show{showUnlinked ? '' : ' — try "Show issues without links"'}
+        </div>
+      ) : (
+        <div className="overflow-auto border border-slate-100 rounded-lg bg-white" style={{ maxHeight: '70vh' }}>
+          <svg width={width} height={height} data-testid="dependency-graph">
+            <defs>
+              {(Object.keys(EDGE_STYLES) as GraphEdgeType[]).map((type) => (
+                <marker key={type} id={`graph-arrow-${type}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_STYLES[type].stroke} />
+                </marker>
+              ))}
+              <marker id="graph-arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={CRITICAL_COLOR} />
+              </marker>
+            </defs>
+            {graph.edges.map(renderEdge)}
+            {graph.nodes.map(renderNode)}
+          </svg>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-400">
+        Click an issue to highlight its critical path; double-click or press Enter to open it.
+      </p>
+    </div>
+  );
+}
+
+export default DependencyGraphView;
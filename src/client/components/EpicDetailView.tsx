@@ -0,0 +1,226 @@
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceDot,
+  ReferenceLine,
+} from 'recharts';
+import { ArrowLeft, Boxes } from 'lucide-react';
+import type { Issue, StatusTransition } from '@shared/types';
+import { calculateEpicBurnup } from '@/utils/epicBurnup';
+import { CONFIDENCE_COLORS, addDays } from '@/utils/forecasting';
+import { formatTimeValue } from '@/utils/metricsCalculations';
+import ConfidenceRow from './ConfidenceRow';
+
+// Aging children listed below the chart
+const MAX_AGING_CHILDREN = 10;
+
+interface EpicDetailViewProps {
+  epicId: string;
+  issues: Issue[];
+  history?: StatusTransition[];
+  onBack: () => void;
+  onOpenIssue: (issue: Issue) => void;
+}
+
+function EpicDetailView({ epicId, issues, history = [], onBack, onOpenIssue }: EpicDetailViewProps) {
+  const epic = issues.find((i) => i.id === epicId);
+
+  const burnup = useMemo(
+    () => (epic ? calculateEpicBurnup(issues, epic, new Date(), history) : null),
+    [issues, epic, history]
+  );
+
+  const backButton = (
+    <button
+      onClick={onBack}
+      className="inline-flex items-center gap-1.5 text-sm text-slate-500 hover:text-slate-800 transition-colors"
+    >
+      <ArrowLeft className="w-4 h-4" />
+      Back
+    </button>
+  );
+
+  if (!epic || !burnup) {
+    return (
+      <div className="space-y-4">
+        {backButton}
+        <div className="card py-12 text-center text-slate-500">Epic {epicId} was not found.</div>
+      </div>
+    );
+  }
+
+  const today = new Date();
+  const percentage = burnup.scope > 0 ? Math.round((burnup.completed / burnup.scope) * 100) : 0;
+  const projectedDates = burnup.projection?.map((point) => ({
+    ...point,
+    timestamp: addDays(today, point.value).getTime(),
+  }));
+  const lastTimestamp = Math.max(
+    burnup.points.length > 0 ? burnup.points[burnup.points.length - 1].timestamp : today.getTime(),
+    ...(projectedDates?.map((p) => p.timestamp) ?? [])
+  );
+  const scopeOn = (timestamp: number) =>
+    burnup.points.find((p) => p.timestamp === timestamp)?.scope ?? burnup.scope;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        {backButton}
+        <div className="flex items-center gap-3">
+          <Boxes className="w-6 h-6 text-indigo-500" />
+          <div className="min-w-0">
+            <div className="text-sm text-slate-500 font-mono">{epic.id}</div>
+            <h2 className="text-xl font-bold text-slate-900 truncate">
+              <button onClick={() => onOpenIssue(epic)} className="hover:text-blue-600 text-left">
+                {epic.title || 'Untitled'}
+              </button>
+            </h2>
+          </div>
+          <div className="ml-auto text-right">
+            <div className="text-2xl font-black text-slate-800">{percentage}%</div>
+            <div className="text-xs text-slate-500">
+              {burnup.completed} of {burnup.scope} done
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Burnup */}
+      <div className="card h-[400px]">
+        <h3 className="text-sm font-bold mb-6 text-slate-700">
+          Burnup
+          <span className="ml-2 text-xs font-normal text-slate-400">all descendants</span>
+        </h3>
+        {burnup.points.length === 0 ? (
+          <p className="text-sm text-slate-500">No child issues linked to this epic.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={burnup.points}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                domain={['dataMin', lastTimestamp]}
+                tickFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                fontSize={10}
+              />
+              <YAxis fontSize={10} allowDecimals={false} />
+              <Tooltip
+                labelFormatter={(timestamp) => new Date(timestamp).toLocaleDateString()}
+                labelClassName="text-slate-800 font-bold"
+              />
+              <Legend verticalAlign="top" align="right" iconType="circle" />
+              <Line type="stepAfter" dataKey="scope" name="Scope" stroke="#64748b" strokeWidth={2} dot={false} />
+              <Line type="stepAfter" dataKey="completed" name="Completed" stroke="#10b981" strokeWidth={2} dot={false} />
+              {burnup.scopeChanges.map((change) => (
+                <ReferenceDot
+                  key={change.issue_id}
+                  x={change.timestamp}
+                  y={scopeOn(change.timestamp)}
+                  r={4}
+                  fill="#6366f1"
+                  stroke="white"
+                />
+              ))}
+              {projectedDates?.map((point) => (
+                <ReferenceLine
+                  key={point.confidence}
+                  x={point.timestamp}
+                  stroke={CONFIDENCE_COLORS[point.confidence]}
+                  strokeDasharray="3 3"
+                  label={{ position: 'insideTopLeft', value: `${point.confidence}%`, fill: CONFIDENCE_COLORS[point.confidence], fontSize: 10 }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {/* Projection */}
+        <div className="card">
+          <h3 className="text-sm font-bold mb-4 text-slate-700">Projected Completion</h3>
+          {burnup.scope === 0 ? (
+            <p className="text-sm text-slate-500">Nothing to forecast yet.</p>
+          ) : burnup.completed === burnup.scope ? (
+            <p className="text-sm text-green-700">All child issues are closed.</p>
+          ) : burnup.projection ? (
+            <ul className="space-y-1">
+              {burnup.projection.map((point) => (
+                <ConfidenceRow key={point.confidence} point={point}>
+                  by <strong>{addDays(today, point.value).toLocaleDateString()}</strong>
+                </ConfidenceRow>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">
+              No child issues were closed in the last 30 days, so there is no throughput to project from.
+            </p>
+          )}
+        </div>
+
+        {/* Scope changes */}
+        <div className="card">
+          <h3 className="text-sm font-bold mb-4 text-slate-700">
+            Scope Changes
+            <span className="ml-2 text-xs font-normal text-slate-400">added after the epic was created</span>
+          </h3>
+          {burnup.scopeChanges.length === 0 ? (
+            <p className="text-sm text-slate-500">No issues were added after the epic was created.</p>
+          ) : (
+            <ul className="space-y-1.5 max-h-60 overflow-y-auto">
+              {burnup.scopeChanges.map((change) => (
+                <li key={change.issue_id} className="flex items-baseline gap-2 text-sm">
+                  <span className="text-xs text-slate-400 w-20 flex-shrink-0">
+                    {new Date(change.timestamp).toLocaleDateString()}
+                  </span>
+                  <span className="text-indigo-600 font-medium">+</span>
+                  <span className="text-slate-700 truncate" title={change.title}>{change.title}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Aging children */}
+        <div className="card">
+          <h3 className="text-sm font-bold mb-4 text-slate-700">Aging Children</h3>
+          {burnup.agingChildren.length === 0 ? (
+            <p className="text-sm text-slate-500">No open child issues.</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {burnup.agingChildren.slice(0, MAX_AGING_CHILDREN).map((child) => (
+                <li key={child.id} className="flex items-center gap-2 text-sm">
+                  <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: child.color }} />
+                  <button
+                    onClick={() => {
+                      const issue = issues.find((i) => i.id === child.id);
+                      if (issue) onOpenIssue(issue);
+                    }}
+                    className="text-slate-700 hover:text-blue-600 text-left truncate flex-1"
+                    title={child.title}
+                  >
+                    {child.title}
+                  </button>
+                  <span className="text-xs text-slate-400">{child.status}</span>
+                  <span className="text-xs font-medium text-slate-600 w-12 text-right">
+                    {formatTimeValue(child.ageHours, 'days')}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default EpicDetailView;
@@ -0,0 +1,237 @@
+import { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { Issue } from '@shared/types';
+import {
+  CONFIDENCE_COLORS,
+  addDays,
+  calculateDailyThroughput,
+  forecastItemsByDate,
+  MAX_SIMULATED_DAYS,
+  percentilesOf,
+  simulateCompletionDays,
+} from '@/utils/forecasting';
+import { calculatePercentile } from '@/utils/metricsCalculations';
+import { getEpicChildren } from '@/utils/epicUtils';
+import ConfidenceRow from './ConfidenceRow';
+
+// Days of closed-issue history sampled by the simulations
+const THROUGHPUT_WINDOW_DAYS = 30;
+const DEFAULT_HORIZON_DAYS = 14;
+
+interface ForecastPanelProps {
+  issues: Issue[];
+  today?: Date;
+}
+
+function toDateInputValue(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function ForecastPanel({ issues, today: todayProp }: ForecastPanelProps) {
+  const today = useMemo(() => todayProp ?? new Date(), [todayProp]);
+  const [targetDate, setTargetDate] = useState(() => toDateInputValue(addDays(today, DEFAULT_HORIZON_DAYS)));
+  const [target, setTarget] = useState('custom');
+  const [customCount, setCustomCount] = useState(10);
+
+  const activeIssues = useMemo(() => issues.filter((i) => i.status !== 'tombstone'), [issues]);
+
+  const runChartData = useMemo(
+    () => calculateDailyThroughput(activeIssues, today, THROUGHPUT_WINDOW_DAYS),
+    [activeIssues, today]
+  );
+  const samples = useMemo(() => runChartData.map((p) => p.count), [runChartData]);
+  const medianThroughput = calculatePercentile(samples, 0.5);
+  const hasThroughput = samples.some((s) => s > 0);
+
+  // Open epics with their remaining (not closed) children
+  const epics = useMemo(
+    () =>
+      activeIssues
+        .filter((i) => i.issue_type === 'epic' && i.status !== 'closed')
+        .map((epic) => ({
+          epic,
+          remaining: getEpicChildren(activeIssues, epic.id).filter((c) => c.status !== 'closed').length,
+        }))
+        .filter((e) => e.remaining > 0),
+    [activeIssues]
+  );
+
+  // "How many by date X?"
+  const horizonDays = Math.ceil((new Date(`${targetDate}T23:59:59Z`).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+  const itemsForecast = useMemo(
+    () => (horizonDays > 0 && horizonDays <= MAX_SIMULATED_DAYS ? forecastItemsByDate(samples, horizonDays) : null),
+    [samples, horizonDays]
+  );
+
+  // "When will N items finish?"
+  const selectedEpic = epics.find((e) => e.epic.id === target);
+  const itemCount = selectedEpic ? selectedEpic.remaining : customCount;
+  const completionOutcomes = useMemo(() => simulateCompletionDays(samples, itemCount), [samples, itemCount]);
+  const completionForecast = completionOutcomes.length > 0 ? percentilesOf(completionOutcomes) : null;
+
+  // Histogram of simulated completion days, with every day filled in so markers line up
+  const completionHistogram = useMemo(() => {
+    if (completionOutcomes.length === 0) return [];
+    const counts = new Map<number, number>();
+    let min = Infinity;
+    let max = -Infinity;
+    for (const days of completionOutcomes) {
+      counts.set(days, (counts.get(days) || 0) + 1);
+      min = Math.min(min, days);
+      max = Math.max(max, days);
+    }
+    const histogram = [];
+    for (let days = min; days <= max; days++) {
+      histogram.push({ days, trials: counts.get(days) || 0 });
+    }
+    return histogram;
+  }, [completionOutcomes]);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {/* Throughput run chart */}
+      <div className="card h-80">
+        <h3 className="text-sm font-bold mb-4 text-slate-700">
+          Throughput Run Chart
+          <span className="ml-2 text-xs font-normal text-slate-400">last {THROUGHPUT_WINDOW_DAYS} days</span>
+        </h3>
+        <ResponsiveContainer width="100%" height="90%">
+          <LineChart data={runChartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="date" fontSize={10} minTickGap={30} />
+            <YAxis fontSize={10} allowDecimals={false} />
+            <Tooltip labelClassName="text-slate-800 font-bold" />
+            <ReferenceLine
+              y={medianThroughput}
+              stroke="#94a3b8"
+              strokeDasharray="3 3"
+              label={{ position: 'insideTopRight', value: `Median: ${medianThroughput}/day`, fill: '#64748b', fontSize: 10 }}
+            />
+            <Line type="linear" dataKey="count" name="Closed" stroke="#6366f1" strokeWidth={2} dot={{ r: 2 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Monte Carlo forecast */}
+      <div className="card" data-testid="forecast-panel">
+        <h3 className="text-sm font-bold mb-4 text-slate-700">
+          Monte Carlo Forecast
+          <span className="ml-2 text-xs font-normal text-slate-400">sampling daily throughput</span>
+        </h3>
+
+        {!hasThroughput ? (
+          <p className="text-sm text-slate-500">
+            No issues were closed in the last {THROUGHPUT_WINDOW_DAYS} days, so there is no throughput to forecast from.
+          </p>
+        ) : (
+          <div className="space-y-5">
+            <section>
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">
+                How many items by
+                <input
+                  type="date"
+                  value={targetDate}
+                  min={toDateInputValue(addDays(today, 1))}
+                  max={toDateInputValue(addDays(today, MAX_SIMULATED_DAYS))}
+                  onChange={(e) => setTargetDate(e.target.value)}
+                  className="px-2 py-1 border border-slate-300 rounded text-xs normal-case font-normal text-slate-700"
+                  aria-label="Forecast date"
+                />
+              </label>
+              {itemsForecast ? (
+                <ul className="space-y-1">
+                  {itemsForecast.map((point) => (
+                    <ConfidenceRow key={point.confidence} point={point}>
+                      at least <strong>{point.value}</strong> {point.value === 1 ? 'item' : 'items'}
+                    </ConfidenceRow>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-slate-500">Pick a date after today and within three years.</p>
+              )}
+            </section>
+
+            <section>
+              <div className="flex items-center gap-2 text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">
+                When will
+                <select
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  className="px-2 py-1 border border-slate-300 rounded text-xs normal-case font-normal text-slate-700 max-w-[220px]"
+                  aria-label="Forecast target"
+                >
+                  <option value="custom">a number of items</option>
+                  {epics.map(({ epic, remaining }) => (
+                    <option key={epic.id} value={epic.id}>
+                      {epic.id}: {epic.title || 'Untitled'} ({remaining} left)
+                    </option>
+                  ))}
+                </select>
+                {!selectedEpic && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={customCount}
+                    onChange={(e) => setCustomCount(Math.max(1, Number(e.target.value) || 1))}
+                    className="w-16 px-2 py-1 border border-slate-300 rounded text-xs font-normal text-slate-700"
+                    aria-label="Item count"
+                  />
+                )}
+                finish?
+              </div>
+              {completionForecast && (
+                <ul className="space-y-1">
+                  {completionForecast.map((point) => (
+                    <ConfidenceRow key={point.confidence} point={point}>
+                      by <strong>{addDays(today, point.value).toLocaleDateString()}</strong>{' '}
+                      <span className="text-slate-400">({point.value} {point.value === 1 ? 'day' : 'days'})</span>
+                    </ConfidenceRow>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {completionForecast && (
+              <div className="h-40">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={completionHistogram}>
+                    <XAxis dataKey="days" fontSize={10} minTickGap={20} unit="d" />
+                    <YAxis hide />
+                    <Tooltip
+                      cursor={{ fill: '#f8fafc' }}
+                      formatter={(value) => [value, 'Trials']}
+                      labelFormatter={(days) => `${days} days`}
+                    />
+                    <Bar dataKey="trials" fill="#c7d2fe" />
+                    {completionForecast.map((point) => (
+                      <ReferenceLine
+                        key={point.confidence}
+                        x={point.value}
+                        stroke={CONFIDENCE_COLORS[point.confidence]}
+                        strokeDasharray="3 3"
+                        label={{ position: 'top', value: `${point.confidence}%`, fill: CONFIDENCE_COLORS[point.confidence], fontSize: 10 }}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ForecastPanel;
@@ -0,0 +1,29 @@
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping [start, end) ranges to mark
+  highlights: [number, number][];
+}
+
+/**
+ * HighlightedText - Renders text with the given ranges wrapped in <mark>
+ * (used for search snippets).
+ */
+function HighlightedText({ text, highlights }: HighlightedTextProps) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(([start, end], i) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export default HighlightedText;
@@ -1,29 +1,149 @@
 import { useState, useCallback, useEffect } from 'react';
 import { X } from 'lucide-react';
-import type { CreateIssueRequest, ExtendedIssueType, Priority } from '@shared/types';
+import type { CreateIssueRequest, CreateIssueResponse, ExtendedIssueType, Issue, IssueDependency, IssueTemplate, Priority } from '@shared/types';
+import CollapsibleSection from './IssueEditorModal/CollapsibleSection';
+import PropertiesSection from './IssueEditorModal/PropertiesSection';
+import DatesSection from './IssueEditorModal/DatesSection';
+import MetadataSection from './IssueEditorModal/MetadataSection';
+import LabelsSection from './IssueEditorModal/LabelsSection';
+import DependenciesSection from './IssueEditorModal/DependenciesSection';
 
 interface IssueCreatorModalProps {
   onClose: () => void;
-  onCreate: (data: CreateIssueRequest) => Promise<void>;
+  onCreate: (data: CreateIssueRequest) => Promise<CreateIssueResponse>;
+  allIssues?: Issue[];
+  // Per-project templates from .beads/dashboard.json
+  templates?: IssueTemplate[];
+  // Fields filled in up front, e.g. parsed from a quick-add line
+  initialValues?: CreateIssueRequest;
+}
+
+interface CreatorFormState {
+  title: string;
+  description: string;
+  issue_type: ExtendedIssueType;
+  priority: Priority;
+  assignee: string;
+  parent_id: string;
+  due: string | undefined;
+  defer: string | undefined;
+  estimate: number | undefined;
+  external_ref: string | undefined;
+  labels: string[];
+  design: string;
+  acceptance_criteria: string;
+  notes: string;
+  dependencies: IssueDependency[];
+}
+
+// Stands in for the new issue's ID in dependency links until bd assigns one
+const NEW_ISSUE_ID = '';
+
+const EMPTY_FORM: CreatorFormState = {
+  title: '',
+  description: '',
+  issue_type: 'task',
+  priority: 2,
+  assignee: '',
+  parent_id: '',
+  due: undefined,
+  defer: undefined,
+  estimate: undefined,
+  external_ref: undefined,
+  labels: [],
+  design: '',
+  acceptance_criteria: '',
+  notes: '',
+  dependencies: [],
+};
+
+/**
+ * Start the form from a partial request; links start empty
+ */
+function fromCreateRequest(values: CreateIssueRequest | undefined): CreatorFormState {
+  if (!values) return EMPTY_FORM;
+  const { dependencies: _dependencies, ...fields } = values;
+  const form = { ...EMPTY_FORM };
+  for (const [field, value] of Object.entries(fields)) {
+    if (value !== undefined) Object.assign(form, { [field]: value });
+  }
+  return form;
+}
+
+/**
+ * Build the POST /api/issues payload, leaving out empty fields
+ */
+function toCreateRequest(form: CreatorFormState): CreateIssueRequest {
+  const request: CreateIssueRequest = {
+    title: form.title.trim(),
+    issue_type: form.issue_type,
+    priority: form.priority,
+  };
+  for (const field of ['description', 'design', 'acceptance_criteria', 'notes'] as const) {
+    if (form[field].trim()) request[field] = form[field];
+  }
+  if (form.assignee.trim()) request.assignee = form.assignee.trim();
+  if (form.parent_id) request.parent_id = form.parent_id;
+  if (form.due) request.due = form.due;
+  if (form.defer) request.defer = form.defer;
+  if (form.estimate !== undefined) request.estimate = form.estimate;
+  if (form.external_ref?.trim()) request.external_ref = form.external_ref.trim();
+  if (form.labels.length > 0) request.labels = form.labels;
+  if (form.dependencies.length > 0) {
+    request.dependencies = form.dependencies.map((dep) =>
+      dep.issue_id === NEW_ISSUE_ID
+        ? { depends_on_id: dep.depends_on_id, type: dep.type }
+        : { issue_id: dep.issue_id, type: dep.type }
+    );
+  }
+  return request;
 }
 
 /**
- * Simplified modal for creating new issues.
- * Shows only essential fields: title, description, type, priority.
+ * Modal for creating new issues.
+ * Title, description, type and priority up front; every other editable field,
+ * initial dependencies and per-project templates alongside.
  * Per architecture review: separate component avoids dual-mode complexity in IssueEditorModal.
  */
-function IssueCreatorModal({ onClose, onCreate }: IssueCreatorModalProps) {
-  const [formState, setFormState] = useState<CreateIssueRequest>({
-    title: '',
-    description: '',
-    issue_type: 'task',
-    priority: 2,
-  });
+function IssueCreatorModal({ onClose, onCreate, allIssues = [], templates = [], initialValues }: IssueCreatorModalProps) {
+  const [formState, setFormState] = useState<CreatorFormState>(() => fromCreateRequest(initialValues));
+  const [templateId, setTemplateId] = useState('');
 
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the issue was created but some fields failed; saving again would duplicate it
+  const [createdId, setCreatedId] = useState<string | null>(null);
+
+  // Fill the form from a template, keeping a title that was already typed
+  const applyTemplate = useCallback((id: string) => {
+    setTemplateId(id);
+    const template = templates.find((t) => t.id === id);
+    setFormState((prev) => ({
+      ...EMPTY_FORM,
+      parent_id: prev.parent_id,
+      dependencies: prev.dependencies,
+      ...(template && {
+        description: template.description ?? '',
+        issue_type: template.issue_type ?? EMPTY_FORM.issue_type,
+        priority: template.priority ?? EMPTY_FORM.priority,
+        assignee: template.assignee ?? '',
+        labels: template.labels ?? [],
+        estimate: template.estimate,
+        design: template.design ?? '',
+        acceptance_criteria: template.acceptance_criteria ?? '',
+        notes: template.notes ?? '',
+      }),
+      title: prev.title.trim() ? prev.title : template?.title ?? '',
+    }));
+  }, [templates]);
+
+  const handleFieldChange = useCallback((field: string, value: unknown) => {
+    setFormState((prev) => ({ ...prev, [field]: value }));
+  }, []);
 
   const handleSave = useCallback(async () => {
+    if (createdId) return;
+
     // Validate title
     if (!formState.title || formState.title.trim().length === 0) {
       setError('Title is required');
@@ -34,14 +154,19 @@ function IssueCreatorModal({ onClose, onCreate }: IssueCreatorModalProps) {
     setError(null);
 
     try {
-      await onCreate(formState);
-      onClose();
+      const result = await onCreate(toCreateRequest(formState));
+      if (result.success) {
+        onClose();
+      } else {
+        setCreatedId(result.id);
+        setError(result.error || 'Some fields could not be set');
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create issue');
     } finally {
       setSaving(false);
     }
-  }, [formState, onCreate, onClose]);
+  }, [formState, createdId, onCreate, onClose]);
 
   // Handle backdrop click
   const handleBackdropClick = useCallback(
@@ -68,106 +193,133 @@ function IssueCreatorModal({ onClose, onCreate }: IssueCreatorModalProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [onClose, handleSave]);
 
+  const values = formState as unknown as Partial<Issue>;
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200"
       onClick={handleBackdropClick}
+      role="dialog"
+      aria-modal="true"
     >
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl flex flex-col animate-in zoom-in-95 duration-200">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200">
         {/* Header */}
         <div className="flex justify-between items-start p-6 border-b border-slate-100">
           <div>
             <h2 className="text-xl font-semibold text-slate-900">New Issue</h2>
             <p className="text-sm text-slate-500 mt-1">Create a new task, bug, feature, or epic</p>
           </div>
-          <button
-            onClick={onClose}
-            className="text-slate-400 hover:text-slate-600 transition-colors p-1"
-            aria-label="Close modal"
-          >
-            <X className="w-6 h-6" />
-          </button>
-        </div>
-
-        {/* Content */}
-        <div className="flex-1 p-6 space-y-4 overflow-y-auto">
-          {/* Title */}
-          <div>
-            <label htmlFor="create-title" className="block text-sm font-medium text-slate-700 mb-2">
-              Title <span className="text-red-500">*</span>
-            </label>
-            <input
-              id="create-title"
-              type="text"
-              value={formState.title}
-              onChange={(e) => setFormState(prev => ({ ...prev, title: e.target.value }))}
-              placeholder="Enter issue title..."
-              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm
-                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              autoFocus
-            />
+          <div className="flex items-center gap-3">
+            {templates.length > 0 && (
+              <div className="flex items-center gap-2">
+                <label htmlFor="create-template" className="text-sm font-medium text-slate-700">
+                  Template
+                </label>
+                <select
+                  id="create-template"
+                  value={templateId}
+                  onChange={(e) => applyTemplate(e.target.value)}
+                  disabled={!!createdId}
+                  className="px-3 py-1.5 border border-slate-300 rounded-md text-sm
+                             focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">None</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <button
+              onClick={onClose}
+              className="text-slate-400 hover:text-slate-600 transition-colors p-1"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
           </div>
+        </div>
 
-          {/* Type and Priority row */}
-          <div className="grid grid-cols-2 gap-4">
-            {/* Type */}
+        {/* Content - Two column layout */}
+        <div className="flex-1 flex gap-6 p-6 min-h-0">
+          {/* Left panel - Title and text fields */}
+          <div className="w-[60%] overflow-y-auto space-y-4 pr-2">
+            {/* Title */}
             <div>
-              <label htmlFor="create-type" className="block text-sm font-medium text-slate-700 mb-2">
-                Type
+              <label htmlFor="create-title" className="block text-sm font-medium text-slate-700 mb-2">
+                Title <span className="text-red-500">*</span>
               </label>
-              <select
-                id="create-type"
-                value={formState.issue_type}
-                onChange={(e) => setFormState(prev => ({ ...prev, issue_type: e.target.value as ExtendedIssueType }))}
+              <input
+                id="create-title"
+                type="text"
+                value={formState.title}
+                onChange={(e) => handleFieldChange('title', e.target.value)}
+                placeholder="Enter issue title..."
                 className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm
                            focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value="task">Task</option>
-                <option value="bug">Bug</option>
-                <option value="feature">Feature</option>
-                <option value="epic">Epic</option>
-                <option value="chore">Chore</option>
-              </select>
+                autoFocus
+              />
             </div>
 
-            {/* Priority */}
+            {/* Description */}
             <div>
-              <label htmlFor="create-priority" className="block text-sm font-medium text-slate-700 mb-2">
-                Priority
+              <label htmlFor="create-description" className="block text-sm font-medium text-slate-700 mb-2">
+                Description
               </label>
-              <select
-                id="create-priority"
-                value={formState.priority}
-                onChange={(e) => setFormState(prev => ({ ...prev, priority: Number(e.target.value) as Priority }))}
-                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm
-                           focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                <option value={0}>P0 - Critical</option>
-                <option value={1}>P1 - High</option>
-                <option value={2}>P2 - Medium</option>
-                <option value={3}>P3 - Low</option>
-                <option value={4}>P4 - Lowest</option>
-              </select>
+              <textarea
+                id="create-description"
+                value={formState.description}
+                onChange={(e) => handleFieldChange('description', e.target.value)}
+                placeholder="Add a description (supports Markdown)..."
+                rows={8}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-mono
+                           focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+              />
+              <p className="text-xs text-slate-500 mt-1">Markdown supported.</p>
             </div>
+
+            {/* Documentation Fields - expanded when they have content (e.g. from a template) */}
+            {([
+              ['design', 'Design'],
+              ['acceptance_criteria', 'Acceptance Criteria'],
+              ['notes', 'Notes'],
+            ] as const).map(([field, title]) => (
+              <CollapsibleSection
+                key={`${field}-${templateId}`}
+                title={title}
+                defaultExpanded={formState[field].length > 0}
+              >
+                <textarea
+                  id={`create-${field}`}
+                  aria-label={title}
+                  value={formState[field]}
+                  onChange={(e) => handleFieldChange(field, e.target.value)}
+                  placeholder={`Add ${title.toLowerCase()}...`}
+                  rows={5}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-mono
+                             focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+                />
+              </CollapsibleSection>
+            ))}
           </div>
 
-          {/* Description */}
-          <div>
-            <label htmlFor="create-description" className="block text-sm font-medium text-slate-700 mb-2">
-              Description
-            </label>
-            <textarea
-              id="create-description"
-              value={formState.description}
-              onChange={(e) => setFormState(prev => ({ ...prev, description: e.target.value }))}
-              placeholder="Add a description (supports Markdown)..."
-              rows={8}
-              className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm font-mono
-                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+          {/* Right panel - Properties, dates, labels and links */}
+          <div className="w-[40%] overflow-y-auto overflow-x-visible space-y-4">
+            <PropertiesSection
+              values={values}
+              allIssues={allIssues}
+              onChange={handleFieldChange}
+              showStatus={false}
+            />
+            <DatesSection values={values} onChange={handleFieldChange} />
+            <MetadataSection values={values} onChange={handleFieldChange} />
+            <LabelsSection values={values} onChange={handleFieldChange} />
+            <DependenciesSection
+              values={values}
+              allIssues={allIssues}
+              onChange={handleFieldChange}
+              currentIssueId={NEW_ISSUE_ID}
             />
-            <p className="text-xs text-slate-500 mt-1">
-              Markdown supported. You can add more details after creating the issue.
-            </p>
           </div>
         </div>
 
@@ -182,21 +334,23 @@ function IssueCreatorModal({ onClose, onCreate }: IssueCreatorModalProps) {
               className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 hover:border-slate-400 active:scale-[0.98] transition-all duration-150"
               disabled={saving}
             >
-              Cancel
-            </button>
-            <button
-              onClick={handleSave}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 active:scale-[0.98] transition-all duration-150 disabled:opacity-50 shadow-sm hover:shadow-md"
-              disabled={saving || !formState.title.trim()}
-              title="Cmd+Enter to save"
-            >
-              {saving ? (
-                <span className="inline-flex items-center gap-2">
-                  <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                  Creating...
-                </span>
-              ) : 'Create Issue'}
+              {createdId ? 'Close' : 'Cancel'}
             </button>
+            {!createdId && (
+              <button
+                onClick={handleSave}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 active:scale-[0.98] transition-all duration-150 disabled:opacity-50 shadow-sm hover:shadow-md"
+                disabled={saving || !formState.title.trim()}
+                title="Cmd+Enter to save"
+              >
+                {saving ? (
+                  <span className="inline-flex items-center gap-2">
+                    <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                    Creating...
+                  </span>
+                ) : 'Create Issue'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import { marked } from 'marked';
+import { CircleDot, GitBranch, MessageSquare, Plus, Tag } from 'lucide-react';
+import type { Issue, IssueActivityEvent, IssueStatus } from '@shared/types';
+import { addIssueComment, fetchIssueActivity } from '../../utils/issueApi';
+import { formatRelativeTime } from '../../utils/relativeTime';
+
+interface ActivityTimelineProps {
+  // Reloaded whenever the issue changes, e.g. after a save or a live refresh
+  issue: Issue;
+  // Beads health reports the database as read-only; commenting is disabled
+  readOnly?: boolean;
+}
+
+function formatStatus(status: IssueStatus | undefined): string {
+  if (!status) return '';
+  return status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ');
+}
+
+// What happened, from the point of view of the issue being viewed; follows the author's name
+function describeEvent(issueId: string, event: IssueActivityEvent): string {
+  switch (event.kind) {
+    case 'created':
+      return 'created the issue';
+    case 'comment':
+      return 'commented';
+    case 'status':
+      return `changed status from ${formatStatus(event.from)} to ${formatStatus(event.to)}`;
+    case 'label_added':
+      return `added label ${event.label}`;
+    case 'label_removed':
+      return `removed label ${event.label}`;
+    case 'dependency_added':
+    case 'dependency_removed': {
+      const dep = event.dependency;
+      const verb = event.kind === 'dependency_added' ? 'added' : 'removed';
+      if (!dep) return `${verb} a dependency`;
+      return dep.issue_id === issueId
+        ? `${verb} ${dep.type} link to ${dep.depends_on_id}`
+        : `${verb} ${dep.type} link from ${dep.issue_id}`;
+    }
+  }
+}
+
+function EventIcon({ kind }: { kind: IssueActivityEvent['kind'] }) {
+  const className = 'w-3.5 h-3.5';
+  if (kind === 'created') return <Plus className={className} />;
+  if (kind === 'comment') return <MessageSquare className={className} />;
+  if (kind === 'status') return <CircleDot className={className} />;
+  if (kind === 'label_added' || kind === 'label_removed') return <Tag className={className} />;
+  return <GitBranch className={className} />;
+}
+
+/**
+ * ActivityTimeline - Everything that happened to an issue, oldest first:
+ * comments, status transitions, label changes and dependency edits, plus a
+ * box for adding a comment. Comments are stored by Beads (bd comments);
+ * the rest is merged from Beads data and the dashboard's own history log.
+ */
+function ActivityTimeline({ issue, readOnly = false }: ActivityTimelineProps) {
+  const [events, setEvents] = useState<IssueActivityEvent[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [postError, setPostError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEvents(await fetchIssueActivity(issue.id));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'Failed to load activity');
+    }
+  }, [issue]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!comment.trim()) return;
+    setPosting(true);
+    setPostError(null);
+    try {
+      await addIssueComment(issue.id, comment);
+      setComment('');
+      await load();
+    } catch (err) {
+      setPostError(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loadError && <p className="text-sm text-red-600" role="alert">{loadError}</p>}
+      {!events && !loadError && <p className="text-sm text-slate-500">Loading activity...</p>}
+      {events && events.length === 0 && <p className="text-sm text-slate-500">No activity yet.</p>}
+
+      {events && events.length > 0 && (
+        <ol className="space-y-3" aria-label="Activity">
+          {events.map((event, index) => (
+            <li key={`${event.kind}-${event.at}-${index}`} className="flex gap-3" data-testid="activity-event">
+              <span className="mt-0.5 flex-shrink-0 w-6 h-6 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center">
+                <EventIcon kind={event.kind} />
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-slate-700">
+                  <span className="font-medium text-slate-900">{event.author || 'Someone'}</span>{' '}
+                  {describeEvent(issue.id, event)}
+                  {event.inferred && <span className="text-slate-400"> (inferred)</span>}
+                  <span className="text-slate-400"> · </span>
+                  <time dateTime={event.at} title={new Date(event.at).toLocaleString()} className="text-xs text-slate-500">
+                    {formatRelativeTime(event.at)}
+                  </time>
+                </p>
+                {event.kind === 'comment' && event.text && (
+                  // Comments come from the local Beads database, like the description
+                  <div
+                    className="mt-1 prose prose-sm max-w-none text-slate-700 p-3 border border-slate-200 rounded-lg bg-slate-50"
+                    dangerouslySetInnerHTML={{ __html: marked.parse(event.text) as string }}
+                  />
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {events?.some((event) => !event.author) && (
+        <p className="text-xs text-slate-400">
+          Status, label and dependency changes are noticed by the dashboard, so who made them isn't known.
+          Label and dependency changes made while it wasn't running are missing.
+        </p>
+      )}
+
+      <form onSubmit={handlePost} className="border-t border-slate-200 pt-4 space-y-2">
+        <label htmlFor="activity-comment" className="block text-sm font-medium text-slate-700">
+          Add a comment
+        </label>
+        <textarea
+          id="activity-comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={readOnly ? 'Comments are disabled while the project is read-only' : 'Write a comment (Markdown supported)...'}
+          disabled={readOnly || posting}
+          rows={3}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:bg-slate-50"
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-red-600" role={postError ? 'alert' : undefined}>{postError}</span>
+          <button
+            type="submit"
+            disabled={readOnly || posting || !comment.trim()}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {posting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default ActivityTimeline;
@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { AlertTriangle, CornerDownRight, RefreshCw } from 'lucide-react';
+import CollapsibleSection from './CollapsibleSection';
+import type { Issue } from '@shared/types';
+import { analyzeBlockers } from '../../utils/blockerChains';
+import type { BlockerChainNode } from '../../utils/blockerChains';
+
+interface BlockerChainSectionProps {
+  issue: Issue;
+  allIssues: Issue[];
+  // Opens another issue (e.g. the root blocker); without it IDs are plain text
+  onOpenIssue?: (issue: Issue) => void;
+}
+
+const PROBLEM_LABELS = {
+  missing: 'missing',
+  tombstone: 'deleted',
+  cycle: 'cycle',
+} as const;
+
+interface ChainListProps {
+  nodes: BlockerChainNode[];
+  onOpenIssue?: (issue: Issue) => void;
+}
+
+function ChainList({ nodes, onOpenIssue }: ChainListProps) {
+  return (
+    <ul className="space-y-1">
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <div className="flex items-center gap-1.5 text-sm" data-testid={`blocker-chain-node-${node.id}`}>
+            <CornerDownRight className="w-3.5 h-3.5 text-slate-300 flex-shrink-0" />
+            {node.issue && onOpenIssue && !node.problem ? (
+              <button
+                onClick={() => onOpenIssue(node.issue!)}
+                className="font-mono text-xs text-blue-600 hover:text-blue-800"
+              >
+                {node.id}
+              </button>
+            ) : (
+              <span className="font-mono text-xs text-slate-500">{node.id}</span>
+            )}
+            {node.issue && <span className="truncate text-slate-700">{node.issue.title || 'Untitled'}</span>}
+            {node.problem && (
+              <span className="text-xs px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">{PROBLEM_LABELS[node.problem]}</span>
+            )}
+            {node.repeated && <span className="text-xs text-slate-400">(see above)</span>}
+          </div>
+          {node.blockers.length > 0 && (
+            <div className="pl-4 mt-1">
+              <ChainList nodes={node.blockers} onOpenIssue={onOpenIssue} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Blocker chain section: every open issue standing in the way, followed
+ * transitively, with cycles and broken references flagged and a jump to
+ * the blocker the chain starts from.
+ */
+function BlockerChainSection({ issue, allIssues, onOpenIssue }: BlockerChainSectionProps) {
+  const analysis = useMemo(
+    () => analyzeBlockers(issue, new Map(allIssues.map((i) => [i.id, i]))),
+    [issue, allIssues]
+  );
+
+  if (analysis.chains.length === 0) return null;
+
+  const root = analysis.rootBlockers[0];
+
+  return (
+    <CollapsibleSection title="Blocker Chain">
+      <div className="space-y-3" data-testid="blocker-chain-section">
+        <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+          <span>
+            {analysis.depth} {analysis.depth === 1 ? 'level' : 'levels'} of open blockers
+          </span>
+          {root && onOpenIssue && (
+            <button
+              onClick={() => onOpenIssue(root)}
+              className="font-medium text-blue-600 hover:text-blue-800"
+              title={root.title}
+            >
+              Jump to root blocker {root.id}
+            </button>
+          )}
+        </div>
+
+        {analysis.cycle && (
+          <p className="flex items-start gap-1.5 text-xs text-amber-800 bg-amber-50 rounded p-2">
+            <RefreshCw className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            Dependency cycle: {analysis.cycle.join(' → ')}
+          </p>
+        )}
+        {analysis.brokenRefs.length > 0 && (
+          <p className="flex items-start gap-1.5 text-xs text-amber-800 bg-amber-50 rounded p-2">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            Points at {analysis.brokenRefs.map((ref) => `${ref.id} (${PROBLEM_LABELS[ref.problem]})`).join(', ')}
+          </p>
+        )}
+
+        <ChainList nodes={analysis.chains} onOpenIssue={onOpenIssue} />
+      </div>
+    </CollapsibleSection>
+  );
+}
+
+export default BlockerChainSection;
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import type { IssueFieldConflict } from '../../utils/issueChanges';
+import { ISSUE_FIELD_LABELS, formatIssueFieldValue } from '../../utils/issueChanges';
+
+interface ConflictDialogProps {
+  issueId: string;
+  conflicts: IssueFieldConflict[];
+  // Save the editor's changes on top of the other edits
+  onOverwrite: () => Promise<void>;
+  // Drop the editor's changes and continue from the issue as it is now
+  onReload: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * ConflictDialog - Shown when saving finds the issue was changed by someone
+ * else since the editor loaded it. Lists each field that changed, with the
+ * editor's own value where it changed the field too.
+ */
+function ConflictDialog({ issueId, conflicts, onOverwrite, onReload, onCancel }: ConflictDialogProps) {
+  const [saving, setSaving] = useState(false);
+  const clashes = conflicts.filter((conflict) => conflict.edited).length;
+
+  const handleOverwrite = async () => {
+    setSaving(true);
+    try {
+      await onOverwrite();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+      onKeyDown={(e) => {
+        // Keep Escape from also closing the editor underneath
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="conflict-dialog-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
+        <div className="p-5 border-b border-slate-100 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-500 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          <div className="min-w-0">
+            <h2 id="conflict-dialog-title" className="text-base font-semibold text-slate-900">
+              {issueId} was changed while you were editing
+            </h2>
+            <p className="text-sm text-slate-500">
+              {clashes > 0
+                ? `${clashes} of the fields you edited ${clashes === 1 ? 'was' : 'were'} also changed. Saving overwrites them.`
+                : "None of the fields you edited were changed, so saving keeps everyone's changes."}
+            </p>
+          </div>
+        </div>
+
+        <div className="p-5 max-h-[50vh] overflow-y-auto">
+          <table className="w-full text-sm" data-testid="conflict-fields">
+            <thead>
+              <tr className="text-left text-xs font-medium text-slate-500 uppercase tracking-wide">
+                <th className="pb-2 pr-3">Field</th>
+                <th className="pb-2 pr-3">When you opened it</th>
+                <th className="pb-2 pr-3">Now</th>
+                <th className="pb-2">Yours</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {conflicts.map((conflict) => (
+                <tr key={conflict.field} className={`align-top ${conflict.edited ? 'bg-amber-50/60' : ''}`}>
+                  <td className="py-2 pr-3 font-medium text-slate-700 whitespace-nowrap">{ISSUE_FIELD_LABELS[conflict.field]}</td>
+                  <td className="py-2 pr-3 text-slate-500 line-through break-words">{formatIssueFieldValue(conflict.base)}</td>
+                  <td className="py-2 pr-3 text-slate-900 break-words">{formatIssueFieldValue(conflict.theirs)}</td>
+                  <td className="py-2 text-slate-900 break-words">
+                    {conflict.edited ? formatIssueFieldValue(conflict.mine) : <span className="text-slate-400">Not edited</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 rounded-b-lg flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors"
+            autoFocus
+          >
+            Keep editing
+          </button>
+          <button
+            onClick={onReload}
+            disabled={saving}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors"
+          >
+            Discard mine and reload
+          </button>
+          <button
+            onClick={handleOverwrite}
+            disabled={saving}
+            className="px-4 py-2 bg-amber-600 text-white rounded-lg text-sm font-medium hover:bg-amber-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save mine anyway'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ConflictDialog;
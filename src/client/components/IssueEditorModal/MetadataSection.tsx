@@ -9,7 +9,7 @@ interface MetadataSectionProps {
 /**
  * Converts minutes to a human-readable hours format
  */
-function formatMinutesToHours(minutes: number | undefined): string {
+export function formatMinutesToHours(minutes: number | undefined): string {
   if (minutes === undefined || minutes === 0) return '';
 
   const hours = Math.floor(minutes / 60);
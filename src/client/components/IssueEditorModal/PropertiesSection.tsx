@@ -46,6 +46,8 @@ interface PropertiesSectionProps {
   values: Partial<Issue>;
   allIssues?: Issue[];
   onChange: (field: string, value: unknown) => void;
+  // The creator leaves status out; new issues always start open
+  showStatus?: boolean;
 }
 
 /**
@@ -71,7 +73,7 @@ function formatIssueId(id: string): string {
  * Properties section containing Type, Status, Priority dropdowns,
  * and Assignee/Parent text inputs. Wrapped in a CollapsibleSection.
  */
-function PropertiesSection({ values, allIssues = [], onChange }: PropertiesSectionProps) {
+function PropertiesSection({ values, allIssues = [], onChange, showStatus = true }: PropertiesSectionProps) {
   const [parentInput, setParentInput] = useState('');
   const [parentError, setParentError] = useState<string | null>(null);
 
@@ -170,10 +172,15 @@ function PropertiesSection({ values, allIssues = [], onChange }: PropertiesSecti
                 {type.charAt(0).toUpperCase() + type.slice(1).replace('-', ' ')}
               </option>
             ))}
+            {/* Custom types (e.g. from a template) aren't in the built-in list */}
+            {values.issue_type && !(ISSUE_TYPES as readonly string[]).includes(values.issue_type) && (
+              <option value={values.issue_type}>{values.issue_type}</option>
+            )}
           </select>
         </div>
 
         {/* Status Dropdown */}
+        {showStatus && (
         <div>
           <label htmlFor="issue-status" className={labelClassName}>
             Status
@@ -191,6 +198,7 @@ function PropertiesSection({ values, allIssues = [], onChange }: PropertiesSecti
             ))}
           </select>
         </div>
+        )}
 
         {/* Priority Dropdown */}
         <div>
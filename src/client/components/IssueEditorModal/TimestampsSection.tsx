@@ -40,12 +40,13 @@ function formatTimestamp(isoString: string | undefined): string {
 
 /**
  * TimestampsSection displays read-only timestamp information.
- * Contains: Created at, Updated at, Closed at (if present), Created by.
+ * Contains: Created at, Updated at, Closed at and close reason (if present), Created by.
  * All fields are display-only (no editing).
  * Collapsed by default.
  */
 function TimestampsSection({ values }: TimestampsSectionProps) {
   const hasClosedAt = !!values.closed_at;
+  const hasCloseReason = !!values.close_reason;
   const hasCreatedBy = !!values.created_by;
 
   return (
@@ -83,6 +84,16 @@ function TimestampsSection({ values }: TimestampsSectionProps) {
           </div>
         )}
 
+        {/* Close Reason - Only show if present */}
+        {hasCloseReason && (
+          <div>
+            <label className="block text-xs font-medium text-slate-500 mb-0.5">
+              Close reason
+            </label>
+            <p className="text-sm text-slate-600 whitespace-pre-wrap">{values.close_reason}</p>
+          </div>
+        )}
+
         {/* Created By - Only show if present */}
         {hasCreatedBy && (
           <div>
@@ -1,6 +1,7 @@
-import { useState, useCallback, useEffect } from 'react';
-import { X, Copy, Check } from 'lucide-react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { X, Copy, Check, Lock, TrendingUp } from 'lucide-react';
 import type { Issue, IssueStatus, Priority, IssueDependency, ExtendedIssueType } from '@shared/types';
+import { collectIssueLinks } from '@shared/dependencyGraph';
 import TitleSection from './TitleSection';
 import MarkdownSection from './MarkdownSection';
 import CollapsibleSection from './CollapsibleSection';
@@ -10,12 +11,25 @@ import MetadataSection from './MetadataSection';
 import TimestampsSection from './TimestampsSection';
 import LabelsSection from './LabelsSection';
 import DependenciesSection from './DependenciesSection';
+import BlockerChainSection from './BlockerChainSection';
+import ActivityTimeline from './ActivityTimeline';
+import ConflictDialog from './ConflictDialog';
+import CloseIssueDialog from '../CloseIssueDialog';
+import { IssueConflictError } from '../../utils/issueApi';
+import { getIssueConflicts } from '../../utils/issueChanges';
 
 interface IssueEditorModalProps {
   issue: Issue;
   allIssues?: Issue[];
   onClose: () => void;
-  onSave: (updates: Partial<Issue>) => Promise<void>;
+  // expectedUpdatedAt is the updated_at the changes are based on; a conflict rejects with IssueConflictError
+  onSave: (updates: Partial<Issue>, expectedUpdatedAt?: string) => Promise<void>;
+  // Beads health reports the database as read-only; saving is disabled
+  readOnly?: boolean;
+  // Opens the epic burnup page (shown for epics only)
+  onOpenEpic?: (epicId: string) => void;
+  // Switches the editor to another issue (e.g. a blocker in the chain)
+  onOpenIssue?: (issue: Issue) => void;
 }
 
 interface FormState {
@@ -38,11 +52,12 @@ interface FormState {
   // Labels and dependencies
   labels: string[];
   dependencies: IssueDependency[];
+  // Reason captured when the status is changed to closed
+  close_reason: string;
 }
 
-function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEditorModalProps) {
-  // Form state - working copy of editable fields
-  const [formState, setFormState] = useState<FormState>({
+function formFromIssue(issue: Issue, dependencies: IssueDependency[]): FormState {
+  return {
     title: issue.title,
     description: issue.description || '',
     issue_type: issue.issue_type || 'task',
@@ -61,8 +76,32 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
     estimate: issue.estimate,
     // Labels and dependencies
     labels: issue.labels || [],
-    dependencies: issue.dependencies || [],
-  });
+    dependencies,
+    close_reason: '',
+  };
+}
+
+function IssueEditorModal({ issue, allIssues = [], onClose, onSave, readOnly = false, onOpenEpic, onOpenIssue }: IssueEditorModalProps) {
+  // Links in both directions: the issue's own dependencies plus links from
+  // other issues that point at it (e.g. issues this one blocks)
+  const originalDependencies = useMemo(
+    () => collectIssueLinks(issue.id, [issue, ...allIssues.filter((i) => i.id !== issue.id)]),
+    [issue, allIssues]
+  );
+
+  // The issue as the editor loaded it. Edits are diffed against this rather
+  // than the live issue, so a refresh mid-edit can't turn someone else's
+  // change into one of ours, and its updated_at is the save precondition.
+  const [baseIssue, setBaseIssue] = useState<Issue>(issue);
+
+  // Form state - working copy of editable fields
+  const [formState, setFormState] = useState<FormState>(() => formFromIssue(issue, originalDependencies));
+
+  // Save rejected because someone else changed the issue; holds the issue as it is now
+  const [conflict, setConflict] = useState<{ current: Issue; updates: Partial<Issue> } | null>(null);
+
+  // Changing the status to closed asks for a reason before applying it
+  const [confirmingClose, setConfirmingClose] = useState(false);
 
   // Track dirty state
   const [isDirty, setIsDirty] = useState(false);
@@ -74,6 +113,9 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
   // Copy to clipboard state
   const [copied, setCopied] = useState(false);
 
+  // Left panel shows either the editable fields or the activity timeline
+  const [leftTab, setLeftTab] = useState<'details' | 'activity'>('details');
+
   // Handle copy issue ID to clipboard
   const handleCopyId = useCallback(async () => {
     try {
@@ -87,31 +129,30 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
 
   // Update dirty state when form values change
   useEffect(() => {
-    const titleChanged = formState.title !== issue.title;
-    const descriptionChanged = formState.description !== (issue.description || '');
-    const typeChanged = formState.issue_type !== (issue.issue_type || 'task');
-    const statusChanged = formState.status !== (issue.status || 'open');
-    const priorityChanged = formState.priority !== (issue.priority ?? 2);
-    const assigneeChanged = formState.assignee !== (issue.assignee || '');
-    const parentChanged = formState.parent_id !== (issue.parent_id || '');
-    const dueChanged = formState.due !== issue.due;
-    const deferChanged = formState.defer !== issue.defer;
+    const titleChanged = formState.title !== baseIssue.title;
+    const descriptionChanged = formState.description !== (baseIssue.description || '');
+    const typeChanged = formState.issue_type !== (baseIssue.issue_type || 'task');
+    const statusChanged = formState.status !== (baseIssue.status || 'open');
+    const priorityChanged = formState.priority !== (baseIssue.priority ?? 2);
+    const assigneeChanged = formState.assignee !== (baseIssue.assignee || '');
+    const parentChanged = formState.parent_id !== (baseIssue.parent_id || '');
+    const dueChanged = formState.due !== baseIssue.due;
+    const deferChanged = formState.defer !== baseIssue.defer;
     // Documentation fields
-    const designChanged = formState.design !== (issue.design || '');
-    const acceptanceCriteriaChanged = formState.acceptance_criteria !== (issue.acceptance_criteria || '');
-    const notesChanged = formState.notes !== (issue.notes || '');
+    const designChanged = formState.design !== (baseIssue.design || '');
+    const acceptanceCriteriaChanged = formState.acceptance_criteria !== (baseIssue.acceptance_criteria || '');
+    const notesChanged = formState.notes !== (baseIssue.notes || '');
     // Metadata fields
-    const externalRefChanged = formState.external_ref !== issue.external_ref;
-    const estimateChanged = formState.estimate !== issue.estimate;
+    const externalRefChanged = formState.external_ref !== baseIssue.external_ref;
+    const estimateChanged = formState.estimate !== baseIssue.estimate;
     // Labels and dependencies (array comparison)
-    const originalLabels = issue.labels || [];
+    const originalLabels = baseIssue.labels || [];
     const labelsChanged =
       formState.labels.length !== originalLabels.length ||
       formState.labels.some((l, i) => l !== originalLabels[i]);
-    const originalDeps = issue.dependencies || [];
     const dependenciesChanged =
-      formState.dependencies.length !== originalDeps.length ||
-      JSON.stringify(formState.dependencies) !== JSON.stringify(originalDeps);
+      formState.dependencies.length !== originalDependencies.length ||
+      JSON.stringify(formState.dependencies) !== JSON.stringify(originalDependencies);
 
     setIsDirty(
       titleChanged ||
@@ -131,7 +172,7 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
       labelsChanged ||
       dependenciesChanged
     );
-  }, [formState, issue]);
+  }, [formState, baseIssue, originalDependencies]);
 
   // Handle title change
   const handleTitleChange = useCallback((newTitle: string) => {
@@ -145,7 +186,20 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
 
   // Handle property change (for PropertiesSection, DatesSection, MetadataSection)
   const handlePropertyChange = useCallback((field: string, value: unknown) => {
+    if (field === 'status') {
+      if (value === 'closed' && baseIssue.status !== 'closed') {
+        setConfirmingClose(true);
+        return;
+      }
+      setFormState((prev) => ({ ...prev, status: value as IssueStatus, close_reason: '' }));
+      return;
+    }
     setFormState((prev) => ({ ...prev, [field]: value }));
+  }, [baseIssue.status]);
+
+  const handleConfirmClose = useCallback((reason: string) => {
+    setFormState((prev) => ({ ...prev, status: 'closed', close_reason: reason }));
+    setConfirmingClose(false);
   }, []);
 
   // Handle documentation field changes
@@ -184,6 +238,27 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
     onClose();
   }, [isDirty, onClose]);
 
+  // Leave for the epic burnup page, with the same unsaved changes warning
+  const handleOpenEpic = useCallback(() => {
+    if (!onOpenEpic) return;
+    if (isDirty && !window.confirm('You have unsaved changes. Are you sure you want to leave without saving?')) {
+      return;
+    }
+    onOpenEpic(issue.id);
+  }, [isDirty, onOpenEpic, issue.id]);
+
+  // Switch to another issue, with the same unsaved changes warning
+  const handleOpenIssue = useCallback(
+    (target: Issue) => {
+      if (!onOpenIssue) return;
+      if (isDirty && !window.confirm('You have unsaved changes. Are you sure you want to leave without saving?')) {
+        return;
+      }
+      onOpenIssue(target);
+    },
+    [isDirty, onOpenIssue]
+  );
+
   // Handle backdrop click
   const handleBackdropClick = useCallback(
     (e: React.MouseEvent<HTMLDivElement>) => {
@@ -203,74 +278,77 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
       // Collect only changed fields
       const updates: Partial<Issue> = {};
 
-      if (formState.title !== issue.title) {
+      if (formState.title !== baseIssue.title) {
         updates.title = formState.title;
       }
 
-      if (formState.description !== (issue.description || '')) {
+      if (formState.description !== (baseIssue.description || '')) {
         updates.description = formState.description;
       }
 
-      if (formState.issue_type !== (issue.issue_type || 'task')) {
+      if (formState.issue_type !== (baseIssue.issue_type || 'task')) {
         updates.issue_type = formState.issue_type as Issue['issue_type'];
       }
 
-      if (formState.status !== (issue.status || 'open')) {
+      if (formState.status !== (baseIssue.status || 'open')) {
         updates.status = formState.status;
+        if (formState.status === 'closed' && formState.close_reason) {
+          updates.close_reason = formState.close_reason;
+        }
       }
 
-      if (formState.priority !== (issue.priority ?? 2)) {
+      if (formState.priority !== (baseIssue.priority ?? 2)) {
         updates.priority = formState.priority;
       }
 
-      if (formState.assignee !== (issue.assignee || '')) {
+      if (formState.assignee !== (baseIssue.assignee || '')) {
         updates.assignee = formState.assignee || undefined;
       }
 
-      if (formState.parent_id !== (issue.parent_id || '')) {
+      if (formState.parent_id !== (baseIssue.parent_id || '')) {
         updates.parent_id = formState.parent_id || undefined;
       }
 
       console.log('[DEBUG] Date comparison:', {
         'formState.due': formState.due,
-        'issue.due': issue.due,
-        'dueChanged': formState.due !== issue.due
+        'baseIssue.due': baseIssue.due,
+        'dueChanged': formState.due !== baseIssue.due
       });
 
       // For dates: use empty string instead of undefined when clearing
       // because JSON.stringify strips undefined values
-      if (formState.due !== issue.due) {
+      if (formState.due !== baseIssue.due) {
         updates.due = formState.due ?? '';
       }
 
-      if (formState.defer !== issue.defer) {
+      if (formState.defer !== baseIssue.defer) {
         updates.defer = formState.defer ?? '';
       }
 
       // Documentation fields
-      if (formState.design !== (issue.design || '')) {
+      if (formState.design !== (baseIssue.design || '')) {
         updates.design = formState.design || undefined;
       }
 
-      if (formState.acceptance_criteria !== (issue.acceptance_criteria || '')) {
+      if (formState.acceptance_criteria !== (baseIssue.acceptance_criteria || '')) {
         updates.acceptance_criteria = formState.acceptance_criteria || undefined;
       }
 
-      if (formState.notes !== (issue.notes || '')) {
+      if (formState.notes !== (baseIssue.notes || '')) {
         updates.notes = formState.notes || undefined;
       }
 
       // Metadata fields
-      if (formState.external_ref !== issue.external_ref) {
+      if (formState.external_ref !== baseIssue.external_ref) {
         updates.external_ref = formState.external_ref;
       }
 
-      if (formState.estimate !== issue.estimate) {
+      if (formState.estimate !== baseIssue.estimate) {
         updates.estimate = formState.estimate;
       }
 
       // Labels (array comparison)
-      const originalLabels = issue.labels || [];
+      const originalLabels = baseIssue.labels || [];
       const labelsChanged =
         formState.labels.length !== originalLabels.length ||
         formState.labels.some((l, i) => l !== originalLabels[i]);
@@ -279,17 +357,24 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
       }
 
       // Dependencies (array comparison)
-      const originalDeps = issue.dependencies || [];
       const dependenciesChanged =
-        formState.dependencies.length !== originalDeps.length ||
-        JSON.stringify(formState.dependencies) !== JSON.stringify(originalDeps);
+        formState.dependencies.length !== originalDependencies.length ||
+        JSON.stringify(formState.dependencies) !== JSON.stringify(originalDependencies);
       if (dependenciesChanged) {
         updates.dependencies = formState.dependencies;
       }
 
       // Only save if there are changes
       if (Object.keys(updates).length > 0) {
-        await onSave(updates);
+        try {
+          await onSave(updates, baseIssue.updated_at);
+        } catch (err) {
+          if (err instanceof IssueConflictError) {
+            setConflict({ current: err.issue, updates });
+            return;
+          }
+          throw err;
+        }
       }
 
       onClose();
@@ -298,7 +383,33 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
     } finally {
       setSaving(false);
     }
-  }, [formState, issue, onSave, onClose]);
+  }, [formState, baseIssue, originalDependencies, onSave, onClose]);
+
+  // Conflict resolved in our favour: save the same changes against the issue as it is now
+  const handleOverwrite = useCallback(async () => {
+    if (!conflict) return;
+    try {
+      await onSave(conflict.updates, conflict.current.updated_at);
+      setConflict(null);
+      onClose();
+    } catch (err) {
+      if (err instanceof IssueConflictError) {
+        // Changed yet again in the meantime
+        setConflict({ current: err.issue, updates: conflict.updates });
+        return;
+      }
+      setConflict(null);
+      setError(err instanceof Error ? err.message : 'Failed to save changes');
+    }
+  }, [conflict, onSave, onClose]);
+
+  // Conflict resolved in their favour: start over from the issue as it is now
+  const handleReload = useCallback(() => {
+    if (!conflict) return;
+    setBaseIssue(conflict.current);
+    setFormState(formFromIssue(conflict.current, originalDependencies));
+    setConflict(null);
+  }, [conflict, originalDependencies]);
 
   // Handle Escape key
   useEffect(() => {
@@ -316,6 +427,8 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200"
       onClick={handleBackdropClick}
+      role="dialog"
+      aria-modal="true"
     >
       <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200">
         {/* Header */}
@@ -343,19 +456,51 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
               </span>
             )}
           </button>
-          <button
-            onClick={handleClose}
-            className="text-slate-400 hover:text-slate-600 transition-colors p-1"
-            aria-label="Close modal"
-          >
-            <X className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-2">
+            {issue.issue_type === 'epic' && onOpenEpic && (
+              <button
+                onClick={handleOpenEpic}
+                className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-indigo-700 bg-indigo-50 hover:bg-indigo-100 rounded transition-colors"
+              >
+                <TrendingUp className="w-3.5 h-3.5" />
+                View burnup
+              </button>
+            )}
+            <button
+              onClick={handleClose}
+              className="text-slate-400 hover:text-slate-600 transition-colors p-1"
+              aria-label="Close modal"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
         {/* Content - Two column layout */}
         <div className="flex-1 flex gap-6 p-6 min-h-0">
           {/* Left panel - Main content (65%) - scrollable */}
           <div className="w-[65%] overflow-y-auto space-y-6 pr-2">
+              <div className="flex gap-4 border-b border-slate-200" role="tablist" aria-label="Issue panels">
+                {(['details', 'activity'] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    type="button"
+                    role="tab"
+                    aria-selected={leftTab === tab}
+                    onClick={() => setLeftTab(tab)}
+                    className={`-mb-px pb-2 text-sm font-medium border-b-2 transition-colors ${
+                      leftTab === tab ? 'border-blue-600 text-blue-600' : 'border-transparent text-slate-500 hover:text-slate-700'
+                    }`}
+                  >
+                    {tab === 'details' ? 'Details' : 'Activity'}
+                  </button>
+                ))}
+              </div>
+
+              {leftTab === 'activity' ? (
+                <ActivityTimeline issue={issue} readOnly={readOnly} />
+              ) : (
+              <>
               {/* Title Section */}
               <TitleSection value={formState.title} onChange={handleTitleChange} />
 
@@ -403,6 +548,8 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
                   />
                 </CollapsibleSection>
               </div>
+              </>
+              )}
             </div>
 
           {/* Right panel - Sidebar (35%) - scrollable with overflow visible for date picker */}
@@ -413,6 +560,11 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
                 allIssues={allIssues}
                 onChange={handlePropertyChange}
               />
+              {formState.status === 'closed' && formState.close_reason && baseIssue.status !== 'closed' && (
+                <p className="-mt-2 text-xs text-slate-500">
+                  Close reason: <span className="text-slate-700">{formState.close_reason}</span>
+                </p>
+              )}
 
               {/* Dates Section */}
               <DatesSection
@@ -442,6 +594,13 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
                 onChange={handleDependenciesChange}
                 currentIssueId={issue.id}
               />
+
+              {/* Blocker Chain Section */}
+              <BlockerChainSection
+                issue={issue}
+                allIssues={allIssues}
+                onOpenIssue={onOpenIssue ? handleOpenIssue : undefined}
+              />
           </div>
         </div>
 
@@ -456,7 +615,13 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
                 {error}
               </div>
             )}
-            {isDirty && !error && (
+            {readOnly && !error && (
+              <div className="flex items-center gap-2 text-slate-500 text-sm font-medium">
+                <Lock className="w-4 h-4" aria-hidden="true" />
+                Read-only: writes are disabled for this project
+              </div>
+            )}
+            {isDirty && !readOnly && !error && (
               <div className="flex items-center gap-2 text-amber-600 text-sm font-medium">
                 <span className="w-2 h-2 bg-amber-500 rounded-full animate-pulse" />
                 Unsaved changes
@@ -474,7 +639,8 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
             <button
               onClick={handleSave}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 active:scale-[0.98] transition-all duration-150 disabled:opacity-50 shadow-sm hover:shadow-md"
-              disabled={saving || !isDirty}
+              disabled={saving || !isDirty || readOnly}
+              title={readOnly ? 'Writes are disabled while Beads is read-only' : undefined}
             >
               {saving ? (
                 <span className="inline-flex items-center gap-2">
@@ -486,6 +652,25 @@ function IssueEditorModal({ issue, allIssues = [], onClose, onSave }: IssueEdito
           </div>
         </div>
       </div>
+
+      {confirmingClose && (
+        <CloseIssueDialog
+          title={`Close ${issue.id}`}
+          subtitle={formState.title || 'Untitled'}
+          onConfirm={handleConfirmClose}
+          onCancel={() => setConfirmingClose(false)}
+        />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          issueId={issue.id}
+          conflicts={getIssueConflicts(baseIssue, conflict.current, conflict.updates)}
+          onOverwrite={handleOverwrite}
+          onReload={handleReload}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </div>
   );
 }
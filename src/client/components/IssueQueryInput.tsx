@@ -0,0 +1,149 @@
+import { useMemo, useRef, useState } from 'react';
+import { Code2, X } from 'lucide-react';
+import type { Issue, IssueQueryError } from '@shared/types';
+import { getQuerySuggestions } from '../utils/queryAutocomplete';
+
+interface IssueQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Issues to draw label, assignee and parent suggestions from
+  issues: Issue[];
+  errors: IssueQueryError[];
+  // Who assignee:me refers to; asked for once the query uses it
+  me: string;
+  onMeChange: (me: string) => void;
+  usesMe: boolean;
+}
+
+/**
+ * IssueQueryInput - Text box for structured issue queries
+ * (status:open priority:<=1 -label:wontfix ...) with field and value
+ * autocomplete and inline parse errors.
+ */
+function IssueQueryInput({ value, onChange, issues, errors, me, onMeChange, usesMe }: IssueQueryInputProps) {
+  const [open, setOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const suggestions = useMemo(() => getQuerySuggestions(value, issues), [value, issues]);
+  const showSuggestions = open && suggestions.length > 0;
+
+  const accept = (index: number) => {
+    onChange(suggestions[index].value);
+    setHighlightedIndex(0);
+    inputRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex((prev) => Math.min(prev + 1, suggestions.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex((prev) => Math.max(prev - 1, 0));
+        break;
+      case 'Tab':
+      case 'Enter':
+        e.preventDefault();
+        accept(Math.min(highlightedIndex, suggestions.length - 1));
+        break;
+      case 'Escape':
+        setOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="px-6 py-2 border-b border-slate-200 bg-white">
+      <div className="relative">
+        <Code2 className="absolute left-2.5 top-2 w-4 h-4 text-slate-400" aria-hidden="true" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlightedIndex(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Filter with a query, e.g. status:open priority:<=1 -label:wontfix assignee:me"
+          className={`w-full pl-8 pr-8 py-1.5 font-mono text-xs border rounded focus:outline-none focus:ring-2 ${
+            errors.length > 0 ? 'border-red-300 focus:ring-red-200' : 'border-slate-300 focus:ring-blue-200'
+          }`}
+          aria-label="Issue query"
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls="issue-query-suggestions"
+          aria-invalid={errors.length > 0}
+        />
+        {value && (
+          <button
+            onClick={() => onChange('')}
+            className="absolute right-2 top-2 text-slate-400 hover:text-slate-600"
+            aria-label="Clear query"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+
+        {showSuggestions && (
+          <ul
+            id="issue-query-suggestions"
+            role="listbox"
+            className="absolute z-30 left-0 mt-1 w-96 max-w-full bg-white border border-slate-200 rounded-lg shadow-lg py-1"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.label}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                // mousedown keeps focus in the input, so blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(index);
+                }}
+                className={`flex items-center justify-between gap-3 px-3 py-1.5 cursor-pointer text-xs ${
+                  index === highlightedIndex ? 'bg-blue-50' : 'hover:bg-slate-50'
+                }`}
+              >
+                <span className="font-mono text-slate-800">{suggestion.label}</span>
+                {suggestion.description && <span className="text-slate-400 truncate">{suggestion.description}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-1 text-xs text-red-600" data-testid="issue-query-errors">
+          {errors.map((error) => (
+            <li key={`${error.start}-${error.message}`}>
+              <span className="font-mono">{value.slice(error.start, error.end)}</span>: {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {usesMe && (
+        <label className="mt-1 flex items-center gap-2 text-xs text-slate-500">
+          assignee:me is
+          <input
+            type="text"
+            value={me}
+            onChange={(e) => onMeChange(e.target.value)}
+            placeholder="your Beads name"
+            className="px-1.5 py-0.5 border border-slate-300 rounded text-xs"
+            aria-label="Your assignee name"
+          />
+        </label>
+      )}
+    </div>
+  );
+}
+
+export default IssueQueryInput;
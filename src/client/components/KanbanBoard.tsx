@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import {
   AlertOctagon,
   AlertTriangle,
@@ -13,84 +13,80 @@ import {
   GripVertical,
   Clock,
   ChevronDown,
+  ChevronRight,
+  Rows3,
+  Link2,
+  RefreshCw,
 } from 'lucide-react';
-import type { Issue, IssueStatus, Priority } from '@shared/types';
+import type { BoardColumnConfig, Issue, IssueRanks, IssueStatus, Priority } from '@shared/types';
+import { DEFAULT_BOARD_COLUMNS } from '@shared/dashboardConfig';
 import IssueEditorModal from './IssueEditorModal';
 import CopyableId from './CopyableId';
 import DateBadge from './DateBadge';
+import { IssueConflictError, saveIssueRanks, saveIssueUpdates, setIssueStatus } from '../utils/issueApi';
+import { applyIssueUpdates } from '../utils/issueChanges';
+import { useIssueKeyboardNav } from '../hooks/useIssueKeyboardNav';
+import { computeRankUpdates, sortByRank } from '../utils/ranking';
+import {
+  BOARD_COLUMN_COLORS,
+  categorizeIssue,
+  getDropStatus,
+  groupIssuesByColumn,
+  isBlockedByDependencies,
+} from '../utils/boardColumns';
+import { analyzeBlockers } from '../utils/blockerChains';
+import type { BlockerAnalysis } from '../utils/blockerChains';
+import { SWIMLANE_OPTIONS, buildSwimlanes, getLaneUpdates } from '../utils/swimlanes';
+import type { Swimlane, SwimlaneGrouping } from '../utils/swimlanes';
+import CloseIssueDialog from './CloseIssueDialog';
 
 interface KanbanBoardProps {
   issues: Issue[];
+  // Disables drag-and-drop status changes while Beads is read-only
+  readOnly?: boolean;
+  onOpenEpic?: (epicId: string) => void;
+  // Opens an issue elsewhere (e.g. the /issue/:id route) instead of the local editor modal
+  onOpenIssue?: (issue: Issue) => void;
+  // Columns from the project's dashboard configuration (defaults to the beads-style board)
+  columns?: BoardColumnConfig[];
+  // Manual card order from dashboard metadata; unranked cards follow the ranked ones
+  ranks?: IssueRanks;
+  // Told which card has keyboard focus (j/k), or null
+  onFocusedIssueChange?: (issue: Issue | null) => void;
 }
 
-// Kanban categories (different from IssueStatus)
-type KanbanCategory = 'blocked' | 'ready' | 'in_progress' | 'closed';
-
-// Column configuration - beads-style categories
-const COLUMNS: { category: KanbanCategory; label: string; bgColor: string; headerColor: string }[] = [
-  { category: 'blocked', label: 'Blocked', bgColor: 'bg-red-50', headerColor: 'bg-red-200' },
-  { category: 'ready', label: 'Ready', bgColor: 'bg-slate-50', headerColor: 'bg-slate-200' },
-  { category: 'in_progress', label: 'In Progress', bgColor: 'bg-blue-50', headerColor: 'bg-blue-200' },
-  { category: 'closed', label: 'Closed', bgColor: 'bg-green-50', headerColor: 'bg-green-200' },
-];
-
-// Map kanban category to status for drag-and-drop updates
-const CATEGORY_TO_STATUS: Record<KanbanCategory, IssueStatus> = {
-  blocked: 'blocked',
-  ready: 'open',
-  in_progress: 'in_progress',
-  closed: 'closed',
-};
-
-// Check if an issue is blocked by dependencies
-function isBlockedByDependencies(issue: Issue, allIssues: Issue[]): boolean {
-  // Check dependencies array (new format)
-  if (issue.dependencies && Array.isArray(issue.dependencies)) {
-    for (const dep of issue.dependencies) {
-      if (typeof dep === 'object' && dep.depends_on_id) {
-        const dependsOnIssue = allIssues.find((i) => i.id === dep.depends_on_id);
-        // If the dependency exists and is not closed, this issue is blocked
-        if (dependsOnIssue && dependsOnIssue.status !== 'closed') {
-          return true;
-        }
-      }
-    }
-  }
+const NO_RANKS: IssueRanks = {};
 
-  // Check blocked_by array (legacy format)
-  if (issue.blocked_by && Array.isArray(issue.blocked_by)) {
-    for (const blockerId of issue.blocked_by) {
-      const blockerIssue = allIssues.find((i) => i.id === blockerId);
-      if (blockerIssue && blockerIssue.status !== 'closed') {
-        return true;
-      }
-    }
-  }
+// Kanban categories are column ids from the board configuration
+type KanbanCategory = string;
 
-  return false;
+// A column as rendered: its config resolved to colors and drop behaviour
+interface KanbanColumnDisplay {
+  category: KanbanCategory;
+  label: string;
+  bgColor: string;
+  headerColor: string;
+  dropStatus: IssueStatus | null;
+  wipLimit?: number;
 }
 
-// Categorize an issue into a kanban column
-function categorizeIssue(issue: Issue, allIssues: Issue[]): KanbanCategory {
-  // Closed issues go to Closed column
-  if (issue.status === 'closed') {
-    return 'closed';
-  }
+function toDisplayColumns(columns: BoardColumnConfig[]): KanbanColumnDisplay[] {
+  return columns.map((col) => ({
+    category: col.id,
+    label: col.label,
+    ...BOARD_COLUMN_COLORS[col.color ?? 'slate'],
+    dropStatus: getDropStatus(col),
+    wipLimit: col.wipLimit,
+  }));
+}
 
-  // In progress issues go to In Progress column
-  if (issue.status === 'in_progress') {
-    return 'in_progress';
-  }
+// Default column configuration - beads-style categories
+const COLUMNS = toDisplayColumns(DEFAULT_BOARD_COLUMNS);
 
-  // Explicitly blocked issues or dependency-blocked issues go to Blocked
-  if (issue.status === 'blocked' || isBlockedByDependencies(issue, allIssues)) {
-    return 'blocked';
-  }
-
-  // Everything else (open, deferred, pinned, hooked) goes to Ready
-  // Note: tombstones are filtered out before display
-  return 'ready';
-}
+// Map default kanban category to status for drag-and-drop updates
+const CATEGORY_TO_STATUS: Record<KanbanCategory, IssueStatus> = Object.fromEntries(
+  COLUMNS.flatMap((col) => (col.dropStatus ? [[col.category, col.dropStatus]] : []))
+);
 
 // Priority border colors
 const PRIORITY_BORDER_COLORS: Record<Priority, string> = {
@@ -163,15 +159,83 @@ function getInitials(assignee: string | undefined): string {
   return (parts[0][0] + parts[parts.length - 1][0]).toUpperCase();
 }
 
+interface BlockerSummaryProps {
+  issueId: string;
+  analysis: BlockerAnalysis;
+  onOpenIssue: (issue: Issue) => void;
+}
+
+// Why a card is blocked: its direct blockers, how deep the chain goes, and a jump to where it starts
+function BlockerSummary({ issueId, analysis, onOpenIssue }: BlockerSummaryProps) {
+  const direct = analysis.chains.map((node) => node.id);
+  const root = analysis.rootBlockers[0];
+
+  return (
+    <div className="mb-2 text-xs text-red-700 space-y-1" data-testid={`blocker-summary-${issueId}`}>
+      <div className="flex items-center gap-1 min-w-0">
+        <Link2 className="w-3 h-3 flex-shrink-0" />
+        <span className="truncate" title={direct.join(', ')}>
+          Blocked by {direct.join(', ')}
+        </span>
+        {analysis.depth > 1 && <span className="text-red-500 flex-shrink-0">· chain of {analysis.depth}</span>}
+      </div>
+      {(analysis.cycle || analysis.brokenRefs.length > 0) && (
+        <div className="flex items-center gap-1 text-amber-700">
+          {analysis.cycle && (
+            <span className="flex items-center gap-0.5" title={analysis.cycle.join(' → ')}>
+              <RefreshCw className="w-3 h-3" />
+              Cycle
+            </span>
+          )}
+          {analysis.brokenRefs.length > 0 && (
+            <span title={analysis.brokenRefs.map((ref) => ref.id).join(', ')}>
+              {analysis.brokenRefs.length} missing or deleted
+            </span>
+          )}
+        </div>
+      )}
+      {root && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onOpenIssue(root);
+          }}
+          className="font-medium text-blue-600 hover:text-blue-800"
+          title={root.title}
+        >
+          Root: {root.id}
+        </button>
+      )}
+    </div>
+  );
+}
+
 interface KanbanCardProps {
   issue: Issue;
   onDragStart: (e: React.DragEvent<HTMLDivElement>, issue: Issue) => void;
   onTouchStart: (e: React.TouchEvent<HTMLDivElement>, issue: Issue) => void;
   onCardClick: (issue: Issue) => void;
   isDragging: boolean;
+  // Has keyboard focus (j/k)
+  isFocused: boolean;
+  readOnly: boolean;
+  // Shows where a dragged card would be inserted relative to this one
+  dropPlacement?: DropPlacement;
+  // Open blocker chain, for cards something is still waiting on
+  blockerAnalysis?: BlockerAnalysis;
 }
 
-function KanbanCard({ issue, onDragStart, onTouchStart, onCardClick, isDragging }: KanbanCardProps) {
+function KanbanCard({
+  issue,
+  onDragStart,
+  onTouchStart,
+  onCardClick,
+  isDragging,
+  isFocused,
+  readOnly,
+  dropPlacement,
+  blockerAnalysis,
+}: KanbanCardProps) {
   const ageDays = getAgeInDays(issue.created_at);
   const ageBadgeColor = getAgeBadgeColor(ageDays);
   const priorityBorderColor = PRIORITY_BORDER_COLORS[issue.priority];
@@ -179,15 +243,23 @@ function KanbanCard({ issue, onDragStart, onTouchStart, onCardClick, isDragging
 
   return (
     <div
-      draggable
+      draggable={!readOnly}
       onDragStart={(e) => onDragStart(e, issue)}
       onTouchStart={(e) => onTouchStart(e, issue)}
       onClick={() => onCardClick(issue)}
-      className={`bg-white rounded-lg shadow-sm border border-slate-200 border-l-4 ${priorityBorderColor} p-3 cursor-grab active:cursor-grabbing transition-all duration-200 hover:shadow-md hover:-translate-y-0.5 ${
+      className={`relative bg-white rounded-lg shadow-sm border border-slate-200 border-l-4 ${priorityBorderColor} p-3 ${readOnly ? 'cursor-pointer' : 'cursor-grab active:cursor-grabbing'} transition-all duration-200 hover:shadow-md hover:-translate-y-0.5 ${
         isDragging ? 'opacity-50 scale-95 rotate-2' : ''
-      }`}
+      } ${isFocused ? 'ring-2 ring-blue-400' : ''}`}
       data-testid={`kanban-card-${issue.id}`}
+      data-issue-id={issue.id}
+      data-focused={isFocused || undefined}
     >
+      {dropPlacement && (
+        <div
+          className={`absolute left-0 right-0 h-0.5 bg-blue-500 rounded ${dropPlacement === 'before' ? '-top-1.5' : '-bottom-1.5'}`}
+          data-testid={`kanban-drop-indicator-${issue.id}`}
+        />
+      )}
       {/* Header: Type icon, ID, Priority */}
       <div className="flex items-center justify-between mb-2">
         <div className="flex items-center gap-2 text-slate-500 text-xs">
@@ -196,7 +268,7 @@ function KanbanCard({ issue, onDragStart, onTouchStart, onCardClick, isDragging
         </div>
         <div className="flex items-center gap-1">
           {getPriorityIcon(issue.priority)}
-          <GripVertical className="w-3 h-3 text-slate-300" />
+          {!readOnly && <GripVertical className="w-3 h-3 text-slate-300" />}
         </div>
       </div>
 
@@ -205,6 +277,8 @@ function KanbanCard({ issue, onDragStart, onTouchStart, onCardClick, isDragging
         {issue.title || 'Untitled'}
       </h3>
 
+      {blockerAnalysis && <BlockerSummary issueId={issue.id} analysis={blockerAnalysis} onOpenIssue={onCardClick} />}
+
       {/* Footer: Assignee, Date badges, Age Badge */}
       <div className="flex items-center justify-between">
         {/* Assignee avatar/initials */}
@@ -227,19 +301,140 @@ function KanbanCard({ issue, onDragStart, onTouchStart, onCardClick, isDragging
   );
 }
 
+// Where a dragged card would land relative to the card under the pointer
+type DropPlacement = 'before' | 'after';
+
+interface DropPosition {
+  issueId: string;
+  placement: DropPlacement;
+}
+
+// Reads the drop position from the card element under the pointer (or inside it)
+function getDropPosition(el: Element | null, clientY: number): DropPosition | null {
+  const card = el?.closest('[data-issue-id]');
+  const issueId = card?.getAttribute('data-issue-id');
+  if (!card || !issueId) return null;
+  const rect = card.getBoundingClientRect();
+  return { issueId, placement: clientY < rect.top + rect.height / 2 ? 'before' : 'after' };
+}
+
+// Columns share one width so swimlane cells line up under the headers
+const COLUMN_WIDTH = 'w-[calc(25%-12px)] min-w-[200px] flex-shrink-0';
+
+interface ColumnHeaderProps {
+  label: string;
+  headerColor: string;
+  count: number;
+  wipLimit?: number;
+}
+
+function ColumnHeader({ label, headerColor, count, wipLimit }: ColumnHeaderProps) {
+  const overWipLimit = wipLimit !== undefined && count > wipLimit;
+
+  return (
+    <div className={`sticky top-0 z-10 p-3 ${headerColor} rounded-t-lg border-b border-slate-200`}>
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-slate-700 text-sm">{label}</h2>
+        <span
+          className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+            overWipLimit ? 'bg-red-600 text-white' : 'bg-white/80 text-slate-600'
+          }`}
+          title={wipLimit !== undefined ? `WIP limit: ${wipLimit}${overWipLimit ? ' (exceeded)' : ''}` : undefined}
+        >
+          {count}
+          {wipLimit !== undefined && ` / ${wipLimit}`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface CardListProps {
+  issues: Issue[];
+  onDragStart: (e: React.DragEvent<HTMLDivElement>, issue: Issue) => void;
+  onTouchStart: (e: React.TouchEvent<HTMLDivElement>, issue: Issue) => void;
+  onCardClick: (issue: Issue) => void;
+  draggingIssueId: string | null;
+  focusedIssueId: string | null;
+  dropPosition: DropPosition | null;
+  blockerAnalyses: Map<string, BlockerAnalysis>;
+  readOnly: boolean;
+  className: string;
+}
+
+function CardList({
+  issues,
+  onDragStart,
+  onTouchStart,
+  onCardClick,
+  draggingIssueId,
+  focusedIssueId,
+  dropPosition,
+  blockerAnalyses,
+  readOnly,
+  className,
+}: CardListProps) {
+  return (
+    <div className={`p-2 flex flex-col gap-2 ${className}`}>
+      {issues.length === 0 ? (
+        <div className="text-center text-slate-400 text-sm py-8">
+          No issues
+        </div>
+      ) : (
+        issues.map((issue) => (
+          <KanbanCard
+            key={issue.id}
+            issue={issue}
+            onDragStart={onDragStart}
+            onTouchStart={onTouchStart}
+            onCardClick={onCardClick}
+            isDragging={draggingIssueId === issue.id}
+            isFocused={focusedIssueId === issue.id}
+            readOnly={readOnly}
+            dropPlacement={
+              dropPosition?.issueId === issue.id && draggingIssueId !== issue.id ? dropPosition.placement : undefined
+            }
+            blockerAnalysis={blockerAnalyses.get(issue.id)}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+// Drop location: a column, or a column within a swimlane
+interface DropTarget {
+  category: KanbanCategory;
+  lane: string | null;
+}
+
+// Reads the drop location from a column or swimlane cell element
+function getDropTarget(el: Element): DropTarget | null {
+  const category = el.getAttribute('data-column');
+  if (category === null) return null;
+  return { category, lane: el.getAttribute('data-lane') };
+}
+
 interface KanbanColumnProps {
   category: KanbanCategory;
   label: string;
   bgColor: string;
   headerColor: string;
   issues: Issue[];
-  onDrop: (category: KanbanCategory) => void;
+  // Columns without a drop status (e.g. label columns) can't be dropped on
+  acceptsDrop: boolean;
+  wipLimit?: number;
+  onDrop: (target: DropTarget) => void;
   onDragOver: (e: React.DragEvent<HTMLDivElement>) => void;
   onDragStart: (e: React.DragEvent<HTMLDivElement>, issue: Issue) => void;
   onTouchStart: (e: React.TouchEvent<HTMLDivElement>, issue: Issue) => void;
   onCardClick: (issue: Issue) => void;
   draggingIssueId: string | null;
+  focusedIssueId: string | null;
+  dropPosition: DropPosition | null;
+  blockerAnalyses: Map<string, BlockerAnalysis>;
   isDropTarget: boolean;
+  readOnly: boolean;
 }
 
 function KanbanColumn({
@@ -248,66 +443,186 @@ function KanbanColumn({
   bgColor,
   headerColor,
   issues,
+  acceptsDrop,
+  wipLimit,
   onDrop,
   onDragOver,
   onDragStart,
   onTouchStart,
   onCardClick,
   draggingIssueId,
+  focusedIssueId,
+  dropPosition,
+  blockerAnalyses,
   isDropTarget,
+  readOnly,
 }: KanbanColumnProps) {
+  const overWipLimit = wipLimit !== undefined && issues.length > wipLimit;
+
   return (
     <div
-      className={`flex flex-col w-[calc(25%-12px)] min-w-[200px] flex-shrink-0 rounded-lg ${bgColor} border transition-all duration-200 ${
+      className={`flex flex-col ${COLUMN_WIDTH} rounded-lg ${bgColor} border transition-all duration-200 ${
         isDropTarget
           ? 'border-blue-400 border-2 bg-blue-50/50 ring-4 ring-blue-100'
-          : 'border-slate-200'
+          : overWipLimit
+            ? 'border-red-400 border-2 ring-2 ring-red-100'
+            : 'border-slate-200'
       }`}
-      onDragOver={onDragOver}
-      onDrop={() => onDrop(category)}
+      onDragOver={acceptsDrop ? onDragOver : undefined}
+      onDrop={acceptsDrop ? () => onDrop({ category, lane: null }) : undefined}
       data-testid={`kanban-column-${category}`}
+      data-column={acceptsDrop ? category : undefined}
+      data-wip-exceeded={overWipLimit || undefined}
     >
-      {/* Sticky header */}
-      <div className={`sticky top-0 z-10 p-3 ${headerColor} rounded-t-lg border-b border-slate-200`}>
-        <div className="flex items-center justify-between">
-          <h2 className="font-semibold text-slate-700 text-sm">{label}</h2>
-          <span className="bg-white/80 text-slate-600 text-xs font-medium px-2 py-0.5 rounded-full">
-            {issues.length}
-          </span>
-        </div>
-      </div>
+      <ColumnHeader label={label} headerColor={headerColor} count={issues.length} wipLimit={wipLimit} />
 
       {/* Cards container */}
-      <div className="p-2 flex flex-col gap-2 flex-1 overflow-y-auto min-h-[200px]">
-        {issues.length === 0 ? (
-          <div className="text-center text-slate-400 text-sm py-8">
-            No issues
-          </div>
-        ) : (
-          issues.map((issue) => (
-            <KanbanCard
-              key={issue.id}
-              issue={issue}
-              onDragStart={onDragStart}
-              onTouchStart={onTouchStart}
-              onCardClick={onCardClick}
-              isDragging={draggingIssueId === issue.id}
-            />
-          ))
-        )}
-      </div>
+      <CardList
+        issues={issues}
+        onDragStart={onDragStart}
+        onTouchStart={onTouchStart}
+        onCardClick={onCardClick}
+        draggingIssueId={draggingIssueId}
+        focusedIssueId={focusedIssueId}
+        dropPosition={dropPosition}
+        blockerAnalyses={blockerAnalyses}
+        readOnly={readOnly}
+        className="flex-1 overflow-y-auto min-h-[200px]"
+      />
+    </div>
+  );
+}
+
+interface SwimlaneRowProps {
+  lane: Swimlane;
+  columns: KanbanColumnDisplay[];
+  issuesByCategory: Record<KanbanCategory, Issue[]>;
+  collapsed: boolean;
+  onToggle: () => void;
+  onDrop: (target: DropTarget) => void;
+  onDragOver: (e: React.DragEvent<HTMLDivElement>) => void;
+  // Drags started in a lane remember it, so the drop knows what to change
+  onDragStart: (e: React.DragEvent<HTMLDivElement>, issue: Issue, lane: string) => void;
+  onTouchStart: (e: React.TouchEvent<HTMLDivElement>, issue: Issue, lane: string) => void;
+  onCardClick: (issue: Issue) => void;
+  draggingIssueId: string | null;
+  focusedIssueId: string | null;
+  dropTarget: DropTarget | null;
+  dropPosition: DropPosition | null;
+  blockerAnalyses: Map<string, BlockerAnalysis>;
+  readOnly: boolean;
+}
+
+function SwimlaneRow({
+  lane,
+  columns,
+  issuesByCategory,
+  collapsed,
+  onToggle,
+  onDrop,
+  onDragOver,
+  onDragStart,
+  onTouchStart,
+  onCardClick,
+  draggingIssueId,
+  focusedIssueId,
+  dropTarget,
+  dropPosition,
+  blockerAnalyses,
+  readOnly,
+}: SwimlaneRowProps) {
+  const laneIssueIds = new Set(lane.issues.map((issue) => issue.id));
+  const cells = columns.map((col) => ({
+    col,
+    issues: (issuesByCategory[col.category] || []).filter((issue) => laneIssueIds.has(issue.id)),
+  }));
+  const laneCount = cells.reduce((sum, cell) => sum + cell.issues.length, 0);
+
+  return (
+    <div data-testid={`kanban-lane-${lane.key || 'none'}`}>
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-2 py-2 text-sm font-semibold text-slate-700 hover:text-slate-900"
+        aria-expanded={!collapsed}
+      >
+        {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        <span className="truncate max-w-md">{lane.label}</span>
+        <span className="bg-slate-200 text-slate-600 text-xs font-medium px-2 py-0.5 rounded-full">{laneCount}</span>
+      </button>
+
+      {!collapsed && (
+        <div className="flex gap-4">
+          {cells.map(({ col, issues: cellIssues }) => {
+            const acceptsDrop = col.dropStatus !== null;
+            const isDropTarget = dropTarget?.category === col.category && dropTarget.lane === lane.key;
+            return (
+              <div
+                key={col.category}
+                className={`${COLUMN_WIDTH} rounded-lg ${col.bgColor} border transition-all duration-200 ${
+                  isDropTarget ? 'border-blue-400 border-2 bg-blue-50/50 ring-4 ring-blue-100' : 'border-slate-200'
+                }`}
+                onDragOver={acceptsDrop ? onDragOver : undefined}
+                onDrop={acceptsDrop ? () => onDrop({ category: col.category, lane: lane.key }) : undefined}
+                data-testid={`kanban-lane-${lane.key || 'none'}-${col.category}`}
+                data-column={acceptsDrop ? col.category : undefined}
+                data-lane={lane.key}
+              >
+                <CardList
+                  issues={cellIssues}
+                  onDragStart={(e, issue) => onDragStart(e, issue, lane.key)}
+                  onTouchStart={(e, issue) => onTouchStart(e, issue, lane.key)}
+                  onCardClick={onCardClick}
+                  draggingIssueId={draggingIssueId}
+                  focusedIssueId={focusedIssueId}
+                  dropPosition={isDropTarget ? dropPosition : null}
+                  blockerAnalyses={blockerAnalyses}
+                  readOnly={readOnly}
+                  className="min-h-[80px]"
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
 
-function KanbanBoard({ issues }: KanbanBoardProps) {
+function KanbanBoard({
+  issues,
+  readOnly = false,
+  onOpenEpic,
+  onOpenIssue,
+  columns = DEFAULT_BOARD_COLUMNS,
+  ranks = NO_RANKS,
+  onFocusedIssueChange,
+}: KanbanBoardProps) {
+  const displayColumns = useMemo(() => toDisplayColumns(columns), [columns]);
   const [draggingIssue, setDraggingIssue] = useState<Issue | null>(null);
-  const [dropTarget, setDropTarget] = useState<KanbanCategory | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [dropPosition, setDropPosition] = useState<DropPosition | null>(null);
   const [optimisticIssues, setOptimisticIssues] = useState<Issue[]>(issues);
+  const [optimisticRanks, setOptimisticRanks] = useState<IssueRanks>(ranks);
   const [updating, setUpdating] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  // Issue dropped on the Closed column, waiting for a close reason (plus any lane change)
+  const [pendingClose, setPendingClose] = useState<{ issue: Issue; laneUpdates: Partial<Issue> | null } | null>(null);
   const [closedTimeFilter, setClosedTimeFilter] = useState<ClosedTimeFilterValue>(7);
+  // Swimlane grouping and collapsed lanes (keyed "grouping:lane") with localStorage persistence
+  const [swimlane, setSwimlane] = useState<SwimlaneGrouping>(() => {
+    const saved = localStorage.getItem('beads-kanban-swimlane');
+    return SWIMLANE_OPTIONS.some((o) => o.value === saved) ? (saved as SwimlaneGrouping) : 'none';
+  });
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(() => {
+    try {
+      return new Set(JSON.parse(localStorage.getItem('beads-kanban-collapsed-lanes') || '[]') as string[]);
+    } catch {
+      return new Set();
+    }
+  });
+  // Lane the current drag started in
+  const dragLaneRef = useRef<string | null>(null);
 
   // Touch drag state
   const touchRef = useRef<{ issue: Issue; startX: number; startY: number } | null>(null);
@@ -318,33 +633,79 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
     setOptimisticIssues(issues);
   }, [issues]);
 
-  // Filter out tombstones and group issues by kanban category
-  const visibleIssues = optimisticIssues.filter((issue) => issue.status !== 'tombstone');
-  const issuesByCategory = COLUMNS.reduce((acc, col) => {
-    let columnIssues = visibleIssues.filter(
-      (issue) => categorizeIssue(issue, optimisticIssues) === col.category
-    );
+  useEffect(() => {
+    setOptimisticRanks(ranks);
+  }, [ranks]);
 
-    // Apply time filter to closed issues
-    if (col.category === 'closed' && closedTimeFilter !== Infinity) {
-      columnIssues = columnIssues.filter(
-        (issue) => getClosedAtAge(issue) <= closedTimeFilter
-      );
-    }
+  useEffect(() => {
+    localStorage.setItem('beads-kanban-swimlane', swimlane);
+  }, [swimlane]);
 
-    acc[col.category] = columnIssues;
-    return acc;
-  }, {} as Record<KanbanCategory, Issue[]>);
+  useEffect(() => {
+    localStorage.setItem('beads-kanban-collapsed-lanes', JSON.stringify([...collapsedLanes]));
+  }, [collapsedLanes]);
+
+  const toggleLane = useCallback((laneKey: string) => {
+    setCollapsedLanes((prev) => {
+      const next = new Set(prev);
+      const key = `${swimlane}:${laneKey}`;
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, [swimlane]);
+
+  // Group issues by kanban category (tombstones are skipped), in manual order
+  const issuesByCategory = useMemo(() => {
+    const grouped = groupIssuesByColumn(optimisticIssues, columns);
+    for (const category of Object.keys(grouped)) {
+      // Apply time filter to closed issues, whichever column holds them
+      const visible = closedTimeFilter === Infinity
+        ? grouped[category]
+        : grouped[category].filter((issue) => issue.status !== 'closed' || getClosedAtAge(issue) <= closedTimeFilter);
+      grouped[category] = sortByRank(visible, optimisticRanks);
+    }
+    return grouped;
+  }, [optimisticIssues, columns, closedTimeFilter, optimisticRanks]);
+  // Lanes hold the issues currently on the board
+  const swimlanes = useMemo(
+    () => (swimlane === 'none' ? [] : buildSwimlanes(Object.values(issuesByCategory).flat(), swimlane, optimisticIssues)),
+    [issuesByCategory, swimlane, optimisticIssues]
+  );
+  // Open blocker chains for unfinished cards, explaining why they are blocked
+  const blockerAnalyses = useMemo(() => {
+    const issuesById = new Map(optimisticIssues.map((issue) => [issue.id, issue]));
+    const analyses = new Map<string, BlockerAnalysis>();
+    for (const issue of optimisticIssues) {
+      if (issue.status === 'closed' || issue.status === 'tombstone') continue;
+      const analysis = analyzeBlockers(issue, issuesById);
+      if (analysis.chains.length > 0) analyses.set(issue.id, analysis);
+    }
+    return analyses;
+  }, [optimisticIssues]);
+  // Issues whose status no configured column takes
+  const unplacedCount = optimisticIssues.filter(
+    (issue) => issue.status !== 'tombstone' && categorizeIssue(issue, optimisticIssues, columns) === null
+  ).length;
 
   // Handle drag start
   const handleDragStart = useCallback((e: React.DragEvent<HTMLDivElement>, issue: Issue) => {
+    if (readOnly) {
+      e.preventDefault();
+      return;
+    }
     setDraggingIssue(issue);
+    dragLaneRef.current = null;
     e.dataTransfer.effectAllowed = 'move';
     e.dataTransfer.setData('text/plain', issue.id);
-  }, []);
+  }, [readOnly]);
 
   // Handle touch start (for mobile)
   const handleTouchStart = useCallback((e: React.TouchEvent<HTMLDivElement>, issue: Issue) => {
+    if (readOnly) return;
     const touch = e.touches[0];
     touchRef.current = {
       issue,
@@ -352,79 +713,204 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
       startY: touch.clientY,
     };
     setDraggingIssue(issue);
-  }, []);
+    dragLaneRef.current = null;
+  }, [readOnly]);
+
+  // Drags from a swimlane cell also remember the lane
+  const handleLaneDragStart = useCallback((e: React.DragEvent<HTMLDivElement>, issue: Issue, lane: string) => {
+    handleDragStart(e, issue);
+    dragLaneRef.current = lane;
+  }, [handleDragStart]);
+
+  const handleLaneTouchStart = useCallback((e: React.TouchEvent<HTMLDivElement>, issue: Issue, lane: string) => {
+    handleTouchStart(e, issue);
+    dragLaneRef.current = lane;
+  }, [handleTouchStart]);
 
   // Handle drag over
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
 
-    const target = e.currentTarget;
-    const testId = target.getAttribute('data-testid');
-    if (testId?.startsWith('kanban-column-')) {
-      const category = testId.replace('kanban-column-', '') as KanbanCategory;
-      setDropTarget(category);
+    const target = getDropTarget(e.currentTarget);
+    setDropTarget((prev) =>
+      prev && target && prev.category === target.category && prev.lane === target.lane ? prev : target
+    );
+    const position = getDropPosition(e.target as Element, e.clientY);
+    setDropPosition((prev) =>
+      prev && position && prev.issueId === position.issueId && prev.placement === position.placement ? prev : position
+    );
+  }, []);
+
+  // Show a board change straight away, then keep the issue as saved (its new
+  // updated_at is what the next change is checked against). On failure the card
+  // goes back, or to where it is now when someone else changed the issue first.
+  const saveBoardChange = useCallback(async (
+    issue: Issue,
+    updates: Partial<Issue>,
+    save: () => Promise<Issue | undefined>,
+    fallbackError: string
+  ) => {
+    setOptimisticIssues((prev) =>
+      prev.map((i) => (i.id === issue.id ? applyIssueUpdates(i, updates) : i))
+    );
+
+    setUpdating(issue.id);
+    setError(null);
+
+    try {
+      const saved = await save();
+      if (saved) {
+        setOptimisticIssues((prev) =>
+          prev.map((i) => (i.id === issue.id ? saved : i))
+        );
+      }
+    } catch (err) {
+      if (err instanceof IssueConflictError) {
+        setOptimisticIssues((prev) =>
+          prev.map((i) => (i.id === issue.id ? err.issue : i))
+        );
+        setError(`${issue.id} was changed by someone else, so it was not moved`);
+        return;
+      }
+      setOptimisticIssues((prev) =>
+        prev.map((i) => (i.id === issue.id ? issue : i))
+      );
+      const errorMessage = err instanceof Error ? err.message : fallbackError;
+      setError(errorMessage);
+      console.error('Issue update failed:', err);
+    } finally {
+      setUpdating(null);
     }
   }, []);
 
-  // Handle drop - update status via API
-  const handleDrop = useCallback(async (newCategory: KanbanCategory) => {
+  // Update status via API with an optimistic move
+  const updateIssueStatus = useCallback((issue: Issue, newStatus: IssueStatus, closeReason?: string) =>
+    saveBoardChange(
+      issue,
+      { status: newStatus },
+      () => setIssueStatus(issue.id, newStatus, closeReason, issue.updated_at),
+      'Failed to update status'
+    ), [saveBoardChange]);
+
+  // Lane moves (and status changes made with them) go through PATCH
+  const updateIssueFields = useCallback((issue: Issue, updates: Partial<Issue>) =>
+    saveBoardChange(
+      issue,
+      updates,
+      () => saveIssueUpdates(issue.id, updates, issue.updated_at),
+      'Failed to update issue'
+    ), [saveBoardChange]);
+
+  // Save manual order with an optimistic update, reverting on failure
+  const updateIssueRanks = useCallback(async (updates: IssueRanks) => {
+    const previousRanks = optimisticRanks;
+    setOptimisticRanks({ ...previousRanks, ...updates });
+    setError(null);
+
+    try {
+      await saveIssueRanks(updates);
+    } catch (err) {
+      setOptimisticRanks(previousRanks);
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save card order';
+      setError(errorMessage);
+      console.error('Rank update failed:', err);
+    }
+  }, [optimisticRanks]);
+
+  // Rank changes that put the dropped card at the indicated position in the target
+  // column (or swimlane cell), or null when the drop has no position or changes nothing
+  const getDropRankUpdates = useCallback((issue: Issue, { category, lane }: DropTarget, position: DropPosition) => {
+    const laneIssueIds = lane === null
+      ? null
+      : new Set(swimlanes.find((l) => l.key === lane)?.issues.map((i) => i.id) ?? []);
+    const targetIssues = (issuesByCategory[category] || []).filter((i) => !laneIssueIds || laneIssueIds.has(i.id));
+    const others = targetIssues.filter((i) => i.id !== issue.id);
+
+    const anchorIndex = others.findIndex((i) => i.id === position.issueId);
+    if (anchorIndex === -1) return null;
+    const index = anchorIndex + (position.placement === 'after' ? 1 : 0);
+    if (targetIssues.findIndex((i) => i.id === issue.id) === index) return null;
+
+    return computeRankUpdates(others, issue.id, index, optimisticRanks);
+  }, [issuesByCategory, swimlanes, optimisticRanks]);
+
+  // Handle drop - closing asks for a reason first, other moves update immediately.
+  // In a swimlane, moving to another lane also changes the lane's field.
+  // Dropping onto a card also saves the card's position as its manual rank.
+  const handleDrop = useCallback(async (target: DropTarget) => {
+    const { category: newCategory, lane } = target;
+    const position = dropPosition;
+    setDropPosition(null);
+
     if (!draggingIssue) {
       setDraggingIssue(null);
       setDropTarget(null);
       return;
     }
 
-    const newStatus = CATEGORY_TO_STATUS[newCategory];
-    const currentCategory = categorizeIssue(draggingIssue, optimisticIssues);
+    const dropStatus = displayColumns.find((col) => col.category === newCategory)?.dropStatus ?? null;
+    const currentCategory = categorizeIssue(draggingIssue, optimisticIssues, columns);
+    const droppedIssue = draggingIssue;
+    const fromLane = dragLaneRef.current;
 
-    // Don't do anything if dropping in the same category
-    if (currentCategory === newCategory) {
-      setDraggingIssue(null);
-      setDropTarget(null);
+    setDraggingIssue(null);
+    setDropTarget(null);
+    dragLaneRef.current = null;
+
+    // Columns without a status don't take drops
+    if (!dropStatus) {
       return;
     }
 
-    const previousStatus = draggingIssue.status;
-    const issueId = draggingIssue.id;
+    const newStatus = currentCategory === newCategory ? null : dropStatus;
+    const laneUpdates = lane !== null && fromLane !== null
+      ? getLaneUpdates(droppedIssue, swimlane, fromLane, lane)
+      : null;
+    const rankUpdates = position ? getDropRankUpdates(droppedIssue, target, position) : null;
 
-    // Optimistic update
-    setOptimisticIssues((prev) =>
-      prev.map((issue) =>
-        issue.id === issueId ? { ...issue, status: newStatus } : issue
-      )
-    );
+    // Reordering is saved right away, independently of any status or lane change
+    const rankSave = rankUpdates ? updateIssueRanks(rankUpdates) : null;
 
-    setDraggingIssue(null);
-    setDropTarget(null);
-    setUpdating(issueId);
-    setError(null);
+    // Nothing else to do when dropping in the same column and lane
+    if (!newStatus && !laneUpdates) {
+      await rankSave;
+      return;
+    }
 
-    try {
-      const res = await fetch(`/api/issues/${issueId}/status`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || 'Failed to update status');
-      }
-    } catch (err) {
-      // Revert on error
-      setOptimisticIssues((prev) =>
-        prev.map((issue) =>
-          issue.id === issueId ? { ...issue, status: previousStatus } : issue
-        )
-      );
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update status';
-      setError(errorMessage);
-      console.error('Status update failed:', err);
-    } finally {
-      setUpdating(null);
+    if (newStatus === 'closed') {
+      setPendingClose({ issue: droppedIssue, laneUpdates });
+      return;
     }
-  }, [draggingIssue, optimisticIssues]);
+
+    if (laneUpdates) {
+      await updateIssueFields(droppedIssue, newStatus ? { ...laneUpdates, status: newStatus } : laneUpdates);
+    } else if (newStatus) {
+      await updateIssueStatus(droppedIssue, newStatus);
+    }
+  }, [
+    draggingIssue,
+    dropPosition,
+    optimisticIssues,
+    columns,
+    displayColumns,
+    swimlane,
+    getDropRankUpdates,
+    updateIssueRanks,
+    updateIssueStatus,
+    updateIssueFields,
+  ]);
+
+  const handleConfirmClose = useCallback(async (reason: string) => {
+    if (!pendingClose) return;
+    const { issue, laneUpdates } = pendingClose;
+    setPendingClose(null);
+    if (laneUpdates) {
+      await updateIssueFields(issue, { ...laneUpdates, status: 'closed', ...(reason && { close_reason: reason }) });
+    } else {
+      await updateIssueStatus(issue, 'closed', reason || undefined);
+    }
+  }, [pendingClose, updateIssueStatus, updateIssueFields]);
 
   // Handle touch move (must be after handleDrop is defined)
   useEffect(() => {
@@ -445,13 +931,13 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
       ghostRef.current.style.left = `${touch.clientX - 50}px`;
       ghostRef.current.style.top = `${touch.clientY - 20}px`;
 
-      // Find drop target
+      // Find drop target, and the card under the finger for reordering
       const elements = document.elementsFromPoint(touch.clientX, touch.clientY);
+      setDropPosition(getDropPosition(elements.find((el) => el.hasAttribute('data-issue-id')) ?? null, touch.clientY));
       for (const el of elements) {
-        const testId = el.getAttribute('data-testid');
-        if (testId?.startsWith('kanban-column-')) {
-          const category = testId.replace('kanban-column-', '') as KanbanCategory;
-          setDropTarget(category);
+        const target = getDropTarget(el);
+        if (target) {
+          setDropTarget(target);
           return;
         }
       }
@@ -472,6 +958,7 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
       touchRef.current = null;
       setDraggingIssue(null);
       setDropTarget(null);
+      setDropPosition(null);
     };
 
     document.addEventListener('touchmove', handleTouchMove, { passive: false });
@@ -487,14 +974,47 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
   const handleDragEnd = useCallback(() => {
     setDraggingIssue(null);
     setDropTarget(null);
+    setDropPosition(null);
   }, []);
 
   // Card click handler - open editor modal
   const handleCardClick = useCallback((issue: Issue) => {
     // Don't open modal if we're in the middle of a drag
     if (draggingIssue) return;
-    setSelectedIssue(issue);
-  }, [draggingIssue]);
+    if (onOpenIssue) {
+      onOpenIssue(issue);
+    } else {
+      setSelectedIssue(issue);
+    }
+  }, [draggingIssue, onOpenIssue]);
+
+  // Keyboard focus walks column by column, lane by lane when grouped, skipping collapsed lanes
+  const keyboardIssues = useMemo(() => {
+    const cardsIn = (laneIssueIds: Set<string> | null) =>
+      displayColumns.flatMap((col) =>
+        (issuesByCategory[col.category] || []).filter((issue) => !laneIssueIds || laneIssueIds.has(issue.id))
+      );
+    if (swimlane === 'none') return cardsIn(null);
+    return swimlanes
+      .filter((lane) => !collapsedLanes.has(`${swimlane}:${lane.key}`))
+      .flatMap((lane) => cardsIn(new Set(lane.issues.map((issue) => issue.id))));
+  }, [displayColumns, issuesByCategory, swimlane, swimlanes, collapsedLanes]);
+
+  // Status keys on a focused card; closing asks for a reason, as drops on Closed do
+  const handleKeyboardStatus = useCallback((issue: Issue, status: IssueStatus) => {
+    if (status === 'closed') {
+      setPendingClose({ issue, laneUpdates: null });
+    } else {
+      updateIssueStatus(issue, status);
+    }
+  }, [updateIssueStatus]);
+
+  const { focusedId } = useIssueKeyboardNav({
+    issues: keyboardIssues,
+    onOpen: handleCardClick,
+    onStatusChange: readOnly ? undefined : handleKeyboardStatus,
+    onFocusChange: onFocusedIssueChange,
+  });
 
   // Close the editor modal
   const handleCloseModal = useCallback(() => {
@@ -502,20 +1022,21 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
   }, []);
 
   // Save handler for the editor modal - calls PATCH API
-  const handleSaveIssue = useCallback(async (updates: Partial<Issue>) => {
+  const handleSaveIssue = useCallback(async (updates: Partial<Issue>, expectedUpdatedAt?: string) => {
     if (!selectedIssue) return;
+    const previous = selectedIssue;
 
     console.log('[DEBUG] Saving issue updates:', JSON.stringify(updates, null, 2));
 
-    const res = await fetch(`/api/issues/${selectedIssue.id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updates),
-    });
-
-    if (!res.ok) {
-      const errorData = await res.json();
-      throw new Error(errorData.error || 'Failed to update issue');
+    // Move the card straight away; the editor shows the error (or conflict) if the save fails
+    setOptimisticIssues((prev) => prev.map((i) => (i.id === previous.id ? applyIssueUpdates(i, updates) : i)));
+    try {
+      const saved = await saveIssueUpdates(previous.id, updates, expectedUpdatedAt);
+      if (saved) setOptimisticIssues((prev) => prev.map((i) => (i.id === previous.id ? saved : i)));
+    } catch (err) {
+      const restored = err instanceof IssueConflictError ? err.issue : previous;
+      setOptimisticIssues((prev) => prev.map((i) => (i.id === previous.id ? restored : i)));
+      throw err;
     }
 
     // The socket.io refresh will update the issues automatically
@@ -540,8 +1061,32 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
         </div>
       )}
 
-      {/* Closed issues time filter */}
-      <div className="flex justify-end mb-4">
+      {/* Swimlanes and closed issues time filter */}
+      <div className="flex justify-end items-center gap-4 mb-4">
+        {unplacedCount > 0 && (
+          <span className="text-xs text-slate-500" data-testid="kanban-unplaced">
+            {unplacedCount} {unplacedCount === 1 ? 'issue matches' : 'issues match'} no column
+          </span>
+        )}
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <Rows3 className="w-4 h-4" />
+          <span>Swimlanes:</span>
+          <div className="relative">
+            <select
+              value={swimlane}
+              onChange={(e) => setSwimlane(e.target.value as SwimlaneGrouping)}
+              className="appearance-none bg-white border border-slate-200 rounded-md px-3 py-1.5 pr-8 text-sm text-slate-700 cursor-pointer hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              data-testid="swimlane-select"
+            >
+              {SWIMLANE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <ChevronDown className="w-4 h-4 absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+          </div>
+        </div>
         <div className="relative">
           <div className="flex items-center gap-2 text-sm text-slate-600">
             <Clock className="w-4 h-4" />
@@ -566,33 +1111,98 @@ function KanbanBoard({ issues }: KanbanBoardProps) {
       </div>
 
       {/* Kanban columns */}
-      <div className="flex gap-4 overflow-x-auto pb-4" style={{ minHeight: '600px' }}>
-        {COLUMNS.map((col) => (
-          <KanbanColumn
-            key={col.category}
-            category={col.category}
-            label={col.label}
-            bgColor={col.bgColor}
-            headerColor={col.headerColor}
-            issues={issuesByCategory[col.category] || []}
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            onDragStart={handleDragStart}
-            onTouchStart={handleTouchStart}
-            onCardClick={handleCardClick}
-            draggingIssueId={draggingIssue?.id || null}
-            isDropTarget={dropTarget === col.category}
-          />
-        ))}
-      </div>
+      {swimlane !== 'none' ? (
+        <div className="overflow-x-auto pb-4" style={{ minHeight: '600px' }}>
+          <div className="flex gap-4">
+            {displayColumns.map((col) => {
+              const count = (issuesByCategory[col.category] || []).length;
+              return (
+                <div
+                  key={col.category}
+                  className={`${COLUMN_WIDTH} rounded-t-lg ${col.bgColor}`}
+                  data-testid={`kanban-column-header-${col.category}`}
+                  data-wip-exceeded={(col.wipLimit !== undefined && count > col.wipLimit) || undefined}
+                >
+                  <ColumnHeader label={col.label} headerColor={col.headerColor} count={count} wipLimit={col.wipLimit} />
+                </div>
+              );
+            })}
+          </div>
+          {swimlanes.length === 0 ? (
+            <div className="text-center text-slate-400 text-sm py-8">No issues</div>
+          ) : (
+            swimlanes.map((lane) => (
+              <SwimlaneRow
+                key={lane.key}
+                lane={lane}
+                columns={displayColumns}
+                issuesByCategory={issuesByCategory}
+                collapsed={collapsedLanes.has(`${swimlane}:${lane.key}`)}
+                onToggle={() => toggleLane(lane.key)}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+                onDragStart={handleLaneDragStart}
+                onTouchStart={handleLaneTouchStart}
+                onCardClick={handleCardClick}
+                draggingIssueId={draggingIssue?.id || null}
+                focusedIssueId={focusedId}
+                dropTarget={dropTarget}
+                dropPosition={dropPosition}
+                blockerAnalyses={blockerAnalyses}
+                readOnly={readOnly}
+              />
+            ))
+          )}
+        </div>
+      ) : (
+        <div className="flex gap-4 overflow-x-auto pb-4" style={{ minHeight: '600px' }}>
+          {displayColumns.map((col) => (
+            <KanbanColumn
+              key={col.category}
+              category={col.category}
+              label={col.label}
+              bgColor={col.bgColor}
+              headerColor={col.headerColor}
+              issues={issuesByCategory[col.category] || []}
+              acceptsDrop={col.dropStatus !== null}
+              wipLimit={col.wipLimit}
+              onDrop={handleDrop}
+              onDragOver={handleDragOver}
+              onDragStart={handleDragStart}
+              onTouchStart={handleTouchStart}
+              onCardClick={handleCardClick}
+              draggingIssueId={draggingIssue?.id || null}
+              focusedIssueId={focusedId}
+              dropPosition={dropTarget?.category === col.category ? dropPosition : null}
+              blockerAnalyses={blockerAnalyses}
+              isDropTarget={dropTarget?.category === col.category}
+              readOnly={readOnly}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Close reason prompt for drops on the Closed column */}
+      {pendingClose && (
+        <CloseIssueDialog
+          title={`Close ${pendingClose.issue.id}`}
+          subtitle={pendingClose.issue.title || 'Untitled'}
+          onConfirm={handleConfirmClose}
+          onCancel={() => setPendingClose(null)}
+        />
+      )}
 
       {/* Issue Editor Modal */}
       {selectedIssue && (
         <IssueEditorModal
+          key={selectedIssue.id}
           issue={selectedIssue}
           allIssues={issues}
           onClose={handleCloseModal}
           onSave={handleSaveIssue}
+          readOnly={readOnly}
+          onOpenEpic={onOpenEpic}
+          onOpenIssue={handleCardClick}
         />
       )}
     </div>
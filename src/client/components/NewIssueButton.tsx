@@ -2,15 +2,18 @@ import { Plus } from 'lucide-react';
 
 interface NewIssueButtonProps {
   onClick: () => void;
+  disabled?: boolean;
 }
 
-function NewIssueButton({ onClick }: NewIssueButtonProps) {
+function NewIssueButton({ onClick, disabled = false }: NewIssueButtonProps) {
   return (
     <button
       onClick={onClick}
+      disabled={disabled}
       className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg
-                 text-sm font-medium hover:bg-blue-700 active:scale-[0.98] transition-all duration-150 shadow-sm hover:shadow-md"
-      title="Create new issue (c)"
+                 text-sm font-medium hover:bg-blue-700 active:scale-[0.98] transition-all duration-150 shadow-sm hover:shadow-md
+                 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-600 disabled:active:scale-100"
+      title={disabled ? 'Writes are disabled while Beads is read-only' : 'Create new issue (c)'}
       aria-label="Create new issue"
     >
       <Plus className="w-4 h-4" aria-hidden="true" />
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { ChevronDown, Folder, Activity } from 'lucide-react';
 import type { BeadsProject } from '@shared/types';
+import { fetchProjects, switchProject } from '../utils/projectApi';
 
 interface ProjectSwitcherProps {
   currentProjectName: string;
@@ -13,15 +14,12 @@ export default function ProjectSwitcher({ currentProjectName }: ProjectSwitcherP
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchProjects();
+    loadProjects();
   }, []);
 
-  const fetchProjects = async () => {
+  const loadProjects = async () => {
     try {
-      const res = await fetch('/api/registry');
-      if (!res.ok) throw new Error('Failed to fetch projects');
-      const data = await res.json();
-      setProjects(data);
+      setProjects(await fetchProjects());
       setError(null);
     } catch (err) {
       console.error(err);
@@ -34,17 +32,7 @@ export default function ProjectSwitcher({ currentProjectName }: ProjectSwitcherP
     setError(null);
 
     try {
-      const res = await fetch('/api/project/switch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: projectPath }),
-      });
-
-      if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.error || 'Failed to switch project');
-      }
-
+      await switchProject(projectPath);
       setIsOpen(false);
       // Data will refresh via socket
     } catch (err) {
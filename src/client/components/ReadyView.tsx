@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, CircleSlash } from 'lucide-react';
+import type { Issue, Priority, ReadyWorkItem, ReadyWorkResponse } from '@shared/types';
+import { PRIORITY_LABELS } from '@shared/types';
+
+interface ReadyViewProps {
+  // Current issues; the queue is refetched whenever they change (e.g. on a socket refresh)
+  issues: Issue[];
+  onOpenIssue: (issue: Issue) => void;
+}
+
+const PRIORITY_BADGE_COLORS: Record<Priority, string> = {
+  0: 'bg-red-100 text-red-800',
+  1: 'bg-orange-100 text-orange-800',
+  2: 'bg-yellow-100 text-yellow-800',
+  3: 'bg-blue-100 text-blue-800',
+  4: 'bg-slate-100 text-slate-600',
+};
+
+function getAgeInDays(createdAt: string): number {
+  return Math.floor((Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+interface ReadyRowProps {
+  item: ReadyWorkItem;
+  issuesById: Map<string, Issue>;
+  onOpenIssue: (issue: Issue) => void;
+}
+
+function ReadyRow({ item, issuesById, onOpenIssue }: ReadyRowProps) {
+  const { issue, ready, reasons } = item;
+
+  return (
+    <li className="flex items-start gap-3 px-4 py-3" data-testid={`ready-item-${issue.id}`}>
+      {ready ? (
+        <CheckCircle2 className="w-4 h-4 mt-0.5 text-emerald-500 flex-shrink-0" />
+      ) : (
+        <CircleSlash className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className={`text-xs font-medium px-1.5 py-0.5 rounded ${PRIORITY_BADGE_COLORS[issue.priority]}`}>
+            P{issue.priority}
+          </span>
+          <button
+            onClick={() => onOpenIssue(issue)}
+            className="font-medium text-slate-900 hover:text-blue-600 text-left truncate"
+            title={`${PRIORITY_LABELS[issue.priority]} priority`}
+          >
+            {issue.title || 'Untitled'}
+          </button>
+          <span className="font-mono text-xs text-slate-400">{issue.id}</span>
+          <span className="ml-auto text-xs text-slate-500 flex-shrink-0">{getAgeInDays(issue.created_at)}d old</span>
+        </div>
+        <ul className="mt-1 text-xs text-slate-500 space-y-0.5">
+          {ready ? (
+            <li>Open, not deferred, and nothing blocking it or its parents</li>
+          ) : (
+            reasons.map((reason) => (
+              <li key={reason.code} data-reason={reason.code}>
+                {reason.issue_ids && reason.issue_ids.length > 0 ? (
+                  <>
+                    {reason.message.split(/([\w.-]+)/).map((part, i) => {
+                      const linked = reason.issue_ids!.includes(part) ? issuesById.get(part) : undefined;
+                      return linked ? (
+                        <button
+                          key={i}
+                          onClick={() => onOpenIssue(linked)}
+                          className="font-mono text-blue-600 hover:text-blue-800"
+                          title={linked.title}
+                        >
+                          {part}
+                        </button>
+                      ) : (
+                        <span key={i}>{part}</span>
+                      );
+                    })}
+                  </>
+                ) : (
+                  reason.message
+                )}
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * ReadyView - The actionable queue from GET /api/ready (bd ready semantics),
+ * sorted by priority and age, with the reasons other issues are waiting.
+ */
+function ReadyView({ issues, onOpenIssue }: ReadyViewProps) {
+  const [readyWork, setReadyWork] = useState<ReadyWorkResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showNotReady, setShowNotReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchReadyWork = async () => {
+      try {
+        const res = await fetch('/api/ready');
+        if (!res.ok) throw new Error('Failed to fetch ready work');
+        const data = await res.json() as ReadyWorkResponse;
+        if (!cancelled) {
+          setReadyWork(data);
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch ready work:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch ready work');
+      }
+    };
+
+    fetchReadyWork();
+    return () => {
+      cancelled = true;
+    };
+  }, [issues]);
+
+  if (error && !readyWork) {
+    return <div className="card py-12 text-center text-red-600">{error}</div>;
+  }
+  if (!readyWork) {
+    return <div className="card py-12 text-center text-slate-500">Loading ready work...</div>;
+  }
+
+  const issuesById = new Map(issues.map((issue) => [issue.id, issue]));
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-0 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200 bg-slate-50 flex items-center justify-between">
+          <h2 className="font-semibold text-slate-700">Ready to work on</h2>
+          <span className="text-xs text-slate-500">{readyWork.ready.length} issues · by priority, then oldest first</span>
+        </div>
+        {readyWork.ready.length === 0 ? (
+          <div className="py-8 text-center text-slate-400 text-sm">Nothing is ready right now</div>
+        ) : (
+          <ul className="divide-y divide-slate-100" data-testid="ready-list">
+            {readyWork.ready.map((item) => (
+              <ReadyRow key={item.issue.id} item={item} issuesById={issuesById} onOpenIssue={onOpenIssue} />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="card p-0 overflow-hidden">
+        <button
+          onClick={() => setShowNotReady((prev) => !prev)}
+          className="w-full px-4 py-3 bg-slate-50 flex items-center gap-2 text-left font-semibold text-slate-700"
+          aria-expanded={showNotReady}
+        >
+          {showNotReady ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          Not ready
+          <span className="bg-slate-200 text-slate-600 text-xs font-medium px-2 py-0.5 rounded-full">
+            {readyWork.notReady.length}
+          </span>
+        </button>
+        {showNotReady && (
+          <ul className="divide-y divide-slate-100 border-t border-slate-200" data-testid="not-ready-list">
+            {readyWork.notReady.map((item) => (
+              <ReadyRow key={item.issue.id} item={item} issuesById={issuesById} onOpenIssue={onOpenIssue} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ReadyView;
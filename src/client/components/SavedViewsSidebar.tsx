@@ -0,0 +1,213 @@
+import { useEffect, useState } from 'react';
+import { Bookmark, RefreshCw, Star, Trash2, X } from 'lucide-react';
+import type { SavedView, SavedViewTab, SavedViewsResponse } from '@shared/types';
+
+export const SAVED_VIEW_TAB_LABELS: Record<SavedViewTab, string> = {
+  table: 'Issues',
+  dashboard: 'Dashboard',
+  graph: 'Graph',
+};
+
+// Only tabs whose filters live in the URL can be saved; Ready and Board have none to keep
+export function isSavedViewTab(tab: string): tab is SavedViewTab {
+  return Object.keys(SAVED_VIEW_TAB_LABELS).includes(tab);
+}
+
+interface SavedViewsSidebarProps {
+  savedViews: SavedViewsResponse;
+  // The tab whose state Save captures, or null on a tab that can't be saved
+  activeTab: SavedViewTab | null;
+  // The saved view matching what the active tab shows right now, if any
+  currentViewId: string | null;
+  onApply: (view: SavedView) => void;
+  // Save the active tab's current filters, sort and columns under a name
+  onSave: (name: string) => Promise<void>;
+  // Replace a view's query with the active tab's current state
+  onOverwrite: (view: SavedView) => Promise<void>;
+  onDelete: (view: SavedView) => Promise<void>;
+  onToggleDefault: (view: SavedView) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * SavedViewsSidebar - Drawer listing the project's saved views by tab.
+ * Views are stored on the server, so everyone using this dashboard sees the
+ * same list; a starred view is what its tab opens with.
+ */
+function SavedViewsSidebar({
+  savedViews,
+  activeTab,
+  currentViewId,
+  onApply,
+  onSave,
+  onOverwrite,
+  onDelete,
+  onToggleDefault,
+  onClose,
+}: SavedViewsSidebarProps) {
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Run a server action, showing its failure in the drawer
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    run(async () => {
+      await onSave(name.trim());
+      setName('');
+    });
+  };
+
+  const tabs = (Object.keys(SAVED_VIEW_TAB_LABELS) as SavedViewTab[]).filter((tab) =>
+    savedViews.views.some((view) => view.tab === tab)
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-40 bg-black/20"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <aside
+        className="absolute inset-y-0 left-0 w-80 bg-white shadow-xl flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="saved-views-title"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+          <h2 id="saved-views-title" className="flex items-center gap-2 text-base font-semibold text-slate-900">
+            <Bookmark className="w-4 h-4 text-slate-500" aria-hidden="true" />
+            Saved views
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 p-1" aria-label="Close saved views">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {activeTab ? (
+          <form onSubmit={handleSave} className="px-4 py-3 border-b border-slate-100 space-y-2">
+            <label htmlFor="saved-view-name" className="block text-xs font-medium text-slate-500 uppercase tracking-wide">
+              Save current {SAVED_VIEW_TAB_LABELS[activeTab]} view
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="saved-view-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. My open bugs"
+                maxLength={100}
+                className="flex-1 min-w-0 px-2 py-1.5 border border-slate-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+              <button
+                type="submit"
+                disabled={busy || !name.trim()}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+            {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+          </form>
+        ) : (
+          <div className="px-4 py-3 border-b border-slate-100 space-y-2">
+            <p className="text-sm text-slate-500">
+              Views can be saved from the Issues, Dashboard and Graph tabs. This tab has no filters to keep.
+            </p>
+            {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-2 py-3">
+          {tabs.length === 0 && (
+            <p className="px-2 text-sm text-slate-500">No saved views yet. Set up filters on a tab and save them here.</p>
+          )}
+          {tabs.map((tab) => (
+            <section key={tab} className="mb-4">
+              <h3 className="px-2 mb-1 text-xs font-medium text-slate-400 uppercase tracking-wide">{SAVED_VIEW_TAB_LABELS[tab]}</h3>
+              <ul>
+                {savedViews.views
+                  .filter((view) => view.tab === tab)
+                  .map((view) => {
+                    const isDefault = savedViews.defaults[tab] === view.id;
+                    return (
+                      <li
+                        key={view.id}
+                        className={`group flex items-center gap-1 rounded px-2 py-1 ${
+                          view.id === currentViewId ? 'bg-blue-50' : 'hover:bg-slate-50'
+                        }`}
+                        data-testid={`saved-view-${view.id}`}
+                      >
+                        <button
+                          onClick={() => onApply(view)}
+                          className="flex-1 min-w-0 text-left text-sm text-slate-800 truncate"
+                          title={view.query || undefined}
+                        >
+                          {view.name}
+                        </button>
+                        <button
+                          onClick={() => run(() => onToggleDefault(view))}
+                          disabled={busy}
+                          className={isDefault ? 'text-amber-500 p-1' : 'text-slate-300 hover:text-amber-500 p-1'}
+                          aria-label={isDefault ? `Stop opening ${SAVED_VIEW_TAB_LABELS[tab]} with ${view.name}` : `Open ${SAVED_VIEW_TAB_LABELS[tab]} with ${view.name}`}
+                          aria-pressed={isDefault}
+                        >
+                          <Star className="w-4 h-4" fill={isDefault ? 'currentColor' : 'none'} />
+                        </button>
+                        {tab === activeTab && view.id !== currentViewId && (
+                          <button
+                            onClick={() => run(() => onOverwrite(view))}
+                            disabled={busy}
+                            className="text-slate-300 hover:text-blue-600 p-1"
+                            aria-label={`Update ${view.name} to the current view`}
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => {
+                            if (window.confirm(`Delete the saved view "${view.name}" for everyone?`)) {
+                              run(() => onDelete(view));
+                            }
+                          }}
+                          disabled={busy}
+                          className="text-slate-300 hover:text-red-600 p-1"
+                          aria-label={`Delete ${view.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </li>
+                    );
+                  })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+}
+
+export default SavedViewsSidebar;
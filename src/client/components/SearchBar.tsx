@@ -1,14 +1,28 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Search, X } from 'lucide-react';
-import type { Issue } from '@shared/types';
+import { Plus, Search, X } from 'lucide-react';
+import type { CreateIssueRequest, CreateIssueResponse, Issue, SearchMatch, SearchResponse, SearchResult } from '@shared/types';
+import { PRIORITY_LABELS } from '@shared/types';
+import { SEARCH_FIELD_LABELS } from '@shared/search';
+import { QUICK_ADD_PREFIX, isQuickAddQuery, parseQuickAdd } from '../utils/quickAdd';
+import type { ParsedQuickAdd } from '../utils/quickAdd';
+import HighlightedText from './HighlightedText';
 
 interface SearchBarProps {
-  issues: Issue[];
   onSelectIssue: (issue: Issue) => void;
+  // Shows every result for the query (e.g. in the issue table)
+  onSeeAllResults?: (query: string) => void;
   placeholder?: string;
-  onFocusRequest?: (focusFn: () => void) => void;
+  // Receives a function that focuses the input, optionally replacing its text
+  onFocusRequest?: (focusFn: (query?: string) => void) => void;
+  // Creates an issue from a quick-add line ("+ Fix crash !p0 #bug"); left out when writes are disabled
+  onQuickAdd?: (request: CreateIssueRequest) => Promise<CreateIssueResponse>;
+  // Opens the full creator with the parsed fields (Shift+Enter on a quick-add line)
+  onOpenCreateForm?: (initialValues: CreateIssueRequest) => void;
 }
 
+// Results shown in the dropdown; the rest are a "see all" away
+const DROPDOWN_LIMIT = 10;
+
 interface SearchBarState {
   query: string;
   debouncedQuery: string;
@@ -16,7 +30,14 @@ interface SearchBarState {
   highlightedIndex: number;
 }
 
-function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", onFocusRequest }: SearchBarProps) {
+function SearchBar({
+  onSelectIssue,
+  onSeeAllResults,
+  placeholder,
+  onFocusRequest,
+  onQuickAdd,
+  onOpenCreateForm,
+}: SearchBarProps) {
   const [state, setState] = useState<SearchBarState>({
     query: '',
     debouncedQuery: '',
@@ -28,34 +49,64 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
   const dropdownRef = useRef<HTMLDivElement>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Pre-process issues for faster filtering (per arch review)
-  const searchableIssues = useMemo(() =>
-    issues
-      .filter((issue) => issue.status !== 'tombstone')
-      .map((issue) => ({
-        issue,
-        searchText: `${issue.id} ${issue.title || ''}`.toLowerCase()
-      })),
-    [issues]
-  );
+  // Top results for the debounced query from the server-side index, and how many matched in all
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  // The query the results are for; "no results" waits until the current query has been searched
+  const [resultsQuery, setResultsQuery] = useState('');
 
-  // Filter issues based on debounced query with early exit (per arch review)
-  const filteredIssues = useMemo(() => {
-    if (!state.debouncedQuery.trim()) return [];
+  // A query starting with "+ " is a quick-add line, parsed as it's typed rather than searched
+  const quickAdd: ParsedQuickAdd | null = useMemo(
+    () => (onQuickAdd && isQuickAddQuery(state.query) ? parseQuickAdd(state.query) : null),
+    [onQuickAdd, state.query]
+  );
+  const [quickAddBusy, setQuickAddBusy] = useState(false);
+  const [quickAddError, setQuickAddError] = useState<string | null>(null);
 
-    const searchLower = state.debouncedQuery.toLowerCase();
-    const results: Issue[] = [];
+  useEffect(() => {
+    const query = state.debouncedQuery.trim();
+    if (!query || (onQuickAdd && isQuickAddQuery(state.debouncedQuery))) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+    let cancelled = false;
 
-    // Early exit after 10 matches for performance
-    for (const { issue, searchText } of searchableIssues) {
-      if (searchText.includes(searchLower)) {
-        results.push(issue);
-        if (results.length >= 10) break;
+    const fetchResults = async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}&limit=${DROPDOWN_LIMIT}`);
+        if (!res.ok) throw new Error('Failed to search issues');
+        const data = await res.json() as SearchResponse;
+        if (!cancelled) {
+          setResults(data.results);
+          setTotal(data.total);
+          setResultsQuery(query);
+        }
+      } catch (err) {
+        console.error('Failed to search issues:', err);
+        if (!cancelled) {
+          setResults([]);
+          setTotal(0);
+          setResultsQuery(query);
+        }
       }
-    }
+    };
+
+    fetchResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [state.debouncedQuery, onQuickAdd]);
 
-    return results;
-  }, [searchableIssues, state.debouncedQuery]);
+  // The "see all" row follows the results and is reachable with the arrow keys
+  const showSeeAll = Boolean(onSeeAllResults) && results.length > 0;
+  const optionCount = results.length + (showSeeAll ? 1 : 0);
+
+  const seeAllResults = useCallback(() => {
+    onSeeAllResults?.(state.debouncedQuery.trim());
+    setState({ query: '', debouncedQuery: '', isOpen: false, highlightedIndex: 0 });
+    inputRef.current?.blur();
+  }, [onSeeAllResults, state.debouncedQuery]);
 
   // Debounce query input (200ms per arch review)
   useEffect(() => {
@@ -78,11 +129,48 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
     };
   }, [state.query]);
 
+  const submitQuickAdd = useCallback(async () => {
+    if (!quickAdd || !onQuickAdd || quickAddBusy || quickAdd.errors.length > 0) return;
+    setQuickAddBusy(true);
+    setQuickAddError(null);
+    try {
+      await onQuickAdd(quickAdd.request);
+      setState({ query: '', debouncedQuery: '', isOpen: false, highlightedIndex: 0 });
+      inputRef.current?.blur();
+    } catch (err) {
+      setQuickAddError(err instanceof Error ? err.message : 'Failed to create issue');
+    } finally {
+      setQuickAddBusy(false);
+    }
+  }, [quickAdd, onQuickAdd, quickAddBusy]);
+
+  const openCreateForm = useCallback(() => {
+    if (!quickAdd || !onOpenCreateForm) return;
+    onOpenCreateForm(quickAdd.request);
+    setState({ query: '', debouncedQuery: '', isOpen: false, highlightedIndex: 0 });
+    inputRef.current?.blur();
+  }, [quickAdd, onOpenCreateForm]);
+
   // Handle keyboard navigation
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-    if (!state.isOpen || filteredIssues.length === 0) {
-      if (e.key === 'Enter' && filteredIssues.length > 0) {
-        onSelectIssue(filteredIssues[0]);
+    if (quickAdd) {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          openCreateForm();
+        } else {
+          submitQuickAdd();
+        }
+      } else if (e.key === 'Escape') {
+        setState(prev => ({ ...prev, isOpen: false }));
+        inputRef.current?.blur();
+      }
+      return;
+    }
+
+    if (!state.isOpen || results.length === 0) {
+      if (e.key === 'Enter' && results.length > 0) {
+        onSelectIssue(results[0].issue);
         setState(prev => ({ ...prev, query: '', debouncedQuery: '', isOpen: false }));
       }
       return;
@@ -93,7 +181,7 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
         e.preventDefault();
         setState(prev => ({
           ...prev,
-          highlightedIndex: Math.min(prev.highlightedIndex + 1, filteredIssues.length - 1)
+          highlightedIndex: Math.min(prev.highlightedIndex + 1, optionCount - 1)
         }));
         break;
       case 'ArrowUp':
@@ -105,7 +193,11 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
         break;
       case 'Enter':
         e.preventDefault();
-        onSelectIssue(filteredIssues[state.highlightedIndex]);
+        if (state.highlightedIndex >= results.length) {
+          seeAllResults();
+          break;
+        }
+        onSelectIssue(results[state.highlightedIndex].issue);
         setState({ query: '', debouncedQuery: '', isOpen: false, highlightedIndex: 0 });
         inputRef.current?.blur();
         break;
@@ -114,7 +206,7 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
         inputRef.current?.blur();
         break;
     }
-  }, [state.isOpen, state.highlightedIndex, filteredIssues, onSelectIssue]);
+  }, [quickAdd, openCreateForm, submitQuickAdd, state.isOpen, state.highlightedIndex, results, optionCount, onSelectIssue, seeAllResults]);
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -130,7 +222,12 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
   // Expose focus method to parent component (per arch review - keyboard shortcut at App level)
   useEffect(() => {
     if (onFocusRequest) {
-      onFocusRequest(() => inputRef.current?.focus());
+      onFocusRequest((query) => {
+        if (query !== undefined) {
+          setState({ query, debouncedQuery: '', isOpen: true, highlightedIndex: 0 });
+        }
+        inputRef.current?.focus();
+      });
     }
   }, [onFocusRequest]);
 
@@ -146,23 +243,33 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
           ref={inputRef}
           type="text"
           value={state.query}
-          onChange={(e) => setState(prev => ({
-            ...prev,
-            query: e.target.value,
-            highlightedIndex: 0
-          }))}
+          onChange={(e) => {
+            const query = e.target.value;
+            setQuickAddError(null);
+            setState(prev => ({
+              ...prev,
+              query,
+              highlightedIndex: 0,
+              // Quick-add previews right away; searches wait for the debounce
+              isOpen: onQuickAdd && isQuickAddQuery(query) ? true : prev.isOpen,
+            }));
+          }}
           onFocus={() => state.query && setState(prev => ({ ...prev, isOpen: true }))}
           onKeyDown={handleKeyDown}
-          placeholder={placeholder}
+          placeholder={placeholder ?? (onQuickAdd ? `Search issues, or type "${QUICK_ADD_PREFIX.trim()}" to add one...` : 'Search issues...')}
           className="w-full pl-10 pr-32 py-2 border border-slate-300 rounded-lg text-sm
                      focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           role="combobox"
           aria-expanded={state.isOpen}
           aria-controls="search-results"
-          aria-activedescendant={state.isOpen && filteredIssues.length > 0 ? `result-${state.highlightedIndex}` : undefined}
-          aria-label="Search issues by ID or title"
+          aria-activedescendant={state.isOpen && results.length > 0 ? `result-${state.highlightedIndex}` : undefined}
+          aria-label="Search issues"
         />
-        <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" aria-hidden="true" />
+        {quickAdd ? (
+          <Plus className="absolute left-3 top-2.5 h-4 w-4 text-blue-500" aria-hidden="true" />
+        ) : (
+          <Search className="absolute left-3 top-2.5 h-4 w-4 text-slate-400" aria-hidden="true" />
+        )}
         {state.query && (
           <button
             onClick={handleClear}
@@ -173,35 +280,60 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
           </button>
         )}
         <span className="absolute right-3 top-2.5 text-xs text-slate-400 hidden sm:block" aria-hidden="true">
-          Cmd+Shift+K
+          /
         </span>
       </div>
 
+      {/* Quick-add preview */}
+      {quickAdd && state.isOpen && (
+        <QuickAddPreview
+          parsed={quickAdd}
+          busy={quickAddBusy}
+          error={quickAddError}
+          onCreate={submitQuickAdd}
+          onOpenForm={onOpenCreateForm ? openCreateForm : undefined}
+        />
+      )}
+
       {/* Autocomplete dropdown */}
-      {state.isOpen && filteredIssues.length > 0 && (
+      {!quickAdd && state.isOpen && results.length > 0 && (
         <div
           id="search-results"
           role="listbox"
           className="absolute z-50 w-full mt-1 bg-white border border-slate-200 rounded-lg
                         shadow-xl max-h-[400px] overflow-y-auto animate-in fade-in zoom-in-95 duration-150"
         >
-          {filteredIssues.map((issue, index) => (
+          {results.map((result, index) => (
             <SearchResultItem
-              key={issue.id}
-              issue={issue}
+              key={result.issue.id}
+              issue={result.issue}
+              match={result.matches.find((match) => match.field !== 'id')}
               isHighlighted={index === state.highlightedIndex}
               onClick={() => {
-                onSelectIssue(issue);
+                onSelectIssue(result.issue);
                 setState({ query: '', debouncedQuery: '', isOpen: false, highlightedIndex: 0 });
               }}
               resultId={`result-${index}`}
             />
           ))}
+          {showSeeAll && (
+            <div
+              id={`result-${results.length}`}
+              role="option"
+              aria-selected={state.highlightedIndex === results.length}
+              className={`px-4 py-2 text-sm font-medium text-blue-600 cursor-pointer ${
+                state.highlightedIndex === results.length ? 'bg-blue-50' : 'hover:bg-slate-50'
+              }`}
+              onClick={seeAllResults}
+            >
+              See all {total} {total === 1 ? 'result' : 'results'}
+            </div>
+          )}
         </div>
       )}
 
       {/* No results message */}
-      {state.isOpen && state.debouncedQuery && filteredIssues.length === 0 && (
+      {!quickAdd && state.isOpen && state.debouncedQuery && resultsQuery === state.debouncedQuery.trim() && results.length === 0 && (
         <div
           className="absolute z-50 w-full mt-1 bg-white border border-slate-200 rounded-lg
                         shadow-lg p-4 text-center text-slate-500 text-sm"
@@ -214,14 +346,93 @@ function SearchBar({ issues, onSelectIssue, placeholder = "Search issues...", on
   );
 }
 
+interface QuickAddPreviewProps {
+  parsed: ParsedQuickAdd;
+  busy: boolean;
+  error: string | null;
+  onCreate: () => void;
+  onOpenForm?: () => void;
+}
+
+/**
+ * Shows what a quick-add line will create before it's submitted
+ */
+function QuickAddPreview({ parsed, busy, error, onCreate, onOpenForm }: QuickAddPreviewProps) {
+  const { request, errors } = parsed;
+  const fields: [string, string][] = [
+    ['Type', request.issue_type ?? 'task'],
+    ['Priority', `P${request.priority ?? 2} - ${PRIORITY_LABELS[request.priority ?? 2]}`],
+  ];
+  if (request.assignee) fields.push(['Assignee', request.assignee]);
+  if (request.labels) fields.push(['Labels', request.labels.join(', ')]);
+  if (request.parent_id) fields.push(['Parent', request.parent_id]);
+  if (request.due) fields.push(['Due', request.due]);
+  if (request.defer) fields.push(['Deferred until', request.defer]);
+
+  return (
+    <div
+      className="absolute z-50 w-full mt-1 bg-white border border-slate-200 rounded-lg shadow-xl p-4 space-y-3
+                 animate-in fade-in zoom-in-95 duration-150"
+      role="region"
+      aria-label="New issue preview"
+    >
+      <p className={`text-sm font-medium ${request.title ? 'text-slate-900' : 'text-slate-400 italic'}`}>
+        {request.title || 'Untitled'}
+      </p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+        {fields.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="text-slate-800">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5" role="alert">
+          {errors.map((message) => <li key={message}>{message}</li>)}
+        </ul>
+      )}
+      {error && <p className="text-xs text-red-600" role="alert">{error}</p>}
+      <div className="flex items-center justify-between gap-3 pt-1 border-t border-slate-100">
+        <p className="text-xs text-slate-400">
+          !p0-4 priority, #type, @assignee, +label, ^parent, due: and defer: (fri, 3d, 2026-11-01)
+        </p>
+        <div className="flex gap-2 flex-shrink-0">
+          {onOpenForm && (
+            <button
+              type="button"
+              onClick={onOpenForm}
+              className="px-2.5 py-1 text-xs font-medium text-slate-600 border border-slate-300 rounded hover:bg-slate-50"
+              title="Shift+Enter"
+            >
+              More fields...
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onCreate}
+            disabled={busy || errors.length > 0}
+            className="px-2.5 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+            title="Enter"
+          >
+            {busy ? 'Creating...' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 interface SearchResultItemProps {
   issue: Issue;
+  // Where the query matched; the title is highlighted in place, other fields get a snippet line
+  match?: SearchMatch;
   isHighlighted: boolean;
   onClick: () => void;
   resultId: string;
 }
 
-function SearchResultItem({ issue, isHighlighted, onClick, resultId }: SearchResultItemProps) {
+function SearchResultItem({ issue, match, isHighlighted, onClick, resultId }: SearchResultItemProps) {
   const shortId = issue.id.includes('-') ? issue.id.split('-').pop() : issue.id;
 
   // Simple type icon mapping
@@ -262,7 +473,19 @@ function SearchResultItem({ issue, isHighlighted, onClick, resultId }: SearchRes
               {issue.status}
             </span>
           </div>
-          <p className="text-sm text-slate-700 truncate">{issue.title || 'Untitled'}</p>
+          <p className="text-sm text-slate-700 truncate">
+            {match?.field === 'title' ? (
+              <HighlightedText text={match.snippet} highlights={match.highlights} />
+            ) : (
+              issue.title || 'Untitled'
+            )}
+          </p>
+          {match && match.field !== 'title' && (
+            <p className="text-xs text-slate-500 truncate mt-0.5">
+              <span className="font-medium text-slate-400">{SEARCH_FIELD_LABELS[match.field]}: </span>
+              <HighlightedText text={match.snippet} highlights={match.highlights} />
+            </p>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,73 @@
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { SHORTCUT_GROUPS } from '../utils/keyboardShortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+/**
+ * ShortcutHelp - Overlay listing every keyboard shortcut, opened with "?"
+ */
+function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  useEffect(() => {
+    // Captured first so Escape doesn't also close an editor modal underneath
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') {
+        e.preventDefault();
+        e.stopPropagation();
+        onClose();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="shortcut-help-title"
+    >
+      <div className="w-full max-w-lg bg-white rounded-lg shadow-xl animate-in zoom-in-95 duration-150">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h2 id="shortcut-help-title" className="text-lg font-semibold text-slate-900">Keyboard shortcuts</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="px-6 py-4 space-y-5 max-h-[70vh] overflow-y-auto">
+          {SHORTCUT_GROUPS.map((group) => (
+            <section key={group.title}>
+              <h3 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">{group.title}</h3>
+              <dl className="space-y-1.5">
+                {group.shortcuts.map((shortcut) => (
+                  <div key={shortcut.description} className="flex items-center justify-between text-sm">
+                    <dt className="text-slate-700">{shortcut.description}</dt>
+                    <dd className="flex gap-1">
+                      {shortcut.keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="px-1.5 py-0.5 text-xs font-mono text-slate-600 bg-slate-100 border border-slate-200 rounded"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
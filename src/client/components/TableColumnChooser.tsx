@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Columns3 } from 'lucide-react';
+import { DEFAULT_TABLE_COLUMNS, TABLE_COLUMNS, TABLE_COLUMN_IDS } from '../utils/tableColumns';
+import type { TableColumnId } from '../utils/tableColumns';
+
+interface TableColumnChooserProps {
+  // Shown columns, in order
+  columns: TableColumnId[];
+  onChange: (columns: TableColumnId[]) => void;
+  // Back to the default columns and widths
+  onReset: () => void;
+}
+
+/**
+ * TableColumnChooser - Dropdown for picking which optional columns the issue
+ * list shows and in what order. Shown columns are listed first, in order.
+ */
+function TableColumnChooser({ columns, onChange, onReset }: TableColumnChooserProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (!target.closest('.table-column-chooser')) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [isOpen]);
+
+  const hidden = TABLE_COLUMN_IDS.filter((column) => !columns.includes(column));
+
+  const toggle = (column: TableColumnId) => {
+    onChange(columns.includes(column) ? columns.filter((c) => c !== column) : [...columns, column]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const isDefault = columns.length === DEFAULT_TABLE_COLUMNS.length && columns.every((c, i) => c === DEFAULT_TABLE_COLUMNS[i]);
+
+  return (
+    <div className="table-column-chooser relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-medium text-slate-500 hover:text-slate-700 hover:bg-slate-100 transition-colors"
+        aria-expanded={isOpen}
+        title="Choose columns"
+      >
+        <Columns3 className="w-3.5 h-3.5" />
+        <span>Columns</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-1 w-60 bg-white border border-slate-200 rounded-lg shadow-lg z-50">
+          <div className="p-2 border-b border-slate-100 flex justify-between items-center">
+            <span className="text-xs font-medium text-slate-600 uppercase">Columns</span>
+            {!isDefault && (
+              <button onClick={onReset} className="text-xs text-blue-600 hover:text-blue-700">
+                Reset
+              </button>
+            )}
+          </div>
+          <ul className="max-h-80 overflow-y-auto py-1">
+            {columns.map((column, index) => (
+              <li key={column} className="flex items-center px-3 py-1.5 hover:bg-slate-50 text-sm">
+                <label className="flex-1 flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked
+                    onChange={() => toggle(column)}
+                    className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="font-medium text-slate-900">{TABLE_COLUMNS[column].label}</span>
+                </label>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  aria-label={`Move ${TABLE_COLUMNS[column].label} left`}
+                >
+                  <ChevronUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === columns.length - 1}
+                  className="p-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  aria-label={`Move ${TABLE_COLUMNS[column].label} right`}
+                >
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+            {hidden.map((column) => (
+              <li key={column} className="px-3 py-1.5 hover:bg-slate-50 text-sm">
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={false}
+                    onChange={() => toggle(column)}
+                    className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-slate-700">{TABLE_COLUMNS[column].label}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TableColumnChooser;
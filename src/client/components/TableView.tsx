@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   AlertOctagon,
   AlertTriangle,
@@ -19,13 +19,45 @@ import {
   Check,
   LayoutList,
   Network,
+  TrendingUp,
+  Search,
+  X,
 } from 'lucide-react';
-import type { Issue, IssueStatus, Priority } from '@shared/types';
+import type { BulkIssueUpdates, Issue, IssueRanks, IssueStatus, Priority, SearchResponse, SearchResult } from '@shared/types';
 import { PRIORITY_LABELS } from '@shared/types';
-import { compareIdsNaturally } from '../utils/sortUtils';
+import { SEARCH_FIELD_LABELS } from '@shared/search';
+import { matchesIssueQuery, parseIssueQuery } from '@shared/issueQuery';
+import { getParentId } from '@shared/readyWork';
+import { IssueConflictError, saveIssueUpdates, setIssueStatus, bulkUpdateIssues } from '../utils/issueApi';
+import { useIssueKeyboardNav } from '../hooks/useIssueKeyboardNav';
+import { getEpicChildren } from '../utils/epicUtils';
+import { compareByRank, getRankPositions } from '../utils/ranking';
+import {
+  DEFAULT_SORT_COLUMN,
+  DEFAULT_SORT_DIRECTION,
+  buildTableQuery,
+  parseTableQuery,
+} from '../utils/tableUrlState';
+import type { SortColumn, SortDirection } from '../utils/tableUrlState';
+import {
+  DEFAULT_TABLE_COLUMNS,
+  ISSUE_COMPARATORS,
+  TABLE_COLUMNS,
+  clampColumnWidth,
+  getDependencyIds,
+  getIssueAgeDays,
+  isTableColumnId,
+} from '../utils/tableColumns';
+import type { TableColumnId } from '../utils/tableColumns';
 import IssueEditorModal from './IssueEditorModal';
+import BulkActionBar from './BulkActionBar';
+import CloseIssueDialog from './CloseIssueDialog';
 import CopyableId from './CopyableId';
 import DateBadge from './DateBadge';
+import HighlightedText from './HighlightedText';
+import IssueQueryInput from './IssueQueryInput';
+import TableColumnChooser from './TableColumnChooser';
+import { formatMinutesToHours } from './IssueEditorModal/MetadataSection';
 
 /**
  * Safely parse JSON from localStorage, returning default on error
@@ -44,56 +76,127 @@ function safeParseLocalStorage<T>(key: string, defaultValue: T): T {
 
 interface TableViewProps {
   issues: Issue[];
+  // Disables quick status actions while Beads is read-only
+  readOnly?: boolean;
+  // Opens the burnup page for an epic
+  onOpenEpic?: (epicId: string) => void;
+  // Opens an issue elsewhere (e.g. the /issue/:id route) instead of the local editor modal
+  onOpenIssue?: (issue: Issue) => void;
+  // Query string to restore filters, sort, columns and epic expansion from; saved preferences apply when it has none
+  query?: string;
+  // Called with the query string describing the current table state
+  onQueryChange?: (query: string) => void;
+  // Manual card order from the board, used by the Rank sort
+  ranks?: IssueRanks;
+  // Told which row has keyboard focus (j/k), or null
+  onFocusedIssueChange?: (issue: Issue | null) => void;
+  // Given an issue as saved (or as it is now, after a conflict) ahead of the next refresh
+  onIssueUpdated?: (issue: Issue) => void;
 }
 
-function TableView({ issues }: TableViewProps) {
-  const [filterText] = useState('');
+const NO_RANKS: IssueRanks = {};
+
+function TableView({
+  issues,
+  readOnly = false,
+  onOpenEpic,
+  onOpenIssue,
+  query,
+  onQueryChange,
+  ranks = NO_RANKS,
+  onFocusedIssueChange,
+  onIssueUpdated,
+}: TableViewProps) {
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
 
+  // State from a shared link wins over saved preferences
+  const [urlState] = useState(() => (query ? parseTableQuery(query) : null));
+
+  // Full-text search from the search bar's "see all results"; only ever comes from the URL
+  const [search, setSearch] = useState(() => urlState?.search ?? '');
+  // Matches for the search by issue ID, null until they arrive
+  const [searchResults, setSearchResults] = useState<Map<string, SearchResult> | null>(null);
+
   // Epics view toggle with localStorage persistence
   const [showEpicsView, setShowEpicsView] = useState<boolean>(() => {
+    if (urlState) return urlState.showEpicsView;
     const saved = localStorage.getItem('beads-show-epics-view');
     return saved === 'true';
   });
 
   // Expanded epics tracking
   const [expandedEpics, setExpandedEpics] = useState<Set<string>>(() => {
-    return new Set(safeParseLocalStorage<string[]>('beads-expanded-epics', []));
+    return new Set(urlState?.expandedEpics ?? safeParseLocalStorage<string[]>('beads-expanded-epics', []));
   });
 
   // Epics view: status filter (empty = default "all except closed", non-empty = show only selected)
   const [epicStatusFilter, setEpicStatusFilter] = useState<IssueStatus[]>(() => {
-    return safeParseLocalStorage<IssueStatus[]>('beads-epic-status-filter', []);
+    return urlState?.epicStatusFilter ?? safeParseLocalStorage<IssueStatus[]>('beads-epic-status-filter', []);
   });
 
   // Sorting state (default: priority ascending = highest priority first)
-  type SortColumn = 'id' | 'title' | 'type' | 'priority' | 'status';
-  type SortDirection = 'asc' | 'desc';
   const [sortColumn, setSortColumn] = useState<SortColumn>(() => {
+    if (urlState) return urlState.sortColumn;
     const saved = localStorage.getItem('beads-sort-column');
-    return (saved as SortColumn) || 'priority';
+    return (saved as SortColumn) || DEFAULT_SORT_COLUMN;
   });
   const [sortDirection, setSortDirection] = useState<SortDirection>(() => {
+    if (urlState) return urlState.sortDirection;
     const saved = localStorage.getItem('beads-sort-direction');
-    return (saved as SortDirection) || 'asc';
+    return (saved as SortDirection) || DEFAULT_SORT_DIRECTION;
   });
 
   // Column filters with localStorage persistence
   const [statusFilter, setStatusFilter] = useState<IssueStatus[]>(() => {
-    return safeParseLocalStorage<IssueStatus[]>('beads-filter-status', []);
+    return urlState?.statusFilter ?? safeParseLocalStorage<IssueStatus[]>('beads-filter-status', []);
   });
   const [typeFilter, setTypeFilter] = useState<string[]>(() => {
-    return safeParseLocalStorage<string[]>('beads-filter-type', []);
+    return urlState?.typeFilter ?? safeParseLocalStorage<string[]>('beads-filter-type', []);
   });
   const [priorityFilter, setPriorityFilter] = useState<Priority[]>(() => {
-    return safeParseLocalStorage<Priority[]>('beads-filter-priority', []);
+    return urlState?.priorityFilter ?? safeParseLocalStorage<Priority[]>('beads-filter-priority', []);
+  });
+  const [labelFilter, setLabelFilter] = useState<string[]>(() => {
+    return urlState?.labelFilter ?? safeParseLocalStorage<string[]>('beads-filter-label', []);
+  });
+  const [closeReasonFilter, setCloseReasonFilter] = useState<string[]>(() => {
+    return urlState?.closeReasonFilter ?? safeParseLocalStorage<string[]>('beads-filter-close-reason', []);
+  });
+  // Structured query, applied on top of the column filters (flat list only)
+  const [filterQuery, setFilterQuery] = useState<string>(() => {
+    return urlState?.query ?? localStorage.getItem('beads-filter-query') ?? '';
+  });
+  // Who assignee:me refers to
+  const [me, setMe] = useState<string>(() => localStorage.getItem('beads-me') ?? '');
+
+  // Optional columns of the flat list, in order, and the widths of resized ones
+  const [columns, setColumns] = useState<TableColumnId[]>(() => {
+    if (urlState) return urlState.columns;
+    const saved = safeParseLocalStorage<unknown>('beads-table-columns', DEFAULT_TABLE_COLUMNS);
+    return Array.isArray(saved) ? saved.filter(isTableColumnId) : DEFAULT_TABLE_COLUMNS;
   });
+  const [columnWidths, setColumnWidths] = useState<Partial<Record<TableColumnId, number>>>(() => {
+    return urlState?.columnWidths ?? safeParseLocalStorage<Partial<Record<TableColumnId, number>>>('beads-table-column-widths', {});
+  });
+  // Column being resized and its width so far; committed on mouseup
+  const [resizing, setResizing] = useState<{ column: TableColumnId; width: number } | null>(null);
+  // Column header being dragged to a new position, and the one it's over
+  const draggedColumnRef = useRef<TableColumnId | null>(null);
+  const [dragOverColumn, setDragOverColumn] = useState<TableColumnId | null>(null);
 
   // Dropdown state
   const [openDropdown, setOpenDropdown] = useState<string | null>(null);
 
   // Quick action state
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  // Issue whose quick Close action is waiting for a close reason
+  const [pendingClose, setPendingClose] = useState<Issue | null>(null);
+
+  // Multi-select state (flat list view only)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [bulkUpdating, setBulkUpdating] = useState(false);
+  const [bulkError, setBulkError] = useState<string | null>(null);
 
   // Persist filters to localStorage
   useEffect(() => {
@@ -108,6 +211,30 @@ function TableView({ issues }: TableViewProps) {
     localStorage.setItem('beads-filter-priority', JSON.stringify(priorityFilter));
   }, [priorityFilter]);
 
+  useEffect(() => {
+    localStorage.setItem('beads-filter-label', JSON.stringify(labelFilter));
+  }, [labelFilter]);
+
+  useEffect(() => {
+    localStorage.setItem('beads-filter-close-reason', JSON.stringify(closeReasonFilter));
+  }, [closeReasonFilter]);
+
+  useEffect(() => {
+    localStorage.setItem('beads-filter-query', filterQuery);
+  }, [filterQuery]);
+
+  useEffect(() => {
+    localStorage.setItem('beads-me', me);
+  }, [me]);
+
+  useEffect(() => {
+    localStorage.setItem('beads-table-columns', JSON.stringify(columns));
+  }, [columns]);
+
+  useEffect(() => {
+    localStorage.setItem('beads-table-column-widths', JSON.stringify(columnWidths));
+  }, [columnWidths]);
+
   // Persist epics view state
   useEffect(() => {
     localStorage.setItem('beads-show-epics-view', String(showEpicsView));
@@ -122,13 +249,70 @@ function TableView({ issues }: TableViewProps) {
   }, [epicStatusFilter]);
 
   useEffect(() => {
-    localStorage.setItem('beads-sort-column', sortColumn);
+    // Relevance only means something for a search, so it isn't remembered
+    if (sortColumn !== 'relevance') localStorage.setItem('beads-sort-column', sortColumn);
   }, [sortColumn]);
 
+  // Search on the server; results are refetched when the issues change
+  useEffect(() => {
+    if (!search) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+
+    const fetchSearchResults = async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(search)}`);
+        if (!res.ok) throw new Error('Failed to search issues');
+        const data = await res.json() as SearchResponse;
+        if (!cancelled) setSearchResults(new Map(data.results.map((result) => [result.issue.id, result])));
+      } catch (err) {
+        console.error('Failed to search issues:', err);
+        if (!cancelled) setSearchResults(new Map());
+      }
+    };
+
+    fetchSearchResults();
+    return () => {
+      cancelled = true;
+    };
+  }, [search, issues]);
+
+  // Leave the search results, dropping the relevance order with them
+  const clearSearch = () => {
+    setSearch('');
+    if (sortColumn === 'relevance') {
+      setSortColumn(DEFAULT_SORT_COLUMN);
+      setSortDirection(DEFAULT_SORT_DIRECTION);
+    }
+  };
+
   useEffect(() => {
     localStorage.setItem('beads-sort-direction', sortDirection);
   }, [sortDirection]);
 
+  // Report the shareable table state
+  const tableQuery = buildTableQuery({
+    statusFilter,
+    typeFilter,
+    priorityFilter,
+    labelFilter,
+    closeReasonFilter,
+    sortColumn,
+    sortDirection,
+    showEpicsView,
+    expandedEpics: [...expandedEpics],
+    epicStatusFilter,
+    search,
+    query: filterQuery,
+    columns,
+    columnWidths,
+  });
+  useEffect(() => {
+    onQueryChange?.(tableQuery);
+  }, [tableQuery, onQueryChange]);
+
   // Handle column sort click
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
@@ -141,29 +325,26 @@ function TableView({ issues }: TableViewProps) {
     }
   };
 
+  // Manual order: ranked issues first, unranked after
+  const compareRanks = useMemo(() => compareByRank(ranks), [ranks]);
+  // Position of each ranked issue in the manual order, shown in the Rank column
+  const rankPositions = useMemo(() => getRankPositions(ranks), [ranks]);
+
   // Sort function for issues
   const sortIssues = <T extends Issue>(items: T[]): T[] => {
     return [...items].sort((a, b) => {
       let comparison = 0;
 
       switch (sortColumn) {
-        case 'id':
-          comparison = compareIdsNaturally(a.id, b.id);
+        case 'rank':
+          comparison = compareRanks(a, b);
           break;
-        case 'title':
-          comparison = (a.title || '').localeCompare(b.title || '');
-          break;
-        case 'type':
-          comparison = a.issue_type.localeCompare(b.issue_type);
-          break;
-        case 'priority':
-          // Lower number = higher priority, so ascending means P0 first
-          comparison = a.priority - b.priority;
-          break;
-        case 'status':
-          const statusOrder = ['in_progress', 'open', 'blocked', 'deferred', 'closed'];
-          comparison = statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status);
+        case 'relevance':
+          // Best match first when ascending
+          comparison = (searchResults?.get(b.id)?.score ?? 0) - (searchResults?.get(a.id)?.score ?? 0);
           break;
+        default:
+          comparison = ISSUE_COMPARATORS[sortColumn](a, b);
       }
 
       return sortDirection === 'asc' ? comparison : -comparison;
@@ -214,6 +395,24 @@ function TableView({ issues }: TableViewProps) {
     )
   ).sort((a, b) => a - b);
 
+  const uniqueCloseReasons = Array.from(
+    new Set(
+      issues
+        .filter((i) => i.status !== 'tombstone' && i.close_reason)
+        .map((i) => i.close_reason as string)
+    )
+  ).sort();
+
+  // Structured query, parsed and evaluated by the same shared module as GET /api/issues?q=
+  const parsedQuery = useMemo(() => parseIssueQuery(filterQuery), [filterQuery]);
+  const queryContext = useMemo(
+    () => ({ issuesById: new Map(issues.map((issue) => [issue.id, issue])), now: new Date(), me: me.trim() || undefined }),
+    [issues, me]
+  );
+  const queryUsesMe = parsedQuery.clauses.some(
+    (clause) => clause.field === 'assignee' && clause.values.some((value) => value.toLowerCase() === 'me')
+  );
+
   // Filter issues based on all criteria
   const filteredIssues = sortIssues(issues.filter((issue) => {
     // 1. Exclude deleted issues
@@ -229,21 +428,95 @@ function TableView({ issues }: TableViewProps) {
     if (priorityFilter.length > 0 && !priorityFilter.includes(issue.priority)) {
       return false;
     }
+    if (labelFilter.length > 0 && !(issue.labels || []).some((label) => labelFilter.includes(label))) {
+      return false;
+    }
+    if (closeReasonFilter.length > 0 && !closeReasonFilter.includes(issue.close_reason || '')) {
+      return false;
+    }
 
-    // 3. Apply text filter if present
-    if (!filterText) return true;
+    if (!matchesIssueQuery(issue, parsedQuery, queryContext)) {
+      return false;
+    }
 
-    const searchLower = filterText.toLowerCase();
-    const idMatch = issue.id.toLowerCase().includes(searchLower);
-    const titleMatch = (issue.title || '').toLowerCase().includes(searchLower);
-    const statusMatch = issue.status.toLowerCase().includes(searchLower);
-    const typeMatch = (issue.issue_type || '').toLowerCase().includes(searchLower);
+    // 3. Apply full-text search if present (nothing matches until results arrive)
+    if (!search) return true;
+    return searchResults?.has(issue.id) ?? false;
+  }));
 
-    const priorityLabel = PRIORITY_LABELS[issue.priority] || '';
-    const priorityMatch = priorityLabel.toLowerCase().includes(searchLower);
+  // Drop selected issues that are no longer visible (filtered out, deleted, or epics view)
+  const visibleIssueIds = showEpicsView ? '' : filteredIssues.map((issue) => issue.id).join('\n');
+  useEffect(() => {
+    const visible = new Set(visibleIssueIds.split('\n'));
+    setSelectedIds((prev) => {
+      const next = new Set([...prev].filter((id) => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [visibleIssueIds]);
+
+  // Toggle one row; with shift, apply the clicked row's new state to the whole
+  // range between it and the previously clicked row
+  const toggleSelection = (issueId: string, shiftKey: boolean) => {
+    const shouldSelect = !selectedIds.has(issueId);
+    const anchorIndex = selectionAnchorRef.current
+      ? filteredIssues.findIndex((issue) => issue.id === selectionAnchorRef.current)
+      : -1;
+    const targetIndex = filteredIssues.findIndex((issue) => issue.id === issueId);
+
+    const rangeIds = shiftKey && anchorIndex !== -1 && targetIndex !== -1
+      ? filteredIssues
+          .slice(Math.min(anchorIndex, targetIndex), Math.max(anchorIndex, targetIndex) + 1)
+          .map((issue) => issue.id)
+      : [issueId];
+
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      for (const id of rangeIds) {
+        if (shouldSelect) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = issueId;
+  };
 
-    return idMatch || titleMatch || statusMatch || typeMatch || priorityMatch;
-  }));
+  const allVisibleSelected = filteredIssues.length > 0 && filteredIssues.every((issue) => selectedIds.has(issue.id));
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredIssues.map((issue) => issue.id)));
+    selectionAnchorRef.current = null;
+  };
+
+  const clearSelection = () => {
+    setSelectedIds(new Set());
+    setBulkError(null);
+    selectionAnchorRef.current = null;
+  };
+
+  // Apply a bulk action to the selection; failed issues are reported, and the
+  // selection is kept so several actions can be applied in a row
+  const handleBulkApply = async (updates: BulkIssueUpdates) => {
+    const ids = filteredIssues.filter((issue) => selectedIds.has(issue.id)).map((issue) => issue.id);
+    if (ids.length === 0) return;
+
+    setBulkUpdating(true);
+    setBulkError(null);
+    try {
+      const { results } = await bulkUpdateIssues(ids, updates);
+      const failed = results.filter((result) => !result.success);
+      if (failed.length > 0) {
+        setBulkError(
+          `${failed.length} of ${results.length} issues failed: ` +
+            failed.map((result) => `${result.id} (${result.error})`).join('; ')
+        );
+      }
+    } catch (err) {
+      console.error(err);
+      setBulkError(err instanceof Error ? err.message : 'Failed to update issues');
+    } finally {
+      setBulkUpdating(false);
+    }
+  };
 
   const getPriorityStyle = (priority: Priority) => {
     switch (priority) {
@@ -302,6 +575,11 @@ function TableView({ issues }: TableViewProps) {
         ? priorityFilter.filter((v) => v !== value)
         : [...priorityFilter, value as Priority];
       setPriorityFilter(newFilter);
+    } else if (filterType === 'closeReason') {
+      const newFilter = closeReasonFilter.includes(value as string)
+        ? closeReasonFilter.filter((v) => v !== value)
+        : [...closeReasonFilter, value as string];
+      setCloseReasonFilter(newFilter);
     }
   };
 
@@ -309,6 +587,7 @@ function TableView({ issues }: TableViewProps) {
     if (filterType === 'status') setStatusFilter([]);
     else if (filterType === 'type') setTypeFilter([]);
     else if (filterType === 'priority') setPriorityFilter([]);
+    else if (filterType === 'closeReason') setCloseReasonFilter([]);
   };
 
   const clearAllFilters = () => {
@@ -319,12 +598,14 @@ function TableView({ issues }: TableViewProps) {
       setStatusFilter([]);
       setTypeFilter([]);
       setPriorityFilter([]);
+      setLabelFilter([]);
+      setCloseReasonFilter([]);
     }
   };
 
   const hasActiveFilters = showEpicsView
     ? epicStatusFilter.length > 0 || priorityFilter.length > 0
-    : statusFilter.length > 0 || typeFilter.length > 0 || priorityFilter.length > 0;
+    : statusFilter.length > 0 || typeFilter.length > 0 || priorityFilter.length > 0 || labelFilter.length > 0 || closeReasonFilter.length > 0;
 
   // Toggle epic expansion
   const toggleEpicExpansion = (epicId: string) => {
@@ -339,29 +620,6 @@ function TableView({ issues }: TableViewProps) {
     });
   };
 
-  // Get children for an epic (issues that depend on this epic or have it as parent)
-  const getEpicChildren = (epicId: string): Issue[] => {
-    return issues.filter((issue) => {
-      if (issue.status === 'tombstone' || issue.id === epicId) return false;
-
-      // Check if issue has this epic as parent_id
-      if (issue.parent_id === epicId) return true;
-
-      // Check if issue depends on this epic (new structure: array of objects)
-      if (issue.dependencies && Array.isArray(issue.dependencies)) {
-        const hasDependency = issue.dependencies.some(
-          (dep) => typeof dep === 'object' && dep.depends_on_id === epicId
-        );
-        if (hasDependency) return true;
-      }
-
-      // Check blocked_by (legacy: array of strings)
-      if (issue.blocked_by && issue.blocked_by.includes(epicId)) return true;
-
-      return false;
-    });
-  };
-
   // Calculate progress for an epic
   const calculateEpicProgress = (children: Issue[]) => {
     if (children.length === 0) return { completed: 0, total: 0, percentage: 0 };
@@ -374,7 +632,7 @@ function TableView({ issues }: TableViewProps) {
   const epicsWithChildren = issues
     .filter((issue) => issue.issue_type === 'epic' && issue.status !== 'tombstone')
     .map((epic) => {
-      const children = sortIssues(getEpicChildren(epic.id)); // Sort children too
+      const children = sortIssues(getEpicChildren(issues, epic.id)); // Sort children too
       const progress = calculateEpicProgress(children);
       return { epic, children, progress };
     })
@@ -391,17 +649,10 @@ function TableView({ issues }: TableViewProps) {
       // Apply priority filter
       if (priorityFilter.length > 0 && !priorityFilter.includes(e.epic.priority)) return false;
 
-      // Apply text search (match epic or any child issue)
-      if (filterText) {
-        const searchLower = filterText.toLowerCase();
-        const idMatch = e.epic.id.toLowerCase().includes(searchLower);
-        const titleMatch = (e.epic.title || '').toLowerCase().includes(searchLower);
-        const childMatch = e.children.some(
-          (child) =>
-            child.id.toLowerCase().includes(searchLower) ||
-            (child.title || '').toLowerCase().includes(searchLower)
-        );
-        if (!idMatch && !titleMatch && !childMatch) return false;
+      // Apply full-text search (match epic or any child issue)
+      if (search) {
+        const matches = (issue: Issue) => searchResults?.has(issue.id) ?? false;
+        if (!matches(e.epic) && !e.children.some(matches)) return false;
       }
       return true;
     })
@@ -409,19 +660,14 @@ function TableView({ issues }: TableViewProps) {
       // Sort epics using the same sort column/direction
       let comparison = 0;
       switch (sortColumn) {
-        case 'id':
-          comparison = compareIdsNaturally(a.epic.id, b.epic.id);
-          break;
-        case 'title':
-          comparison = (a.epic.title || '').localeCompare(b.epic.title || '');
-          break;
-        case 'priority':
-          comparison = a.epic.priority - b.epic.priority;
+        case 'rank':
+          comparison = compareRanks(a.epic, b.epic);
           break;
-        case 'status':
-          const statusOrder = ['in_progress', 'open', 'blocked', 'deferred', 'closed'];
-          comparison = statusOrder.indexOf(a.epic.status) - statusOrder.indexOf(b.epic.status);
+        case 'relevance':
+          comparison = (searchResults?.get(b.epic.id)?.score ?? 0) - (searchResults?.get(a.epic.id)?.score ?? 0);
           break;
+        default:
+          comparison = ISSUE_COMPARATORS[sortColumn](a.epic, b.epic);
       }
       return sortDirection === 'asc' ? comparison : -comparison;
     });
@@ -437,8 +683,12 @@ function TableView({ issues }: TableViewProps) {
 
   // Open the editor modal
   const openIssueEditor = useCallback((issue: Issue) => {
-    setSelectedIssue(issue);
-  }, []);
+    if (onOpenIssue) {
+      onOpenIssue(issue);
+    } else {
+      setSelectedIssue(issue);
+    }
+  }, [onOpenIssue]);
 
   // Close the editor modal
   const closeIssueEditor = useCallback(() => {
@@ -446,36 +696,28 @@ function TableView({ issues }: TableViewProps) {
   }, []);
 
   // Save handler for the editor modal - calls PATCH API
-  const handleSaveIssue = useCallback(async (updates: Partial<Issue>) => {
+  const handleSaveIssue = useCallback(async (updates: Partial<Issue>, expectedUpdatedAt?: string) => {
     if (!selectedIssue) return;
 
-    const res = await fetch(`/api/issues/${selectedIssue.id}`, {
-      method: 'PATCH',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(updates),
-    });
-
-    if (!res.ok) {
-      const errorData = await res.json();
-      throw new Error(errorData.error || 'Failed to update issue');
+    try {
+      const saved = await saveIssueUpdates(selectedIssue.id, updates, expectedUpdatedAt);
+      if (saved) onIssueUpdated?.(saved);
+    } catch (err) {
+      if (err instanceof IssueConflictError) onIssueUpdated?.(err.issue);
+      throw err;
     }
 
     // The socket.io refresh will update the issues automatically
-  }, [selectedIssue]);
+  }, [selectedIssue, onIssueUpdated]);
 
-  const handleStatusUpdate = async (issueId: string, newStatus: IssueStatus) => {
-    setUpdatingStatus(issueId);
+  // Checked against the row as shown, so someone else's newer change isn't overwritten
+  const handleStatusUpdate = async (issue: Issue, newStatus: IssueStatus, closeReason?: string) => {
+    setUpdatingStatus(issue.id);
     try {
-      const res = await fetch(`/api/issues/${issueId}/status`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus }),
-      });
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || 'Failed to update status');
-      }
+      const saved = await setIssueStatus(issue.id, newStatus, closeReason, issue.updated_at);
+      if (saved) onIssueUpdated?.(saved);
     } catch (err) {
+      if (err instanceof IssueConflictError) onIssueUpdated?.(err.issue);
       console.error(err);
       alert(`Failed to update status: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -483,6 +725,28 @@ function TableView({ issues }: TableViewProps) {
     }
   };
 
+  // Quick Close actions ask for a reason before closing
+  const handleConfirmClose = async (reason: string) => {
+    if (!pendingClose) return;
+    const issue = pendingClose;
+    setPendingClose(null);
+    await handleStatusUpdate(issue, 'closed', reason || undefined);
+  };
+
+  // Keyboard focus walks the rows as shown: flat rows, or epics and their expanded children
+  const keyboardIssues = showEpicsView
+    ? epicsWithChildren.flatMap(({ epic, children }) => (expandedEpics.has(epic.id) ? [epic, ...children] : [epic]))
+    : filteredIssues;
+  const { focusedId } = useIssueKeyboardNav({
+    issues: keyboardIssues,
+    onOpen: openIssueEditor,
+    onStatusChange: readOnly
+      ? undefined
+      : (issue, status) => (status === 'closed' ? setPendingClose(issue) : handleStatusUpdate(issue, status)),
+    onFocusChange: onFocusedIssueChange,
+  });
+  const focusRing = 'ring-2 ring-inset ring-blue-400';
+
 
   // FilterDropdown component
   interface FilterDropdownProps {
@@ -570,6 +834,238 @@ function TableView({ issues }: TableViewProps) {
     );
   };
 
+  const getColumnWidth = (column: TableColumnId) =>
+    resizing?.column === column ? resizing.width : columnWidths[column] ?? TABLE_COLUMNS[column].width;
+
+  // Width of a column, or back to its default with null
+  const setColumnWidth = (column: TableColumnId, width: number | null) => {
+    setColumnWidths((prev) => {
+      const next = { ...prev };
+      if (width === null) delete next[column];
+      else next[column] = clampColumnWidth(width);
+      return next;
+    });
+  };
+
+  // Drag a header's right edge; the new width is only reported once the mouse is released
+  const startResize = (e: React.MouseEvent, column: TableColumnId) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = getColumnWidth(column);
+    const widthAt = (clientX: number) => clampColumnWidth(startWidth + clientX - startX);
+
+    const handleMouseMove = (event: MouseEvent) => setResizing({ column, width: widthAt(event.clientX) });
+    const handleMouseUp = (event: MouseEvent) => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setResizing(null);
+      setColumnWidth(column, widthAt(event.clientX));
+    };
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  // Drop a dragged header onto another to take its place
+  const moveColumn = (column: TableColumnId, target: TableColumnId) => {
+    if (column === target) return;
+    setColumns((prev) => {
+      const next = prev.filter((c) => c !== column);
+      next.splice(prev.indexOf(target), 0, column);
+      return next;
+    });
+  };
+
+  // Filters offered in the headers of filterable columns
+  const columnFilters: Partial<Record<TableColumnId, { key: string; values: (string | number)[]; active: (string | number)[] }>> = {
+    type: { key: 'type', values: uniqueTypes, active: typeFilter },
+    priority: { key: 'priority', values: uniquePriorities, active: priorityFilter },
+    status: { key: 'status', values: uniqueStatuses, active: statusFilter },
+    close_reason: { key: 'closeReason', values: uniqueCloseReasons, active: closeReasonFilter },
+  };
+
+  // Header of an optional column: sort, filter, drag to reorder, and a right-edge handle to resize
+  const renderColumnHeader = (column: TableColumnId) => {
+    const { label } = TABLE_COLUMNS[column];
+    const filter = columnFilters[column];
+    const width = getColumnWidth(column);
+
+    return (
+      <div
+        key={column}
+        className={`relative flex-shrink-0 flex items-center min-w-0 rounded ${dragOverColumn === column ? 'bg-blue-100' : ''}`}
+        style={{ width }}
+        draggable
+        onDragStart={(e) => {
+          draggedColumnRef.current = column;
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragOver={(e) => {
+          if (!draggedColumnRef.current) return;
+          e.preventDefault();
+          setDragOverColumn(column);
+        }}
+        onDragLeave={() => setDragOverColumn((prev) => (prev === column ? null : prev))}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (draggedColumnRef.current) moveColumn(draggedColumnRef.current, column);
+          draggedColumnRef.current = null;
+          setDragOverColumn(null);
+        }}
+        onDragEnd={() => {
+          draggedColumnRef.current = null;
+          setDragOverColumn(null);
+        }}
+        data-testid={`column-header-${column}`}
+      >
+        <button
+          onClick={() => handleSort(column)}
+          className="flex items-center min-w-0 hover:text-slate-900 transition-colors"
+          title={column === 'rank' ? 'Manual order from the board' : undefined}
+        >
+          <span className="truncate">{label}</span>
+          <SortIndicator column={column} />
+        </button>
+        {filter && (
+          <FilterDropdown
+            column={filter.key}
+            values={filter.values}
+            activeFilters={filter.active}
+            onToggle={(value) => toggleFilterValue(filter.key, value)}
+            onClear={() => clearFilter(filter.key)}
+          />
+        )}
+        <div
+          role="separator"
+          aria-orientation="vertical"
+          aria-label={`Resize ${label} column`}
+          aria-valuenow={width}
+          tabIndex={0}
+          onMouseDown={(e) => startResize(e, column)}
+          onDoubleClick={() => setColumnWidth(column, null)}
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+              e.preventDefault();
+              setColumnWidth(column, width + (e.key === 'ArrowRight' ? 16 : -16));
+            }
+          }}
+          className="absolute -right-2.5 top-0 h-full w-2 cursor-col-resize rounded hover:bg-blue-200 focus:bg-blue-200 focus:outline-none"
+          title="Drag to resize, double-click to reset"
+        />
+      </div>
+    );
+  };
+
+  const formatTimestamp = (timestamp: string | undefined) =>
+    timestamp ? (
+      <span className="text-xs text-slate-500 tabular-nums" title={new Date(timestamp).toLocaleString()}>
+        {new Date(timestamp).toLocaleDateString()}
+      </span>
+    ) : null;
+
+  // Contents of an optional column for one row of the flat list
+  const renderColumnCell = (column: TableColumnId, issue: Issue) => {
+    switch (column) {
+      case 'rank':
+        return (
+          <div className="text-xs text-slate-500 tabular-nums" data-testid={`rank-${issue.id}`}>
+            {rankPositions.get(issue.id) ?? '–'}
+          </div>
+        );
+      case 'type': {
+        const typeInfo = getTypeInfo(issue.issue_type);
+        return (
+          <span className={`capitalize inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${typeInfo.class}`}>
+            {issue.issue_type}
+          </span>
+        );
+      }
+      case 'priority':
+        return (
+          <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getPriorityStyle(issue.priority)}`}>
+            {getPriorityIcon(issue.priority)}
+            {PRIORITY_LABELS[issue.priority] || issue.priority}
+          </span>
+        );
+      case 'status':
+        return (
+          <span
+            className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium
+              ${
+                issue.status === 'closed'
+                  ? 'bg-green-100 text-green-800'
+                  : issue.status === 'in_progress'
+                  ? 'bg-blue-100 text-blue-800'
+                  : issue.status === 'blocked'
+                  ? 'bg-red-100 text-red-800'
+                  : issue.status === 'deferred'
+                  ? 'bg-amber-100 text-amber-800'
+                  : 'bg-slate-100 text-slate-800'
+              }`}
+          >
+            {issue.status}
+          </span>
+        );
+      case 'close_reason':
+      case 'external_ref': {
+        const text = column === 'close_reason' ? issue.close_reason : issue.external_ref;
+        return text ? <span className="block truncate text-xs text-slate-500" title={text}>{text}</span> : null;
+      }
+      case 'assignee': {
+        const assignee = issue.assignee || issue.owner;
+        return assignee ? <span className="block truncate text-xs text-slate-600" title={assignee}>{assignee}</span> : null;
+      }
+      case 'labels':
+        return (
+          <div className="flex gap-1 overflow-hidden" title={(issue.labels || []).join(', ')}>
+            {(issue.labels || []).map((label) => (
+              <span key={label} className="px-1.5 py-0.5 rounded bg-slate-100 text-xs text-slate-600 whitespace-nowrap">
+                {label}
+              </span>
+            ))}
+          </div>
+        );
+      case 'due':
+        return <DateBadge due={issue.due} compact={false} />;
+      case 'defer':
+        return <DateBadge defer={issue.defer} compact={false} />;
+      case 'estimate':
+        return <span className="text-xs text-slate-600 tabular-nums">{formatMinutesToHours(issue.estimate)}</span>;
+      case 'created':
+        return formatTimestamp(issue.created_at);
+      case 'updated':
+        return formatTimestamp(issue.updated_at);
+      case 'closed':
+        return formatTimestamp(issue.closed_at);
+      case 'age':
+        return <span className="text-xs text-slate-500 tabular-nums">{getIssueAgeDays(issue)}d</span>;
+      case 'parent': {
+        const parentId = getParentId(issue);
+        if (!parentId) return null;
+        const parent = queryContext.issuesById.get(parentId);
+        return parent ? (
+          <button
+            onClick={() => openIssueEditor(parent)}
+            className="block max-w-full truncate font-mono text-xs text-indigo-600 hover:text-indigo-800"
+            title={parent.title}
+          >
+            {parentId}
+          </button>
+        ) : (
+          <span className="block truncate font-mono text-xs text-slate-400">{parentId}</span>
+        );
+      }
+      case 'dependencies': {
+        const dependencyIds = getDependencyIds(issue);
+        return dependencyIds.length > 0 ? (
+          <span className="text-xs text-slate-600 tabular-nums" title={dependencyIds.join(', ')}>
+            {dependencyIds.length}
+          </span>
+        ) : null;
+      }
+    }
+  };
+
   return (
     <>
       <div className="card overflow-hidden">
@@ -601,6 +1097,16 @@ function TableView({ issues }: TableViewProps) {
               <Network className="w-3.5 h-3.5" />
               <span>Epics</span>
             </button>
+            {!showEpicsView && (
+              <TableColumnChooser
+                columns={columns}
+                onChange={setColumns}
+                onReset={() => {
+                  setColumns(DEFAULT_TABLE_COLUMNS);
+                  setColumnWidths({});
+                }}
+              />
+            )}
           </div>
 
           {/* Active Filters - Right */}
@@ -659,6 +1165,40 @@ function TableView({ issues }: TableViewProps) {
                   </button>
                 </span>
               ))}
+              {/* Label filter chips (only in list view) */}
+              {!showEpicsView &&
+                labelFilter.map((label) => (
+                  <span
+                    key={`label-${label}`}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 bg-slate-200 text-slate-700 rounded text-xs font-medium"
+                  >
+                    {label}
+                    <button
+                      onClick={() => setLabelFilter(labelFilter.filter((l) => l !== label))}
+                      className="hover:text-slate-900"
+                      aria-label={`Remove ${label} filter`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              {/* Close reason filter chips (only in list view) */}
+              {!showEpicsView &&
+                closeReasonFilter.map((reason) => (
+                  <span
+                    key={`close-reason-${reason}`}
+                    className="inline-flex items-center gap-1 px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs font-medium"
+                  >
+                    {reason}
+                    <button
+                      onClick={() => setCloseReasonFilter(closeReasonFilter.filter((r) => r !== reason))}
+                      className="hover:text-green-900"
+                      aria-label={`Remove ${reason} filter`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
               {/* Clear all button */}
               <button
                 onClick={clearAllFilters}
@@ -671,11 +1211,76 @@ function TableView({ issues }: TableViewProps) {
           )}
         </div>
 
+        {/* Structured query (flat list only) */}
+        {!showEpicsView && (
+          <IssueQueryInput
+            value={filterQuery}
+            onChange={setFilterQuery}
+            issues={issues}
+            errors={parsedQuery.errors}
+            me={me}
+            onMeChange={setMe}
+            usesMe={queryUsesMe}
+          />
+        )}
+
+        {/* Full-text search results */}
+        {search && (
+          <div
+            className="flex items-center gap-2 px-6 py-2 bg-amber-50 border-b border-amber-100 text-sm text-slate-700"
+            data-testid="search-results-banner"
+          >
+            <Search className="w-4 h-4 text-amber-600" />
+            <span>
+              {searchResults === null
+                ? `Searching for “${search}”...`
+                : `${searchResults.size} ${searchResults.size === 1 ? 'result' : 'results'} for “${search}”`}
+            </span>
+            <button
+              onClick={clearSearch}
+              className="ml-auto flex items-center gap-1 text-xs font-medium text-slate-500 hover:text-slate-700"
+            >
+              <X className="w-3.5 h-3.5" />
+              Clear search
+            </button>
+          </div>
+        )}
+
+        {/* Bulk actions for selected rows (flat list only) */}
+        {!showEpicsView && selectedIds.size > 0 && (
+          <BulkActionBar
+            selectedCount={selectedIds.size}
+            issues={issues}
+            onApply={handleBulkApply}
+            onClearSelection={clearSelection}
+            busy={bulkUpdating}
+            disabled={readOnly}
+            error={bulkError}
+          />
+        )}
+
         {/* Shared Header Row */}
         <div className="flex items-center gap-4 px-6 py-3 bg-slate-50 border-b border-slate-200 text-sm font-medium text-slate-600">
           {/* Expand button space (epics only) */}
           {showEpicsView && <div className="w-8"></div>}
 
+          {/* Select all (flat list only) */}
+          {!showEpicsView && (
+            <div className="w-4 flex items-center">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                ref={(el) => {
+                  if (el) el.indeterminate = selectedIds.size > 0 && !allVisibleSelected;
+                }}
+                onChange={toggleSelectAll}
+                disabled={filteredIssues.length === 0}
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                aria-label="Select all issues"
+              />
+            </div>
+          )}
+
           {/* ID - sortable */}
           <button
             onClick={() => handleSort('id')}
@@ -694,81 +1299,58 @@ function TableView({ issues }: TableViewProps) {
             <SortIndicator column="title" />
           </button>
 
-          {/* Progress (epics only) - not sortable */}
-          {showEpicsView && <div className="w-40">Progress</div>}
+          {showEpicsView ? (
+            <>
+              {/* Progress - not sortable */}
+              <div className="w-40">Progress</div>
 
-          {/* Type (flat list only) - sortable with filter */}
-          {!showEpicsView && (
-            <div className="w-24 flex items-center">
-              <button
-                onClick={() => handleSort('type')}
-                className="flex items-center hover:text-slate-900 transition-colors"
-              >
-                Type
-                <SortIndicator column="type" />
-              </button>
-              <FilterDropdown
-                column="type"
-                values={uniqueTypes}
-                activeFilters={typeFilter}
-                onToggle={(value) => toggleFilterValue('type', value)}
-                onClear={() => clearFilter('type')}
-              />
-            </div>
-          )}
-
-          {/* Priority - sortable with filter */}
-          <div className="w-24 flex items-center">
-            <button
-              onClick={() => handleSort('priority')}
-              className="flex items-center hover:text-slate-900 transition-colors"
-            >
-              Priority
-              <SortIndicator column="priority" />
-            </button>
-            <FilterDropdown
-              column="priority"
-              values={uniquePriorities}
-              activeFilters={priorityFilter}
-              onToggle={(value) => toggleFilterValue('priority', value)}
-              onClear={() => clearFilter('priority')}
-            />
-          </div>
+              {/* Priority - sortable with filter */}
+              <div className="w-24 flex items-center">
+                <button
+                  onClick={() => handleSort('priority')}
+                  className="flex items-center hover:text-slate-900 transition-colors"
+                >
+                  Priority
+                  <SortIndicator column="priority" />
+                </button>
+                <FilterDropdown
+                  column="priority"
+                  values={uniquePriorities}
+                  activeFilters={priorityFilter}
+                  onToggle={(value) => toggleFilterValue('priority', value)}
+                  onClear={() => clearFilter('priority')}
+                />
+              </div>
 
-          {/* Status - sortable with filter/toggle */}
-          <div className="w-28 flex items-center">
-            <button
-              onClick={() => handleSort('status')}
-              className="flex items-center hover:text-slate-900 transition-colors"
-            >
-              Status
-              <SortIndicator column="status" />
-            </button>
-            {showEpicsView ? (
-              <FilterDropdown
-                column="epicStatus"
-                values={uniqueStatuses}
-                activeFilters={epicStatusFilter}
-                onToggle={(value) => {
-                  const status = value as IssueStatus;
-                  setEpicStatusFilter((prev) =>
-                    prev.includes(status)
-                      ? prev.filter((s) => s !== status)
-                      : [...prev, status]
-                  );
-                }}
-                onClear={() => setEpicStatusFilter([])}
-              />
-            ) : (
-              <FilterDropdown
-                column="status"
-                values={uniqueStatuses}
-                activeFilters={statusFilter}
-                onToggle={(value) => toggleFilterValue('status', value)}
-                onClear={() => clearFilter('status')}
-              />
-            )}
-          </div>
+              {/* Status - sortable with epic status filter */}
+              <div className="w-28 flex items-center">
+                <button
+                  onClick={() => handleSort('status')}
+                  className="flex items-center hover:text-slate-900 transition-colors"
+                >
+                  Status
+                  <SortIndicator column="status" />
+                </button>
+                <FilterDropdown
+                  column="epicStatus"
+                  values={uniqueStatuses}
+                  activeFilters={epicStatusFilter}
+                  onToggle={(value) => {
+                    const status = value as IssueStatus;
+                    setEpicStatusFilter((prev) =>
+                      prev.includes(status)
+                        ? prev.filter((s) => s !== status)
+                        : [...prev, status]
+                    );
+                  }}
+                  onClear={() => setEpicStatusFilter([])}
+                />
+              </div>
+            </>
+          ) : (
+            /* Chosen columns (flat list only) */
+            columns.map(renderColumnHeader)
+          )}
 
           {/* Actions */}
           <div className="w-20 text-right">Actions</div>
@@ -805,8 +1387,11 @@ function TableView({ issues }: TableViewProps) {
                   <div key={epic.id} className="bg-white">
                     {/* Epic Row - aligned with shared header */}
                     <div
-                      className="flex items-center gap-4 px-6 py-3 hover:bg-indigo-50/50 cursor-pointer transition-colors duration-150"
+                      className={`flex items-center gap-4 px-6 py-3 hover:bg-indigo-50/50 cursor-pointer transition-colors duration-150 ${
+                        focusedId === epic.id ? focusRing : ''
+                      }`}
                       onClick={() => toggleEpicExpansion(epic.id)}
+                      data-focused={focusedId === epic.id || undefined}
                     >
                       {/* Expand/Collapse */}
                       <button className="w-8 flex justify-center text-slate-400 hover:text-slate-600">
@@ -851,9 +1436,22 @@ function TableView({ issues }: TableViewProps) {
                             style={{ width: `${progress.percentage}%` }}
                           />
                         </div>
-                        <span className="text-xs text-slate-500 w-16 text-right">
+                        <span className="text-xs text-slate-500 w-12 text-right">
                           {progress.completed}/{progress.total}
                         </span>
+                        {onOpenEpic && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onOpenEpic(epic.id);
+                            }}
+                            className="p-0.5 text-indigo-500 hover:text-indigo-700 hover:bg-indigo-50 rounded"
+                            title="View burnup"
+                            aria-label={`View burnup for ${epic.id}`}
+                          >
+                            <TrendingUp className="w-3.5 h-3.5" />
+                          </button>
+                        )}
                       </div>
 
                       {/* Priority */}
@@ -886,8 +1484,8 @@ function TableView({ issues }: TableViewProps) {
                       <div className="w-20 flex items-center justify-end gap-1" onClick={(e) => e.stopPropagation()}>
                         {epic.status !== 'closed' && epic.status !== 'in_progress' && (
                           <button
-                            onClick={() => handleStatusUpdate(epic.id, 'in_progress')}
-                            disabled={updatingStatus === epic.id}
+                            onClick={() => handleStatusUpdate(epic, 'in_progress')}
+                            disabled={readOnly || updatingStatus === epic.id}
                             className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
                             title="Start Progress"
                           >
@@ -896,8 +1494,8 @@ function TableView({ issues }: TableViewProps) {
                         )}
                         {epic.status !== 'closed' && (
                           <button
-                            onClick={() => handleStatusUpdate(epic.id, 'closed')}
-                            disabled={updatingStatus === epic.id}
+                            onClick={() => setPendingClose(epic)}
+                            disabled={readOnly || updatingStatus === epic.id}
                             className="p-1.5 text-green-600 hover:bg-green-50 rounded transition-colors disabled:opacity-50"
                             title="Close Epic"
                           >
@@ -923,7 +1521,10 @@ function TableView({ issues }: TableViewProps) {
                             return (
                               <div
                                 key={child.id}
-                                className="flex items-center gap-4 px-6 py-2 pl-16 hover:bg-blue-50/50 group transition-colors duration-150"
+                                className={`flex items-center gap-4 px-6 py-2 pl-16 hover:bg-blue-50/50 group transition-colors duration-150 ${
+                                  focusedId === child.id ? focusRing : ''
+                                }`}
+                                data-focused={focusedId === child.id || undefined}
                               >
                                 {/* Tree connector */}
                                 <span className="text-slate-300 font-mono text-sm w-4">
@@ -969,8 +1570,8 @@ function TableView({ issues }: TableViewProps) {
                                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                                   {child.status !== 'closed' && child.status !== 'in_progress' && (
                                     <button
-                                      onClick={() => handleStatusUpdate(child.id, 'in_progress')}
-                                      disabled={updatingStatus === child.id}
+                                      onClick={() => handleStatusUpdate(child, 'in_progress')}
+                                      disabled={readOnly || updatingStatus === child.id}
                                       className="p-1 text-blue-600 hover:bg-blue-100 rounded transition-colors disabled:opacity-50"
                                       title="Start Progress"
                                     >
@@ -979,8 +1580,8 @@ function TableView({ issues }: TableViewProps) {
                                   )}
                                   {child.status !== 'closed' && (
                                     <button
-                                      onClick={() => handleStatusUpdate(child.id, 'closed')}
-                                      disabled={updatingStatus === child.id}
+                                      onClick={() => setPendingClose(child)}
+                                      disabled={readOnly || updatingStatus === child.id}
                                       className="p-1 text-green-600 hover:bg-green-100 rounded transition-colors disabled:opacity-50"
                                       title="Close Issue"
                                     >
@@ -1011,7 +1612,7 @@ function TableView({ issues }: TableViewProps) {
                   <div>
                     <p className="text-slate-700 font-medium mb-1">No matching issues</p>
                     <p className="text-slate-500 text-sm">
-                      {filterText ? `Try adjusting your search for "${filterText}"` : 'No issues match the current filters'}
+                      {search ? `Try adjusting your search for "${search}"` : 'No issues match the current filters'}
                     </p>
                   </div>
                   {hasActiveFilters && (
@@ -1031,73 +1632,80 @@ function TableView({ issues }: TableViewProps) {
                 const today = new Date();
                 const ageInDays = Math.floor((today.getTime() - created.getTime()) / (1000 * 60 * 60 * 24));
                 const isStale = !isClosed && ageInDays > 30;
-                const priorityLabel = PRIORITY_LABELS[issue.priority] || issue.priority;
                 const shortId = issue.id.includes('-') ? issue.id.split('-').pop() : issue.id;
                 const typeInfo = getTypeInfo(issue.issue_type);
 
+                const isSelected = selectedIds.has(issue.id);
+                const searchMatch = searchResults
+                  ?.get(issue.id)
+                  ?.matches.find((match) => match.field !== 'id' && match.field !== 'title');
+
                 return (
-                  <div key={issue.id} className="flex items-center gap-4 px-6 py-3 hover:bg-blue-50/50 group transition-colors duration-150">
+                  <div
+                    key={issue.id}
+                    className={`flex items-center gap-4 px-6 py-3 group transition-colors duration-150 ${
+                      isSelected ? 'bg-blue-50/70 hover:bg-blue-50' : 'hover:bg-blue-50/50'
+                    } ${focusedId === issue.id ? focusRing : ''}`}
+                    data-testid={`table-row-${issue.id}`}
+                    data-focused={focusedId === issue.id || undefined}
+                  >
+                    {/* Selection */}
+                    <div className="w-4 flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={(e) => toggleSelection(issue.id, (e.nativeEvent as MouseEvent).shiftKey)}
+                        className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                        aria-label={`Select ${issue.id}`}
+                      />
+                    </div>
+
                     {/* ID */}
                     <div className="w-20 flex items-center gap-2">
                       {typeInfo.icon}
                       <CopyableId fullId={issue.id} displayId={shortId} showIcon={false} />
                     </div>
 
-                    {/* Title */}
-                    <div className="flex-1 min-w-0 flex items-center gap-2">
-                      <button
-                        onClick={() => openIssueEditor(issue)}
-                        className="font-medium text-slate-900 hover:text-blue-600 text-left truncate"
-                      >
-                        {issue.title || 'Untitled'}
-                      </button>
-                      <DateBadge due={issue.due} defer={issue.defer} compact />
-                      {isStale && (
-                        <span className="text-xs text-red-600 font-medium">{ageInDays}d</span>
+                    {/* Title, with where a search matched beyond the ID and title */}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => openIssueEditor(issue)}
+                          className="font-medium text-slate-900 hover:text-blue-600 text-left truncate"
+                        >
+                          {issue.title || 'Untitled'}
+                        </button>
+                        {/* Dates shown in their own columns aren't repeated here */}
+                        <DateBadge
+                          due={columns.includes('due') ? undefined : issue.due}
+                          defer={columns.includes('defer') ? undefined : issue.defer}
+                          compact
+                        />
+                        {isStale && (
+                          <span className="text-xs text-red-600 font-medium">{ageInDays}d</span>
+                        )}
+                      </div>
+                      {searchMatch && (
+                        <p className="mt-0.5 text-xs text-slate-500 truncate" data-testid={`search-snippet-${issue.id}`}>
+                          <span className="font-medium text-slate-400">{SEARCH_FIELD_LABELS[searchMatch.field]}: </span>
+                          <HighlightedText text={searchMatch.snippet} highlights={searchMatch.highlights} />
+                        </p>
                       )}
                     </div>
 
-                    {/* Type */}
-                    <div className="w-24">
-                      <span className={`capitalize inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${typeInfo.class}`}>
-                        {issue.issue_type}
-                      </span>
-                    </div>
-
-                    {/* Priority */}
-                    <div className="w-24">
-                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getPriorityStyle(issue.priority)}`}>
-                        {getPriorityIcon(issue.priority)}
-                        {priorityLabel}
-                      </span>
-                    </div>
-
-                    {/* Status */}
-                    <div className="w-28">
-                      <span
-                        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium
-                          ${
-                            issue.status === 'closed'
-                              ? 'bg-green-100 text-green-800'
-                              : issue.status === 'in_progress'
-                              ? 'bg-blue-100 text-blue-800'
-                              : issue.status === 'blocked'
-                              ? 'bg-red-100 text-red-800'
-                              : issue.status === 'deferred'
-                              ? 'bg-amber-100 text-amber-800'
-                              : 'bg-slate-100 text-slate-800'
-                          }`}
-                      >
-                        {issue.status}
-                      </span>
-                    </div>
+                    {/* Chosen columns */}
+                    {columns.map((column) => (
+                      <div key={column} className="flex-shrink-0 min-w-0" style={{ width: getColumnWidth(column) }}>
+                        {renderColumnCell(column, issue)}
+                      </div>
+                    ))}
 
                     {/* Actions */}
                     <div className="w-20 flex items-center justify-end gap-1">
                       {issue.status !== 'closed' && issue.status !== 'in_progress' && (
                         <button
-                          onClick={() => handleStatusUpdate(issue.id, 'in_progress')}
-                          disabled={updatingStatus === issue.id}
+                          onClick={() => handleStatusUpdate(issue, 'in_progress')}
+                          disabled={readOnly || updatingStatus === issue.id}
                           className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-all duration-150 disabled:opacity-50 group-hover:text-blue-500"
                           title="Start Progress"
                         >
@@ -1106,8 +1714,8 @@ function TableView({ issues }: TableViewProps) {
                       )}
                       {issue.status !== 'closed' && (
                         <button
-                          onClick={() => handleStatusUpdate(issue.id, 'closed')}
-                          disabled={updatingStatus === issue.id}
+                          onClick={() => setPendingClose(issue)}
+                          disabled={readOnly || updatingStatus === issue.id}
                           className="p-1.5 text-slate-400 hover:text-green-600 hover:bg-green-50 rounded-md transition-all duration-150 disabled:opacity-50 group-hover:text-green-500"
                           title="Close Issue"
                         >
@@ -1123,13 +1731,27 @@ function TableView({ issues }: TableViewProps) {
         )}
       </div>
 
+      {/* Close reason prompt for quick Close actions */}
+      {pendingClose && (
+        <CloseIssueDialog
+          title={`Close ${pendingClose.id}`}
+          subtitle={pendingClose.title || 'Untitled'}
+          onConfirm={handleConfirmClose}
+          onCancel={() => setPendingClose(null)}
+        />
+      )}
+
       {/* Issue Editor Modal */}
       {selectedIssue && (
         <IssueEditorModal
+          key={selectedIssue.id}
           issue={selectedIssue}
           allIssues={issues}
           onClose={closeIssueEditor}
           onSave={handleSaveIssue}
+          readOnly={readOnly}
+          onOpenEpic={onOpenEpic}
+          onOpenIssue={openIssueEditor}
         />
       )}
     </>
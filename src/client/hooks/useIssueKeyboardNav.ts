@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import type { Issue, IssueStatus } from '@shared/types';
+import { STATUS_SHORTCUTS, shouldIgnoreShortcut, stepFocus } from '@/utils/keyboardShortcuts';
+
+interface IssueKeyboardNavOptions {
+  // Issues in the order they are shown; j/k walks this list
+  issues: Issue[];
+  onOpen: (issue: Issue) => void;
+  // Left out while writes are disabled
+  onStatusChange?: (issue: Issue, status: IssueStatus) => void;
+  // Told whenever the focused issue changes, e.g. so the command palette can act on it
+  onFocusChange?: (issue: Issue | null) => void;
+}
+
+/**
+ * Hook for vim-style keyboard focus over a list of issues: j/k move the
+ * focus, Enter opens the issue and single keys change its status.
+ * The focused element is marked data-focused="true" by the caller and
+ * scrolled into view here.
+ */
+export function useIssueKeyboardNav({ issues, onOpen, onStatusChange, onFocusChange }: IssueKeyboardNavOptions) {
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  // Focus on an issue that's filtered out or gone counts as no focus
+  const focusedIssue = focusedId ? issues.find((issue) => issue.id === focusedId) ?? null : null;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (shouldIgnoreShortcut(e)) return;
+
+      if (e.key === 'j' || e.key === 'k') {
+        e.preventDefault();
+        const ids = issues.map((issue) => issue.id);
+        setFocusedId(stepFocus(ids, focusedIssue?.id ?? null, e.key === 'j' ? 1 : -1));
+        return;
+      }
+      if (!focusedIssue) return;
+
+      if (e.key === 'Enter') {
+        // Enter on a focused button or link keeps its usual meaning
+        if (e.target instanceof HTMLButtonElement || e.target instanceof HTMLAnchorElement) return;
+        e.preventDefault();
+        onOpen(focusedIssue);
+      } else if (e.key === 'Escape') {
+        setFocusedId(null);
+      } else if (onStatusChange && STATUS_SHORTCUTS[e.key] && STATUS_SHORTCUTS[e.key] !== focusedIssue.status) {
+        e.preventDefault();
+        onStatusChange(focusedIssue, STATUS_SHORTCUTS[e.key]);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [issues, focusedIssue, onOpen, onStatusChange]);
+
+  useEffect(() => {
+    onFocusChange?.(focusedIssue);
+  }, [focusedIssue, onFocusChange]);
+
+  useEffect(() => {
+    if (!focusedIssue) return;
+    document.querySelector('[data-focused="true"]')?.scrollIntoView?.({ block: 'nearest' });
+  }, [focusedIssue?.id]);
+
+  // Unmounting (e.g. switching tabs) leaves nothing focused
+  useEffect(() => () => onFocusChange?.(null), [onFocusChange]);
+
+  return { focusedId: focusedIssue?.id ?? null, setFocusedId };
+}
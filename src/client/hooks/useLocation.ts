@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { LOCATION_CHANGE_EVENT } from '@/utils/router';
+
+export interface AppLocation {
+  pathname: string;
+  search: string;
+  // How we got here: back/forward ('pop'), navigate() ('push' / 'replace'), or page load
+  action: 'initial' | 'pop' | 'push' | 'replace';
+}
+
+function readLocation(action: AppLocation['action']): AppLocation {
+  return { pathname: window.location.pathname, search: window.location.search, action };
+}
+
+/**
+ * Hook tracking the browser location, updated on back/forward and navigate()
+ */
+export function useLocation(): AppLocation {
+  const [location, setLocation] = useState<AppLocation>(() => readLocation('initial'));
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation('pop'));
+    const handleNavigate = (e: Event) => {
+      const replace = (e as CustomEvent<{ replace: boolean }>).detail?.replace;
+      setLocation(readLocation(replace ? 'replace' : 'push'));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    window.addEventListener(LOCATION_CHANGE_EVENT, handleNavigate);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener(LOCATION_CHANGE_EVENT, handleNavigate);
+    };
+  }, []);
+
+  return location;
+}
@@ -1,17 +1,25 @@
 import { useMemo } from 'react';
-import type { Issue, Metrics, TimeGranularity } from '@shared/types';
+import type { DashboardFilters, Issue, Metrics, StatusTransition, TimeGranularity } from '@shared/types';
 import { calculateMetrics } from '@/utils/metricsCalculations';
+import { EMPTY_DASHBOARD_FILTERS } from '@/utils/dashboardFilters';
+
+// Stable default so the memo isn't invalidated on every render
+const EMPTY_HISTORY: StatusTransition[] = [];
 
 /**
  * Hook to calculate dashboard metrics from issues
  * Memoizes the calculation to avoid unnecessary recomputation
+ * Recorded status history, when available, gives the CFD real per-status bands
+ * Filters narrow every chart and summary card to a slice of the issues
  */
 export function useMetrics(
   issues: Issue[],
-  granularity: TimeGranularity = 'daily'
+  granularity: TimeGranularity = 'daily',
+  history: StatusTransition[] = EMPTY_HISTORY,
+  filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS
 ): Metrics | null {
   return useMemo(() => {
     if (!issues.length) return null;
-    return calculateMetrics(issues, new Date(), granularity);
-  }, [issues, granularity]);
+    return calculateMetrics(issues, new Date(), granularity, history, filters);
+  }, [issues, granularity, history, filters]);
 }
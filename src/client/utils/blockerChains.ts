@@ -0,0 +1,100 @@
+import type { Issue } from '@shared/types';
+
+// Why a blocker reference can't be followed
+export type BlockerProblem = 'missing' | 'tombstone' | 'cycle';
+
+// One blocker in the chain, with the open issues blocking it in turn
+export interface BlockerChainNode {
+  id: string;
+  issue: Issue | null; // null when the referenced issue doesn't exist
+  problem?: BlockerProblem;
+  // Already expanded elsewhere in the tree (diamond-shaped chains); its blockers are listed there
+  repeated?: boolean;
+  blockers: BlockerChainNode[];
+}
+
+export interface BlockerAnalysis {
+  chains: BlockerChainNode[]; // Direct blockers (open ones and broken references)
+  depth: number; // Longest chain of open blockers
+  rootBlockers: Issue[]; // Open blockers nothing else blocks, deepest first
+  cycle: string[] | null; // IDs around the first cycle found, starting and ending at the same issue
+  brokenRefs: { id: string; problem: 'missing' | 'tombstone' }[];
+}
+
+/**
+ * IDs an issue declares as blockers: every dependency target plus legacy
+ * blocked_by, matching what puts a card in the Blocked column
+ */
+export function getBlockerIds(issue: Issue): string[] {
+  const ids = new Set<string>();
+  for (const dep of issue.dependencies || []) {
+    if (typeof dep === 'object' && dep.depends_on_id) ids.add(dep.depends_on_id);
+  }
+  for (const id of issue.blocked_by || []) ids.add(id);
+  ids.delete(issue.id);
+  return [...ids];
+}
+
+/**
+ * Follow an issue's blockers transitively. Closed blockers are dropped;
+ * missing or tombstoned references and cycles are kept as flagged leaves.
+ */
+export function analyzeBlockers(issue: Issue, issuesById: Map<string, Issue>): BlockerAnalysis {
+  const expanded = new Set<string>();
+  const brokenRefs = new Map<string, 'missing' | 'tombstone'>();
+  const roots = new Map<string, { issue: Issue; depth: number }>();
+  // Length of the longest open chain starting at each expanded blocker
+  const chainLength = new Map<string, number>();
+  let cycle: string[] | null = null;
+
+  const longestChain = (nodes: BlockerChainNode[]): number =>
+    nodes.reduce((max, node) => (node.problem ? max : Math.max(max, chainLength.get(node.id) ?? 1)), 0);
+
+  // Depth-first; `path` holds the chain from the analysed issue down to `current`
+  const expand = (current: Issue, path: string[]): BlockerChainNode[] => {
+    const nodes: BlockerChainNode[] = [];
+
+    for (const id of getBlockerIds(current)) {
+      const blocker = issuesById.get(id) ?? null;
+
+      if (!blocker || blocker.status === 'tombstone') {
+        const problem = blocker ? 'tombstone' : 'missing';
+        brokenRefs.set(id, problem);
+        nodes.push({ id, issue: blocker, problem, blockers: [] });
+        continue;
+      }
+      if (blocker.status === 'closed') continue;
+
+      if (path.includes(id)) {
+        cycle ??= [...path.slice(path.indexOf(id)), id];
+        nodes.push({ id, issue: blocker, problem: 'cycle', blockers: [] });
+        continue;
+      }
+      if (expanded.has(id)) {
+        nodes.push({ id, issue: blocker, repeated: true, blockers: [] });
+        continue;
+      }
+
+      expanded.add(id);
+      const blockers = expand(blocker, [...path, id]);
+      // Nothing open (or cyclic) left behind it: this is where the chain starts
+      if (blockers.every((node) => node.problem === 'missing' || node.problem === 'tombstone')) {
+        roots.set(id, { issue: blocker, depth: path.length });
+      }
+      chainLength.set(id, 1 + longestChain(blockers));
+      nodes.push({ id, issue: blocker, blockers });
+    }
+
+    return nodes;
+  };
+
+  const chains = expand(issue, [issue.id]);
+
+  return {
+    chains,
+    depth: longestChain(chains),
+    rootBlockers: [...roots.values()].sort((a, b) => b.depth - a.depth).map((root) => root.issue),
+    cycle,
+    brokenRefs: [...brokenRefs.entries()].map(([id, problem]) => ({ id, problem })),
+  };
+}
@@ -0,0 +1,105 @@
+import type { BoardColumnColor, BoardColumnConfig, Issue, IssueStatus } from '@shared/types';
+import { DEFAULT_BOARD_COLUMNS } from '@shared/dashboardConfig';
+import { getBlockerIds } from './blockerChains';
+
+// Background and header classes per column color
+export const BOARD_COLUMN_COLORS: Record<BoardColumnColor, { bgColor: string; headerColor: string }> = {
+  slate: { bgColor: 'bg-slate-50', headerColor: 'bg-slate-200' },
+  red: { bgColor: 'bg-red-50', headerColor: 'bg-red-200' },
+  orange: { bgColor: 'bg-orange-50', headerColor: 'bg-orange-200' },
+  amber: { bgColor: 'bg-amber-50', headerColor: 'bg-amber-200' },
+  green: { bgColor: 'bg-green-50', headerColor: 'bg-green-200' },
+  blue: { bgColor: 'bg-blue-50', headerColor: 'bg-blue-200' },
+  indigo: { bgColor: 'bg-indigo-50', headerColor: 'bg-indigo-200' },
+  purple: { bgColor: 'bg-purple-50', headerColor: 'bg-purple-200' },
+};
+
+// Work that has started or finished stays put even if a dependency reopens
+const DEPENDENCY_BLOCKABLE_EXCLUDED: IssueStatus[] = ['in_progress', 'closed'];
+
+export interface WipUsage {
+  column: BoardColumnConfig;
+  count: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+// Check if an issue is blocked by dependencies (any unclosed issue it depends on, including legacy blocked_by)
+export function isBlockedByDependencies(issue: Issue, allIssues: Issue[]): boolean {
+  return getBlockerIds(issue).some((blockerId) => {
+    const blocker = allIssues.find((i) => i.id === blockerId);
+    return blocker !== undefined && blocker.status !== 'closed';
+  });
+}
+
+function matchesStatus(column: BoardColumnConfig, issue: Issue): boolean {
+  return column.statuses.length === 0 || column.statuses.includes(issue.status);
+}
+
+/**
+ * Id of the column an issue belongs in, or null when no column takes it.
+ * Label columns win over plain status columns, then dependency-blocked
+ * issues go to the column collecting them, then the first status match.
+ */
+export function categorizeIssue(
+  issue: Issue,
+  allIssues: Issue[],
+  columns: BoardColumnConfig[] = DEFAULT_BOARD_COLUMNS
+): string | null {
+  const labelColumn = columns.find(
+    (col) => col.labels && matchesStatus(col, issue) && col.labels.some((l) => issue.labels?.includes(l))
+  );
+  if (labelColumn) return labelColumn.id;
+
+  const blockedColumn = columns.find((col) => col.blockedByDependencies);
+  if (
+    blockedColumn &&
+    !DEPENDENCY_BLOCKABLE_EXCLUDED.includes(issue.status) &&
+    (blockedColumn.statuses.includes(issue.status) || isBlockedByDependencies(issue, allIssues))
+  ) {
+    return blockedColumn.id;
+  }
+
+  return columns.find((col) => !col.labels && matchesStatus(col, issue))?.id ?? null;
+}
+
+/**
+ * Status a card takes when dropped on a column, or null if the column doesn't accept drops.
+ * Label columns are filled by labelling issues, so they don't take drops.
+ */
+export function getDropStatus(column: BoardColumnConfig): IssueStatus | null {
+  if (column.labels) return null;
+  return column.dropStatus ?? column.statuses[0] ?? null;
+}
+
+/**
+ * Group visible (non-tombstone) issues by column id.
+ * `allIssues` resolves dependencies when `issues` is a filtered subset.
+ */
+export function groupIssuesByColumn(
+  issues: Issue[],
+  columns: BoardColumnConfig[],
+  allIssues: Issue[] = issues
+): Record<string, Issue[]> {
+  const groups: Record<string, Issue[]> = Object.fromEntries(columns.map((col) => [col.id, []]));
+  for (const issue of issues) {
+    if (issue.status === 'tombstone') continue;
+    const columnId = categorizeIssue(issue, allIssues, columns);
+    if (columnId) groups[columnId].push(issue);
+  }
+  return groups;
+}
+
+/**
+ * Current load of every column that has a WIP limit
+ */
+export function getWipUsage(issues: Issue[], columns: BoardColumnConfig[], allIssues: Issue[] = issues): WipUsage[] {
+  const groups = groupIssuesByColumn(issues, columns, allIssues);
+  return columns
+    .filter((column) => column.wipLimit !== undefined)
+    .map((column) => {
+      const count = groups[column.id].length;
+      const limit = column.wipLimit as number;
+      return { column, count, limit, exceeded: count > limit };
+    });
+}
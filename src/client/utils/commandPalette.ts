@@ -0,0 +1,58 @@
+// An action offered by the Ctrl/Cmd-K palette
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  // Shown beside the label, e.g. "Navigation" or the focused issue's ID
+  group: string;
+  // Extra words the search matches without showing them
+  keywords?: string;
+  // Key that does the same thing outside the palette
+  shortcut?: string;
+  // Throwing keeps the palette open with the error shown
+  run: () => void | Promise<void>;
+}
+
+// Characters after which a match counts as the start of a word
+const WORD_BOUNDARY = /[\s\-_/:.()]/;
+
+/**
+ * Fuzzy-match a query against text: every query character has to appear in
+ * order. Matches at word starts, runs of consecutive characters and plain
+ * substrings score higher. Returns null when the text doesn't match.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = haystack.includes(query.trim().toLowerCase()) ? 10 : 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  // Between equal matches, the shorter text is the closer one
+  return score - haystack.length / 1000;
+}
+
+/**
+ * Commands matching the query, best first; an empty query keeps them all in
+ * their given order
+ */
+export function rankCommands(query: string, commands: PaletteCommand[]): PaletteCommand[] {
+  if (!query.trim()) return commands;
+  return commands
+    .map((command) => ({
+      command,
+      score: fuzzyScore(query, `${command.label} ${command.group} ${command.keywords ?? ''}`),
+    }))
+    .filter((entry): entry is { command: PaletteCommand; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.command);
+}
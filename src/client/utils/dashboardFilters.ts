@@ -0,0 +1,150 @@
+import type { DashboardFilters, Issue, Priority, TimeGranularity } from '@shared/types';
+import { GRANULARITY_OPTIONS } from '@shared/types';
+import { getEpicDescendants } from './epicUtils';
+
+export const EMPTY_DASHBOARD_FILTERS: DashboardFilters = {
+  labels: [],
+  types: [],
+  assignees: [],
+  priorities: [],
+  epic: null,
+  from: null,
+  to: null,
+};
+
+// URL query parameter per filter; list filters repeat the parameter
+const PARAMS = {
+  labels: 'label',
+  types: 'type',
+  assignees: 'assignee',
+  priorities: 'priority',
+  epic: 'epic',
+  from: 'from',
+  to: 'to',
+} as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether any filter is set
+ */
+export function hasDashboardFilters(filters: DashboardFilters): boolean {
+  return (
+    filters.labels.length > 0 ||
+    filters.types.length > 0 ||
+    filters.assignees.length > 0 ||
+    filters.priorities.length > 0 ||
+    filters.epic !== null ||
+    filters.from !== null ||
+    filters.to !== null
+  );
+}
+
+/**
+ * Read filters from a URL query string, ignoring invalid values
+ */
+export function parseDashboardFilters(search: string): DashboardFilters {
+  const params = new URLSearchParams(search);
+  const list = (key: string) => params.getAll(key).filter(Boolean);
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && DATE_PATTERN.test(value) ? value : null;
+  };
+
+  return {
+    labels: list(PARAMS.labels),
+    types: list(PARAMS.types),
+    assignees: list(PARAMS.assignees),
+    priorities: list(PARAMS.priorities)
+      .map(Number)
+      .filter((p): p is Priority => Number.isInteger(p) && p >= 0 && p <= 4),
+    epic: params.get(PARAMS.epic) || null,
+    from: date(PARAMS.from),
+    to: date(PARAMS.to),
+  };
+}
+
+/**
+ * Write filters into URL query parameters, replacing any previous filter values.
+ * Unrelated parameters are kept.
+ */
+export function writeDashboardFilters(params: URLSearchParams, filters: DashboardFilters): URLSearchParams {
+  for (const key of Object.values(PARAMS)) {
+    params.delete(key);
+  }
+  filters.labels.forEach((label) => params.append(PARAMS.labels, label));
+  filters.types.forEach((type) => params.append(PARAMS.types, type));
+  filters.assignees.forEach((assignee) => params.append(PARAMS.assignees, assignee));
+  filters.priorities.forEach((priority) => params.append(PARAMS.priorities, String(priority)));
+  if (filters.epic) params.set(PARAMS.epic, filters.epic);
+  if (filters.from) params.set(PARAMS.from, filters.from);
+  if (filters.to) params.set(PARAMS.to, filters.to);
+  return params;
+}
+
+/**
+ * Read the dashboard time scale from a URL query string
+ */
+export function parseGranularity(search: string): TimeGranularity | null {
+  const value = new URLSearchParams(search).get('granularity');
+  return GRANULARITY_OPTIONS.some((option) => option.value === value) ? (value as TimeGranularity) : null;
+}
+
+/**
+ * Query string (with leading "?") for the dashboard: time scale plus filters
+ */
+export function buildDashboardQuery(granularity: TimeGranularity, filters: DashboardFilters): string {
+  const params = new URLSearchParams({ granularity });
+  return `?${writeDashboardFilters(params, filters).toString()}`;
+}
+
+/**
+ * Date range as timestamps: start of `from` to end of `to` (UTC)
+ */
+export function getDateRangeBounds(filters: DashboardFilters): { start: number; end: number } {
+  return {
+    start: filters.from ? Date.parse(`${filters.from}T00:00:00Z`) : -Infinity,
+    end: filters.to ? Date.parse(`${filters.to}T00:00:00Z`) + MS_PER_DAY - 1 : Infinity,
+  };
+}
+
+/**
+ * Keep only issues in the selected slice.
+ * With a date range, issues must have been active during it: created before
+ * the range ended and not closed before it started.
+ */
+export function applyDashboardFilters(issues: Issue[], filters: DashboardFilters): Issue[] {
+  if (!hasDashboardFilters(filters)) return issues;
+
+  const epicIds = filters.epic
+    ? new Set(getEpicDescendants(issues, filters.epic).map((i) => i.id))
+    : null;
+  const { start, end } = getDateRangeBounds(filters);
+
+  return issues.filter((issue) => {
+    if (filters.labels.length > 0 && !(issue.labels || []).some((l) => filters.labels.includes(l))) {
+      return false;
+    }
+    if (filters.types.length > 0 && !filters.types.includes(issue.issue_type)) {
+      return false;
+    }
+    if (filters.assignees.length > 0 && !filters.assignees.includes(issue.assignee || issue.owner || '')) {
+      return false;
+    }
+    if (filters.priorities.length > 0 && !filters.priorities.includes(issue.priority)) {
+      return false;
+    }
+    if (epicIds && !epicIds.has(issue.id)) {
+      return false;
+    }
+    if (new Date(issue.created_at).getTime() > end) {
+      return false;
+    }
+    if (issue.status === 'closed') {
+      const closedAt = issue.closed_at ?? issue.updated_at;
+      if (closedAt && new Date(closedAt).getTime() < start) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,228 @@
+import type { Issue } from '@shared/types';
+import { getEpicDescendants } from './epicUtils';
+import { compareIdsNaturally } from './sortUtils';
+
+// Edge kinds drawn in the graph; unknown dependency types are drawn as 'related'
+export type GraphEdgeType = 'blocks' | 'parent-child' | 'discovered-from' | 'related';
+
+// Directed edge from the issue that comes first (blocker, parent, origin) to the one that follows
+export interface GraphEdge {
+  from: string;
+  to: string;
+  type: GraphEdgeType;
+}
+
+export interface GraphNode {
+  issue: Issue;
+  layer: number; // Column in the layered layout (0 = no incoming edges)
+  order: number; // Row within the layer
+}
+
+export interface DependencyGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  layerCount: number;
+}
+
+export interface DependencyGraphOptions {
+  rootEpicId?: string | null; // Only the epic and its descendants
+  includeClosed?: boolean;
+  includeUnlinked?: boolean; // Issues without any edge in the graph
+}
+
+export function edgeKey(edge: GraphEdge): string {
+  return `${edge.from}->${edge.to}:${edge.type}`;
+}
+
+function toEdgeType(type: string): GraphEdgeType {
+  return type === 'blocks' || type === 'parent-child' || type === 'discovered-from' ? type : 'related';
+}
+
+/**
+ * Edges between the given issues, from dependencies, parent_id and legacy blocked_by.
+ * Duplicates (e.g. parent_id plus a parent-child dependency) are dropped.
+ */
+export function collectEdges(issues: Issue[]): GraphEdge[] {
+  const ids = new Set(issues.map((issue) => issue.id));
+  const edges = new Map<string, GraphEdge>();
+  const add = (edge: GraphEdge) => {
+    if (edge.from !== edge.to && ids.has(edge.from) && ids.has(edge.to)) {
+      edges.set(edgeKey(edge), edge);
+    }
+  };
+
+  for (const issue of issues) {
+    for (const dep of issue.dependencies || []) {
+      if (typeof dep !== 'object' || !dep.depends_on_id) continue;
+      add({ from: dep.depends_on_id, to: dep.issue_id || issue.id, type: toEdgeType(dep.type) });
+    }
+    if (issue.parent_id) {
+      add({ from: issue.parent_id, to: issue.id, type: 'parent-child' });
+    }
+    for (const blockerId of issue.blocked_by || []) {
+      add({ from: blockerId, to: issue.id, type: 'blocks' });
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Edges that close a cycle, found by depth-first search. Ignoring them leaves a DAG.
+ */
+function findBackEdges(ids: string[], edges: GraphEdge[]): Set<string> {
+  const outgoing = new Map<string, GraphEdge[]>();
+  for (const edge of edges) {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge]);
+  }
+
+  const backEdges = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  for (const start of ids) {
+    if (state.has(start)) continue;
+    // Iterative DFS so long chains can't overflow the stack
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    state.set(start, 'visiting');
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const out = outgoing.get(frame.id) || [];
+      if (frame.next >= out.length) {
+        state.set(frame.id, 'done');
+        stack.pop();
+        continue;
+      }
+      const edge = out[frame.next++];
+      const targetState = state.get(edge.to);
+      if (targetState === 'visiting') {
+        backEdges.add(edgeKey(edge));
+      } else if (!targetState) {
+        state.set(edge.to, 'visiting');
+        stack.push({ id: edge.to, next: 0 });
+      }
+    }
+  }
+
+  return backEdges;
+}
+
+/**
+ * Layered layout: each issue sits one layer after its furthest predecessor, and
+ * issues within a layer are ordered by the average row of their predecessors
+ * to reduce edge crossings. Cycles are broken by ignoring their closing edges.
+ */
+function layoutNodes(issues: Issue[], edges: GraphEdge[]): { nodes: GraphNode[]; layerCount: number } {
+  const ids = issues.map((issue) => issue.id).sort(compareIdsNaturally);
+  const backEdges = findBackEdges(ids, edges);
+  const dagEdges = edges.filter((edge) => !backEdges.has(edgeKey(edge)));
+
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, string[]>();
+  const inDegree = new Map(ids.map((id) => [id, 0]));
+  for (const edge of dagEdges) {
+    incoming.set(edge.to, [...(incoming.get(edge.to) || []), edge.from]);
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to]);
+    inDegree.set(edge.to, (inDegree.get(edge.to) || 0) + 1);
+  }
+
+  // Longest-path layering in topological order
+  const layer = new Map<string, number>();
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+  for (const id of queue) layer.set(id, 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const next of outgoing.get(id) || []) {
+      layer.set(next, Math.max(layer.get(next) ?? 0, (layer.get(id) ?? 0) + 1));
+      inDegree.set(next, inDegree.get(next)! - 1);
+      if (inDegree.get(next) === 0) queue.push(next);
+    }
+  }
+
+  const layerCount = ids.length > 0 ? Math.max(...ids.map((id) => layer.get(id) ?? 0)) + 1 : 0;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  for (const id of ids) layers[layer.get(id) ?? 0].push(id);
+
+  // Barycenter ordering, one sweep from the first layer onwards
+  const order = new Map<string, number>();
+  layers.forEach((layerIds, index) => {
+    if (index > 0) {
+      const barycenter = (id: string) => {
+        const rows = (incoming.get(id) || []).map((from) => order.get(from) ?? 0);
+        return rows.length > 0 ? rows.reduce((sum, row) => sum + row, 0) / rows.length : Infinity;
+      };
+      const weights = new Map(layerIds.map((id) => [id, barycenter(id)]));
+      // Stable sort keeps ID order for ties and for issues without predecessors
+      layerIds.sort((a, b) => {
+        const wa = weights.get(a)!;
+        const wb = weights.get(b)!;
+        return wa === wb ? 0 : wa < wb ? -1 : 1;
+      });
+    }
+    layerIds.forEach((id, row) => order.set(id, row));
+  });
+
+  const byId = new Map(issues.map((issue) => [issue.id, issue]));
+  const nodes = ids.map((id) => ({ issue: byId.get(id)!, layer: layer.get(id) ?? 0, order: order.get(id) ?? 0 }));
+  return { nodes, layerCount };
+}
+
+/**
+ * Build the laid-out dependency graph for the issues that pass the options.
+ * Tombstones are always left out.
+ */
+export function buildDependencyGraph(issues: Issue[], options: DependencyGraphOptions = {}): DependencyGraph {
+  const { rootEpicId = null, includeClosed = true, includeUnlinked = true } = options;
+
+  let scope = issues.filter((issue) => issue.status !== 'tombstone');
+  if (rootEpicId) {
+    const subtree = new Set([rootEpicId, ...getEpicDescendants(issues, rootEpicId).map((issue) => issue.id)]);
+    scope = scope.filter((issue) => subtree.has(issue.id));
+  }
+  if (!includeClosed) {
+    scope = scope.filter((issue) => issue.status !== 'closed');
+  }
+
+  const edges = collectEdges(scope);
+  if (!includeUnlinked) {
+    const linked = new Set(edges.flatMap((edge) => [edge.from, edge.to]));
+    scope = scope.filter((issue) => linked.has(issue.id) || issue.id === rootEpicId);
+  }
+
+  return { ...layoutNodes(scope, edges), edges };
+}
+
+/**
+ * Longest chain of unfinished blockers ending at the target, ordered from the
+ * first blocker to the target. Follows 'blocks' edges only and skips closed
+ * issues; cycles are cut where they close.
+ */
+export function getCriticalPath(targetId: string, issues: Issue[], edges: GraphEdge[]): string[] {
+  const byId = new Map(issues.map((issue) => [issue.id, issue]));
+  const blockers = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (edge.type !== 'blocks' || byId.get(edge.from)?.status === 'closed') continue;
+    blockers.set(edge.to, [...(blockers.get(edge.to) || []), edge.from]);
+  }
+
+  // Longest path to each issue, memoized; "visiting" guards against cycles
+  const memo = new Map<string, string[]>();
+  const visiting = new Set<string>();
+  const longestTo = (id: string): string[] => {
+    const cached = memo.get(id);
+    if (cached) return cached;
+    visiting.add(id);
+    let best: string[] = [];
+    for (const blockerId of blockers.get(id) || []) {
+      if (visiting.has(blockerId)) continue;
+      const path = longestTo(blockerId);
+      if (path.length > best.length) best = path;
+    }
+    visiting.delete(id);
+    const result = [...best, id];
+    memo.set(id, result);
+    return result;
+  };
+
+  return byId.has(targetId) ? longestTo(targetId) : [];
+}
@@ -0,0 +1,68 @@
+import type {
+  AgingWipDataPoint,
+  EpicBurnupPoint,
+  EpicScopeChange,
+  ForecastPoint,
+  Issue,
+  StatusTransition,
+} from '@shared/types';
+import { bucketTimestamp, calculateAgingWIP, calculateCumulativeFlow } from './metricsCalculations';
+import { calculateDailyThroughput, forecastCompletion } from './forecasting';
+import { getEpicDescendants } from './epicUtils';
+
+// Days of the epic's own closures sampled for its projection
+const EPIC_THROUGHPUT_WINDOW_DAYS = 30;
+
+export interface EpicBurnup {
+  points: EpicBurnupPoint[];
+  scopeChanges: EpicScopeChange[];
+  agingChildren: AgingWipDataPoint[]; // Open descendants, oldest first
+  scope: number;
+  completed: number;
+  projection: ForecastPoint[] | null; // Days until done; null without recent throughput
+}
+
+/**
+ * Burnup data for an epic's descendant tree: scope vs completed per day,
+ * scope added after the epic was created, aging open work and a projection
+ */
+export function calculateEpicBurnup(
+  issues: Issue[],
+  epic: Issue,
+  today: Date = new Date(),
+  history: StatusTransition[] = []
+): EpicBurnup {
+  const descendants = getEpicDescendants(issues, epic.id);
+
+  const points = calculateCumulativeFlow(descendants, today, 'daily', history).map((p) => ({
+    date: p.date,
+    timestamp: p.timestamp,
+    scope: p.open + p.in_progress + p.blocked + p.deferred + p.closed,
+    completed: p.closed,
+  }));
+
+  const epicCreatedDay = bucketTimestamp(new Date(epic.created_at).getTime(), 24);
+  const scopeChanges = descendants
+    .map((issue) => ({
+      issue_id: issue.id,
+      title: issue.title || issue.id,
+      timestamp: bucketTimestamp(new Date(issue.created_at).getTime(), 24),
+    }))
+    .filter((change) => change.timestamp > epicCreatedDay)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const agingChildren = calculateAgingWIP(descendants, today, 'daily')
+    .sort((a, b) => b.ageHours - a.ageHours);
+
+  const completed = descendants.filter((i) => i.status === 'closed').length;
+  const samples = calculateDailyThroughput(descendants, today, EPIC_THROUGHPUT_WINDOW_DAYS).map((p) => p.count);
+
+  return {
+    points,
+    scopeChanges,
+    agingChildren,
+    scope: descendants.length,
+    completed,
+    projection: forecastCompletion(samples, descendants.length - completed),
+  };
+}
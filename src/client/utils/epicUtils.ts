@@ -0,0 +1,53 @@
+import type { Issue } from '@shared/types';
+import { getParentId } from '@shared/readyWork';
+
+/**
+ * Get children for an epic (issues that depend on this epic or have it as parent)
+ */
+export function getEpicChildren(issues: Issue[], epicId: string): Issue[] {
+  return issues.filter((issue) => {
+    if (issue.status === 'tombstone' || issue.id === epicId) return false;
+
+    // Check if issue has this epic as parent_id
+    if (issue.parent_id === epicId) return true;
+
+    // Check if issue depends on this epic (new structure: array of objects)
+    if (issue.dependencies && Array.isArray(issue.dependencies)) {
+      const hasDependency = issue.dependencies.some(
+        (dep) => typeof dep === 'object' && dep.depends_on_id === epicId
+      );
+      if (hasDependency) return true;
+    }
+
+    // Check blocked_by (legacy: array of strings)
+    if (issue.blocked_by && issue.blocked_by.includes(epicId)) return true;
+
+    return false;
+  });
+}
+
+/**
+ * All issues under an epic: its direct children, then their children down
+ * the tree. Below the first level only parent links count, so an issue that
+ * merely depends on a task is not pulled into the epic.
+ */
+export function getEpicDescendants(issues: Issue[], epicId: string): Issue[] {
+  const visited = new Set<string>([epicId]);
+  const descendants: Issue[] = [];
+  const queue = [epicId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    const children = parentId === epicId
+      ? getEpicChildren(issues, epicId)
+      : issues.filter((issue) => issue.status !== 'tombstone' && getParentId(issue) === parentId);
+    for (const child of children) {
+      if (visited.has(child.id)) continue;
+      visited.add(child.id);
+      descendants.push(child);
+      queue.push(child.id);
+    }
+  }
+
+  return descendants;
+}
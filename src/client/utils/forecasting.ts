@@ -0,0 +1,152 @@
+import type { ForecastPoint, Issue, ThroughputRunPoint } from '@shared/types';
+import {
+  bucketTimestamp,
+  calculatePercentile,
+  formatBucketKey,
+  getClosedTimestamp,
+} from './metricsCalculations';
+
+// Confidence levels shown on the forecasting panel
+export const FORECAST_CONFIDENCE_LEVELS = [50, 85, 95];
+
+// Marker colors per confidence level (matches the scatterplot percentile lines)
+export const CONFIDENCE_COLORS: Record<number, string> = {
+  50: '#10b981',
+  85: '#f59e0b',
+  95: '#ef4444',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_TRIALS = 10000;
+// Give up on a trial after three years of simulated days; also the furthest date forecast
+export const MAX_SIMULATED_DAYS = 3 * 365;
+
+export interface ForecastOptions {
+  trials?: number;
+  random?: () => number; // Injectable for deterministic tests
+}
+
+/**
+ * Count issues closed on each of the last `windowDays` days (including today)
+ * Days without closures are included with a count of 0
+ */
+export function calculateDailyThroughput(
+  issues: Issue[],
+  today: Date = new Date(),
+  windowDays = 30
+): ThroughputRunPoint[] {
+  const todayBucket = bucketTimestamp(today.getTime(), 24);
+  const firstBucket = todayBucket - (windowDays - 1) * MS_PER_DAY;
+
+  const counts = new Map<number, number>();
+  for (const issue of issues) {
+    if (issue.status !== 'closed') continue;
+    const closedTimestamp = getClosedTimestamp(issue);
+    if (closedTimestamp === null) continue;
+    const day = bucketTimestamp(closedTimestamp, 24);
+    if (day < firstBucket || day > todayBucket) continue;
+    counts.set(day, (counts.get(day) || 0) + 1);
+  }
+
+  const points: ThroughputRunPoint[] = [];
+  for (let day = firstBucket; day <= todayBucket; day += MS_PER_DAY) {
+    points.push({
+      date: formatBucketKey(day, 'daily'),
+      timestamp: day,
+      count: counts.get(day) || 0,
+    });
+  }
+  return points;
+}
+
+/**
+ * Pick a random historical daily throughput
+ */
+function sampleThroughput(samples: number[], random: () => number): number {
+  return samples[Math.min(samples.length - 1, Math.floor(random() * samples.length))];
+}
+
+/**
+ * Monte Carlo: how many items will be done within `days` days?
+ * Each confidence level is the number of items reached or exceeded in that share of trials.
+ * Horizons beyond three years are cut to three years.
+ */
+export function forecastItemsByDate(
+  samples: number[],
+  days: number,
+  { trials = DEFAULT_TRIALS, random = Math.random }: ForecastOptions = {}
+): ForecastPoint[] {
+  const outcomes: number[] = [];
+  const horizon = Math.min(days, MAX_SIMULATED_DAYS);
+  if (samples.length > 0 && horizon > 0) {
+    for (let trial = 0; trial < trials; trial++) {
+      let total = 0;
+      for (let day = 0; day < horizon; day++) {
+        total += sampleThroughput(samples, random);
+      }
+      outcomes.push(total);
+    }
+  }
+
+  return FORECAST_CONFIDENCE_LEVELS.map((confidence) => ({
+    confidence,
+    value: calculatePercentile(outcomes, 1 - confidence / 100),
+  }));
+}
+
+/**
+ * Monte Carlo: simulate how many days it takes to finish `itemCount` items
+ * Returns one outcome (in days) per trial, capped at three years
+ */
+export function simulateCompletionDays(
+  samples: number[],
+  itemCount: number,
+  { trials = DEFAULT_TRIALS, random = Math.random }: ForecastOptions = {}
+): number[] {
+  if (itemCount <= 0) return Array(trials).fill(0);
+  // Without any historical throughput the work never finishes
+  if (!samples.some((s) => s > 0)) return [];
+
+  const outcomes: number[] = [];
+  for (let trial = 0; trial < trials; trial++) {
+    let done = 0;
+    let days = 0;
+    while (done < itemCount && days < MAX_SIMULATED_DAYS) {
+      done += sampleThroughput(samples, random);
+      days++;
+    }
+    outcomes.push(days);
+  }
+  return outcomes;
+}
+
+/**
+ * Days needed to finish `itemCount` items at each confidence level
+ * Returns null when there is no throughput history to forecast from
+ */
+export function forecastCompletion(
+  samples: number[],
+  itemCount: number,
+  options: ForecastOptions = {}
+): ForecastPoint[] | null {
+  const outcomes = simulateCompletionDays(samples, itemCount, options);
+  if (outcomes.length === 0) return null;
+  return percentilesOf(outcomes);
+}
+
+/**
+ * Outcome at each confidence level: `confidence`% of trials finished within it
+ */
+export function percentilesOf(outcomes: number[]): ForecastPoint[] {
+  return FORECAST_CONFIDENCE_LEVELS.map((confidence) => ({
+    confidence,
+    value: calculatePercentile(outcomes, confidence / 100),
+  }));
+}
+
+/**
+ * Add whole days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
@@ -0,0 +1,184 @@
+import type { BulkIssueUpdates, BulkUpdateIssuesResponse, CreateIssueRequest, CreateIssueResponse, Issue, IssueActivityEvent, IssueActivityResponse, IssueConflictResponse, IssueRanks, IssueStatus, UpdateIssueResponse } from '@shared/types';
+
+/**
+ * Thrown by saveIssueUpdates and setIssueStatus when the issue changed since
+ * it was loaded; carries the issue as it is now
+ */
+export class IssueConflictError extends Error {
+  issue: Issue;
+
+  constructor(response: IssueConflictResponse) {
+    super(response.error);
+    this.name = 'IssueConflictError';
+    this.issue = response.issue;
+  }
+}
+
+// Response of a single-issue write; a 409 becomes an IssueConflictError
+async function readUpdateResponse(res: Response, fallbackError: string): Promise<UpdateIssueResponse> {
+  const data = await res.json();
+  if (!res.ok) {
+    if (res.status === 409 && data.issue) {
+      throw new IssueConflictError(data as IssueConflictResponse);
+    }
+    throw new Error(data.error || fallbackError);
+  }
+  return data as UpdateIssueResponse;
+}
+
+/**
+ * Create an issue via POST /api/issues.
+ * Resolves with the new ID; success is false when the issue was created but
+ * some of its fields could not be set.
+ */
+export async function createIssue(request: CreateIssueRequest): Promise<CreateIssueResponse> {
+  const res = await fetch('/api/issues', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to create issue');
+  }
+  return data as CreateIssueResponse;
+}
+
+/**
+ * Persist editor changes for an issue.
+ * Field updates go through PATCH /api/issues/:id; dependency links are synced
+ * separately through POST /api/issues/:id/dependencies so bd dep add/remove runs.
+ * With expectedUpdatedAt (the updated_at the changes were based on), the save
+ * fails with an IssueConflictError if someone else changed the issue. It is
+ * checked by the first request only, since that request changes updated_at.
+ * Resolves with the issue as saved, when the server sent it back.
+ */
+export async function saveIssueUpdates(issueId: string, updates: Partial<Issue>, expectedUpdatedAt?: string): Promise<Issue | undefined> {
+  const { dependencies, ...fieldUpdates } = updates;
+  const hasFieldUpdates = Object.keys(fieldUpdates).length > 0;
+  let saved: Issue | undefined;
+
+  if (hasFieldUpdates) {
+    const res = await fetch(`/api/issues/${issueId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(expectedUpdatedAt ? { ...fieldUpdates, expected_updated_at: expectedUpdatedAt } : fieldUpdates),
+    });
+
+    const data = await readUpdateResponse(res, 'Failed to update issue');
+    // Some fields were not set
+    if (data.success === false) {
+      throw new Error(data.error || 'Failed to update issue');
+    }
+    saved = data.issue;
+  }
+
+  if (dependencies !== undefined) {
+    const res = await fetch(`/api/issues/${issueId}/dependencies`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      // Without a PATCH, the precondition is checked here instead
+      body: JSON.stringify(
+        expectedUpdatedAt && !hasFieldUpdates ? { dependencies, expected_updated_at: expectedUpdatedAt } : { dependencies }
+      ),
+    });
+
+    const data = await readUpdateResponse(res, 'Failed to update dependencies');
+    if (data.success === false) {
+      throw new Error(data.error || 'Failed to update dependencies');
+    }
+    saved = data.issue ?? saved;
+  }
+
+  return saved;
+}
+
+/**
+ * Change an issue's status via POST /api/issues/:id/status, with an
+ * optional close reason when closing. expectedUpdatedAt works as for
+ * saveIssueUpdates. Resolves with the issue as saved, when the server sent it back.
+ */
+export async function setIssueStatus(
+  issueId: string,
+  status: IssueStatus,
+  closeReason?: string,
+  expectedUpdatedAt?: string
+): Promise<Issue | undefined> {
+  const res = await fetch(`/api/issues/${issueId}/status`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      status,
+      ...(closeReason ? { close_reason: closeReason } : {}),
+      ...(expectedUpdatedAt ? { expected_updated_at: expectedUpdatedAt } : {}),
+    }),
+  });
+
+  return (await readUpdateResponse(res, 'Failed to update status')).issue;
+}
+
+/**
+ * Apply the same changes to several issues via POST /api/issues/bulk.
+ * Resolves with per-issue results; only request-level failures throw.
+ */
+export async function bulkUpdateIssues(ids: string[], updates: BulkIssueUpdates): Promise<BulkUpdateIssuesResponse> {
+  const res = await fetch('/api/issues/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids, updates }),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to update issues');
+  }
+  return data as BulkUpdateIssuesResponse;
+}
+
+/**
+ * Set (or with null, clear) manual board ranks via PATCH /api/ranks.
+ * Resolves with every rank after the update.
+ */
+export async function saveIssueRanks(ranks: Record<string, number | null>): Promise<IssueRanks> {
+  const res = await fetch('/api/ranks', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ranks }),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to save card order');
+  }
+  return data.ranks as IssueRanks;
+}
+
+/**
+ * Load an issue's activity timeline via GET /api/issues/:id/activity, oldest first
+ */
+export async function fetchIssueActivity(issueId: string): Promise<IssueActivityEvent[]> {
+  const res = await fetch(`/api/issues/${issueId}/activity`);
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to load activity');
+  }
+  return (data as IssueActivityResponse).events;
+}
+
+/**
+ * Add a comment via POST /api/issues/:id/comments
+ */
+export async function addIssueComment(issueId: string, text: string): Promise<void> {
+  const res = await fetch(`/api/issues/${issueId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to add comment');
+  }
+}
@@ -0,0 +1,95 @@
+import type { Issue } from '@shared/types';
+
+// Fields the editor changes through PATCH /api/issues/:id, in the order the editor shows them
+export const EDITABLE_ISSUE_FIELDS = [
+  'title',
+  'description',
+  'issue_type',
+  'status',
+  'priority',
+  'assignee',
+  'parent_id',
+  'due',
+  'defer',
+  'estimate',
+  'external_ref',
+  'labels',
+  'design',
+  'acceptance_criteria',
+  'notes',
+] as const;
+
+export type EditableIssueField = typeof EDITABLE_ISSUE_FIELDS[number];
+
+export const ISSUE_FIELD_LABELS: Record<EditableIssueField, string> = {
+  title: 'Title',
+  description: 'Description',
+  issue_type: 'Type',
+  status: 'Status',
+  priority: 'Priority',
+  assignee: 'Assignee',
+  parent_id: 'Parent',
+  due: 'Due',
+  defer: 'Deferred until',
+  estimate: 'Estimate',
+  external_ref: 'External ref',
+  labels: 'Labels',
+  design: 'Design',
+  acceptance_criteria: 'Acceptance criteria',
+  notes: 'Notes',
+};
+
+// A field someone else changed after the editor loaded the issue
+export interface IssueFieldConflict {
+  field: EditableIssueField;
+  // Value when the editor loaded the issue
+  base: unknown;
+  // Value now
+  theirs: unknown;
+  // The editor's unsaved value, when it changed this field too
+  mine?: unknown;
+  edited: boolean;
+}
+
+// Missing, empty and cleared values all read as "no value"
+function normalize(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join('\n');
+  return String(value);
+}
+
+/**
+ * Fields that changed between the issue the editor loaded and the issue as
+ * it is now, with the editor's own value for each it also changed
+ */
+export function getIssueConflicts(base: Issue, current: Issue, updates: Partial<Issue>): IssueFieldConflict[] {
+  return EDITABLE_ISSUE_FIELDS.filter((field) => normalize(base[field]) !== normalize(current[field])).map((field) => ({
+    field,
+    base: base[field],
+    theirs: current[field],
+    ...(field in updates ? { mine: updates[field], edited: true } : { edited: false }),
+  }));
+}
+
+/**
+ * Short display text for a field value in the conflict dialog
+ */
+export function formatIssueFieldValue(value: unknown, maxLength = 120): string {
+  const text = Array.isArray(value) ? value.join(', ') : normalize(value);
+  if (!text) return '(empty)';
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * The issue with editor updates applied, for showing a change before the
+ * server confirms it. Dependency links are left alone: they involve other
+ * issues too and arrive with the next refresh.
+ */
+export function applyIssueUpdates(issue: Issue, updates: Partial<Issue>): Issue {
+  const { dependencies: _dependencies, ...fields } = updates;
+  const next: Issue = { ...issue, ...fields };
+  // Dates are cleared with an empty string
+  if (fields.due === '') next.due = undefined;
+  if (fields.defer === '') next.defer = undefined;
+  return next;
+}
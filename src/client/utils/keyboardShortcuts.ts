@@ -0,0 +1,71 @@
+import type { IssueStatus } from '@shared/types';
+
+// Single keys that set the status of the focused row or card; "x" asks for a close reason first
+export const STATUS_SHORTCUTS: Record<string, IssueStatus> = {
+  o: 'open',
+  i: 'in_progress',
+  b: 'blocked',
+  d: 'deferred',
+  x: 'closed',
+};
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: { keys: string[]; description: string }[];
+}
+
+// Everything listed in the "?" help overlay
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: ['Ctrl/Cmd', 'K'], description: 'Open the command palette' },
+      { keys: ['/'], description: 'Search issues' },
+      { keys: ['c'], description: 'Quick-add an issue' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+    ],
+  },
+  {
+    title: 'Issues table and board',
+    shortcuts: [
+      { keys: ['j'], description: 'Focus the next issue' },
+      { keys: ['k'], description: 'Focus the previous issue' },
+      { keys: ['Enter'], description: 'Open the focused issue' },
+      { keys: ['o'], description: 'Set status to Open' },
+      { keys: ['i'], description: 'Set status to In progress' },
+      { keys: ['b'], description: 'Set status to Blocked' },
+      { keys: ['d'], description: 'Set status to Deferred' },
+      { keys: ['x'], description: 'Close, asking for a reason' },
+      { keys: ['Esc'], description: 'Clear the focus' },
+    ],
+  },
+];
+
+/**
+ * Whether a plain-key shortcut should be ignored: the user is typing,
+ * holding a modifier, or a modal dialog has the page
+ */
+export function shouldIgnoreShortcut(e: KeyboardEvent): boolean {
+  if (e.metaKey || e.ctrlKey || e.altKey) return true;
+  const target = e.target;
+  if (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  ) {
+    return true;
+  }
+  return document.querySelector('[aria-modal="true"]') !== null;
+}
+
+/**
+ * The ID a step of j/k focus lands on: the first (or last) issue when
+ * nothing is focused, stopping at either end of the list
+ */
+export function stepFocus(ids: string[], focusedId: string | null, step: 1 | -1): string | null {
+  if (ids.length === 0) return null;
+  const index = focusedId === null ? -1 : ids.indexOf(focusedId);
+  if (index === -1) return step === 1 ? ids[0] : ids[ids.length - 1];
+  return ids[Math.min(Math.max(index + step, 0), ids.length - 1)];
+}
@@ -7,8 +7,13 @@ import type {
   AgeChartDataPoint,
   TimeGranularity,
   GranularityConfig,
+  DashboardFilters,
+  IssueStatus,
+  StatusTransition,
 } from '@shared/types';
 import { GRANULARITY_OPTIONS } from '@shared/types';
+import { inferStatusTransitions } from '@shared/statusHistory';
+import { EMPTY_DASHBOARD_FILTERS, applyDashboardFilters, getDateRangeBounds } from './dashboardFilters';
 
 /**
  * Get granularity configuration
@@ -93,44 +98,88 @@ export function getAgeColor(ageHours: number, granularity: TimeGranularity): str
   }
 }
 
+/**
+ * When an issue was closed. Older exports lack closed_at, so fall back to updated_at
+ */
+export function getClosedTimestamp(issue: Issue): number | null {
+  const closedAt = issue.closed_at ?? issue.updated_at;
+  if (!closedAt) return null;
+  const timestamp = new Date(closedAt).getTime();
+  return isNaN(timestamp) ? null : timestamp;
+}
+
+/**
+ * Build a scatterplot data point for a closed issue
+ */
+function toDurationDataPoint(
+  issue: Issue,
+  startTimestamp: number,
+  closedTimestamp: number,
+  granularity: TimeGranularity
+): LeadTimeDataPoint {
+  const config = getGranularityConfig(granularity);
+  const durationHours = Math.max(0, (closedTimestamp - startTimestamp) / (1000 * 60 * 60));
+  const bucketedTimestamp = bucketTimestamp(closedTimestamp, config.hoursPerBucket);
+
+  return {
+    id: issue.id,
+    closedDate: bucketedTimestamp,
+    closedDateStr: formatBucketKey(bucketedTimestamp, granularity),
+    durationHours,
+    durationDays: durationHours / 24,
+    title: issue.title || issue.id,
+  };
+}
+
 /**
  * Calculate lead time data for closed issues
- * Returns an array of data points with cycle times for the scatterplot
+ * Lead time runs from created_at to closed_at
  */
 export function calculateLeadTime(
   issues: Issue[],
   granularity: TimeGranularity = 'daily'
 ): LeadTimeDataPoint[] {
-  const config = getGranularityConfig(granularity);
-  const closedIssues = issues.filter(
-    (i) => i.status === 'closed' && i.updated_at
-  );
-
-  const leadTimeData = closedIssues
-    .map((i) => {
-      const created = new Date(i.created_at);
-      const closed = new Date(i.updated_at!);
-
-      const cycleTimeHours = Math.max(
-        0,
-        (closed.getTime() - created.getTime()) / (1000 * 60 * 60)
-      );
-
-      const bucketedTimestamp = bucketTimestamp(closed.getTime(), config.hoursPerBucket);
-      const bucketKey = formatBucketKey(bucketedTimestamp, granularity);
-
-      return {
-        id: i.id,
-        closedDate: bucketedTimestamp,
-        closedDateStr: bucketKey,
-        cycleTimeHours,
-        cycleTimeDays: cycleTimeHours / 24,
-        title: i.title || i.id,
-      };
+  return issues
+    .filter((i) => i.status === 'closed')
+    .flatMap((i) => {
+      const closedTimestamp = getClosedTimestamp(i);
+      if (closedTimestamp === null) return [];
+      return [toDurationDataPoint(i, new Date(i.created_at).getTime(), closedTimestamp, granularity)];
     })
     .sort((a, b) => a.closedDate - b.closedDate);
+}
 
-  return leadTimeData;
+/**
+ * Calculate cycle time data for closed issues
+ * Cycle time runs from the first transition into in_progress to closed_at.
+ * Issues never seen in progress (e.g. closed straight from open) are skipped.
+ */
+export function calculateCycleTime(
+  issues: Issue[],
+  history: StatusTransition[],
+  granularity: TimeGranularity = 'daily'
+): LeadTimeDataPoint[] {
+  const firstStarted = new Map<string, number>();
+  for (const transition of history) {
+    if (transition.to !== 'in_progress') continue;
+    const timestamp = new Date(transition.at).getTime();
+    const previous = firstStarted.get(transition.issue_id);
+    if (!isNaN(timestamp) && (previous === undefined || timestamp < previous)) {
+      firstStarted.set(transition.issue_id, timestamp);
+    }
+  }
+
+  return issues
+    .filter((i) => i.status === 'closed')
+    .flatMap((i) => {
+      const startedTimestamp = firstStarted.get(i.id);
+      const closedTimestamp = getClosedTimestamp(i);
+      if (startedTimestamp === undefined || closedTimestamp === null || startedTimestamp > closedTimestamp) {
+        return [];
+      }
+      return [toDurationDataPoint(i, startedTimestamp, closedTimestamp, granularity)];
+    })
+    .sort((a, b) => a.closedDate - b.closedDate);
 }
 
 /**
@@ -200,19 +249,40 @@ export function calculateAgeDistribution(
   }));
 }
 
+// CFD bands; pinned/hooked issues are counted as open
+type FlowBand = 'open' | 'in_progress' | 'blocked' | 'deferred' | 'closed';
+
+function toFlowBand(status: IssueStatus): FlowBand | null {
+  switch (status) {
+    case 'in_progress':
+    case 'blocked':
+    case 'deferred':
+    case 'closed':
+      return status;
+    case 'tombstone':
+      return null;
+    default:
+      return 'open';
+  }
+}
+
 /**
  * Calculate cumulative flow diagram data
- * Returns an array of data points with running totals of created and closed issues
- * Fills in all buckets from the earliest issue to today
+ * Replays status transitions to count issues in each status at the end of every bucket.
+ * Recorded history (from GET /api/history) is used where available; issues without
+ * recorded history fall back to transitions inferred from their timestamps.
+ * Fills in all buckets from the earliest transition to today
  */
 export function calculateCumulativeFlow(
   issues: Issue[],
   today: Date = new Date(),
-  granularity: TimeGranularity = 'daily'
+  granularity: TimeGranularity = 'daily',
+  history: StatusTransition[] = []
 ): FlowChartDataPoint[] {
   if (issues.length === 0) return [];
 
   const config = getGranularityConfig(granularity);
+  const bucketMs = config.hoursPerBucket * 60 * 60 * 1000;
 
   // For hourly/4-hourly, limit to last 30 days
   const MAX_DAYS = 30;
@@ -221,62 +291,61 @@ export function calculateCumulativeFlow(
     ? today.getTime() - (MAX_DAYS * 24 * 60 * 60 * 1000)
     : 0;
 
-  const activityByBucket: Record<string, { created: number; closed: number }> = {};
-  let earliestTimestamp = today.getTime();
-
-  issues.forEach((i) => {
-    const createdTimestamp = new Date(i.created_at).getTime();
-    const createdBucket = bucketTimestamp(createdTimestamp, config.hoursPerBucket);
-    const createdKey = formatBucketKey(createdBucket, granularity);
-
-    if (createdTimestamp < earliestTimestamp) {
-      earliestTimestamp = createdTimestamp;
-    }
-
-    if (!activityByBucket[createdKey]) {
-      activityByBucket[createdKey] = { created: 0, closed: 0 };
-    }
-    activityByBucket[createdKey].created++;
-
-    if (i.status === 'closed' && i.updated_at) {
-      const closedTimestamp = new Date(i.updated_at).getTime();
-      const closedBucket = bucketTimestamp(closedTimestamp, config.hoursPerBucket);
-      const closedKey = formatBucketKey(closedBucket, granularity);
-
-      if (!activityByBucket[closedKey]) {
-        activityByBucket[closedKey] = { created: 0, closed: 0 };
-      }
-      activityByBucket[closedKey].closed++;
+  // Only chart issues that are part of the current issue set
+  const issueIds = new Set(issues.map((i) => i.id));
+  const recorded = history.filter((t) => issueIds.has(t.issue_id));
+  const recordedIds = new Set(recorded.map((t) => t.issue_id));
+  const events = [
+    ...recorded,
+    ...issues.filter((i) => !recordedIds.has(i.id)).flatMap(inferStatusTransitions),
+  ]
+    .map((t) => ({ issueId: t.issue_id, band: toFlowBand(t.to), timestamp: new Date(t.at).getTime() }))
+    .filter((e) => !isNaN(e.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (events.length === 0) return [];
+
+  const counts: Record<FlowBand, number> = { open: 0, in_progress: 0, blocked: 0, deferred: 0, closed: 0 };
+  const currentBand = new Map<string, FlowBand | null>();
+  let eventIndex = 0;
+
+  // Apply every event that happened before `until`; returns issues newly closed
+  const applyEventsBefore = (until: number): number => {
+    let closedCount = 0;
+    while (eventIndex < events.length && events[eventIndex].timestamp < until) {
+      const { issueId, band } = events[eventIndex];
+      const previous = currentBand.get(issueId) ?? null;
+      if (previous) counts[previous]--;
+      if (band) counts[band]++;
+      if (band === 'closed' && previous !== 'closed') closedCount++;
+      currentBand.set(issueId, band);
+      eventIndex++;
     }
-  });
+    return closedCount;
+  };
 
   const flowChartData: FlowChartDataPoint[] = [];
-  let runCreated = 0;
-  let runClosed = 0;
 
-  let iterTimestamp = bucketTimestamp(earliestTimestamp, config.hoursPerBucket);
+  let iterTimestamp = bucketTimestamp(events[0].timestamp, config.hoursPerBucket);
   if (limitTimestamp > 0) {
-    iterTimestamp = Math.max(iterTimestamp, limitTimestamp);
+    iterTimestamp = Math.max(iterTimestamp, bucketTimestamp(limitTimestamp, config.hoursPerBucket));
+    // History before the window only sets the starting counts
+    applyEventsBefore(iterTimestamp);
   }
 
   const todayBucket = bucketTimestamp(today.getTime(), config.hoursPerBucket);
 
   while (iterTimestamp <= todayBucket) {
-    const bucketKey = formatBucketKey(iterTimestamp, granularity);
-    const bucketActivity = activityByBucket[bucketKey] || { created: 0, closed: 0 };
-
-    runCreated += bucketActivity.created;
-    runClosed += bucketActivity.closed;
+    const throughput = applyEventsBefore(iterTimestamp + bucketMs);
 
     flowChartData.push({
-      date: bucketKey,
+      date: formatBucketKey(iterTimestamp, granularity),
       timestamp: iterTimestamp,
-      open: runCreated - runClosed,
-      closed: runClosed,
-      throughput: bucketActivity.closed,
+      ...counts,
+      throughput,
     });
 
-    iterTimestamp += config.hoursPerBucket * 60 * 60 * 1000;
+    iterTimestamp += bucketMs;
   }
 
   return flowChartData;
@@ -319,37 +388,51 @@ export function calculateAverageAge(
 export function calculateMetrics(
   issues: Issue[],
   today: Date = new Date(),
-  granularity: TimeGranularity = 'daily'
+  granularity: TimeGranularity = 'daily',
+  history: StatusTransition[] = [],
+  filters: DashboardFilters = EMPTY_DASHBOARD_FILTERS
 ): Metrics | null {
   if (issues.length === 0) return null;
 
-  // Filter out tombstones (deleted issues)
-  const activeIssues = issues.filter((i) => i.status !== 'tombstone');
+  // Filter out tombstones (deleted issues), then narrow to the selected slice
+  const activeIssues = applyDashboardFilters(
+    issues.filter((i) => i.status !== 'tombstone'),
+    filters
+  );
 
   if (activeIssues.length === 0) return null;
 
   const config = getGranularityConfig(granularity);
   const openIssues = activeIssues.filter((i) => i.status !== 'closed');
 
-  const leadTimeData = calculateLeadTime(activeIssues, granularity);
+  // With a date range, time series only keep buckets overlapping it
+  const { start, end } = getDateRangeBounds(filters);
+  const bucketMs = config.hoursPerBucket * 60 * 60 * 1000;
+  const inRange = (timestamp: number) => timestamp + bucketMs > start && timestamp <= end;
+
+  const leadTimeData = calculateLeadTime(activeIssues, granularity).filter((d) => inRange(d.closedDate));
+  const cycleTimeData = calculateCycleTime(activeIssues, history, granularity).filter((d) => inRange(d.closedDate));
   const agingWipData = calculateAgingWIP(activeIssues, today, granularity);
-  const flowChartData = calculateCumulativeFlow(activeIssues, today, granularity);
+  const flowChartData = calculateCumulativeFlow(activeIssues, today, granularity, history)
+    .filter((d) => inRange(d.timestamp));
   const ageChartData = calculateAgeDistribution(activeIssues, today, granularity);
   const avgAgeData = calculateAverageAge(activeIssues, today, granularity);
 
-  // Calculate percentiles from lead time data (always in hours)
-  const cycleTimesHours = leadTimeData.map((d) => d.cycleTimeHours);
-  const cycleTimeP50 = calculatePercentile(cycleTimesHours, 0.5);
-  const cycleTimeP85 = calculatePercentile(cycleTimesHours, 0.85);
+  // Calculate percentiles (always in hours)
+  const leadTimesHours = leadTimeData.map((d) => d.durationHours);
+  const cycleTimesHours = cycleTimeData.map((d) => d.durationHours);
 
   return {
     avgAge: avgAgeData.formatted,
     avgAgeRaw: avgAgeData.value,
     displayUnit: config.displayUnit,
     openCount: openIssues.length,
-    cycleTimeP50,
-    cycleTimeP85,
+    leadTimeP50: calculatePercentile(leadTimesHours, 0.5),
+    leadTimeP85: calculatePercentile(leadTimesHours, 0.85),
+    cycleTimeP50: calculatePercentile(cycleTimesHours, 0.5),
+    cycleTimeP85: calculatePercentile(cycleTimesHours, 0.85),
     leadTimeData,
+    cycleTimeData,
     agingWipData,
     flowChartData,
     ageChartData,
@@ -0,0 +1,27 @@
+import type { BeadsProject } from '@shared/types';
+
+/**
+ * Registered Beads projects via GET /api/registry
+ */
+export async function fetchProjects(): Promise<BeadsProject[]> {
+  const res = await fetch('/api/registry');
+  if (!res.ok) throw new Error('Failed to fetch projects');
+  return await res.json() as BeadsProject[];
+}
+
+/**
+ * Point the dashboard at another project via POST /api/project/switch.
+ * Data reloads through the socket refresh that follows.
+ */
+export async function switchProject(path: string): Promise<void> {
+  const res = await fetch('/api/project/switch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ path }),
+  });
+
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error || 'Failed to switch project');
+  }
+}
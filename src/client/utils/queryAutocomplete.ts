@@ -0,0 +1,92 @@
+import type { Issue } from '@shared/types';
+import { PRIORITY_LABELS } from '@shared/types';
+import { QUERY_FIELDS, QUERY_STATUSES } from '@shared/issueQuery';
+import type { QueryField } from '@shared/issueQuery';
+import { getParentId } from '@shared/readyWork';
+
+export interface QuerySuggestion {
+  label: string; // What the completed token reads as, e.g. "status:open"
+  description?: string;
+  value: string; // The whole query with the suggestion applied
+}
+
+const FIELD_PATTERN = /^(-?)([a-z_]+):(<=|>=|<|>|=)?(.*)$/i;
+
+const unique = (values: (string | undefined)[]) =>
+  [...new Set(values.filter((value): value is string => Boolean(value)))].sort((a, b) => a.localeCompare(b));
+
+// Values worth offering for a field, drawn from the issues where they're open-ended
+function getKnownValues(field: QueryField, issues: Issue[]): { value: string; description?: string }[] {
+  switch (field) {
+    case 'status':
+      return QUERY_STATUSES.map((value) => ({ value }));
+    case 'priority':
+      return ([0, 1, 2, 3, 4] as const).map((p) => ({ value: String(p), description: PRIORITY_LABELS[p] }));
+    case 'type':
+      return unique(issues.map((issue) => issue.issue_type)).map((value) => ({ value }));
+    case 'label':
+      return unique(issues.flatMap((issue) => issue.labels || [])).map((value) => ({ value }));
+    case 'assignee':
+      return [
+        { value: 'me', description: 'You' },
+        { value: 'none', description: 'Unassigned' },
+        ...unique(issues.map((issue) => issue.assignee || issue.owner)).map((value) => ({ value })),
+      ];
+    case 'parent': {
+      const titles = new Map(issues.map((issue) => [issue.id, issue.title]));
+      return unique(issues.map(getParentId)).map((value) => ({ value, description: titles.get(value) }));
+    }
+    case 'id':
+      return issues.map((issue) => ({ value: issue.id, description: issue.title }));
+    case 'blocked':
+      return [{ value: 'true' }, { value: 'false' }];
+    default:
+      return [
+        { value: 'today' },
+        { value: '-7d', description: 'A week ago' },
+        { value: '-30d', description: '30 days ago' },
+      ];
+  }
+}
+
+/**
+ * Completions for the token being typed at the end of a query: field names
+ * until a ":" is typed, then known values for that field.
+ */
+export function getQuerySuggestions(input: string, issues: Issue[], limit = 8): QuerySuggestion[] {
+  const tokenStart = input.search(/\S*$/);
+  const before = input.slice(0, tokenStart);
+  const token = input.slice(tokenStart);
+
+  const fieldMatch = FIELD_PATTERN.exec(token);
+  if (!fieldMatch) {
+    const negation = token.startsWith('-') ? '-' : '';
+    const partial = token.slice(negation.length).toLowerCase();
+    return (Object.keys(QUERY_FIELDS) as QueryField[])
+      .filter((field) => field.startsWith(partial))
+      .slice(0, limit)
+      .map((field) => ({
+        label: `${negation}${field}:`,
+        description: QUERY_FIELDS[field].description,
+        value: `${before}${negation}${field}:`,
+      }));
+  }
+
+  const [, negation, name, operator = '', valueText] = fieldMatch;
+  const field = name.toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(QUERY_FIELDS, field)) return [];
+
+  // Earlier comma-separated values stay; the last one is being completed
+  const commaIndex = valueText.lastIndexOf(',');
+  const previous = valueText.slice(0, commaIndex + 1);
+  const partial = valueText.slice(commaIndex + 1).replace(/^"/, '').toLowerCase();
+
+  return getKnownValues(field as QueryField, issues)
+    .filter(({ value }) => value.toLowerCase().startsWith(partial) && value.toLowerCase() !== partial)
+    .slice(0, limit)
+    .map(({ value, description }) => {
+      const written = /\s/.test(value) ? `"${value}"` : value;
+      const completed = `${negation}${field}:${operator}${previous}${written}`;
+      return { label: completed, description, value: `${before}${completed} ` };
+    });
+}
@@ -0,0 +1,147 @@
+import type { CreateIssueRequest, Priority } from '@shared/types';
+import { ISSUE_TYPE_PATTERN } from '@shared/dashboardConfig';
+
+// A search bar query starting with this creates an issue instead of searching
+export const QUICK_ADD_PREFIX = '+ ';
+
+export function isQuickAddQuery(query: string): boolean {
+  return query.startsWith(QUICK_ADD_PREFIX);
+}
+
+export interface ParsedQuickAdd {
+  request: CreateIssueRequest;
+  // Tokens that look like fields but can't be used, e.g. "!p7" or "due:someday"
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE_PATTERN = /^\+?(\d{1,3})([dw])$/;
+const ISSUE_ID_PATTERN = /^[a-zA-Z0-9._-]{1,100}$/;
+// Indexed like Date.getDay()
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// A local calendar day as YYYY-MM-DD
+function formatLocalDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Resolve a quick-add date to a calendar day (YYYY-MM-DD) in the user's
+ * time zone, so "today" is the day on their clock: an explicit
+ * day, "today", "tomorrow", a weekday ("fri" is the next Friday after today)
+ * or a count of days or weeks from now ("3d", "+2w")
+ */
+export function resolveQuickAddDate(value: string, now: Date): string | null {
+  const lower = value.toLowerCase();
+  if (DATE_PATTERN.test(lower)) return isCalendarDay(lower) ? lower : null;
+
+  // Counted in calendar days, which also keeps daylight saving changes out of it
+  const daysFromNow = (days: number) => formatLocalDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + days));
+  if (lower === 'today') return daysFromNow(0);
+  if (lower === 'tomorrow') return daysFromNow(1);
+
+  const weekday = WEEKDAYS.findIndex((day) => matchesWeekday(lower, day));
+  if (weekday !== -1) {
+    return daysFromNow(((weekday - now.getDay() + 6) % 7) + 1);
+  }
+
+  const relative = RELATIVE_DATE_PATTERN.exec(lower);
+  if (!relative) return null;
+  return daysFromNow(Number(relative[1]) * (relative[2] === 'w' ? 7 : 1));
+}
+
+// Date.parse rolls 2026-02-30 over to March, so check the day survives a round trip
+function isCalendarDay(value: string): boolean {
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// "fri", "frid" and "friday" all name Friday
+function matchesWeekday(value: string, day: string): boolean {
+  return value.length >= 3 && day.startsWith(value);
+}
+
+/**
+ * Parse a quick-add line such as
+ * "Fix login crash !p0 #bug @alice +label:auth ^bd-42 due:fri"
+ * into a create request. Field tokens can go anywhere; every other word is
+ * part of the title. The last token wins when a field is given twice.
+ */
+export function parseQuickAdd(input: string, now = new Date()): ParsedQuickAdd {
+  const text = isQuickAddQuery(input) ? input.slice(QUICK_ADD_PREFIX.length) : input;
+  const titleWords: string[] = [];
+  const labels: string[] = [];
+  const errors: string[] = [];
+  const fields: Omit<CreateIssueRequest, 'title'> = {};
+
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const priority = /^!p?(\d)$/i.exec(token);
+    if (priority || /^!p\d*$/i.test(token)) {
+      const value = priority ? Number(priority[1]) : NaN;
+      if (value >= 0 && value <= 4) {
+        fields.priority = value as Priority;
+      } else {
+        errors.push(`Priority is !p0 to !p4, not "${token}"`);
+      }
+      continue;
+    }
+
+    const type = /^#(\S+)$/.exec(token);
+    if (type && /^[a-z]/i.test(type[1])) {
+      const issueType = type[1].toLowerCase();
+      if (ISSUE_TYPE_PATTERN.test(issueType)) {
+        fields.issue_type = issueType;
+      } else {
+        errors.push(`"${token}" is not an issue type`);
+      }
+      continue;
+    }
+
+    const assignee = /^@(\S+)$/.exec(token);
+    if (assignee) {
+      fields.assignee = assignee[1];
+      continue;
+    }
+
+    const label = /^\+(?:label:)?(\S+)$/.exec(token);
+    if (label) {
+      if (label[1].includes(',')) {
+        errors.push(`Labels can't contain commas: "${token}"`);
+      } else if (!labels.includes(label[1])) {
+        labels.push(label[1]);
+      }
+      continue;
+    }
+
+    const parent = /^\^(\S+)$/.exec(token);
+    if (parent) {
+      if (ISSUE_ID_PATTERN.test(parent[1])) {
+        fields.parent_id = parent[1];
+      } else {
+        errors.push(`"${parent[1]}" is not an issue ID`);
+      }
+      continue;
+    }
+
+    const date = /^(due|defer):(\S*)$/i.exec(token);
+    if (date) {
+      const field = date[1].toLowerCase() as 'due' | 'defer';
+      const day = resolveQuickAddDate(date[2], now);
+      if (day) {
+        fields[field] = day;
+      } else {
+        errors.push(`Dates look like 2026-11-01, today, tomorrow, fri or 3d, not "${date[2]}"`);
+      }
+      continue;
+    }
+
+    titleWords.push(token);
+  }
+
+  const request: CreateIssueRequest = { title: titleWords.join(' '), ...fields };
+  if (labels.length > 0) request.labels = labels;
+  if (!request.title) errors.push('Add a title');
+  return { request, errors };
+}
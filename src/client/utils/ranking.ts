@@ -0,0 +1,97 @@
+import type { Issue, IssueRanks } from '@shared/types';
+
+// Gap between consecutive ranks, leaving room to insert between neighbours
+export const RANK_STEP = 1024;
+
+// Below this gap midpoints lose precision, so the list is renumbered instead
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Comparator for manual order: ranked issues first (lowest rank first),
+ * unranked issues after them. Ties compare as equal so a stable sort keeps
+ * the incoming order.
+ */
+export function compareByRank(ranks: IssueRanks): (a: Issue, b: Issue) => number {
+  return (a, b) => {
+    const rankA = ranks[a.id];
+    const rankB = ranks[b.id];
+    if (rankA === undefined || rankB === undefined) {
+      if (rankA === rankB) return 0;
+      return rankA === undefined ? 1 : -1;
+    }
+    return rankA - rankB;
+  };
+}
+
+/**
+ * Issues in manual order; unranked issues keep their relative order at the end
+ */
+export function sortByRank(issues: Issue[], ranks: IssueRanks): Issue[] {
+  return [...issues].sort(compareByRank(ranks));
+}
+
+/**
+ * 1-based position of each ranked issue in manual order, for display
+ */
+export function getRankPositions(ranks: IssueRanks): Map<string, number> {
+  return new Map(
+    Object.entries(ranks)
+      .sort(([, a], [, b]) => a - b)
+      .map(([id], index) => [id, index + 1])
+  );
+}
+
+/**
+ * Rank changes that move `movedId` to `index` within `list` (the column as
+ * displayed, without the moved issue). Unranked issues the new position
+ * depends on are ranked too, so the displayed order stays put; if there is no
+ * room left between the neighbours, the whole list is renumbered.
+ */
+export function computeRankUpdates(
+  list: Issue[],
+  movedId: string,
+  index: number,
+  ranks: IssueRanks
+): IssueRanks {
+  const ids = list.map((issue) => issue.id).filter((id) => id !== movedId);
+  const position = Math.max(0, Math.min(index, ids.length));
+  const updates: IssueRanks = {};
+  const rankOf = (id: string) => updates[id] ?? ranks[id];
+
+  // Rank the unranked issues up to and including the one after the insert
+  // point, continuing on from the last ranked issue before them
+  const needed = Math.min(position + 1, ids.length);
+  let previous: number | undefined;
+  for (let i = 0; i < needed; i++) {
+    const rank = rankOf(ids[i]);
+    if (rank === undefined) {
+      updates[ids[i]] = previous === undefined ? RANK_STEP : previous + RANK_STEP;
+    }
+    previous = rankOf(ids[i]);
+  }
+
+  const before = position > 0 ? rankOf(ids[position - 1]) : undefined;
+  const after = position < ids.length ? rankOf(ids[position]) : undefined;
+
+  let rank: number;
+  if (before === undefined && after === undefined) {
+    rank = RANK_STEP;
+  } else if (before === undefined) {
+    rank = after! - RANK_STEP;
+  } else if (after === undefined) {
+    rank = before + RANK_STEP;
+  } else {
+    rank = (before + after) / 2;
+  }
+
+  if (before !== undefined && after !== undefined && (after - before < MIN_RANK_GAP || after <= before)) {
+    return renumber([...ids.slice(0, position), movedId, ...ids.slice(position)]);
+  }
+
+  updates[movedId] = rank;
+  return updates;
+}
+
+function renumber(ids: string[]): IssueRanks {
+  return Object.fromEntries(ids.map((id, i) => [id, (i + 1) * RANK_STEP]));
+}
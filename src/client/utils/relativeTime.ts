@@ -0,0 +1,27 @@
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+const formatter = new Intl.RelativeTimeFormat('en-US', { numeric: 'auto' });
+
+/**
+ * How long ago (or from now) a timestamp is, e.g. "3 hours ago" or "yesterday".
+ * Anything under a minute is "just now".
+ */
+export function formatRelativeTime(isoString: string, now = new Date()): string {
+  const time = new Date(isoString).getTime();
+  if (isNaN(time)) return isoString;
+
+  const seconds = Math.round((time - now.getTime()) / 1000);
+  for (const [unit, unitSeconds] of UNITS) {
+    if (Math.abs(seconds) >= unitSeconds) {
+      return formatter.format(Math.trunc(seconds / unitSeconds), unit);
+    }
+  }
+  return 'just now';
+}
@@ -0,0 +1,78 @@
+// Client-side routes. The server's SPA fallback serves index.html for all of them.
+export type AppTab = 'table' | 'ready' | 'board' | 'dashboard' | 'graph';
+
+export const APP_TABS: AppTab[] = ['table', 'ready', 'board', 'dashboard', 'graph'];
+
+export function isAppTab(value: string | null | undefined): value is AppTab {
+  return APP_TABS.includes(value as AppTab);
+}
+
+export type Route =
+  | { view: AppTab }
+  | { view: 'issue'; id: string }
+  | { view: 'epic'; id: string }
+  | { view: 'root' };
+
+// Fired after navigate() changes the URL (pushState doesn't emit popstate)
+export const LOCATION_CHANGE_EVENT = 'beads:locationchange';
+
+/**
+ * Parse a pathname into a route; unknown paths map to 'root'
+ */
+export function parseRoute(pathname: string): Route {
+  const [first, second] = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (isAppTab(first)) {
+    return { view: first };
+  }
+  if ((first === 'issue' || first === 'epic') && second) {
+    return { view: first, id: second };
+  }
+  return { view: 'root' };
+}
+
+/**
+ * Path for a route (without query string)
+ */
+export function routePath(route: Route): string {
+  switch (route.view) {
+    case 'issue':
+    case 'epic':
+      return `/${route.view}/${encodeURIComponent(route.id)}`;
+    case 'root':
+      return '/';
+    default:
+      return `/${route.view}`;
+  }
+}
+
+/**
+ * Change the URL without reloading. Pushed entries are marked so the app
+ * knows it can go back to a page of its own.
+ */
+export function navigate(to: string, { replace = false }: { replace?: boolean } = {}): void {
+  const current = `${window.location.pathname}${window.location.search}`;
+  if (to === current) return;
+
+  if (replace) {
+    window.history.replaceState(window.history.state, '', to);
+  } else {
+    window.history.pushState({ internal: true }, '', to);
+  }
+  window.dispatchEvent(new CustomEvent(LOCATION_CHANGE_EVENT, { detail: { replace } }));
+}
+
+/**
+ * Whether the previous history entry belongs to this app (safe to go back to)
+ */
+export function canGoBack(): boolean {
+  return Boolean((window.history.state as { internal?: boolean } | null)?.internal);
+}
+
+/**
+ * Query string with a leading "?" (or empty when there are no params)
+ */
+export function toSearch(params: URLSearchParams): string {
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
@@ -0,0 +1,62 @@
+import type { CreateSavedViewRequest, SavedView, SavedViewTab, SavedViewsResponse, UpdateSavedViewRequest } from '@shared/types';
+
+/**
+ * Save a named view of a tab via POST /api/views
+ */
+export async function createSavedView(input: CreateSavedViewRequest): Promise<SavedView> {
+  const res = await fetch('/api/views', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to save view');
+  }
+  return data.view as SavedView;
+}
+
+/**
+ * Rename a saved view or replace its query via PATCH /api/views/:id
+ */
+export async function updateSavedView(id: string, updates: UpdateSavedViewRequest): Promise<SavedView> {
+  const res = await fetch(`/api/views/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to update view');
+  }
+  return data.view as SavedView;
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  const res = await fetch(`/api/views/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to delete view');
+  }
+}
+
+/**
+ * Set (or with null, clear) the view a tab opens with via PUT /api/views/defaults/:tab.
+ * Resolves with every view and default after the update.
+ */
+export async function setDefaultView(tab: SavedViewTab, viewId: string | null): Promise<SavedViewsResponse> {
+  const res = await fetch(`/api/views/defaults/${tab}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ viewId }),
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || 'Failed to set default view');
+  }
+  return data as SavedViewsResponse;
+}
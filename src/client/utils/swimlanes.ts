@@ -0,0 +1,125 @@
+import type { Issue, Priority } from '@shared/types';
+import { PRIORITY_LABELS } from '@shared/types';
+import { getParentId } from '@shared/readyWork';
+
+export type SwimlaneGrouping = 'none' | 'epic' | 'assignee' | 'priority' | 'label';
+
+export const SWIMLANE_OPTIONS: { value: SwimlaneGrouping; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'epic', label: 'Parent epic' },
+  { value: 'assignee', label: 'Assignee' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'label', label: 'Label' },
+];
+
+// Lane for issues without a value (no epic, unassigned, unlabelled)
+export const NO_LANE = '';
+
+const NO_LANE_LABELS: Record<SwimlaneGrouping, string> = {
+  none: '',
+  epic: 'No epic',
+  assignee: 'Unassigned',
+  priority: 'No priority',
+  label: 'No label',
+};
+
+export interface Swimlane {
+  key: string;
+  label: string;
+  issues: Issue[];
+}
+
+/**
+ * Nearest epic above an issue, walking up parents (cycle-safe)
+ */
+export function getParentEpicId(issue: Issue, issuesById: Map<string, Issue>): string | null {
+  const visited = new Set<string>([issue.id]);
+  let parentId = getParentId(issue);
+
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = issuesById.get(parentId);
+    if (!parent) return null;
+    if (parent.issue_type === 'epic') return parent.id;
+    parentId = getParentId(parent);
+  }
+  return null;
+}
+
+/**
+ * Lanes an issue belongs to. Only label grouping can put an issue in several lanes.
+ */
+export function getLaneKeys(issue: Issue, grouping: SwimlaneGrouping, issuesById: Map<string, Issue>): string[] {
+  switch (grouping) {
+    case 'epic':
+      return [getParentEpicId(issue, issuesById) ?? NO_LANE];
+    case 'assignee':
+      // Beads 0.61+ writes owner instead of assignee
+      return [issue.assignee || issue.owner || NO_LANE];
+    case 'priority':
+      return [String(issue.priority)];
+    case 'label':
+      return issue.labels && issue.labels.length > 0 ? issue.labels : [NO_LANE];
+    default:
+      return [NO_LANE];
+  }
+}
+
+function getLaneLabel(key: string, grouping: SwimlaneGrouping, issuesById: Map<string, Issue>): string {
+  if (key === NO_LANE) return NO_LANE_LABELS[grouping];
+  if (grouping === 'epic') return `${key}: ${issuesById.get(key)?.title || 'Untitled'}`;
+  if (grouping === 'priority') return `P${key} ${PRIORITY_LABELS[Number(key) as Priority] ?? ''}`.trim();
+  return key;
+}
+
+/**
+ * Split issues into lanes. Lanes are sorted by key (priority order for
+ * priorities), with the "no value" lane last; lanes without issues are omitted.
+ * `allIssues` resolves parent epics when `issues` is a filtered subset.
+ */
+export function buildSwimlanes(issues: Issue[], grouping: SwimlaneGrouping, allIssues: Issue[] = issues): Swimlane[] {
+  const issuesById = new Map(allIssues.map((issue) => [issue.id, issue]));
+  const lanes = new Map<string, Issue[]>();
+
+  for (const issue of issues) {
+    for (const key of getLaneKeys(issue, grouping, issuesById)) {
+      const lane = lanes.get(key) ?? [];
+      lane.push(issue);
+      lanes.set(key, lane);
+    }
+  }
+
+  return Array.from(lanes.entries())
+    .sort(([a], [b]) => {
+      if (a === NO_LANE || b === NO_LANE) return a === NO_LANE ? 1 : -1;
+      return grouping === 'priority' ? Number(a) - Number(b) : a.localeCompare(b);
+    })
+    .map(([key, laneIssues]) => ({ key, label: getLaneLabel(key, grouping, issuesById), issues: laneIssues }));
+}
+
+/**
+ * Field changes that move an issue from one lane to another
+ * (re-parent, reassign, reprioritize or swap a label), or null if nothing changes.
+ */
+export function getLaneUpdates(
+  issue: Issue,
+  grouping: SwimlaneGrouping,
+  fromLane: string,
+  toLane: string
+): Partial<Issue> | null {
+  if (grouping === 'none' || fromLane === toLane) return null;
+
+  switch (grouping) {
+    case 'epic':
+      return { parent_id: toLane };
+    case 'assignee':
+      return { assignee: toLane };
+    case 'priority':
+      return toLane === NO_LANE ? null : { priority: Number(toLane) as Priority };
+    case 'label': {
+      const labels = (issue.labels || []).filter((label) => label !== fromLane);
+      if (toLane !== NO_LANE && !labels.includes(toLane)) labels.push(toLane);
+      return { labels };
+    }
+  }
+}
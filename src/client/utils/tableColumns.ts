@@ -0,0 +1,122 @@
+import type { Issue } from '@shared/types';
+import { getParentId } from '@shared/readyWork';
+import { compareIdsNaturally } from './sortUtils';
+
+// Optional columns of the flat issue list; ID and title are always shown
+export type TableColumnId =
+  | 'rank'
+  | 'type'
+  | 'priority'
+  | 'status'
+  | 'close_reason'
+  | 'assignee'
+  | 'labels'
+  | 'due'
+  | 'defer'
+  | 'estimate'
+  | 'created'
+  | 'updated'
+  | 'closed'
+  | 'age'
+  | 'external_ref'
+  | 'parent'
+  | 'dependencies';
+
+// Header label and default width in pixels, in the order the column chooser lists them
+export const TABLE_COLUMNS: Record<TableColumnId, { label: string; width: number }> = {
+  rank: { label: 'Rank', width: 56 },
+  type: { label: 'Type', width: 96 },
+  priority: { label: 'Priority', width: 96 },
+  status: { label: 'Status', width: 112 },
+  close_reason: { label: 'Reason', width: 128 },
+  assignee: { label: 'Assignee', width: 112 },
+  labels: { label: 'Labels', width: 160 },
+  due: { label: 'Due', width: 104 },
+  defer: { label: 'Deferred', width: 104 },
+  estimate: { label: 'Estimate', width: 80 },
+  created: { label: 'Created', width: 96 },
+  updated: { label: 'Updated', width: 96 },
+  closed: { label: 'Closed', width: 96 },
+  age: { label: 'Age', width: 64 },
+  external_ref: { label: 'External ref', width: 120 },
+  parent: { label: 'Parent', width: 96 },
+  dependencies: { label: 'Deps', width: 64 },
+};
+
+export const TABLE_COLUMN_IDS = Object.keys(TABLE_COLUMNS) as TableColumnId[];
+
+// The columns the table had before they were configurable
+export const DEFAULT_TABLE_COLUMNS: TableColumnId[] = ['rank', 'type', 'priority', 'status', 'close_reason'];
+
+export const MIN_COLUMN_WIDTH = 48;
+export const MAX_COLUMN_WIDTH = 480;
+
+export function isTableColumnId(value: string): value is TableColumnId {
+  return Object.prototype.hasOwnProperty.call(TABLE_COLUMNS, value);
+}
+
+export function clampColumnWidth(width: number): number {
+  return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.round(width)));
+}
+
+/**
+ * Whole days an issue has been open: until it was closed, or until now
+ */
+export function getIssueAgeDays(issue: Issue, now = new Date()): number {
+  const end = issue.closed_at ? new Date(issue.closed_at).getTime() : now.getTime();
+  return Math.max(0, Math.floor((end - new Date(issue.created_at).getTime()) / (1000 * 60 * 60 * 24)));
+}
+
+/**
+ * IDs an issue depends on: every dependency except its parent, plus legacy blocked_by
+ */
+export function getDependencyIds(issue: Issue): string[] {
+  const ids = new Set<string>(issue.blocked_by || []);
+  for (const dep of issue.dependencies || []) {
+    if (typeof dep === 'object' && dep.depends_on_id && dep.type !== 'parent-child') ids.add(dep.depends_on_id);
+  }
+  ids.delete(issue.id);
+  return [...ids];
+}
+
+// Issues without a value sort after those with one
+function compareOptional<T>(a: T | undefined, b: T | undefined, compare: (a: T, b: T) => number): number {
+  const aMissing = a === undefined || a === '';
+  const bMissing = b === undefined || b === '';
+  if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+  return compare(a, b);
+}
+
+const compareText = (a: string | undefined, b: string | undefined) => compareOptional(a, b, (x, y) => x.localeCompare(y));
+const compareNumbers = (a: number | undefined, b: number | undefined) => compareOptional(a, b, (x, y) => x - y);
+const toTime = (timestamp: string | undefined) => (timestamp ? new Date(timestamp).getTime() : undefined);
+
+const STATUS_ORDER = ['in_progress', 'open', 'blocked', 'deferred', 'closed'];
+
+// Columns sorted by the issue's own fields; rank and relevance need outside data
+export type IssueSortField = 'id' | 'title' | Exclude<TableColumnId, 'rank'>;
+
+/**
+ * Ascending comparator for each field the table can sort by
+ */
+export const ISSUE_COMPARATORS: Record<IssueSortField, (a: Issue, b: Issue) => number> = {
+  id: (a, b) => compareIdsNaturally(a.id, b.id),
+  title: (a, b) => (a.title || '').localeCompare(b.title || ''),
+  type: (a, b) => (a.issue_type || '').localeCompare(b.issue_type || ''),
+  // Lower number = higher priority, so ascending means P0 first
+  priority: (a, b) => a.priority - b.priority,
+  status: (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status),
+  close_reason: (a, b) => compareText(a.close_reason, b.close_reason),
+  assignee: (a, b) => compareText(a.assignee || a.owner, b.assignee || b.owner),
+  labels: (a, b) => compareText([...(a.labels || [])].sort().join(', '), [...(b.labels || [])].sort().join(', ')),
+  due: (a, b) => compareNumbers(toTime(a.due), toTime(b.due)),
+  defer: (a, b) => compareNumbers(toTime(a.defer), toTime(b.defer)),
+  estimate: (a, b) => compareNumbers(a.estimate, b.estimate),
+  created: (a, b) => compareNumbers(toTime(a.created_at), toTime(b.created_at)),
+  updated: (a, b) => compareNumbers(toTime(a.updated_at), toTime(b.updated_at)),
+  closed: (a, b) => compareNumbers(toTime(a.closed_at), toTime(b.closed_at)),
+  age: (a, b) => getIssueAgeDays(a) - getIssueAgeDays(b),
+  external_ref: (a, b) => compareText(a.external_ref, b.external_ref),
+  parent: (a, b) => compareOptional(getParentId(a), getParentId(b), compareIdsNaturally),
+  dependencies: (a, b) => getDependencyIds(a).length - getDependencyIds(b).length,
+};
@@ -0,0 +1,146 @@
+import type { IssueStatus, Priority } from '@shared/types';
+import { DEFAULT_TABLE_COLUMNS, TABLE_COLUMN_IDS, clampColumnWidth, isTableColumnId } from './tableColumns';
+import type { TableColumnId } from './tableColumns';
+
+// Any column can sort the table ('rank' is the manual order set by dragging cards
+// on the board); 'relevance' orders search results
+export type SortColumn = 'id' | 'title' | TableColumnId | 'relevance';
+export type SortDirection = 'asc' | 'desc';
+
+// Everything about the issue table that can be shared in a link
+export interface TableUrlState {
+  statusFilter: IssueStatus[];
+  typeFilter: string[];
+  priorityFilter: Priority[];
+  labelFilter: string[];
+  closeReasonFilter: string[];
+  sortColumn: SortColumn;
+  sortDirection: SortDirection;
+  showEpicsView: boolean;
+  expandedEpics: string[];
+  epicStatusFilter: IssueStatus[];
+  search: string; // Full-text search; only matching issues are listed
+  query: string; // Structured query (status:open priority:<=1 ...)
+  columns: TableColumnId[]; // Optional columns shown, in order
+  columnWidths: Partial<Record<TableColumnId, number>>; // Widths (px) of resized columns
+}
+
+export const DEFAULT_SORT_COLUMN: SortColumn = 'priority';
+export const DEFAULT_SORT_DIRECTION: SortDirection = 'asc';
+
+const SORT_COLUMNS: SortColumn[] = ['id', 'title', ...TABLE_COLUMN_IDS, 'relevance'];
+const STATUSES: IssueStatus[] = ['open', 'in_progress', 'blocked', 'closed', 'deferred', 'pinned', 'hooked'];
+
+// URL query parameter per field; list fields repeat the parameter
+const PARAMS = {
+  statusFilter: 'status',
+  typeFilter: 'type',
+  priorityFilter: 'priority',
+  labelFilter: 'label',
+  closeReasonFilter: 'reason',
+  sortColumn: 'sort',
+  sortDirection: 'dir',
+  showEpicsView: 'view',
+  expandedEpics: 'expanded',
+  epicStatusFilter: 'epic_status',
+  search: 'search',
+  query: 'q',
+  columns: 'cols',
+  columnWidths: 'widths',
+} as const;
+
+// "assignee:140,labels:200" -> widths of known columns, clamped to the allowed range
+function parseColumnWidths(value: string | null): Partial<Record<TableColumnId, number>> {
+  const widths: Partial<Record<TableColumnId, number>> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [column, width] = entry.split(':');
+    if (isTableColumnId(column) && Number.isFinite(Number(width)) && width !== '') {
+      widths[column] = clampColumnWidth(Number(width));
+    }
+  }
+  return widths;
+}
+
+const sameColumns = (a: TableColumnId[], b: TableColumnId[]) => a.length === b.length && a.every((column, i) => column === b[i]);
+
+/**
+ * Read table state from a URL query string.
+ * Returns null when the URL carries no table state, so saved preferences apply.
+ * Otherwise fields missing from the URL get their defaults.
+ */
+export function parseTableQuery(search: string): TableUrlState | null {
+  const params = new URLSearchParams(search);
+  if (!Object.values(PARAMS).some((key) => params.has(key))) return null;
+
+  const list = (key: string) => params.getAll(key).filter(Boolean);
+  const statuses = (key: string) => list(key).filter((s): s is IssueStatus => STATUSES.includes(s as IssueStatus));
+  const sort = params.get(PARAMS.sortColumn) as SortColumn | null;
+
+  return {
+    statusFilter: statuses(PARAMS.statusFilter),
+    typeFilter: list(PARAMS.typeFilter),
+    priorityFilter: list(PARAMS.priorityFilter)
+      .map(Number)
+      .filter((p): p is Priority => Number.isInteger(p) && p >= 0 && p <= 4),
+    labelFilter: list(PARAMS.labelFilter),
+    closeReasonFilter: list(PARAMS.closeReasonFilter),
+    sortColumn: sort && SORT_COLUMNS.includes(sort) ? sort : DEFAULT_SORT_COLUMN,
+    sortDirection: params.get(PARAMS.sortDirection) === 'desc' ? 'desc' : DEFAULT_SORT_DIRECTION,
+    showEpicsView: params.get(PARAMS.showEpicsView) === 'epics',
+    expandedEpics: list(PARAMS.expandedEpics),
+    epicStatusFilter: statuses(PARAMS.epicStatusFilter),
+    search: params.get(PARAMS.search)?.trim() ?? '',
+    query: params.get(PARAMS.query) ?? '',
+    columns: params.has(PARAMS.columns)
+      ? [...new Set(list(PARAMS.columns).join(',').split(',').filter(isTableColumnId))]
+      : DEFAULT_TABLE_COLUMNS,
+    columnWidths: parseColumnWidths(params.get(PARAMS.columnWidths)),
+  };
+}
+
+/**
+ * Serialize table state into a query string (with leading "?"), omitting defaults
+ */
+export function buildTableQuery(state: TableUrlState): string {
+  const params = new URLSearchParams();
+  state.statusFilter.forEach((s) => params.append(PARAMS.statusFilter, s));
+  state.typeFilter.forEach((t) => params.append(PARAMS.typeFilter, t));
+  state.priorityFilter.forEach((p) => params.append(PARAMS.priorityFilter, String(p)));
+  state.labelFilter.forEach((l) => params.append(PARAMS.labelFilter, l));
+  state.closeReasonFilter.forEach((r) => params.append(PARAMS.closeReasonFilter, r));
+  if (state.sortColumn !== DEFAULT_SORT_COLUMN) params.set(PARAMS.sortColumn, state.sortColumn);
+  if (state.sortDirection !== DEFAULT_SORT_DIRECTION) params.set(PARAMS.sortDirection, state.sortDirection);
+  if (state.showEpicsView) params.set(PARAMS.showEpicsView, 'epics');
+  state.expandedEpics.forEach((id) => params.append(PARAMS.expandedEpics, id));
+  state.epicStatusFilter.forEach((s) => params.append(PARAMS.epicStatusFilter, s));
+  if (state.search) params.set(PARAMS.search, state.search);
+  if (state.query) params.set(PARAMS.query, state.query);
+  if (!sameColumns(state.columns, DEFAULT_TABLE_COLUMNS)) params.set(PARAMS.columns, state.columns.join(','));
+  const widths = Object.entries(state.columnWidths).map(([column, width]) => `${column}:${width}`);
+  if (widths.length > 0) params.set(PARAMS.columnWidths, widths.join(','));
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Query string for the table listing every result of a full-text search, best match first
+ */
+export function buildSearchResultsQuery(search: string): string {
+  return buildTableQuery({
+    statusFilter: [],
+    typeFilter: [],
+    priorityFilter: [],
+    labelFilter: [],
+    closeReasonFilter: [],
+    sortColumn: 'relevance',
+    sortDirection: DEFAULT_SORT_DIRECTION,
+    showEpicsView: false,
+    expandedEpics: [],
+    epicStatusFilter: [],
+    search: search.trim(),
+    query: '',
+    columns: DEFAULT_TABLE_COLUMNS,
+    columnWidths: {},
+  });
+}
@@ -8,6 +8,9 @@ import { fileURLToPath } from 'url';
 import { createApiRouter } from './routes/api.js';
 import { beadsDirectoryExists } from './utils/beadsReader.js';
 import { ProjectManager } from './utils/projectManager.js';
+import { BdCliBeadsClient } from './utils/beadsClient.js';
+import { StatusHistoryStore, isDashboardDataPath } from './utils/statusHistoryStore.js';
+import type { DashboardSocketEvent } from '@shared/types';
 
 // ESM equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -42,10 +45,14 @@ if (isProduction) {
   app.use(express.static(distPath));
 }
 
+// Status history log, fed by watcher snapshots and read by /api/history
+const historyStore = new StatusHistoryStore(() => projectManager.getProjectRoot());
+const historyClient = new BdCliBeadsClient(() => projectManager.getProjectRoot());
+
 // API routes
-const apiRouter = createApiRouter(projectManager, () => {
-  io.emit('refresh');
-});
+const apiRouter = createApiRouter(projectManager, (event: DashboardSocketEvent = 'refresh') => {
+  io.emit(event);
+}, historyStore);
 app.use('/api', apiRouter);
 
 // Serve index.html for all other routes in production (SPA fallback)
@@ -62,6 +69,30 @@ console.log(`Watching directory: ${projectManager.getProjectRoot()}`);
 // Current file watcher (tracked for cleanup on project switch)
 let currentWatcher: FSWatcher | null = null;
 
+// bd touches several files per write, so wait for the burst to settle
+const HISTORY_SNAPSHOT_DELAY_MS = 1000;
+let historySnapshotTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Schedule a status snapshot into the history log
+ */
+function scheduleHistorySnapshot(): void {
+  if (historySnapshotTimer) {
+    clearTimeout(historySnapshotTimer);
+  }
+  historySnapshotTimer = setTimeout(async () => {
+    historySnapshotTimer = null;
+    try {
+      const transitions = await historyStore.record(await historyClient.listIssues());
+      if (transitions.length > 0) {
+        console.log(`Recorded ${transitions.length} status transition(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to record status history:', error);
+    }
+  }, HISTORY_SNAPSHOT_DELAY_MS);
+}
+
 /**
  * Set up file watcher for a project's .beads directory
  * Closes any existing watcher first
@@ -83,8 +114,12 @@ function setupWatcher(projectRoot: string): void {
     });
 
     currentWatcher.on('all', (event, filePath) => {
+      // Ignore the dashboard's own files (history log) to avoid feedback loops
+      if (isDashboardDataPath(beadsDir, filePath)) return;
+
       console.log(`File ${event}: ${filePath}`);
       io.emit('refresh');
+      scheduleHistorySnapshot();
     });
   } else {
     console.log(`No .beads directory found at ${beadsDir}. Waiting for it to be created...`);
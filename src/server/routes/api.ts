@@ -1,8 +1,18 @@
 import express, { Request, Response } from 'express';
 import { BdCliBeadsClient } from '../utils/beadsClient.js';
+import { BeadsHealthCache, requireWritable } from '../utils/writeGuard.js';
+import { StatusHistoryStore } from '../utils/statusHistoryStore.js';
+import { IssueMetadataStore } from '../utils/issueMetadataStore.js';
+import { SavedViewStore } from '../utils/savedViewStore.js';
+import { readDashboardConfig } from '../utils/dashboardConfig.js';
+import { ISSUE_TYPE_PATTERN } from '../../shared/dashboardConfig.js';
+import { computeReadyWork } from '../../shared/readyWork.js';
+import { buildSearchIndex, searchIssues } from '../../shared/search.js';
+import { filterIssuesByQuery } from '../../shared/issueQuery.js';
+import { buildIssueActivity } from '../../shared/issueActivity.js';
 import { getBeadsProjects, isValidBeadsProject } from '../utils/registryReader.js';
 import type { ProjectManager } from '../utils/projectManager.js';
-import type { UpdateIssueDescriptionRequest, UpdateIssueStatusRequest, UpdateIssuePriorityRequest, UpdateIssueRequest, IssueStatus, Priority } from '@shared/types';
+import type { UpdateIssueDescriptionRequest, UpdateIssueStatusRequest, UpdateIssuePriorityRequest, UpdateIssueRequest, UpdateIssueDependenciesRequest, BulkUpdateIssuesRequest, BulkIssueUpdates, CreateIssueRequest, UpdateIssueRanksRequest, AddIssueCommentRequest, IssueComment, IssueConflictResponse, UpdateIssueResponse, Issue, CreateSavedViewRequest, UpdateSavedViewRequest, SetDefaultViewRequest, SavedViewTab, DashboardSocketEvent, IssueDependency, IssueStatus, Priority } from '@shared/types';
 
 /**
  * Validate that an issue ID is safe for shell commands.
@@ -34,9 +44,258 @@ function isValidPriority(priority: number): priority is Priority {
   return Number.isInteger(priority) && priority >= 0 && priority <= 4;
 }
 
-export function createApiRouter(projectManager: ProjectManager, emitRefresh: () => void) {
+/**
+ * Validate dependency link payloads.
+ * Every link must involve the issue being edited and carry a well-formed type
+ * (any Beads dependency type: blocks, parent-child, discovered-from, related, ...).
+ */
+function validateDependencies(issueId: string, dependencies: unknown): string | null {
+  if (!Array.isArray(dependencies)) {
+    return 'Dependencies must be an array';
+  }
+
+  for (const dep of dependencies as Partial<IssueDependency>[]) {
+    if (!dep || typeof dep.issue_id !== 'string' || typeof dep.depends_on_id !== 'string') {
+      return 'Each dependency needs issue_id and depends_on_id';
+    }
+    if (!isValidIssueId(dep.issue_id) || !isValidIssueId(dep.depends_on_id)) {
+      return 'Invalid dependency issue ID format';
+    }
+    if (dep.issue_id !== issueId && dep.depends_on_id !== issueId) {
+      return `Dependency ${dep.issue_id} -> ${dep.depends_on_id} does not involve ${issueId}`;
+    }
+    if (dep.issue_id === dep.depends_on_id) {
+      return 'An issue cannot depend on itself';
+    }
+    if (typeof dep.type !== 'string' || !/^[a-z][a-z_-]{0,39}$/.test(dep.type)) {
+      return 'Invalid dependency type';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a close reason: optional, but only meaningful when closing
+ */
+function validateCloseReason(closeReason: unknown, status: IssueStatus | undefined): string | null {
+  if (closeReason === undefined) return null;
+  if (typeof closeReason !== 'string' || closeReason.length > 1000) {
+    return 'Invalid close reason';
+  }
+  if (status !== 'closed') {
+    return 'Close reason requires status "closed"';
+  }
+  return null;
+}
+
+/**
+ * Validate an expected_updated_at precondition: optional, but must be a timestamp
+ */
+function validateExpectedUpdatedAt(expectedUpdatedAt: unknown): string | null {
+  if (expectedUpdatedAt === undefined) return null;
+  if (typeof expectedUpdatedAt !== 'string' || Number.isNaN(Date.parse(expectedUpdatedAt))) {
+    return 'Invalid expected_updated_at';
+  }
+  return null;
+}
+
+// Upper bound on ranks per request; reordering renumbers at most one column
+const MAX_RANK_UPDATES = 1000;
+
+/**
+ * Validate a rank update: issue IDs mapped to finite numbers (or null to clear).
+ * Returns an error message or null when the updates are usable.
+ */
+function validateRankUpdates(ranks: unknown): string | null {
+  if (!ranks || typeof ranks !== 'object' || Array.isArray(ranks)) {
+    return 'ranks must be an object of issue IDs to numbers';
+  }
+  const entries = Object.entries(ranks);
+  if (entries.length === 0) {
+    return 'No ranks to update';
+  }
+  if (entries.length > MAX_RANK_UPDATES) {
+    return `Too many ranks (max ${MAX_RANK_UPDATES})`;
+  }
+  for (const [id, rank] of entries) {
+    if (!isValidIssueId(id)) {
+      return 'Invalid issue ID format';
+    }
+    if (rank !== null && (typeof rank !== 'number' || !Number.isFinite(rank))) {
+      return `Invalid rank for ${id} (must be a finite number or null)`;
+    }
+  }
+  return null;
+}
+
+const VALID_VIEW_TABS: SavedViewTab[] = ['table', 'dashboard', 'graph'];
+function isValidViewTab(tab: unknown): tab is SavedViewTab {
+  return VALID_VIEW_TABS.includes(tab as SavedViewTab);
+}
+
+const MAX_VIEW_NAME_LENGTH = 100;
+const MAX_VIEW_QUERY_LENGTH = 2000;
+
+/**
+ * Validate the name and query of a saved view; either may be left out of an update.
+ * Returns an error message or null when the fields are usable.
+ */
+function validateSavedViewFields(name: unknown, query: unknown): string | null {
+  if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+    return 'View name is required';
+  }
+  if (typeof name === 'string' && name.trim().length > MAX_VIEW_NAME_LENGTH) {
+    return `View name is too long (max ${MAX_VIEW_NAME_LENGTH} characters)`;
+  }
+  if (query !== undefined && (typeof query !== 'string' || (query !== '' && !query.startsWith('?')))) {
+    return 'View query must be empty or a URL query string starting with "?"';
+  }
+  if (typeof query === 'string' && query.length > MAX_VIEW_QUERY_LENGTH) {
+    return `View query is too long (max ${MAX_VIEW_QUERY_LENGTH} characters)`;
+  }
+  return null;
+}
+
+/**
+ * Validate a create-issue payload beyond the title, type and priority.
+ * Returns an error message or null when the fields are usable.
+ */
+function validateNewIssueFields(input: CreateIssueRequest): string | null {
+  if (input.assignee !== undefined && typeof input.assignee !== 'string') {
+    return 'Invalid assignee';
+  }
+  if (input.labels !== undefined && (!Array.isArray(input.labels) || !input.labels.every((label) => typeof label === 'string' && label.trim().length > 0 && !label.includes(',')))) {
+    return 'Labels must be non-empty strings without commas';
+  }
+  if (input.parent_id !== undefined && input.parent_id !== '' && !isValidIssueId(input.parent_id)) {
+    return 'Invalid parent issue ID format';
+  }
+  for (const field of ['due', 'defer'] as const) {
+    const value = input[field];
+    if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+      return `Invalid ${field} date`;
+    }
+  }
+  if (input.estimate !== undefined && !(Number.isInteger(input.estimate) && input.estimate >= 0)) {
+    return 'Estimate must be a whole number of minutes';
+  }
+  for (const field of ['description', 'external_ref', 'design', 'acceptance_criteria', 'notes'] as const) {
+    if (input[field] !== undefined && typeof input[field] !== 'string') {
+      return `Invalid ${field}`;
+    }
+  }
+
+  if (input.dependencies !== undefined) {
+    if (!Array.isArray(input.dependencies)) {
+      return 'Dependencies must be an array';
+    }
+    for (const dep of input.dependencies) {
+      // Exactly one side names an existing issue; the other is the new issue
+      const otherId = dep?.depends_on_id ?? dep?.issue_id;
+      if (!dep || (dep.issue_id !== undefined) === (dep.depends_on_id !== undefined) || typeof otherId !== 'string') {
+        return 'Each dependency needs either issue_id or depends_on_id';
+      }
+      if (!isValidIssueId(otherId)) {
+        return 'Invalid dependency issue ID format';
+      }
+      if (typeof dep.type !== 'string' || !/^[a-z][a-z_-]{0,39}$/.test(dep.type)) {
+        return 'Invalid dependency type';
+      }
+    }
+  }
+
+  return null;
+}
+
+// Upper bound on issues per bulk request; each issue costs several bd calls
+const MAX_BULK_ISSUES = 200;
+
+/**
+ * Validate a bulk update payload.
+ * Returns an error message or null when the ids and updates are usable.
+ */
+function validateBulkUpdate(ids: unknown, updates: BulkIssueUpdates | undefined): string | null {
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return 'At least one issue ID is required';
+  }
+  if (ids.length > MAX_BULK_ISSUES) {
+    return `Too many issues (max ${MAX_BULK_ISSUES})`;
+  }
+  if (!ids.every((id) => typeof id === 'string' && isValidIssueId(id))) {
+    return 'Invalid issue ID format';
+  }
+
+  if (!updates || typeof updates !== 'object' || Object.keys(updates).length === 0) {
+    return 'No fields to update';
+  }
+  if (updates.status !== undefined && !isValidStatus(updates.status)) {
+    return 'Invalid status value';
+  }
+  if (updates.priority !== undefined && !isValidPriority(updates.priority)) {
+    return 'Invalid priority value (must be 0-4)';
+  }
+  if (updates.assignee !== undefined && typeof updates.assignee !== 'string') {
+    return 'Invalid assignee';
+  }
+  if (updates.parent_id !== undefined && updates.parent_id !== '' && updates.parent_id !== null && !isValidIssueId(updates.parent_id)) {
+    return 'Invalid parent issue ID format';
+  }
+  for (const labels of [updates.add_labels, updates.remove_labels]) {
+    if (labels !== undefined && (!Array.isArray(labels) || !labels.every((label) => typeof label === 'string' && label.trim().length > 0))) {
+      return 'Labels must be non-empty strings';
+    }
+  }
+
+  return validateCloseReason(updates.close_reason, updates.status);
+}
+
+export function createApiRouter(
+  projectManager: ProjectManager,
+  // Called with no event for a full refresh
+  emitRefresh: (event?: DashboardSocketEvent) => void,
+  historyStore = new StatusHistoryStore(() => projectManager.getProjectRoot()),
+  metadataStore = new IssueMetadataStore(() => projectManager.getProjectRoot()),
+  savedViewStore = new SavedViewStore(() => projectManager.getProjectRoot()),
+) {
   const router = express.Router();
   const beadsClient = new BdCliBeadsClient(() => projectManager.getProjectRoot());
+  const healthCache = new BeadsHealthCache(beadsClient, () => projectManager.getProjectRoot());
+  // Rejects writes while the database is read-only (e.g. pending remote migration)
+  const writable = requireWritable(healthCache);
+
+  // Writes to one issue run one after another, so two requests with the same
+  // expected_updated_at can't both pass the check before either has written.
+  // Changes made with bd outside the dashboard are not serialized with these.
+  const issueWrites = new Map<string, Promise<unknown>>();
+  const serializeIssueWrite = <T>(id: string, write: () => Promise<T>): Promise<T> => {
+    const next = (issueWrites.get(id) ?? Promise.resolve()).catch(() => undefined).then(write);
+    issueWrites.set(id, next);
+    next.catch(() => undefined).finally(() => {
+      if (issueWrites.get(id) === next) issueWrites.delete(id);
+    });
+    return next;
+  };
+
+  const findIssue = async (id: string): Promise<Issue | undefined> =>
+    (await beadsClient.listIssues()).find((issue) => issue.id === id);
+
+  // Sends 404 or 409 and returns false when the issue is gone or changed since expectedUpdatedAt
+  const checkUpdatedAt = async (res: Response, id: string, expectedUpdatedAt: string | undefined): Promise<boolean> => {
+    if (expectedUpdatedAt === undefined) return true;
+    const current = await findIssue(id);
+    if (!current) {
+      res.status(404).json({ error: 'Issue not found' });
+      return false;
+    }
+    // Compared as instants, since the same time can be written more than one way
+    if (!current.updated_at || Date.parse(current.updated_at) !== Date.parse(expectedUpdatedAt)) {
+      const conflict: IssueConflictResponse = { error: 'The issue was changed since it was loaded', issue: current };
+      res.status(409).json(conflict);
+      return false;
+    }
+    return true;
+  };
 
   /**
    * GET /api/beads/health
@@ -44,7 +303,7 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
    */
   router.get('/beads/health', async (_req: Request, res: Response) => {
     try {
-      const health = await beadsClient.getHealth();
+      const health = await healthCache.get({ force: true });
       res.json(health);
     } catch (err) {
       console.error(err);
@@ -66,11 +325,290 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
     }
   });
 
+  /**
+   * GET /api/history
+   * Returns the recorded status transitions for the current project.
+   * Read-only: snapshots are taken by the file watcher when .beads changes.
+   */
+  router.get('/history', async (_req: Request, res: Response) => {
+    try {
+      const transitions = await historyStore.read();
+      res.json({ transitions });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to read status history' });
+    }
+  });
+
+  /**
+   * GET /api/ready
+   * Returns the actionable queue with the same rules as `bd ready` (open, not
+   * deferred, no unclosed blockers on the issue or its ancestors), plus every
+   * other unfinished issue with the reasons it isn't ready.
+   */
+  router.get('/ready', async (_req: Request, res: Response) => {
+    try {
+      res.json(computeReadyWork(await beadsClient.listIssues()));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to compute ready work' });
+    }
+  });
+
+  /**
+   * GET /api/issues?q=...&me=...
+   * Returns the issues matching a structured query such as
+   * `status:open priority:<=1 -label:wontfix`, evaluated by the same shared
+   * module as the table's query box. assignee:me is `me`, defaulting to BD_ACTOR.
+   */
+  router.get('/issues', async (req: Request, res: Response) => {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    const me = typeof req.query.me === 'string' ? req.query.me : process.env.BD_ACTOR;
+
+    try {
+      const issues = (await beadsClient.listIssues()).filter((issue) => issue.status !== 'tombstone');
+      const result = filterIssuesByQuery(issues, query, { me });
+      if (result.errors.length > 0) {
+        return res.status(400).json({ error: result.errors[0].message, errors: result.errors });
+      }
+      res.json({ issues: result.issues });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to query issues' });
+    }
+  });
+
+  /**
+   * GET /api/search?q=...&limit=...
+   * Full-text search over IDs, titles, labels, people, external refs and the
+   * markdown fields. Every term must match; results are ranked with a
+   * highlighted snippet per matched field. Without a limit, all matches are returned.
+   */
+  router.get('/search', async (req: Request, res: Response) => {
+    const query = typeof req.query.q === 'string' ? req.query.q : '';
+    let limit = Infinity;
+    if (req.query.limit !== undefined) {
+      limit = Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        return res.status(400).json({ error: 'limit must be a positive integer' });
+      }
+    }
+
+    try {
+      const index = buildSearchIndex(await beadsClient.listIssues());
+      res.json(searchIssues(index, query, limit));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to search issues' });
+    }
+  });
+
+  /**
+   * GET /api/config
+   * Returns the project's dashboard configuration (.beads/dashboard.json merged
+   * over the defaults) and any problems found in the file.
+   */
+  router.get('/config', (_req: Request, res: Response) => {
+    try {
+      res.json(readDashboardConfig(projectManager.getProjectRoot()));
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to read dashboard configuration' });
+    }
+  });
+
+  /**
+   * GET /api/ranks
+   * Returns the manual board order (rank per issue id) from dashboard metadata.
+   */
+  router.get('/ranks', async (_req: Request, res: Response) => {
+    try {
+      res.json({ ranks: await metadataStore.getRanks() });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to read issue ranks' });
+    }
+  });
+
+  /**
+   * PATCH /api/ranks
+   * Sets or clears (null) issue ranks. Ranks are dashboard metadata, so this
+   * doesn't touch Beads and works while the database is read-only.
+   */
+  router.patch('/ranks', async (req: Request, res: Response) => {
+    const { ranks } = (req.body ?? {}) as UpdateIssueRanksRequest;
+
+    const validationError = validateRankUpdates(ranks);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    try {
+      const updated = await metadataStore.setRanks(ranks);
+      res.json({ ranks: updated });
+
+      // Only the ranks need reloading
+      emitRefresh('ranks-changed');
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to update issue ranks' });
+    }
+  });
+
+  /**
+   * GET /api/views
+   * Returns the project's saved views and the default view of each tab.
+   */
+  router.get('/views', async (_req: Request, res: Response) => {
+    try {
+      res.json(await savedViewStore.list());
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to read saved views' });
+    }
+  });
+
+  /**
+   * POST /api/views
+   * Saves a named view of a tab. Views are dashboard data shared by everyone
+   * using this project's dashboard; they don't touch Beads.
+   */
+  router.post('/views', async (req: Request, res: Response) => {
+    const { name, tab, query } = (req.body ?? {}) as CreateSavedViewRequest;
+
+    if (name === undefined) {
+      return res.status(400).json({ error: 'View name is required' });
+    }
+    if (!isValidViewTab(tab)) {
+      return res.status(400).json({ error: 'Invalid tab' });
+    }
+    const validationError = validateSavedViewFields(name, query ?? '');
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    try {
+      const view = await savedViewStore.create({ name, tab, query: query ?? '' });
+      res.status(201).json({ view });
+
+      emitRefresh('views-changed');
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to save view' });
+    }
+  });
+
+  /**
+   * PATCH /api/views/:id
+   * Renames a saved view or replaces its query.
+   */
+  router.patch('/views/:id', async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+    const { name, query } = (req.body ?? {}) as UpdateSavedViewRequest;
+
+    if (name === undefined && query === undefined) {
+      return res.status(400).json({ error: 'No updates provided' });
+    }
+    const validationError = validateSavedViewFields(name, query);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    try {
+      const view = await savedViewStore.update(id, { name, query });
+      if (!view) {
+        return res.status(404).json({ error: 'Saved view not found' });
+      }
+      res.json({ view });
+
+      emitRefresh('views-changed');
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to update view' });
+    }
+  });
+
+  /**
+   * DELETE /api/views/:id
+   * Deletes a saved view; a tab it was the default for goes back to no default.
+   */
+  router.delete('/views/:id', async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+
+    try {
+      const removed = await savedViewStore.remove(id);
+      if (!removed) {
+        return res.status(404).json({ error: 'Saved view not found' });
+      }
+      res.json({ success: true });
+
+      emitRefresh('views-changed');
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to delete view' });
+    }
+  });
+
+  /**
+   * PUT /api/views/defaults/:tab
+   * Sets the view a tab opens with, or clears it with { viewId: null }.
+   */
+  router.put('/views/defaults/:tab', async (req: Request, res: Response) => {
+    const tab = getRouteParam(req.params.tab);
+    const { viewId } = (req.body ?? {}) as SetDefaultViewRequest;
+
+    if (!isValidViewTab(tab)) {
+      return res.status(400).json({ error: 'Invalid tab' });
+    }
+    if (viewId !== null && typeof viewId !== 'string') {
+      return res.status(400).json({ error: 'viewId must be a view ID or null' });
+    }
+
+    try {
+      const updated = await savedViewStore.setDefault(tab, viewId);
+      if (!updated) {
+        return res.status(400).json({ error: `No saved ${tab} view with that ID` });
+      }
+      res.json(updated);
+
+      emitRefresh('views-changed');
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to set default view' });
+    }
+  });
+
+  /**
+   * POST /api/issues/bulk
+   * Applies the same updates to several issues and reports a result per issue.
+   * Registered before /issues/:id so "bulk" is not treated as an issue ID.
+   */
+  router.post('/issues/bulk', writable, async (req: Request, res: Response) => {
+    const { ids, updates } = (req.body ?? {}) as BulkUpdateIssuesRequest;
+
+    const validationError = validateBulkUpdate(ids, updates);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    try {
+      const results = await beadsClient.bulkUpdateIssues([...new Set(ids)], updates);
+
+      res.json({ success: results.every((result) => result.success), results });
+
+      // Manually trigger refresh after sync
+      emitRefresh();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
   /**
    * POST /api/issues/:id
    * Updates issue description via bd update command
    */
-  router.post('/issues/:id', async (req: Request, res: Response) => {
+  router.post('/issues/:id', writable, async (req: Request, res: Response) => {
     const id = getRouteParam(req.params.id);
     const { description } = req.body as UpdateIssueDescriptionRequest;
 
@@ -98,11 +636,13 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
 
   /**
    * POST /api/issues/:id/status
-   * Updates issue status via bd update command
+   * Updates issue status via bd update command and returns the updated issue.
+   * With expected_updated_at, nothing is changed and 409 is returned (with the
+   * current issue) when the issue was updated since the client loaded it
    */
-  router.post('/issues/:id/status', async (req: Request, res: Response) => {
+  router.post('/issues/:id/status', writable, async (req: Request, res: Response) => {
     const id = getRouteParam(req.params.id);
-    const { status } = req.body as UpdateIssueStatusRequest;
+    const { status, close_reason: closeReason, expected_updated_at: expectedUpdatedAt } = req.body as UpdateIssueStatusRequest;
 
     // Validate issue ID to prevent command injection
     if (!isValidIssueId(id)) {
@@ -118,13 +658,29 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
       return res.status(400).json({ error: 'Invalid status value' });
     }
 
+    const closeReasonError = validateCloseReason(closeReason, status);
+    if (closeReasonError) {
+      return res.status(400).json({ error: closeReasonError });
+    }
+
+    const expectedUpdatedAtError = validateExpectedUpdatedAt(expectedUpdatedAt);
+    if (expectedUpdatedAtError) {
+      return res.status(400).json({ error: expectedUpdatedAtError });
+    }
+
     try {
-      await beadsClient.updateStatus(id, status);
+      const updated = await serializeIssueWrite(id, async () => {
+        if (!(await checkUpdatedAt(res, id, expectedUpdatedAt))) return false;
 
-      res.json({ success: true });
+        await beadsClient.updateStatus(id, status, closeReason);
+
+        const response: UpdateIssueResponse = { success: true, issue: await findIssue(id) };
+        res.json(response);
+        return true;
+      });
 
       // Manually trigger refresh after sync
-      emitRefresh();
+      if (updated) emitRefresh();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       res.status(500).json({ error: errorMessage });
@@ -135,7 +691,7 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
    * POST /api/issues/:id/priority
    * Updates issue priority via bd update command
    */
-  router.post('/issues/:id/priority', async (req: Request, res: Response) => {
+  router.post('/issues/:id/priority', writable, async (req: Request, res: Response) => {
     const id = getRouteParam(req.params.id);
     const { priority } = req.body as UpdateIssuePriorityRequest;
 
@@ -168,12 +724,16 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
 
   /**
    * PATCH /api/issues/:id
-   * Updates multiple issue fields via bd update command
+   * Updates multiple issue fields via bd update command and returns the updated issue
    * All fields are optional - only provided fields will be updated
+   * With expected_updated_at, nothing is changed and 409 is returned (with the
+   * current issue) when the issue was updated since the client loaded it.
+   * Writes to one issue are serialized, so of two requests made against the
+   * same updated_at only the first succeeds.
    */
-  router.patch('/issues/:id', async (req: Request, res: Response) => {
+  router.patch('/issues/:id', writable, async (req: Request, res: Response) => {
     const id = getRouteParam(req.params.id);
-    const updates = req.body as UpdateIssueRequest;
+    const { expected_updated_at: expectedUpdatedAt, ...updates } = (req.body || {}) as UpdateIssueRequest;
 
     // Validate issue ID to prevent command injection
     if (!isValidIssueId(id)) {
@@ -200,12 +760,118 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
       return res.status(400).json({ error: 'Invalid parent issue ID format' });
     }
 
+    const closeReasonError = validateCloseReason(updates.close_reason, updates.status);
+    if (closeReasonError) {
+      return res.status(400).json({ error: closeReasonError });
+    }
+
+    const expectedUpdatedAtError = validateExpectedUpdatedAt(expectedUpdatedAt);
+    if (expectedUpdatedAtError) {
+      return res.status(400).json({ error: expectedUpdatedAtError });
+    }
+
     try {
-      const errors = await beadsClient.updateIssue(id, updates);
+      const updated = await serializeIssueWrite(id, async () => {
+        if (!(await checkUpdatedAt(res, id, expectedUpdatedAt))) return false;
+
+        const errors = await beadsClient.updateIssue(id, updates);
+
+        // If there were any errors, return them but still report partial success
+        const response: UpdateIssueResponse = errors.length > 0
+          ? { success: false, error: `Some fields failed to update: ${errors.join('; ')}` }
+          : { success: true };
+        // The new updated_at lets the client make its next change without waiting for a refresh
+        response.issue = await findIssue(id);
+        res.json(response);
+        return true;
+      });
+
+      // Manually trigger refresh after sync
+      if (updated) emitRefresh();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  /**
+   * POST /api/issues/:id/dependencies
+   * Replaces the set of dependency links involving an issue.
+   * Current links are diffed against the request and applied via bd dep add/remove;
+   * links that would create a cycle are rejected individually.
+   * Returns the updated issue, whose updated_at the links may have changed.
+   * With expected_updated_at, nothing is changed and 409 is returned (with the
+   * current issue) if the issue was updated since then.
+   */
+  router.post('/issues/:id/dependencies', writable, async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+    const { dependencies, expected_updated_at: expectedUpdatedAt } = (req.body || {}) as UpdateIssueDependenciesRequest;
+
+    // Validate issue ID to prevent command injection
+    if (!isValidIssueId(id)) {
+      return res.status(400).json({ error: 'Invalid issue ID format' });
+    }
+
+    const validationError = validateDependencies(id, dependencies);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const expectedUpdatedAtError = validateExpectedUpdatedAt(expectedUpdatedAt);
+    if (expectedUpdatedAtError) {
+      return res.status(400).json({ error: expectedUpdatedAtError });
+    }
+
+    try {
+      const updated = await serializeIssueWrite(id, async () => {
+        if (!(await checkUpdatedAt(res, id, expectedUpdatedAt))) return false;
+
+        const errors = await beadsClient.setDependencies(id, dependencies);
+        const response: UpdateIssueResponse = {
+          ...(errors.length > 0
+            ? { success: false, error: `Some dependencies failed to update: ${errors.join('; ')}` }
+            : { success: true }),
+          issue: await findIssue(id),
+        };
+        res.json(response);
+        return true;
+      });
+
+      // Manually trigger refresh after sync
+      if (updated) emitRefresh();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  /**
+   * DELETE /api/issues/:id/dependencies
+   * Removes the listed dependency links via bd dep remove
+   */
+  router.delete('/issues/:id/dependencies', writable, async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+    const { dependencies } = (req.body || {}) as UpdateIssueDependenciesRequest;
+
+    // Validate issue ID to prevent command injection
+    if (!isValidIssueId(id)) {
+      return res.status(400).json({ error: 'Invalid issue ID format' });
+    }
+
+    const validationError = validateDependencies(id, dependencies);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    if (dependencies.length === 0) {
+      return res.status(400).json({ error: 'No dependencies to remove' });
+    }
+
+    try {
+      const errors = await beadsClient.removeDependencies(id, dependencies);
 
-      // If there were any errors, return them but still report partial success
       if (errors.length > 0) {
-        res.json({ success: false, error: `Some fields failed to update: ${errors.join('; ')}` });
+        res.json({ success: false, error: `Some dependencies failed to update: ${errors.join('; ')}` });
       } else {
         res.json({ success: true });
       }
@@ -219,32 +885,121 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
   });
 
   /**
-   * Validate issue type against allowed values
+   * GET /api/issues/:id/comments
+   * Returns an issue's comments via bd comments, oldest first
    */
-  const VALID_ISSUE_TYPES = ['task', 'bug', 'feature', 'epic', 'chore'];
-  function isValidIssueType(type: string): boolean {
-    return VALID_ISSUE_TYPES.includes(type);
-  }
+  router.get('/issues/:id/comments', async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+
+    // Validate issue ID to prevent command injection
+    if (!isValidIssueId(id)) {
+      return res.status(400).json({ error: 'Invalid issue ID format' });
+    }
+
+    try {
+      const comments = await beadsClient.listComments(id);
+      res.json({ comments });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  /**
+   * POST /api/issues/:id/comments
+   * Adds a comment via bd comments add. Without an author, bd uses its own default.
+   */
+  router.post('/issues/:id/comments', writable, async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+    const { text, author } = (req.body || {}) as AddIssueCommentRequest;
+
+    // Validate issue ID to prevent command injection
+    if (!isValidIssueId(id)) {
+      return res.status(400).json({ error: 'Invalid issue ID format' });
+    }
+
+    if (typeof text !== 'string' || text.trim().length === 0) {
+      return res.status(400).json({ error: 'Comment text is required' });
+    }
+
+    if (author !== undefined && (typeof author !== 'string' || author.length > 100)) {
+      return res.status(400).json({ error: 'Author must be a string of at most 100 characters' });
+    }
+
+    try {
+      const comment = await beadsClient.addComment(id, text, author?.trim() || undefined);
+      res.status(201).json({ success: true, comment });
+
+      // Manually trigger refresh after sync
+      emitRefresh();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  /**
+   * GET /api/issues/:id/activity
+   * Returns an issue's timeline: creation, comments, status transitions, label
+   * changes and dependency edits, oldest first. Like GET /api/history it only
+   * reads the logs the file watcher keeps.
+   * Only creation and comments carry an author; the rest is observed by
+   * diffing snapshots, so who made the change is unknown. Label and dependency
+   * changes are diffed against an in-memory baseline, so changes made while the
+   * server is not running are missed.
+   */
+  router.get('/issues/:id/activity', async (req: Request, res: Response) => {
+    const id = getRouteParam(req.params.id);
+
+    // Validate issue ID to prevent command injection
+    if (!isValidIssueId(id)) {
+      return res.status(400).json({ error: 'Invalid issue ID format' });
+    }
+
+    try {
+      const issues = await beadsClient.listIssues();
+      if (!issues.some((issue) => issue.id === id)) {
+        return res.status(404).json({ error: 'Issue not found' });
+      }
+
+      // Older bd versions have no comments command; show the rest of the timeline anyway
+      let comments: IssueComment[] = [];
+      try {
+        comments = await beadsClient.listComments(id);
+      } catch (error) {
+        console.error('Failed to list comments:', error);
+      }
+
+      const events = buildIssueActivity(id, {
+        issues,
+        comments,
+        transitions: await historyStore.read(),
+        changes: await historyStore.readChanges(),
+      });
+      res.json({ events });
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ error: 'Failed to read issue activity' });
+    }
+  });
 
   /**
    * POST /api/issues
-   * Creates a new issue via bd create command
+   * Creates a new issue via bd create command, with any of the editable fields
+   * and initial dependency links. If some fields fail after the issue exists,
+   * responds with success false, the new ID and the failed fields.
    */
-  router.post('/issues', async (req: Request, res: Response) => {
-    const { title, description, issue_type, priority } = req.body as {
-      title: string;
-      description?: string;
-      issue_type?: string;
-      priority?: number;
-    };
-
-    if (!title || title.trim().length === 0) {
+  router.post('/issues', writable, async (req: Request, res: Response) => {
+    const input = (req.body || {}) as CreateIssueRequest;
+    const { title, issue_type, priority } = input;
+
+    if (typeof title !== 'string' || title.trim().length === 0) {
       return res.status(400).json({ error: 'Title is required' });
     }
 
-    // Validate issue_type if provided
+    // Any well-formed type, so custom Beads types work too
     const type = issue_type || 'task';
-    if (!isValidIssueType(type)) {
+    if (typeof type !== 'string' || !ISSUE_TYPE_PATTERN.test(type)) {
       return res.status(400).json({ error: 'Invalid issue type' });
     }
 
@@ -254,15 +1009,25 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
       return res.status(400).json({ error: 'Invalid priority value (must be 0-4)' });
     }
 
+    const validationError = validateNewIssueFields(input);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
     try {
-      const issueId = await beadsClient.createIssue({
-        title,
-        description,
+      const { id, errors } = await beadsClient.createIssue({
+        ...input,
+        assignee: input.assignee?.trim() || undefined,
+        labels: input.labels?.map((label) => label.trim()),
         issue_type: type,
         priority: prio,
       });
 
-      res.json({ success: true, id: issueId });
+      if (errors.length > 0) {
+        res.json({ success: false, id, error: `Issue ${id} was created, but some fields failed: ${errors.join('; ')}` });
+      } else {
+        res.json({ success: true, id });
+      }
 
       // Manually trigger refresh after sync
       emitRefresh();
@@ -318,6 +1083,8 @@ export function createApiRouter(projectManager: ProjectManager, emitRefresh: ()
 
     try {
       projectManager.setProjectRoot(newPath);
+      // The new project gets a fresh health check before its first write
+      healthCache.invalidate(newPath);
       res.json({ success: true, path: newPath });
 
       // Emit refresh to trigger data reload
@@ -5,25 +5,44 @@ import crypto from 'crypto';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
 import { readBeadsData, parseIssuesJsonl } from './beadsReader.js';
-import type { BeadsHealth, BeadsHealthIssue, Issue, IssueStatus, Priority, UpdateIssueRequest } from '@shared/types';
+import {
+  addEdge,
+  buildDependencyAdjacency,
+  collectIssueLinks,
+  dependencyKey,
+  findCycleForEdge,
+  isOrderingDependency,
+  removeEdge,
+} from '../../shared/dependencyGraph.js';
+import type { BeadsHealth, BeadsHealthIssue, BulkIssueResult, CreateIssueRequest, BulkIssueUpdates, Issue, IssueComment, IssueDependency, IssueStatus, Priority, UpdateIssueRequest } from '@shared/types';
 
 const execFileAsync = promisify(execFile);
 
-export interface CreateIssueInput {
-  title: string;
-  description?: string;
+export interface CreateIssueInput extends Omit<CreateIssueRequest, 'issue_type' | 'priority'> {
   issue_type: string;
   priority: Priority;
 }
 
+// The new issue's ID (null if bd didn't report one) and the fields that failed after creation
+export interface CreateIssueResult {
+  id: string | null;
+  errors: string[];
+}
+
 export interface BeadsClient {
   getHealth(): Promise<BeadsHealth>;
   listIssues(): Promise<Issue[]>;
   updateDescription(id: string, description: string): Promise<void>;
-  updateStatus(id: string, status: IssueStatus): Promise<void>;
+  updateStatus(id: string, status: IssueStatus, closeReason?: string): Promise<void>;
   updatePriority(id: string, priority: Priority): Promise<void>;
   updateIssue(id: string, updates: UpdateIssueRequest): Promise<string[]>;
-  createIssue(input: CreateIssueInput): Promise<string | null>;
+  closeIssue(id: string, reason?: string): Promise<void>;
+  bulkUpdateIssues(ids: string[], updates: BulkIssueUpdates): Promise<BulkIssueResult[]>;
+  createIssue(input: CreateIssueInput): Promise<CreateIssueResult>;
+  setDependencies(id: string, dependencies: IssueDependency[]): Promise<string[]>;
+  removeDependencies(id: string, dependencies: IssueDependency[]): Promise<string[]>;
+  listComments(id: string): Promise<IssueComment[]>;
+  addComment(id: string, text: string, author?: string): Promise<IssueComment | null>;
 }
 
 export class BdCliBeadsClient implements BeadsClient {
@@ -114,7 +133,11 @@ export class BdCliBeadsClient implements BeadsClient {
     await this.updateFileField(id, 'body-file', description, 'desc');
   }
 
-  async updateStatus(id: string, status: IssueStatus): Promise<void> {
+  async updateStatus(id: string, status: IssueStatus, closeReason?: string): Promise<void> {
+    if (status === 'closed') {
+      await this.closeIssue(id, closeReason);
+      return;
+    }
     await this.runBd(['update', id, '--status', status]);
   }
 
@@ -132,7 +155,9 @@ export class BdCliBeadsClient implements BeadsClient {
       await this.runBd(['update', id, '--title', title]);
     });
 
-    await this.tryField(errors, 'status', updates.status, async (status) => {
+    // Closing runs last (bd close) so the other fields land first
+    const statusUpdate = updates.status === 'closed' ? undefined : updates.status;
+    await this.tryField(errors, 'status', statusUpdate, async (status) => {
       await this.runBd(['update', id, '--status', status]);
     });
 
@@ -204,29 +229,213 @@ export class BdCliBeadsClient implements BeadsClient {
       }
     });
 
+    if (updates.status === 'closed') {
+      await this.capture(errors, 'status', () => this.closeIssue(id, updates.close_reason));
+    }
+
     return errors;
   }
 
-  async createIssue(input: CreateIssueInput): Promise<string | null> {
-    const { stdout } = await this.runBd([
+  async closeIssue(id: string, reason?: string): Promise<void> {
+    const args = ['close', id];
+    if (reason && reason.trim().length > 0) {
+      args.push('--reason', reason.trim());
+    }
+    await this.runBd(args);
+  }
+
+  /**
+   * Apply the same changes to several issues, one issue at a time.
+   * Issues are read once up front so label changes only touch labels that
+   * actually need adding or removing.
+   */
+  async bulkUpdateIssues(ids: string[], updates: BulkIssueUpdates): Promise<BulkIssueResult[]> {
+    const issuesById = new Map((await this.listIssues()).map((issue) => [issue.id, issue]));
+    const results: BulkIssueResult[] = [];
+
+    for (const id of ids) {
+      const issue = issuesById.get(id);
+      if (!issue) {
+        results.push({ id, success: false, error: 'Issue not found' });
+        continue;
+      }
+
+      const errors: string[] = [];
+      const fieldUpdates: UpdateIssueRequest = {};
+      if (updates.status !== undefined && updates.status !== 'closed') fieldUpdates.status = updates.status;
+      if (updates.priority !== undefined) fieldUpdates.priority = updates.priority;
+      if (updates.assignee !== undefined) fieldUpdates.assignee = updates.assignee;
+      if (updates.parent_id !== undefined) fieldUpdates.parent_id = updates.parent_id ?? '';
+
+      if (Object.keys(fieldUpdates).length > 0) {
+        errors.push(...await this.updateIssue(id, fieldUpdates));
+      }
+
+      const currentLabels = new Set(issue.labels || []);
+      for (const label of updates.add_labels || []) {
+        if (!currentLabels.has(label)) {
+          await this.capture(errors, `label add '${label}'`, () => this.runBd(['label', 'add', id, label]));
+        }
+      }
+      for (const label of updates.remove_labels || []) {
+        if (currentLabels.has(label)) {
+          await this.capture(errors, `label remove '${label}'`, () => this.runBd(['label', 'remove', id, label]));
+        }
+      }
+
+      // Close last so the other changes land while the issue is still open
+      if (updates.status === 'closed' && issue.status !== 'closed') {
+        await this.capture(errors, 'status', () => this.closeIssue(id, updates.close_reason));
+      }
+
+      results.push(errors.length > 0
+        ? { id, success: false, error: errors.join('; ') }
+        : { id, success: true });
+    }
+
+    return results;
+  }
+
+  /**
+   * Create an issue with bd create, passing the short fields as flags.
+   * Multi-line text goes through temp files and links through bd dep add once
+   * the ID is known; failures there leave the issue in place and are returned.
+   */
+  async createIssue(input: CreateIssueInput): Promise<CreateIssueResult> {
+    const args = [
       'create',
       '--title', input.title,
       '--type', input.issue_type,
       '--priority', String(input.priority),
-    ]);
+    ];
+    if (input.assignee) args.push('--assignee', input.assignee);
+    if (input.labels && input.labels.length > 0) args.push('--labels', input.labels.join(','));
+    if (input.parent_id) args.push('--parent', input.parent_id);
+    if (input.due) args.push('--due', input.due);
+    if (input.defer) args.push('--defer', input.defer);
+    if (input.estimate !== undefined) args.push('--estimate', String(input.estimate));
+    if (input.external_ref) args.push('--external-ref', input.external_ref);
+
+    const { stdout } = await this.runBd(args);
 
     const idMatch = stdout.match(/Created issue:\s*(\S+)/i);
     const issueId = idMatch ? idMatch[1] : null;
+    if (!issueId) return { id: null, errors: [] };
 
-    if (input.description && input.description.trim().length > 0 && issueId) {
-      try {
-        await this.updateDescription(issueId, input.description);
-      } catch (error) {
-        console.error('Failed to set description:', error);
+    const textFields: UpdateIssueRequest = {};
+    for (const field of ['description', 'design', 'acceptance_criteria', 'notes'] as const) {
+      const value = input[field];
+      if (value && value.trim().length > 0) textFields[field] = value;
+    }
+    const errors = Object.keys(textFields).length > 0 ? await this.updateIssue(issueId, textFields) : [];
+
+    if (input.dependencies && input.dependencies.length > 0) {
+      const links = input.dependencies.map((dep): IssueDependency => ({
+        issue_id: dep.issue_id ?? issueId,
+        depends_on_id: dep.depends_on_id ?? issueId,
+        type: dep.type,
+      }));
+      errors.push(...await this.setDependencies(issueId, links));
+    }
+
+    return { id: issueId, errors };
+  }
+
+  /**
+   * Make the links involving an issue match the desired set.
+   * Links are diffed against current Beads data; the issue's own parent link is
+   * left alone because it is owned by parent_id on updateIssue.
+   */
+  async setDependencies(id: string, dependencies: IssueDependency[]): Promise<string[]> {
+    const errors: string[] = [];
+    const issues = await this.listIssues();
+    const isOwnParentLink = (dep: IssueDependency) => dep.type === 'parent-child' && dep.issue_id === id;
+
+    const current = new Map(
+      collectIssueLinks(id, issues)
+        .filter((dep) => !isOwnParentLink(dep))
+        .map((dep) => [dependencyKey(dep), dep]),
+    );
+    const desired = new Map(
+      dependencies
+        .filter((dep) => !isOwnParentLink(dep))
+        .map((dep) => [dependencyKey(dep), dep]),
+    );
+
+    const adjacency = buildDependencyAdjacency(issues);
+
+    for (const [key, dep] of current) {
+      if (!desired.has(key)) {
+        await this.capture(errors, `dep remove '${formatLink(dep)}'`, async () => {
+          await this.runBd(['dep', 'remove', dep.issue_id, dep.depends_on_id]);
+          removeEdge(adjacency, dep);
+        });
       }
     }
 
-    return issueId;
+    for (const [key, dep] of desired) {
+      if (current.has(key)) continue;
+
+      // Only blocking and parent-child links can deadlock; other types may loop
+      const cycle = isOrderingDependency(dep.type) ? findCycleForEdge(adjacency, dep.issue_id, dep.depends_on_id) : null;
+      if (cycle) {
+        errors.push(`dep add '${formatLink(dep)}': would create a dependency cycle (${cycle.join(' -> ')})`);
+        continue;
+      }
+
+      await this.capture(errors, `dep add '${formatLink(dep)}'`, async () => {
+        await this.runBd(['dep', 'add', dep.issue_id, dep.depends_on_id, '--type', dep.type]);
+        addEdge(adjacency, dep);
+      });
+    }
+
+    return errors;
+  }
+
+  async removeDependencies(id: string, dependencies: IssueDependency[]): Promise<string[]> {
+    const errors: string[] = [];
+    const current = new Set(collectIssueLinks(id, await this.listIssues()).map(dependencyKey));
+
+    for (const dep of dependencies) {
+      if (!current.has(dependencyKey(dep))) {
+        errors.push(`dep remove '${formatLink(dep)}': link does not exist`);
+        continue;
+      }
+      await this.capture(errors, `dep remove '${formatLink(dep)}'`, () =>
+        this.runBd(['dep', 'remove', dep.issue_id, dep.depends_on_id]));
+    }
+
+    return errors;
+  }
+
+  async listComments(id: string): Promise<IssueComment[]> {
+    const { stdout } = await this.runBd(['comments', id, '--json']);
+    const parsed = stdout.trim() ? JSON.parse(stdout) : [];
+    return Array.isArray(parsed) ? parsed.map((comment) => normalizeComment(id, comment)) : [];
+  }
+
+  /**
+   * Add a comment through a temp file so multi-line text and leading dashes
+   * reach bd unchanged. Returns the stored comment when bd reports it.
+   */
+  async addComment(id: string, text: string, author?: string): Promise<IssueComment | null> {
+    const tempFile = generateTempFilePath('comment_file');
+    try {
+      fs.writeFileSync(tempFile, text);
+      const args = ['comments', 'add', id, '--file', tempFile, '--json'];
+      if (author) args.push('--author', author);
+      const { stdout } = await this.runBd(args);
+      try {
+        const parsed = JSON.parse(stdout);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? normalizeComment(id, parsed) : null;
+      } catch {
+        return null;
+      }
+    } finally {
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+    }
   }
 
   private async updateFileField(id: string, flag: string, content: string, tempPrefix: string): Promise<void> {
@@ -278,6 +487,21 @@ export class BdCliBeadsClient implements BeadsClient {
   }
 }
 
+function formatLink(dep: IssueDependency): string {
+  return `${dep.issue_id} -[${dep.type}]-> ${dep.depends_on_id}`;
+}
+
+// bd returns numeric comment IDs; the dashboard treats every ID as a string
+function normalizeComment(issueId: string, comment: Partial<IssueComment> & { id?: string | number }): IssueComment {
+  return {
+    id: String(comment.id ?? ''),
+    issue_id: comment.issue_id || issueId,
+    author: comment.author || '',
+    text: comment.text || '',
+    created_at: comment.created_at || '',
+  };
+}
+
 function generateTempFilePath(prefix: string): string {
   const uniqueId = cryptoRandomHex();
   return path.join(os.tmpdir(), `${prefix}-${uniqueId}.txt`);
@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import type { DashboardConfigResponse } from '@shared/types';
+import { DEFAULT_DASHBOARD_CONFIG, parseDashboardConfig } from '../../shared/dashboardConfig.js';
+
+const CONFIG_FILE = 'dashboard.json';
+
+/**
+ * Path of the per-project dashboard configuration
+ */
+export function getDashboardConfigPath(projectRoot: string): string {
+  return path.join(projectRoot, '.beads', CONFIG_FILE);
+}
+
+/**
+ * Read and validate a project's dashboard configuration.
+ * A missing file means the defaults; unreadable or invalid JSON is reported
+ * alongside the defaults rather than failing the request.
+ */
+export function readDashboardConfig(projectRoot: string): DashboardConfigResponse {
+  const configPath = getDashboardConfigPath(projectRoot);
+  if (!fs.existsSync(configPath)) {
+    return { config: DEFAULT_DASHBOARD_CONFIG, errors: [] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    return { config: DEFAULT_DASHBOARD_CONFIG, errors: [`Could not parse ${CONFIG_FILE}: ${reason}`] };
+  }
+  return parseDashboardConfig(raw);
+}
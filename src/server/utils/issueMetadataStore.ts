@@ -0,0 +1,72 @@
+import path from 'path';
+import type { IssueRanks } from '@shared/types';
+import { DASHBOARD_DATA_DIR } from './statusHistoryStore.js';
+import { JsonFileStore } from './jsonFileStore.js';
+
+const METADATA_FILE = 'issue-metadata.json';
+
+// Dashboard-only fields for one issue; never written to Beads
+interface IssueMetadata {
+  rank?: number;
+}
+
+/**
+ * Path of the issue metadata file for a project
+ */
+export function getIssueMetadataPath(projectRoot: string): string {
+  return path.join(projectRoot, '.beads', DASHBOARD_DATA_DIR, METADATA_FILE);
+}
+
+/**
+ * IssueMetadataStore - Dashboard-owned per-issue data (e.g. manual board rank),
+ * keyed by issue id and stored next to the status history log.
+ */
+export class IssueMetadataStore {
+  private readonly file: JsonFileStore<Record<string, IssueMetadata>>;
+
+  constructor(getProjectRoot: () => string) {
+    this.file = new JsonFileStore(() => getIssueMetadataPath(getProjectRoot()), parseMetadataFile, () => ({}));
+  }
+
+  /**
+   * Rank of every ranked issue in the current project
+   */
+  getRanks(): Promise<IssueRanks> {
+    return this.file.read().then(toRanks);
+  }
+
+  /**
+   * Set (or with null, clear) ranks. Returns all ranks after the update.
+   */
+  setRanks(updates: Record<string, number | null>): Promise<IssueRanks> {
+    return this.file.modify((metadata) => {
+      for (const [issueId, rank] of Object.entries(updates)) {
+        const { rank: _previous, ...rest } = metadata[issueId] ?? {};
+        const entry: IssueMetadata = rank === null ? rest : { ...rest, rank };
+        if (Object.keys(entry).length > 0) {
+          metadata[issueId] = entry;
+        } else {
+          delete metadata[issueId];
+        }
+      }
+      return toRanks(metadata);
+    });
+  }
+}
+
+function toRanks(metadata: Record<string, IssueMetadata>): IssueRanks {
+  const ranks: IssueRanks = {};
+  for (const [issueId, entry] of Object.entries(metadata)) {
+    if (typeof entry.rank === 'number' && Number.isFinite(entry.rank)) {
+      ranks[issueId] = entry.rank;
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Per-issue metadata from the parsed file; null if it isn't an object
+ */
+function parseMetadataFile(parsed: unknown): Record<string, IssueMetadata> | null {
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, IssueMetadata> : null;
+}
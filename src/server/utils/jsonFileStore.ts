@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * TaskQueue - Runs tasks one at a time in the order they were queued.
+ * A failed task rejects its own promise without stopping the ones after it.
+ */
+export class TaskQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => T): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * JsonFileStore - A JSON file owned by the dashboard, read and changed through
+ * a queue so concurrent read-modify-write cycles don't clobber each other.
+ * A missing or corrupt file reads as empty. Before the first write over a
+ * corrupt file, the file is moved aside so its contents can still be recovered.
+ */
+export class JsonFileStore<T> {
+  private readonly queue = new TaskQueue();
+
+  constructor(
+    private readonly getFilePath: () => string,
+    // Turns parsed JSON into the stored data, or null if it has the wrong shape
+    private readonly parse: (raw: unknown) => T | null,
+    private readonly empty: () => T
+  ) {}
+
+  read(): Promise<T> {
+    const filePath = this.getFilePath();
+    return this.queue.run(() => this.load(filePath).data);
+  }
+
+  /**
+   * Read, change and write back the file as one queued step.
+   * Resolves with what the change returns.
+   */
+  modify<R>(change: (data: T) => R): Promise<R> {
+    const filePath = this.getFilePath();
+    return this.queue.run(() => {
+      const { data, corrupt } = this.load(filePath);
+      const result = change(data);
+
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      if (corrupt) {
+        const backupPath = `${filePath}.corrupt-${Date.now()}`;
+        fs.renameSync(filePath, backupPath);
+        console.warn(`Moved unreadable ${filePath} to ${backupPath}`);
+      }
+
+      // Write then rename so readers never see a half-written file
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2) + '\n');
+      fs.renameSync(tempPath, filePath);
+      return result;
+    });
+  }
+
+  private load(filePath: string): { data: T; corrupt: boolean } {
+    if (!fs.existsSync(filePath)) return { data: this.empty(), corrupt: false };
+    try {
+      const data = this.parse(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+      if (data !== null) return { data, corrupt: false };
+    } catch {
+      // Falls through to the warning below
+    }
+    console.warn(`Ignoring unreadable ${filePath}`);
+    return { data: this.empty(), corrupt: true };
+  }
+}
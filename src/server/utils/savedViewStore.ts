@@ -0,0 +1,111 @@
+import path from 'path';
+import crypto from 'crypto';
+import type { CreateSavedViewRequest, SavedView, SavedViewTab, SavedViewsResponse, UpdateSavedViewRequest } from '@shared/types';
+import { DASHBOARD_DATA_DIR } from './statusHistoryStore.js';
+import { JsonFileStore } from './jsonFileStore.js';
+
+const SAVED_VIEWS_FILE = 'saved-views.json';
+
+/**
+ * Path of the saved views file for a project
+ */
+export function getSavedViewsPath(projectRoot: string): string {
+  return path.join(projectRoot, '.beads', DASHBOARD_DATA_DIR, SAVED_VIEWS_FILE);
+}
+
+/**
+ * SavedViewStore - Named views shared by everyone using the project's
+ * dashboard, plus the default view per tab. Stored next to the status history log.
+ */
+export class SavedViewStore {
+  private readonly file: JsonFileStore<SavedViewsResponse>;
+
+  constructor(getProjectRoot: () => string) {
+    this.file = new JsonFileStore(
+      () => getSavedViewsPath(getProjectRoot()),
+      parseViewsFile,
+      () => ({ views: [], defaults: {} })
+    );
+  }
+
+  /**
+   * Every saved view (in creation order) and the per-tab defaults
+   */
+  list(): Promise<SavedViewsResponse> {
+    return this.file.read();
+  }
+
+  create(input: CreateSavedViewRequest): Promise<SavedView> {
+    return this.file.modify((data) => {
+      const now = new Date().toISOString();
+      const view: SavedView = {
+        id: crypto.randomUUID(),
+        name: input.name.trim(),
+        tab: input.tab,
+        query: input.query,
+        created_at: now,
+        updated_at: now,
+      };
+      data.views.push(view);
+      return view;
+    });
+  }
+
+  /**
+   * Rename a view or replace its query. Resolves with null if it doesn't exist.
+   */
+  update(id: string, updates: UpdateSavedViewRequest): Promise<SavedView | null> {
+    return this.file.modify((data) => {
+      const view = data.views.find((v) => v.id === id);
+      if (!view) return null;
+      if (updates.name !== undefined) view.name = updates.name.trim();
+      if (updates.query !== undefined) view.query = updates.query;
+      view.updated_at = new Date().toISOString();
+      return view;
+    });
+  }
+
+  /**
+   * Delete a view, and clear it wherever it was a tab's default.
+   * Resolves with false if it doesn't exist.
+   */
+  remove(id: string): Promise<boolean> {
+    return this.file.modify((data) => {
+      const index = data.views.findIndex((v) => v.id === id);
+      if (index === -1) return false;
+      data.views.splice(index, 1);
+      for (const [tab, viewId] of Object.entries(data.defaults)) {
+        if (viewId === id) delete data.defaults[tab as SavedViewTab];
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Set (or with null, clear) the view a tab opens with. The view must
+   * belong to that tab; resolves with null otherwise.
+   */
+  setDefault(tab: SavedViewTab, viewId: string | null): Promise<SavedViewsResponse | null> {
+    return this.file.modify((data) => {
+      if (viewId === null) {
+        delete data.defaults[tab];
+        return data;
+      }
+      if (!data.views.some((v) => v.id === viewId && v.tab === tab)) return null;
+      data.defaults[tab] = viewId;
+      return data;
+    });
+  }
+}
+
+/**
+ * Views and defaults from the parsed file; null if it isn't a views object
+ */
+function parseViewsFile(parsed: unknown): SavedViewsResponse | null {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  const { views, defaults } = parsed as Partial<SavedViewsResponse>;
+  return {
+    views: Array.isArray(views) ? views : [],
+    defaults: defaults && typeof defaults === 'object' ? defaults : {},
+  };
+}
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import path from 'path';
+import type { Issue, IssueChange, IssueStatus, StatusTransition } from '@shared/types';
+import { diffStatusTransitions, latestStatuses } from '../../shared/statusHistory.js';
+import { diffIssueChanges, getIssueLinkStates } from '../../shared/issueActivity.js';
+import type { IssueLinkState } from '../../shared/issueActivity.js';
+import { TaskQueue } from './jsonFileStore.js';
+
+// Dashboard-owned files live here, apart from the files bd manages
+export const DASHBOARD_DATA_DIR = 'dashboard';
+const HISTORY_FILE = 'history.jsonl';
+const CHANGES_FILE = 'changes.jsonl';
+
+/**
+ * Whether a changed path inside .beads is one of the dashboard's own data
+ * files, which must not trigger a refresh. .beads/dashboard.json is config
+ * next to that directory, not inside it, so edits to it do refresh.
+ */
+export function isDashboardDataPath(beadsDir: string, filePath: string): boolean {
+  return path.relative(beadsDir, filePath).split(path.sep)[0] === DASHBOARD_DATA_DIR;
+}
+
+/**
+ * Path of the status history log for a project
+ */
+export function getHistoryPath(projectRoot: string): string {
+  return path.join(projectRoot, '.beads', DASHBOARD_DATA_DIR, HISTORY_FILE);
+}
+
+/**
+ * Path of the label and dependency change log for a project
+ */
+export function getChangesPath(projectRoot: string): string {
+  return path.join(projectRoot, '.beads', DASHBOARD_DATA_DIR, CHANGES_FILE);
+}
+
+/**
+ * StatusHistoryStore - Append-only log of issue status transitions.
+ * Each snapshot of issues is diffed against the last known statuses and only
+ * the changes are appended, one JSON object per line. Label and dependency
+ * changes between snapshots go to a second log the same way.
+ */
+export class StatusHistoryStore {
+  // Last known status per issue, keyed by project root
+  private known = new Map<string, Map<string, IssueStatus>>();
+  // Labels and dependencies per issue at the last snapshot, keyed by project root.
+  // Only kept in memory, so the first snapshot after a restart is the new baseline.
+  private knownLinks = new Map<string, Map<string, IssueLinkState>>();
+  // Serializes reads/appends so overlapping snapshots don't double-record
+  private readonly queue = new TaskQueue();
+
+  constructor(private readonly getProjectRoot: () => string) {}
+
+  /**
+   * Record status changes in the given snapshot of issues.
+   * Returns the transitions that were appended.
+   */
+  record(issues: Issue[], now: Date = new Date()): Promise<StatusTransition[]> {
+    const projectRoot = this.getProjectRoot();
+    return this.queue.run(() => {
+      this.recordChanges(projectRoot, issues, now);
+
+      const known = this.loadKnown(projectRoot);
+      const transitions = diffStatusTransitions(known, issues, now.toISOString());
+      if (transitions.length === 0) return [];
+
+      const historyPath = getHistoryPath(projectRoot);
+      fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+      fs.appendFileSync(historyPath, transitions.map((t) => JSON.stringify(t)).join('\n') + '\n');
+
+      for (const transition of transitions) {
+        known.set(transition.issue_id, transition.to);
+      }
+      return transitions;
+    });
+  }
+
+  /**
+   * Read every recorded transition for the current project
+   */
+  read(): Promise<StatusTransition[]> {
+    const projectRoot = this.getProjectRoot();
+    return this.queue.run(() => readHistoryFile(getHistoryPath(projectRoot)));
+  }
+
+  /**
+   * Read every recorded label and dependency change for the current project
+   */
+  readChanges(): Promise<IssueChange[]> {
+    const projectRoot = this.getProjectRoot();
+    return this.queue.run(() => readJsonlFile<IssueChange>(
+      getChangesPath(projectRoot),
+      (change) => Boolean(change.issue_id && change.kind && change.at),
+    ));
+  }
+
+  private recordChanges(projectRoot: string, issues: Issue[], now: Date): void {
+    const previous = this.knownLinks.get(projectRoot);
+    const current = getIssueLinkStates(issues);
+    this.knownLinks.set(projectRoot, current);
+    if (!previous) return;
+
+    const changes = diffIssueChanges(previous, current, now.toISOString());
+    if (changes.length === 0) return;
+    const changesPath = getChangesPath(projectRoot);
+    fs.mkdirSync(path.dirname(changesPath), { recursive: true });
+    fs.appendFileSync(changesPath, changes.map((c) => JSON.stringify(c)).join('\n') + '\n');
+  }
+
+  private loadKnown(projectRoot: string): Map<string, IssueStatus> {
+    let known = this.known.get(projectRoot);
+    if (!known) {
+      known = latestStatuses(readHistoryFile(getHistoryPath(projectRoot)));
+      this.known.set(projectRoot, known);
+    }
+    return known;
+  }
+}
+
+function readHistoryFile(historyPath: string): StatusTransition[] {
+  return readJsonlFile<StatusTransition>(historyPath, (t) => Boolean(t.issue_id && t.to && t.at));
+}
+
+/**
+ * Parse a JSONL log, skipping malformed lines (e.g. a partial final write)
+ */
+function readJsonlFile<T>(logPath: string, isValid: (entry: T) => boolean): T[] {
+  if (!fs.existsSync(logPath)) return [];
+
+  const entries: T[] = [];
+  for (const line of fs.readFileSync(logPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as T;
+      if (isValid(parsed)) {
+        entries.push(parsed);
+      }
+    } catch {
+      console.warn(`Skipping malformed history line in ${logPath}`);
+    }
+  }
+  return entries;
+}
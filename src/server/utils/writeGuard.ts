@@ -0,0 +1,114 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { BeadsHealth, BeadsHealthIssue, WriteBlockedResponse } from '@shared/types';
+import type { BeadsClient } from './beadsClient.js';
+
+// Health checks shell out to bd twice, so reuse a result for a short while
+const DEFAULT_TTL_MS = 30 * 1000;
+
+interface CacheEntry {
+  health: BeadsHealth;
+  checkedAt: number;
+}
+
+/**
+ * BeadsHealthCache - Caches bd/database health per project root
+ * so write routes can check it without re-running bd on every request.
+ */
+export class BeadsHealthCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<BeadsHealth>>();
+
+  constructor(
+    private readonly client: Pick<BeadsClient, 'getHealth'>,
+    private readonly getProjectRoot: () => string,
+    private readonly ttlMs = DEFAULT_TTL_MS,
+  ) {}
+
+  /**
+   * Get health for the current project, re-checking when stale or forced
+   */
+  async get(options: { force?: boolean } = {}): Promise<BeadsHealth> {
+    const projectRoot = this.getProjectRoot();
+    const cached = this.entries.get(projectRoot);
+
+    if (!options.force && cached && Date.now() - cached.checkedAt < this.ttlMs) {
+      return cached.health;
+    }
+
+    // Share one in-flight check between concurrent requests
+    const inFlight = this.pending.get(projectRoot);
+    if (inFlight) return inFlight;
+
+    const check = this.client.getHealth()
+      .then((health) => {
+        this.entries.set(projectRoot, { health, checkedAt: Date.now() });
+        return health;
+      })
+      .finally(() => {
+        this.pending.delete(projectRoot);
+      });
+
+    this.pending.set(projectRoot, check);
+    return check;
+  }
+
+  /**
+   * Drop cached health for one project, or for all projects
+   */
+  invalidate(projectRoot?: string): void {
+    if (projectRoot) {
+      this.entries.delete(projectRoot);
+    } else {
+      this.entries.clear();
+    }
+  }
+}
+
+/**
+ * Decide whether writes are unsafe for the given health.
+ * Remote schema migrations conflict with the remote database (409);
+ * any other read-only state locks the project (423).
+ */
+export function getWriteBlock(health: BeadsHealth): { status: number; body: WriteBlockedResponse } | null {
+  if (!health.readOnly) return null;
+
+  const issue: BeadsHealthIssue = health.issues.find((i) => i.severity === 'error') ?? health.issues[0] ?? {
+    code: 'unknown',
+    severity: 'error',
+    title: 'Writes are disabled',
+    message: 'The Beads database is in a read-only state.',
+  };
+
+  return {
+    status: issue.code === 'remote_schema_migration_required' ? 409 : 423,
+    body: {
+      error: `Writes are disabled: ${issue.title}`,
+      code: issue.code,
+      readOnly: true,
+      issue,
+    },
+  };
+}
+
+/**
+ * Express middleware that rejects mutating requests while the project is read-only
+ */
+export function requireWritable(cache: BeadsHealthCache) {
+  return async (_req: Request, res: Response, next: NextFunction) => {
+    let health: BeadsHealth;
+    try {
+      health = await cache.get();
+    } catch (error) {
+      // Health is advisory: if it cannot be computed, let bd report its own errors
+      console.error('Failed to check Beads health before write:', error);
+      return next();
+    }
+
+    const block = getWriteBlock(health);
+    if (block) {
+      return res.status(block.status).json(block.body);
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,172 @@
+import type { BoardColumnColor, BoardColumnConfig, DashboardConfig, DashboardConfigResponse, IssueStatus, IssueTemplate, Priority } from './types';
+
+// Statuses a column can hold (tombstones are never shown)
+const BOARD_STATUSES: IssueStatus[] = ['open', 'in_progress', 'blocked', 'closed', 'deferred', 'pinned', 'hooked'];
+const BOARD_COLORS: BoardColumnColor[] = ['slate', 'red', 'orange', 'amber', 'green', 'blue', 'indigo', 'purple'];
+
+// The built-in board: Blocked, Ready, In Progress, Closed
+export const DEFAULT_BOARD_COLUMNS: BoardColumnConfig[] = [
+  { id: 'blocked', label: 'Blocked', statuses: ['blocked'], blockedByDependencies: true, color: 'red' },
+  { id: 'ready', label: 'Ready', statuses: ['open', 'deferred', 'pinned', 'hooked'], color: 'slate' },
+  { id: 'in_progress', label: 'In Progress', statuses: ['in_progress'], color: 'blue' },
+  { id: 'closed', label: 'Closed', statuses: ['closed'], color: 'green' },
+];
+
+export const DEFAULT_DASHBOARD_CONFIG: DashboardConfig = {
+  board: { columns: DEFAULT_BOARD_COLUMNS },
+  templates: [],
+};
+
+// Lowercase Beads issue type, built in (bug, epic, merge-request, ...) or custom
+export const ISSUE_TYPE_PATTERN = /^[a-z][a-z0-9_-]{0,39}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim().length > 0);
+}
+
+/**
+ * Validate one column entry. Returns the column or an error message.
+ */
+function parseColumn(raw: unknown, seenIds: Set<string>): BoardColumnConfig | string {
+  if (!isObject(raw)) return 'must be an object';
+
+  const { id, label, statuses = [], labels, blockedByDependencies, dropStatus, wipLimit, color } = raw;
+  if (typeof id !== 'string' || !/^[a-zA-Z0-9_-]{1,40}$/.test(id)) {
+    return 'id must be 1-40 letters, digits, "-" or "_"';
+  }
+  if (seenIds.has(id)) return `duplicate id "${id}"`;
+  if (label !== undefined && typeof label !== 'string') return 'label must be a string';
+  if (!Array.isArray(statuses) || !statuses.every((s) => BOARD_STATUSES.includes(s as IssueStatus))) {
+    return `statuses must be a list of: ${BOARD_STATUSES.join(', ')}`;
+  }
+  if (labels !== undefined && !isStringList(labels)) return 'labels must be a list of non-empty strings';
+  if (blockedByDependencies !== undefined && typeof blockedByDependencies !== 'boolean') {
+    return 'blockedByDependencies must be true or false';
+  }
+  if (dropStatus !== undefined && !BOARD_STATUSES.includes(dropStatus as IssueStatus)) {
+    return `dropStatus must be one of: ${BOARD_STATUSES.join(', ')}`;
+  }
+  if (wipLimit !== undefined && wipLimit !== null && !(Number.isInteger(wipLimit) && (wipLimit as number) > 0)) {
+    return 'wipLimit must be a positive whole number';
+  }
+  if (color !== undefined && !BOARD_COLORS.includes(color as BoardColumnColor)) {
+    return `color must be one of: ${BOARD_COLORS.join(', ')}`;
+  }
+
+  seenIds.add(id);
+  return {
+    id,
+    label: (label as string | undefined)?.trim() || id,
+    statuses: statuses as IssueStatus[],
+    ...(labels !== undefined && labels.length > 0 && { labels }),
+    ...(blockedByDependencies !== undefined && { blockedByDependencies }),
+    ...(dropStatus !== undefined && { dropStatus: dropStatus as IssueStatus }),
+    ...(typeof wipLimit === 'number' && { wipLimit }),
+    ...(color !== undefined && { color: color as BoardColumnColor }),
+  };
+}
+
+// Template fields that hold free text
+const TEMPLATE_TEXT_FIELDS = ['title', 'description', 'assignee', 'design', 'acceptance_criteria', 'notes'] as const;
+
+/**
+ * Validate one issue template. Returns the template or an error message.
+ */
+function parseTemplate(raw: unknown, seenIds: Set<string>): IssueTemplate | string {
+  if (!isObject(raw)) return 'must be an object';
+
+  const { id, name, issue_type, priority, labels, estimate } = raw;
+  if (typeof id !== 'string' || !/^[a-zA-Z0-9_-]{1,40}$/.test(id)) {
+    return 'id must be 1-40 letters, digits, "-" or "_"';
+  }
+  if (seenIds.has(id)) return `duplicate id "${id}"`;
+  if (name !== undefined && typeof name !== 'string') return 'name must be a string';
+  if (issue_type !== undefined && (typeof issue_type !== 'string' || !ISSUE_TYPE_PATTERN.test(issue_type))) {
+    return 'issue_type must be a lowercase issue type such as "bug"';
+  }
+  if (priority !== undefined && !(Number.isInteger(priority) && (priority as number) >= 0 && (priority as number) <= 4)) {
+    return 'priority must be 0-4';
+  }
+  if (labels !== undefined && !isStringList(labels)) return 'labels must be a list of non-empty strings';
+  if (estimate !== undefined && !(Number.isInteger(estimate) && (estimate as number) > 0)) {
+    return 'estimate must be a positive whole number of minutes';
+  }
+  const badField = TEMPLATE_TEXT_FIELDS.find((field) => raw[field] !== undefined && typeof raw[field] !== 'string');
+  if (badField) return `${badField} must be a string`;
+
+  seenIds.add(id);
+  const template: IssueTemplate = { id, name: (name as string | undefined)?.trim() || id };
+  for (const field of TEMPLATE_TEXT_FIELDS) {
+    if (raw[field] !== undefined) template[field] = raw[field] as string;
+  }
+  if (issue_type !== undefined) template.issue_type = issue_type;
+  if (priority !== undefined) template.priority = priority as Priority;
+  if (labels !== undefined && labels.length > 0) template.labels = labels;
+  if (estimate !== undefined) template.estimate = estimate as number;
+  return template;
+}
+
+function parseBoard(raw: unknown, errors: string[]): DashboardConfig['board'] {
+  if (raw === undefined) return DEFAULT_DASHBOARD_CONFIG.board;
+  if (!isObject(raw) || !Array.isArray(raw.columns)) {
+    errors.push('board.columns must be a list of columns');
+    return DEFAULT_DASHBOARD_CONFIG.board;
+  }
+
+  const seenIds = new Set<string>();
+  const columns: BoardColumnConfig[] = [];
+  raw.columns.forEach((entry, index) => {
+    const column = parseColumn(entry, seenIds);
+    if (typeof column === 'string') {
+      errors.push(`board.columns[${index}]: ${column}`);
+    } else {
+      columns.push(column);
+    }
+  });
+
+  if (columns.length === 0) {
+    errors.push('board.columns has no valid columns; using the default board');
+    return DEFAULT_DASHBOARD_CONFIG.board;
+  }
+  return { columns };
+}
+
+function parseTemplates(raw: unknown, errors: string[]): IssueTemplate[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    errors.push('templates must be a list of templates');
+    return [];
+  }
+
+  const seenIds = new Set<string>();
+  const templates: IssueTemplate[] = [];
+  raw.forEach((entry, index) => {
+    const template = parseTemplate(entry, seenIds);
+    if (typeof template === 'string') {
+      errors.push(`templates[${index}]: ${template}`);
+    } else {
+      templates.push(template);
+    }
+  });
+  return templates;
+}
+
+/**
+ * Validate the contents of .beads/dashboard.json.
+ * Invalid columns and templates are dropped and reported; a board left
+ * without any valid column falls back to the defaults.
+ */
+export function parseDashboardConfig(raw: unknown): DashboardConfigResponse {
+  if (!isObject(raw)) {
+    return { config: DEFAULT_DASHBOARD_CONFIG, errors: ['Configuration must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const board = parseBoard(raw.board, errors);
+  const templates = parseTemplates(raw.templates, errors);
+  return { config: { board, templates }, errors };
+}
@@ -0,0 +1,130 @@
+import type { Issue, IssueDependency } from './types';
+
+/**
+ * Stable identity for a dependency link: who depends on whom, and how.
+ */
+export function dependencyKey(dep: Pick<IssueDependency, 'issue_id' | 'depends_on_id' | 'type'>): string {
+  return `${dep.issue_id}\u0000${dep.depends_on_id}\u0000${dep.type}`;
+}
+
+/**
+ * Collect every dependency link that involves an issue.
+ * Beads exports only outgoing links on each issue (issue_id === the issue), so
+ * incoming links ("this issue blocks X") are gathered from the other issues.
+ */
+export function collectIssueLinks(issueId: string, issues: Issue[]): IssueDependency[] {
+  const links: IssueDependency[] = [];
+  const seen = new Set<string>();
+
+  for (const issue of issues) {
+    for (const dep of issue.dependencies || []) {
+      if (typeof dep !== 'object' || !dep.depends_on_id) continue;
+      const link = { ...dep, issue_id: dep.issue_id || issue.id };
+      if (link.issue_id !== issueId && link.depends_on_id !== issueId) continue;
+
+      const key = dependencyKey(link);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      links.push(link);
+    }
+  }
+
+  return links;
+}
+
+// Dependency types that keep an issue from starting until the other issue is closed
+export const BLOCKING_DEPENDENCY_TYPES = new Set(['blocks', 'conditional-blocks', 'waits-for']);
+
+/**
+ * Whether a link type orders work, so a loop of them could never be finished:
+ * blocking links and parent-child. Others (related, discovered-from, ...) may loop.
+ */
+export function isOrderingDependency(type: string): boolean {
+  return BLOCKING_DEPENDENCY_TYPES.has(type) || type === 'parent-child';
+}
+
+// issue_id -> depends_on_id -> types of the links between them
+export type DependencyAdjacency = Map<string, Map<string, Set<string>>>;
+
+/**
+ * Build an adjacency map from all ordering dependencies (see isOrderingDependency).
+ */
+export function buildDependencyAdjacency(issues: Issue[]): DependencyAdjacency {
+  const adjacency: DependencyAdjacency = new Map();
+
+  for (const issue of issues) {
+    for (const dep of issue.dependencies || []) {
+      if (typeof dep !== 'object' || !dep.depends_on_id) continue;
+      addEdge(adjacency, { ...dep, issue_id: dep.issue_id || issue.id });
+    }
+  }
+
+  return adjacency;
+}
+
+/**
+ * Add one link; links that don't order work are left out.
+ */
+export function addEdge(adjacency: DependencyAdjacency, dep: Pick<IssueDependency, 'issue_id' | 'depends_on_id' | 'type'>): void {
+  if (!isOrderingDependency(dep.type)) return;
+  let targets = adjacency.get(dep.issue_id);
+  if (!targets) {
+    targets = new Map();
+    adjacency.set(dep.issue_id, targets);
+  }
+  const types = targets.get(dep.depends_on_id);
+  if (types) {
+    types.add(dep.type);
+  } else {
+    targets.set(dep.depends_on_id, new Set([dep.type]));
+  }
+}
+
+/**
+ * Remove one link; the edge stays while another link type still connects the pair.
+ */
+export function removeEdge(adjacency: DependencyAdjacency, dep: Pick<IssueDependency, 'issue_id' | 'depends_on_id' | 'type'>): void {
+  const targets = adjacency.get(dep.issue_id);
+  const types = targets?.get(dep.depends_on_id);
+  if (!targets || !types) return;
+  types.delete(dep.type);
+  if (types.size === 0) targets.delete(dep.depends_on_id);
+}
+
+/**
+ * Check whether adding the edge `from -> to` would close a cycle.
+ * Returns the offending path (starting and ending at `from`) or null.
+ */
+export function findCycleForEdge(
+  adjacency: DependencyAdjacency,
+  from: string,
+  to: string,
+): string[] | null {
+  if (from === to) return [from, to];
+
+  // Depth-first search from `to` looking for a path back to `from`
+  const parents = new Map<string, string>();
+  const stack = [to];
+  const visited = new Set<string>([to]);
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const next of adjacency.get(current)?.keys() || []) {
+      if (visited.has(next)) continue;
+      parents.set(next, current);
+      if (next === from) {
+        const path = [from];
+        let step: string | undefined = current;
+        while (step !== undefined) {
+          path.unshift(step);
+          step = step === to ? undefined : parents.get(step);
+        }
+        return [from, ...path];
+      }
+      visited.add(next);
+      stack.push(next);
+    }
+  }
+
+  return null;
+}
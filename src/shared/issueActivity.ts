@@ -0,0 +1,120 @@
+import type { Issue, IssueActivityEvent, IssueChange, IssueComment, IssueLink, StatusTransition } from './types';
+import { dependencyKey } from './dependencyGraph.js';
+
+// Labels and dependency links of one issue at a snapshot
+export interface IssueLinkState {
+  labels: Set<string>;
+  dependencies: Map<string, IssueLink>;
+}
+
+function toLink(dep: IssueLink): IssueLink {
+  return { issue_id: dep.issue_id, depends_on_id: dep.depends_on_id, type: dep.type };
+}
+
+/**
+ * Labels and outgoing dependency links per issue, for diffing the next snapshot against
+ */
+export function getIssueLinkStates(issues: Issue[]): Map<string, IssueLinkState> {
+  const states = new Map<string, IssueLinkState>();
+  for (const issue of issues) {
+    const dependencies = new Map<string, IssueLink>();
+    for (const dep of issue.dependencies || []) {
+      if (typeof dep === 'object' && dep.depends_on_id) {
+        const link = toLink({ ...dep, issue_id: issue.id });
+        dependencies.set(dependencyKey(link), link);
+      }
+    }
+    states.set(issue.id, { labels: new Set(issue.labels || []), dependencies });
+  }
+  return states;
+}
+
+/**
+ * Label and dependency changes between two snapshots. Issues missing from
+ * the earlier snapshot are new, so nothing is reported for them.
+ */
+export function diffIssueChanges(
+  previous: Map<string, IssueLinkState>,
+  current: Map<string, IssueLinkState>,
+  at: string,
+): IssueChange[] {
+  const changes: IssueChange[] = [];
+
+  for (const [issueId, state] of current) {
+    const before = previous.get(issueId);
+    if (!before) continue;
+
+    for (const label of state.labels) {
+      if (!before.labels.has(label)) changes.push({ issue_id: issueId, kind: 'label_added', label, at });
+    }
+    for (const label of before.labels) {
+      if (!state.labels.has(label)) changes.push({ issue_id: issueId, kind: 'label_removed', label, at });
+    }
+    for (const [key, dependency] of state.dependencies) {
+      if (!before.dependencies.has(key)) changes.push({ issue_id: issueId, kind: 'dependency_added', dependency, at });
+    }
+    for (const [key, dependency] of before.dependencies) {
+      if (!state.dependencies.has(key)) changes.push({ issue_id: issueId, kind: 'dependency_removed', dependency, at });
+    }
+  }
+
+  return changes;
+}
+
+interface IssueActivitySources {
+  issues: Issue[];
+  comments: IssueComment[];
+  transitions: StatusTransition[];
+  changes: IssueChange[];
+}
+
+/**
+ * Merge everything known about an issue into one timeline, oldest first:
+ * its creation, comments, status transitions, label changes and dependency
+ * edits in either direction. Links Beads dated carry their author; changes
+ * the dashboard only observed between snapshots don't have one.
+ */
+export function buildIssueActivity(issueId: string, sources: IssueActivitySources): IssueActivityEvent[] {
+  const issue = sources.issues.find((i) => i.id === issueId);
+  const events: IssueActivityEvent[] = [];
+  const involvesIssue = (link: IssueLink) => link.issue_id === issueId || link.depends_on_id === issueId;
+
+  if (issue) {
+    events.push({ kind: 'created', at: issue.created_at, author: issue.created_by });
+  }
+
+  for (const comment of sources.comments) {
+    events.push({ kind: 'comment', at: comment.created_at, author: comment.author, text: comment.text });
+  }
+
+  // The first transition of an issue is its creation, covered above
+  for (const transition of sources.transitions) {
+    if (transition.issue_id !== issueId || transition.from === null) continue;
+    events.push({ kind: 'status', at: transition.at, from: transition.from, to: transition.to, inferred: transition.inferred });
+  }
+
+  // Links Beads records with a timestamp, from this issue and to it
+  const datedLinks = new Set<string>();
+  for (const other of sources.issues) {
+    for (const dep of other.dependencies || []) {
+      if (typeof dep !== 'object' || !dep.created_at) continue;
+      const link = toLink({ ...dep, issue_id: other.id });
+      if (!involvesIssue(link)) continue;
+      datedLinks.add(dependencyKey(link));
+      events.push({ kind: 'dependency_added', at: dep.created_at, author: dep.created_by, dependency: link });
+    }
+  }
+
+  for (const change of sources.changes) {
+    if (change.dependency) {
+      if (!involvesIssue(change.dependency)) continue;
+      // Beads' own record of the link is more precise than the observed one
+      if (change.kind === 'dependency_added' && datedLinks.has(dependencyKey(change.dependency))) continue;
+      events.push({ kind: change.kind, at: change.at, dependency: change.dependency });
+    } else if (change.issue_id === issueId) {
+      events.push({ kind: change.kind, at: change.at, label: change.label });
+    }
+  }
+
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
@@ -0,0 +1,258 @@
+import type { Issue, IssueQueryError, IssueStatus } from './types';
+import { getOpenBlockers, getParentId } from './readyWork.js';
+
+// How a field's values are read and compared
+type QueryFieldKind = 'keyword' | 'status' | 'priority' | 'date' | 'boolean';
+
+export type QueryField =
+  | 'id'
+  | 'status'
+  | 'type'
+  | 'priority'
+  | 'label'
+  | 'assignee'
+  | 'parent'
+  | 'blocked'
+  | 'created'
+  | 'updated'
+  | 'closed'
+  | 'due';
+
+export type QueryOperator = '=' | '<' | '<=' | '>' | '>=';
+
+// Fields the query language understands, in the order autocomplete offers them
+export const QUERY_FIELDS: Record<QueryField, { kind: QueryFieldKind; description: string }> = {
+  status: { kind: 'status', description: 'open, in_progress, blocked, closed...' },
+  priority: { kind: 'priority', description: '0-4; supports <, <=, >, >=' },
+  type: { kind: 'keyword', description: 'bug, feature, task, epic...' },
+  label: { kind: 'keyword', description: 'Has any of the labels' },
+  assignee: { kind: 'keyword', description: 'Assignee or owner; "me" or "none"' },
+  blocked: { kind: 'boolean', description: 'Status blocked or an open blocker' },
+  parent: { kind: 'keyword', description: 'Parent issue ID' },
+  id: { kind: 'keyword', description: 'Issue ID' },
+  created: { kind: 'date', description: 'YYYY-MM-DD, today or -7d; supports <, >' },
+  updated: { kind: 'date', description: 'YYYY-MM-DD, today or -7d; supports <, >' },
+  closed: { kind: 'date', description: 'YYYY-MM-DD, today or -7d; supports <, >' },
+  due: { kind: 'date', description: 'YYYY-MM-DD, today or -7d; supports <, >' },
+};
+
+// Deleted (tombstoned) issues are never listed, so they aren't a status to query for
+export const QUERY_STATUSES: IssueStatus[] = ['open', 'in_progress', 'blocked', 'closed', 'deferred', 'pinned', 'hooked'];
+
+// field:value (values comma-separated, any may match), or free text matched against ID and title
+export interface QueryClause {
+  field: QueryField | 'text';
+  operator: QueryOperator;
+  values: string[];
+  negated: boolean; // Written with a leading "-"
+  start: number;
+  end: number;
+}
+
+export interface ParsedIssueQuery {
+  clauses: QueryClause[];
+  errors: IssueQueryError[];
+}
+
+// What a query is evaluated against besides the issue itself
+export interface IssueQueryContext {
+  issuesById: Map<string, Issue>;
+  now: Date;
+  me?: string; // Who assignee:me refers to; without it assignee:me matches nothing
+}
+
+const TOKEN_PATTERN = /(-?)(?:([a-z_]+):(<=|>=|<|>|=)?("[^"]*"?|[^\s"]*)|("[^"]*"?)|(\S+))/gi;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE_PATTERN = /^-(\d+)([dw])$/;
+
+function isQueryField(name: string): name is QueryField {
+  return Object.prototype.hasOwnProperty.call(QUERY_FIELDS, name);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, '').replace(/"$/, '');
+}
+
+function parsePriority(value: string): number | null {
+  const match = /^p?([0-4])$/i.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const lower = value.toLowerCase();
+  if (lower === 'true' || lower === 'yes') return true;
+  if (lower === 'false' || lower === 'no') return false;
+  return null;
+}
+
+/**
+ * Resolve a date value to a UTC calendar day (YYYY-MM-DD): an explicit day,
+ * "today", or a relative "-7d" / "-2w" counted back from now
+ */
+export function resolveQueryDate(value: string, now: Date): string | null {
+  const lower = value.toLowerCase();
+  if (DATE_PATTERN.test(lower)) return lower;
+  if (lower === 'today') return now.toISOString().slice(0, 10);
+  const relative = RELATIVE_DATE_PATTERN.exec(lower);
+  if (!relative) return null;
+  const days = Number(relative[1]) * (relative[2] === 'w' ? 7 : 1);
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// Why a value can't be used for a field, or null when it can
+function validateValue(field: QueryField, value: string): string | null {
+  switch (QUERY_FIELDS[field].kind) {
+    case 'status':
+      return QUERY_STATUSES.includes(value.toLowerCase() as IssueStatus) ? null : `Unknown status "${value}"`;
+    case 'priority':
+      return parsePriority(value) === null ? `Priority must be 0-4, not "${value}"` : null;
+    case 'boolean':
+      return parseBoolean(value) === null ? `${field} must be true or false` : null;
+    case 'date':
+      return resolveQueryDate(value, new Date()) === null ? `Dates look like 2026-09-01, today or -7d, not "${value}"` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a query like `status:open priority:<=1 -label:wontfix login`.
+ * Every clause must hold; values separated by commas are alternatives.
+ * Unknown fields and bad values are reported as errors and left out.
+ */
+export function parseIssueQuery(input: string): ParsedIssueQuery {
+  const clauses: QueryClause[] = [];
+  const errors: IssueQueryError[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, minus, name, operator, rawValue, quotedText, text] = match;
+    const start = match.index ?? 0;
+    const end = start + token.length;
+    const negated = minus === '-';
+
+    if (name === undefined) {
+      const value = unquote(quotedText ?? text).toLowerCase();
+      if (value) clauses.push({ field: 'text', operator: '=', values: [value], negated, start, end });
+      continue;
+    }
+
+    const field = name.toLowerCase();
+    if (!isQueryField(field)) {
+      errors.push({ message: `Unknown field "${name}"`, start, end });
+      continue;
+    }
+    const values = (rawValue.startsWith('"') ? [unquote(rawValue)] : rawValue.split(',')).filter(Boolean);
+    if (values.length === 0) {
+      errors.push({ message: `${field}: needs a value`, start, end });
+      continue;
+    }
+    const op = (operator || '=') as QueryOperator;
+    const kind = QUERY_FIELDS[field].kind;
+    if (op !== '=' && kind !== 'priority' && kind !== 'date') {
+      errors.push({ message: `${field} can't be compared with ${op}`, start, end });
+      continue;
+    }
+    if (op !== '=' && values.length > 1) {
+      errors.push({ message: `${field}:${op} takes a single value`, start, end });
+      continue;
+    }
+    const problem = values.map((value) => validateValue(field, value)).find((message) => message !== null);
+    if (problem) {
+      errors.push({ message: problem, start, end });
+      continue;
+    }
+
+    clauses.push({ field, operator: op, values, negated, start, end });
+  }
+
+  return { clauses, errors };
+}
+
+function compare(actual: string | number, operator: QueryOperator, expected: string | number): boolean {
+  switch (operator) {
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function getDateField(issue: Issue, field: 'created' | 'updated' | 'closed' | 'due'): string | undefined {
+  const value = { created: issue.created_at, updated: issue.updated_at, closed: issue.closed_at, due: issue.due }[field];
+  return value ? value.slice(0, 10) : undefined;
+}
+
+// Whether a clause holds for an issue, ignoring its negation
+function matchesClause(issue: Issue, clause: QueryClause, context: IssueQueryContext): boolean {
+  const { field, operator } = clause;
+  const values = clause.values.map((value) => value.toLowerCase());
+
+  switch (field) {
+    case 'text': {
+      const haystack = `${issue.id} ${issue.title || ''}`.toLowerCase();
+      return haystack.includes(values[0]);
+    }
+    case 'id':
+      return values.includes(issue.id.toLowerCase());
+    case 'status':
+      return values.includes(issue.status);
+    case 'type':
+      return values.includes((issue.issue_type || '').toLowerCase());
+    case 'priority':
+      return values.some((value) => compare(issue.priority, operator, parsePriority(value)!));
+    case 'label': {
+      const labels = (issue.labels || []).map((label) => label.toLowerCase());
+      return values.some((value) => labels.includes(value));
+    }
+    case 'assignee': {
+      const assignee = (issue.assignee || issue.owner || '').toLowerCase();
+      return values.some((value) => {
+        if (value === 'none') return assignee === '';
+        if (value === 'me') return Boolean(context.me) && assignee === context.me!.toLowerCase();
+        return assignee === value;
+      });
+    }
+    case 'parent':
+      return values.includes((getParentId(issue) || '').toLowerCase());
+    case 'blocked': {
+      const blocked = issue.status === 'blocked' || getOpenBlockers(issue, context.issuesById).length > 0;
+      return values.some((value) => parseBoolean(value) === blocked);
+    }
+    default: {
+      const day = getDateField(issue, field);
+      if (!day) return false;
+      return values.some((value) => compare(day, operator, resolveQueryDate(value, context.now)!));
+    }
+  }
+}
+
+/**
+ * Whether an issue satisfies every clause of a parsed query
+ */
+export function matchesIssueQuery(issue: Issue, query: ParsedIssueQuery, context: IssueQueryContext): boolean {
+  return query.clauses.every((clause) => matchesClause(issue, clause, context) !== clause.negated);
+}
+
+/**
+ * Parse a query and apply it to a list of issues. Clauses with errors are
+ * skipped, so the rest of the query still filters.
+ */
+export function filterIssuesByQuery(
+  issues: Issue[],
+  input: string,
+  options: { now?: Date; me?: string } = {},
+): { issues: Issue[]; errors: IssueQueryError[] } {
+  const query = parseIssueQuery(input);
+  const context: IssueQueryContext = {
+    issuesById: new Map(issues.map((issue) => [issue.id, issue])),
+    now: options.now ?? new Date(),
+    me: options.me,
+  };
+  return { issues: issues.filter((issue) => matchesIssueQuery(issue, query, context)), errors: query.errors };
+}
@@ -0,0 +1,119 @@
+import type { Issue, ReadyWorkItem, ReadyWorkReason, ReadyWorkResponse } from './types';
+import { BLOCKING_DEPENDENCY_TYPES } from './dependencyGraph.js';
+
+// Statuses that rule an issue out of the queue, with the explanation shown for them
+const STATUS_REASONS: Partial<Record<Issue['status'], string>> = {
+  in_progress: 'Already in progress',
+  blocked: 'Marked as blocked',
+  deferred: 'Deferred',
+  pinned: 'Pinned issues stay open as reference and are never ready work',
+  hooked: 'Hooked to an agent',
+};
+
+/**
+ * An issue's parent: parent_id, or the target of a parent-child dependency
+ */
+export function getParentId(issue: Issue): string | undefined {
+  if (issue.parent_id) return issue.parent_id;
+  return issue.dependencies?.find((dep) => typeof dep === 'object' && dep.type === 'parent-child')?.depends_on_id;
+}
+
+/**
+ * IDs of the unclosed issues that directly block an issue
+ * (blocking dependencies plus legacy blocked_by)
+ */
+export function getOpenBlockers(issue: Issue, issuesById: Map<string, Issue>): string[] {
+  const blockerIds = new Set<string>(issue.blocked_by || []);
+  for (const dep of issue.dependencies || []) {
+    if (typeof dep === 'object' && dep.depends_on_id && BLOCKING_DEPENDENCY_TYPES.has(dep.type)) {
+      blockerIds.add(dep.depends_on_id);
+    }
+  }
+  return [...blockerIds].filter((id) => {
+    const blocker = issuesById.get(id);
+    return blocker !== undefined && blocker.status !== 'closed' && blocker.status !== 'tombstone';
+  });
+}
+
+function isDeferred(issue: Issue, now: Date): boolean {
+  return Boolean(issue.defer) && new Date(issue.defer!).getTime() > now.getTime();
+}
+
+/**
+ * Why an issue is not ready work, following the same rules as `bd ready`:
+ * only open issues qualify; a future defer date, an unclosed blocker, or a
+ * blocked/deferred ancestor (blocking is inherited through parent-child
+ * links) keeps it out of the queue. An empty list means the issue is ready.
+ */
+export function getReadinessReasons(issue: Issue, issuesById: Map<string, Issue>, now: Date): ReadyWorkReason[] {
+  const reasons: ReadyWorkReason[] = [];
+
+  const statusReason = STATUS_REASONS[issue.status];
+  if (statusReason) {
+    reasons.push({ code: 'status', message: statusReason });
+  }
+  if (isDeferred(issue, now)) {
+    reasons.push({ code: 'deferred', message: `Deferred until ${issue.defer!.slice(0, 10)}` });
+  }
+
+  const blockers = getOpenBlockers(issue, issuesById);
+  if (blockers.length > 0) {
+    reasons.push({ code: 'blocked', message: `Blocked by ${blockers.join(', ')}`, issue_ids: blockers });
+  }
+
+  // Walk up the parent chain (cycle-safe); the nearest blocked or deferred ancestor is reported
+  const visited = new Set<string>([issue.id]);
+  let parentId = getParentId(issue);
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = issuesById.get(parentId);
+    if (!parent) break;
+
+    const parentBlockers = getOpenBlockers(parent, issuesById);
+    if (parentBlockers.length > 0) {
+      reasons.push({
+        code: 'parent_blocked',
+        message: `Parent ${parent.id} is blocked by ${parentBlockers.join(', ')}`,
+        issue_ids: [parent.id, ...parentBlockers],
+      });
+      break;
+    }
+    if (parent.status === 'blocked') {
+      reasons.push({ code: 'parent_blocked', message: `Parent ${parent.id} is marked as blocked`, issue_ids: [parent.id] });
+      break;
+    }
+    if (isDeferred(parent, now) || parent.status === 'deferred') {
+      reasons.push({ code: 'parent_deferred', message: `Parent ${parent.id} is deferred`, issue_ids: [parent.id] });
+      break;
+    }
+    parentId = getParentId(parent);
+  }
+
+  return reasons;
+}
+
+/**
+ * Priority first (P0 before P4), then oldest first
+ */
+function compareReadyWork(a: ReadyWorkItem, b: ReadyWorkItem): number {
+  if (a.issue.priority !== b.issue.priority) return a.issue.priority - b.issue.priority;
+  return new Date(a.issue.created_at).getTime() - new Date(b.issue.created_at).getTime();
+}
+
+/**
+ * Split unfinished issues into ready work and everything else, each sorted
+ * by priority and age, with the reasons an issue isn't ready.
+ */
+export function computeReadyWork(issues: Issue[], now: Date = new Date()): ReadyWorkResponse {
+  const issuesById = new Map(issues.map((issue) => [issue.id, issue]));
+  const ready: ReadyWorkItem[] = [];
+  const notReady: ReadyWorkItem[] = [];
+
+  for (const issue of issues) {
+    if (issue.status === 'closed' || issue.status === 'tombstone') continue;
+    const reasons = getReadinessReasons(issue, issuesById, now);
+    (reasons.length === 0 ? ready : notReady).push({ issue, ready: reasons.length === 0, reasons });
+  }
+
+  return { ready: ready.sort(compareReadyWork), notReady: notReady.sort(compareReadyWork) };
+}
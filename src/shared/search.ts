@@ -0,0 +1,178 @@
+import type { Issue, SearchField, SearchMatch, SearchResponse, SearchResult } from './types';
+
+// How much a match in each field counts; identifying fields outrank long-form text
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  id: 10,
+  title: 8,
+  labels: 6,
+  assignee: 5,
+  external_ref: 5,
+  description: 3,
+  acceptance_criteria: 2,
+  design: 2,
+  notes: 1,
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// Display names for the fields a result matched in
+export const SEARCH_FIELD_LABELS: Record<SearchField, string> = {
+  id: 'ID',
+  title: 'Title',
+  labels: 'Labels',
+  assignee: 'Assignee',
+  external_ref: 'External ref',
+  description: 'Description',
+  design: 'Design',
+  acceptance_criteria: 'Acceptance criteria',
+  notes: 'Notes',
+};
+
+// Characters of context kept before the first hit, and the longest snippet returned
+const SNIPPET_LEAD = 40;
+const SNIPPET_LENGTH = 160;
+
+interface IndexedField {
+  field: SearchField;
+  text: string; // Whitespace collapsed, so snippets read as one line
+  lower: string;
+}
+
+interface IndexedIssue {
+  issue: Issue;
+  fields: IndexedField[];
+}
+
+// Issues with their searchable text normalised once, ready for repeated queries
+export interface SearchIndex {
+  entries: IndexedIssue[];
+}
+
+function getFieldText(issue: Issue, field: SearchField): string {
+  switch (field) {
+    case 'labels':
+      return (issue.labels || []).join(', ');
+    case 'assignee':
+      // Beads 0.61+ writes owner instead of assignee
+      return issue.assignee || issue.owner || '';
+    default:
+      return issue[field] || '';
+  }
+}
+
+/**
+ * Build a search index over every issue except tombstones
+ */
+export function buildSearchIndex(issues: Issue[]): SearchIndex {
+  const entries = issues
+    .filter((issue) => issue.status !== 'tombstone')
+    .map((issue) => ({
+      issue,
+      fields: SEARCH_FIELDS.flatMap((field) => {
+        const text = getFieldText(issue, field).replace(/\s+/g, ' ').trim();
+        return text ? [{ field, text, lower: text.toLowerCase() }] : [];
+      }),
+    }));
+  return { entries };
+}
+
+/**
+ * Split a query into lowercase terms; "quoted phrases" stay together
+ */
+export function parseSearchTerms(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.toLowerCase().matchAll(/"([^"]*)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim();
+    if (term && !terms.includes(term)) terms.push(term);
+  }
+  return terms;
+}
+
+// Every [start, end) range where a term occurs, merged where they overlap
+function findHighlights(lower: string, terms: string[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + term.length)) {
+      ranges.push([i, i + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+// An excerpt around the first hit, with highlight offsets moved into it
+function buildMatch(entry: IndexedField, terms: string[]): SearchMatch {
+  const highlights = findHighlights(entry.lower, terms);
+  if (entry.text.length <= SNIPPET_LENGTH) {
+    return { field: entry.field, snippet: entry.text, highlights };
+  }
+
+  const start = Math.max(0, Math.min(highlights[0][0] - SNIPPET_LEAD, entry.text.length - SNIPPET_LENGTH));
+  const end = Math.min(entry.text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < entry.text.length ? '…' : '';
+  return {
+    field: entry.field,
+    snippet: `${prefix}${entry.text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]),
+  };
+}
+
+// Hits at the start of a word count double: "auth" ranks "auth flow" over "oauth"
+function termScore(lower: string, term: string, weight: number): number {
+  let score = 0;
+  for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + 1)) {
+    if (i === 0 || /\W/.test(lower[i - 1])) return weight * 2;
+    score = weight;
+  }
+  return score;
+}
+
+/**
+ * Find issues matching every term of a query, ranked by where the terms
+ * occur (ID and title above labels and people, above long-form text),
+ * then by priority. Each result carries a snippet per matched field.
+ */
+export function searchIssues(index: SearchIndex, query: string, limit = Infinity): SearchResponse {
+  const terms = parseSearchTerms(query);
+  if (terms.length === 0) return { query, total: 0, results: [] };
+
+  const results: SearchResult[] = [];
+  for (const { issue, fields } of index.entries) {
+    let score = 0;
+    let matchedAll = true;
+    for (const term of terms) {
+      const best = Math.max(0, ...fields.map((entry) => termScore(entry.lower, term, FIELD_WEIGHTS[entry.field])));
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += best;
+    }
+    if (!matchedAll) continue;
+
+    // Typing an issue's exact ID should always put it first
+    if (terms.length === 1 && issue.id.toLowerCase() === terms[0]) score += 100;
+
+    const matches = fields
+      .filter((entry) => terms.some((term) => entry.lower.includes(term)))
+      .sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])
+      .map((entry) => buildMatch(entry, terms));
+    results.push({ issue, score, matches });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.issue.priority - b.issue.priority || a.issue.id.localeCompare(b.issue.id));
+  return { query, total: results.length, results: results.slice(0, limit) };
+}
@@ -0,0 +1,56 @@
+import type { Issue, IssueStatus, StatusTransition } from './types';
+
+/**
+ * Reconstruct a best-effort status history from an issue's own timestamps.
+ * Every issue starts open at created_at; a current non-open status is assumed
+ * to have started at closed_at (for closed issues) or updated_at.
+ */
+export function inferStatusTransitions(issue: Issue): StatusTransition[] {
+  const transitions: StatusTransition[] = [
+    { issue_id: issue.id, from: null, to: 'open', at: issue.created_at, inferred: true },
+  ];
+
+  if (issue.status !== 'open') {
+    const at = (issue.status === 'closed' ? issue.closed_at : undefined) ?? issue.updated_at;
+    if (at) {
+      transitions.push({ issue_id: issue.id, from: 'open', to: issue.status, at, inferred: true });
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Latest known status per issue, replaying transitions in order
+ */
+export function latestStatuses(transitions: StatusTransition[]): Map<string, IssueStatus> {
+  const statuses = new Map<string, IssueStatus>();
+  for (const transition of transitions) {
+    statuses.set(transition.issue_id, transition.to);
+  }
+  return statuses;
+}
+
+/**
+ * Compare current issues against the last known statuses.
+ * Issues seen for the first time get inferred history; known issues whose
+ * status differs get one observed transition at `at`.
+ */
+export function diffStatusTransitions(
+  known: Map<string, IssueStatus>,
+  issues: Issue[],
+  at: string,
+): StatusTransition[] {
+  const transitions: StatusTransition[] = [];
+
+  for (const issue of issues) {
+    const previous = known.get(issue.id);
+    if (previous === undefined) {
+      transitions.push(...inferStatusTransitions(issue));
+    } else if (previous !== issue.status) {
+      transitions.push({ issue_id: issue.id, from: previous, to: issue.status, at });
+    }
+  }
+
+  return transitions;
+}
@@ -96,13 +96,13 @@ export interface Issue {
   created_by?: string;
 }
 
-// Data point for lead time scatterplot
+// Data point for lead time / cycle time scatterplots
 export interface LeadTimeDataPoint {
   id: string;
   closedDate: number; // Unix timestamp for X axis (bucketed by granularity)
   closedDateStr: string; // Formatted date string
-  cycleTimeHours: number; // Cycle time in hours
-  cycleTimeDays: number; // Cycle time in days
+  durationHours: number; // Lead or cycle time in hours, depending on the series
+  durationDays: number; // Lead or cycle time in days
   title: string;
 }
 
@@ -120,11 +120,236 @@ export interface AgingWipDataPoint {
 export interface FlowChartDataPoint {
   date: string; // Bucket identifier (YYYY-MM-DD or YYYY-MM-DD HH:00)
   timestamp: number; // Unix timestamp for sorting
-  open: number; // Running total of open issues
+  open: number; // Issues open at the end of the bucket (includes pinned/hooked)
+  in_progress: number; // Issues in progress at the end of the bucket
+  blocked: number; // Issues blocked at the end of the bucket
+  deferred: number; // Issues deferred at the end of the bucket
   closed: number; // Running total of closed issues
   throughput: number; // Issues closed in this bucket
 }
 
+// One status change in the dashboard's history log (GET /api/history)
+export interface StatusTransition {
+  issue_id: string;
+  from: IssueStatus | null; // null when the issue was first seen
+  to: IssueStatus;
+  at: string; // ISO 8601 timestamp
+  inferred?: boolean; // Reconstructed from issue timestamps rather than observed
+}
+
+export interface StatusHistoryResponse {
+  transitions: StatusTransition[];
+}
+
+// A dependency link without its bookkeeping fields
+export type IssueLink = Pick<IssueDependency, 'issue_id' | 'depends_on_id' | 'type'>;
+
+// A label or dependency change seen between two snapshots of the issues
+export interface IssueChange {
+  issue_id: string;
+  kind: 'label_added' | 'label_removed' | 'dependency_added' | 'dependency_removed';
+  label?: string;
+  dependency?: IssueLink;
+  at: string; // ISO 8601 timestamp
+}
+
+// A comment on an issue (bd comments)
+export interface IssueComment {
+  id: string;
+  issue_id: string;
+  author: string;
+  text: string;
+  created_at: string; // ISO 8601 timestamp
+}
+
+export interface IssueCommentsResponse {
+  comments: IssueComment[];
+}
+
+// Request type for POST /api/issues/:id/comments
+export interface AddIssueCommentRequest {
+  text: string;
+  author?: string; // Defaults to bd's actor
+}
+
+export type IssueActivityKind =
+  | 'created'
+  | 'comment'
+  | 'status'
+  | 'label_added'
+  | 'label_removed'
+  | 'dependency_added'
+  | 'dependency_removed';
+
+// One entry of an issue's activity timeline
+export interface IssueActivityEvent {
+  kind: IssueActivityKind;
+  at: string; // ISO 8601 timestamp
+  author?: string; // Unknown for changes the dashboard only observed
+  text?: string; // Comment body
+  from?: IssueStatus; // Status transitions
+  to?: IssueStatus;
+  inferred?: boolean; // Reconstructed from issue timestamps rather than observed
+  label?: string;
+  dependency?: IssueLink;
+}
+
+// Response type for GET /api/issues/:id/activity, oldest event first
+export interface IssueActivityResponse {
+  events: IssueActivityEvent[];
+}
+
+// Manual board order per issue id, kept in dashboard-owned metadata (lower rank first)
+export type IssueRanks = Record<string, number>;
+
+export interface IssueRanksResponse {
+  ranks: IssueRanks;
+}
+
+// Request type for PATCH /api/ranks; null clears an issue's rank
+export interface UpdateIssueRanksRequest {
+  ranks: Record<string, number | null>;
+}
+
+// Why an issue is not ready work (GET /api/ready)
+export interface ReadyWorkReason {
+  code: 'status' | 'deferred' | 'blocked' | 'parent_blocked' | 'parent_deferred';
+  message: string;
+  issue_ids?: string[]; // Blockers or the ancestor responsible
+}
+
+export interface ReadyWorkItem {
+  issue: Issue;
+  ready: boolean;
+  reasons: ReadyWorkReason[]; // Empty when ready
+}
+
+// Unfinished issues split like `bd ready`, each list sorted by priority then age
+export interface ReadyWorkResponse {
+  ready: ReadyWorkItem[];
+  notReady: ReadyWorkItem[];
+}
+
+// Issue fields covered by full-text search
+export type SearchField =
+  | 'id'
+  | 'title'
+  | 'labels'
+  | 'assignee'
+  | 'external_ref'
+  | 'description'
+  | 'design'
+  | 'acceptance_criteria'
+  | 'notes';
+
+// Where a search matched: an excerpt of the field with the matched ranges marked
+export interface SearchMatch {
+  field: SearchField;
+  snippet: string;
+  highlights: [number, number][]; // [start, end) offsets into snippet
+}
+
+export interface SearchResult {
+  issue: Issue;
+  score: number;
+  matches: SearchMatch[]; // Best-weighted field first
+}
+
+// Search results, best first; total counts every match even when results is limited
+export interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+}
+
+// Tab a saved view opens: the tabs that keep their state in the URL query string
+export type SavedViewTab = 'table' | 'dashboard' | 'graph';
+
+// A named view: a tab plus the query string holding its filters, sort and columns
+export interface SavedView {
+  id: string;
+  name: string;
+  tab: SavedViewTab;
+  query: string; // "" or "?..." as in the tab's URL
+  created_at: string;
+  updated_at: string;
+}
+
+// Response type for GET /api/views; defaults maps a tab to the view it opens with
+export interface SavedViewsResponse {
+  views: SavedView[];
+  defaults: Partial<Record<SavedViewTab, string>>;
+}
+
+// Request type for POST /api/views
+export interface CreateSavedViewRequest {
+  name: string;
+  tab: SavedViewTab;
+  query: string;
+}
+
+// Request type for PATCH /api/views/:id
+export interface UpdateSavedViewRequest {
+  name?: string;
+  query?: string;
+}
+
+// Request type for PUT /api/views/defaults/:tab; null clears the tab's default
+export interface SetDefaultViewRequest {
+  viewId: string | null;
+}
+
+// A problem in a structured issue query, with the span of the query it refers to
+export interface IssueQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+// Tailwind color family used for a board column's background and header
+export type BoardColumnColor = 'slate' | 'red' | 'orange' | 'amber' | 'green' | 'blue' | 'indigo' | 'purple';
+
+// One Kanban column, as configured in .beads/dashboard.json
+export interface BoardColumnConfig {
+  id: string;
+  label: string;
+  statuses: IssueStatus[]; // Issues with one of these statuses land here (empty = any status)
+  labels?: string[]; // Issues must also carry one of these labels; label columns are matched first
+  blockedByDependencies?: boolean; // Also collects not-yet-started issues with unresolved dependencies
+  dropStatus?: IssueStatus; // Status set when a card is dropped here (defaults to statuses[0])
+  wipLimit?: number; // Column is highlighted when it holds more issues than this
+  color?: BoardColumnColor;
+}
+
+// Fields an issue template pre-fills in the creator, as configured in .beads/dashboard.json
+export interface IssueTemplate {
+  id: string;
+  name: string;
+  title?: string; // e.g. a "[Bug] " prefix
+  description?: string;
+  issue_type?: ExtendedIssueType;
+  priority?: Priority;
+  assignee?: string;
+  labels?: string[];
+  estimate?: number; // Minutes
+  design?: string;
+  acceptance_criteria?: string;
+  notes?: string;
+}
+
+// Per-project dashboard configuration (GET /api/config)
+export interface DashboardConfig {
+  board: {
+    columns: BoardColumnConfig[];
+  };
+  templates: IssueTemplate[];
+}
+
+export interface DashboardConfigResponse {
+  config: DashboardConfig;
+  errors: string[]; // Problems found in .beads/dashboard.json; defaults are used for the invalid parts
+}
+
 // Age distribution bucket
 export interface AgeChartDataPoint {
   range: string; // e.g., "0-7d", "8-14d" or "0-4h", "4-8h"
@@ -132,15 +357,58 @@ export interface AgeChartDataPoint {
   bucketIndex: number; // For consistent coloring
 }
 
+// Completed items per day for the throughput run chart
+export interface ThroughputRunPoint {
+  date: string; // YYYY-MM-DD
+  timestamp: number;
+  count: number;
+}
+
+// Monte Carlo forecast outcome at one confidence level
+export interface ForecastPoint {
+  confidence: number; // 50, 85 or 95 (%)
+  value: number; // Items completed, or days until done, depending on the forecast
+}
+
+// Data point for an epic's burnup chart
+export interface EpicBurnupPoint {
+  date: string; // YYYY-MM-DD
+  timestamp: number;
+  scope: number; // Descendants that existed by the end of the day
+  completed: number; // Descendants closed by the end of the day
+}
+
+// A descendant added to an epic after the epic was created
+export interface EpicScopeChange {
+  issue_id: string;
+  title: string;
+  timestamp: number; // Day the issue was added (bucketed)
+}
+
+// Slice of issues the dashboard metrics are computed over.
+// Empty lists / null mean "no filter" for that dimension.
+export interface DashboardFilters {
+  labels: string[]; // Issues with any of these labels
+  types: string[];
+  assignees: string[]; // Matches assignee, or owner when unassigned
+  priorities: Priority[];
+  epic: string | null; // Descendants of this epic
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+}
+
 // Calculated metrics for dashboard
 export interface Metrics {
   avgAge: string; // Average age of open issues (formatted with unit)
   avgAgeRaw: number; // Raw numeric value in hours
   displayUnit: 'hours' | 'days'; // Which unit is being displayed
   openCount: number; // Total open issues
-  cycleTimeP50: number; // 50th percentile cycle time (in hours)
+  leadTimeP50: number; // 50th percentile lead time, created → closed (in hours)
+  leadTimeP85: number; // 85th percentile lead time (in hours)
+  cycleTimeP50: number; // 50th percentile cycle time, first in_progress → closed (in hours)
   cycleTimeP85: number; // 85th percentile cycle time (in hours)
   leadTimeData: LeadTimeDataPoint[];
+  cycleTimeData: LeadTimeDataPoint[]; // Only issues with a recorded in_progress transition
   agingWipData: AgingWipDataPoint[];
   flowChartData: FlowChartDataPoint[];
   ageChartData: AgeChartDataPoint[];
@@ -154,17 +422,44 @@ export interface UpdateIssueDescriptionRequest {
 
 export interface UpdateIssueStatusRequest {
   status: IssueStatus;
+  close_reason?: string; // Only with status 'closed' (bd close --reason)
+  // Precondition, as for PATCH /api/issues/:id
+  expected_updated_at?: string;
 }
 
 export interface UpdateIssuePriorityRequest {
   priority: Priority;
 }
 
+// A link for an issue that doesn't exist yet: the side left out is the new issue
+export type NewIssueDependency =
+  | { depends_on_id: string; issue_id?: undefined; type: IssueDependency['type'] }
+  | { issue_id: string; depends_on_id?: undefined; type: IssueDependency['type'] };
+
 export interface CreateIssueRequest {
   title: string;
   description?: string;
   issue_type?: ExtendedIssueType;
   priority?: Priority;
+  assignee?: string;
+  labels?: string[];
+  parent_id?: string;
+  due?: string; // ISO 8601
+  defer?: string; // ISO 8601
+  estimate?: number; // Minutes
+  external_ref?: string;
+  design?: string;
+  acceptance_criteria?: string;
+  notes?: string;
+  dependencies?: NewIssueDependency[];
+}
+
+// Response type for POST /api/issues. The issue exists even when success is
+// false; error lists the fields that could not be set.
+export interface CreateIssueResponse {
+  success: boolean;
+  id: string | null;
+  error?: string;
 }
 
 // Request type for PATCH /api/issues/:id - all fields optional
@@ -184,6 +479,64 @@ export interface UpdateIssueRequest {
   design?: string;
   acceptance_criteria?: string;
   notes?: string;
+  close_reason?: string; // Only with status 'closed' (bd close --reason)
+  // Precondition: the issue's updated_at when it was loaded; a different current value is a 409
+  expected_updated_at?: string;
+}
+
+// Response type for PATCH /api/issues/:id, POST /api/issues/:id/status and
+// POST /api/issues/:id/dependencies; issue is the issue after the change
+export interface UpdateIssueResponse {
+  success: boolean;
+  error?: string;
+  issue?: Issue;
+}
+
+// 409 response from PATCH /api/issues/:id and POST /api/issues/:id/status
+// when the issue changed since it was loaded
+export interface IssueConflictResponse {
+  error: string;
+  // The issue as it is now
+  issue: Issue;
+}
+
+// Request type for POST/DELETE /api/issues/:id/dependencies.
+// POST treats the list as the desired set of links involving the issue;
+// DELETE removes exactly the listed links.
+export interface UpdateIssueDependenciesRequest {
+  dependencies: IssueDependency[];
+  // Precondition, as for PATCH /api/issues/:id (POST only)
+  expected_updated_at?: string;
+}
+
+// Changes applied to every issue in a bulk update. Labels are added/removed
+// per issue rather than replaced; status 'closed' closes via bd close with
+// the optional close_reason.
+export interface BulkIssueUpdates {
+  status?: IssueStatus;
+  priority?: Priority;
+  assignee?: string;
+  parent_id?: string | null;
+  add_labels?: string[];
+  remove_labels?: string[];
+  close_reason?: string;
+}
+
+// Request type for POST /api/issues/bulk
+export interface BulkUpdateIssuesRequest {
+  ids: string[];
+  updates: BulkIssueUpdates;
+}
+
+export interface BulkIssueResult {
+  id: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkUpdateIssuesResponse {
+  success: boolean;
+  results: BulkIssueResult[];
 }
 
 export interface ApiResponse<T = unknown> {
@@ -221,6 +574,14 @@ export interface BeadsHealth {
   };
 }
 
+// Error body returned by write routes while Beads health is read-only
+export interface WriteBlockedResponse {
+  error: string;
+  code: BeadsHealthIssueCode;
+  readOnly: true;
+  issue: BeadsHealthIssue;
+}
+
 // Beads registry entry (from ~/.beads/registry.json). Runtime daemon fields are
 // optional legacy metadata and are not reliable across Beads versions.
 export interface BeadsRegistryEntry {
@@ -232,6 +593,10 @@ export interface BeadsRegistryEntry {
   started_at?: string;
 }
 
+// Socket.IO events from the server. 'refresh' means Beads data changed and
+// everything reloads; the others name the one dashboard-owned store that changed.
+export type DashboardSocketEvent = 'refresh' | 'ranks-changed' | 'views-changed';
+
 // Registry response with project name extracted
 export interface BeadsProject {
   name: string; // Extracted from workspace_path
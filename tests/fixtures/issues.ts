@@ -0,0 +1,8 @@
+import type { Issue } from '@shared/types';
+
+/**
+ * An open P2 task titled after its ID, with any fields overridden
+ */
+export function issue(id: string, overrides: Partial<Issue> = {}): Issue {
+  return { id, title: id, status: 'open', issue_type: 'task', priority: 2, created_at: '2024-01-01T00:00:00Z', ...overrides };
+}
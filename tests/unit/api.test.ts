@@ -5,6 +5,8 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { createApiRouter } from '@server/routes/api';
+import { getWriteBlock } from '@server/utils/writeGuard';
+import { StatusHistoryStore } from '@server/utils/statusHistoryStore';
 import type { Issue } from '@shared/types';
 
 // Track executed bd commands for verification
@@ -15,6 +17,9 @@ const mockMigrationInspect = vi.hoisted(() => ({
   error: null as Error | null,
 }));
 
+// Lets a test change the fixture data when a command runs, as bd would
+const commandHooks = vi.hoisted(() => ({ onCommand: null as ((command: string) => void) | null }));
+
 function formatExecFileCommand(file: string, args: string[]): string {
   const rendered = [file];
   for (let i = 0; i < args.length; i += 1) {
@@ -36,6 +41,7 @@ vi.mock('child_process', () => {
   const execFileMock = vi.fn((file: string, args: string[], _options: any, callback: (error: Error | null, stdout: string, stderr: string) => void) => {
     const command = formatExecFileCommand(file, args);
     executedCommands.push(command);
+    commandHooks.onCommand?.(command);
 
     // Simulate successful command execution
     if (typeof callback === 'function') {
@@ -52,6 +58,11 @@ vi.mock('child_process', () => {
           callback(mockMigrationInspect.error, mockMigrationInspect.stdout, mockMigrationInspect.stderr);
           return;
         }
+        if (args[0] === 'comments') {
+          const comment = { id: 7, issue_id: args[args[1] === 'add' ? 2 : 1], author: 'alice', text: 'Looks good', created_at: '2024-01-03T00:00:00Z' };
+          callback(null, JSON.stringify(args[1] === 'add' ? comment : [comment]), '');
+          return;
+        }
         // Return appropriate output based on command
         if (command.includes('bd create')) {
           callback(null, 'Created issue: test-new-123', '');
@@ -74,6 +85,8 @@ describe('API Routes', () => {
   let beadsDir: string;
   let issuesFile: string;
   let emitRefreshSpy: ReturnType<typeof vi.fn>;
+  // Stands in for the file watcher's snapshots
+  let historyStore: StatusHistoryStore;
 
   beforeEach(() => {
     // Create temporary directory for testing
@@ -95,7 +108,8 @@ describe('API Routes', () => {
       setProjectRoot: vi.fn(),
       onProjectChange: vi.fn(),
     };
-    const apiRouter = createApiRouter(mockProjectManager as any, emitRefreshSpy);
+    historyStore = new StatusHistoryStore(() => tempDir);
+    const apiRouter = createApiRouter(mockProjectManager as any, emitRefreshSpy, historyStore);
     app.use('/api', apiRouter);
   });
 
@@ -209,6 +223,282 @@ describe('API Routes', () => {
 
   });
 
+  describe('GET /api/history', () => {
+    it('returns the transitions recorded by snapshots', async () => {
+      const issue: Issue = {
+        id: 'hist-1',
+        title: 'Tracked issue',
+        status: 'in_progress',
+        issue_type: 'task',
+        priority: 2,
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-02T00:00:00Z',
+      };
+      await historyStore.record([issue]);
+
+      const first = await request(app).get('/api/history');
+
+      expect(first.status).toBe(200);
+      expect(first.body.transitions).toEqual([
+        { issue_id: 'hist-1', from: null, to: 'open', at: '2024-01-01T00:00:00Z', inferred: true },
+        { issue_id: 'hist-1', from: 'open', to: 'in_progress', at: '2024-01-02T00:00:00Z', inferred: true },
+      ]);
+
+      await historyStore.record([{ ...issue, status: 'blocked' }]);
+      const second = await request(app).get('/api/history');
+
+      expect(second.body.transitions).toHaveLength(3);
+      expect(second.body.transitions[2]).toMatchObject({ issue_id: 'hist-1', from: 'in_progress', to: 'blocked' });
+      expect(second.body.transitions[2].inferred).toBeUndefined();
+    });
+
+    it('only reads, without exporting or recording', async () => {
+      fs.writeFileSync(issuesFile, JSON.stringify({ id: 'hist-2', title: 'Untracked', status: 'open', issue_type: 'task', priority: 2, created_at: '2024-01-01T00:00:00Z' }));
+
+      const response = await request(app).get('/api/history');
+
+      expect(response.body.transitions).toEqual([]);
+      expect(executedCommands.some((c) => c.startsWith('bd export'))).toBe(false);
+      expect(fs.existsSync(path.join(beadsDir, 'dashboard', 'history.jsonl'))).toBe(false);
+    });
+  });
+
+  describe('GET /api/ready', () => {
+    it('returns ready work by priority and explains the rest', async () => {
+      const base = { issue_type: 'task', created_at: '2024-01-01T00:00:00Z' };
+      const issues = [
+        { ...base, id: 'ready-low', title: 'Low', status: 'open', priority: 3 },
+        { ...base, id: 'ready-high', title: 'High', status: 'open', priority: 0 },
+        { ...base, id: 'ready-later', title: 'Later', status: 'open', priority: 1, defer: '2999-01-01T00:00:00Z' },
+        {
+          ...base, id: 'ready-blocked', title: 'Blocked', status: 'open', priority: 1,
+          dependencies: [{ issue_id: 'ready-blocked', depends_on_id: 'ready-low', type: 'blocks' }],
+        },
+        { ...base, id: 'ready-done', title: 'Done', status: 'closed', priority: 1 },
+      ];
+      fs.writeFileSync(issuesFile, issues.map((issue) => JSON.stringify(issue)).join('\n'));
+
+      const response = await request(app).get('/api/ready');
+
+      expect(response.status).toBe(200);
+      expect(response.body.ready.map((item: { issue: Issue }) => item.issue.id)).toEqual(['ready-high', 'ready-low']);
+      expect(response.body.notReady.map((item: { issue: Issue; reasons: { code: string }[] }) => [
+        item.issue.id,
+        item.reasons.map((reason) => reason.code),
+      ])).toEqual([
+        ['ready-later', ['deferred']],
+        ['ready-blocked', ['blocked']],
+      ]);
+    });
+  });
+
+  describe('GET /api/issues', () => {
+    it('filters issues with a structured query', async () => {
+      const base = { issue_type: 'task', created_at: '2024-01-01T00:00:00Z' };
+      const issues = [
+        { ...base, id: 'query-1', title: 'Urgent API', status: 'open', priority: 0, labels: ['api'], assignee: 'alice' },
+        { ...base, id: 'query-2', title: 'Shelved API', status: 'open', priority: 1, labels: ['api', 'wontfix'] },
+        { ...base, id: 'query-3', title: 'Done', status: 'closed', priority: 0, labels: ['api'] },
+        { ...base, id: 'query-4', title: 'Deleted', status: 'tombstone', priority: 0, labels: ['api'] },
+      ];
+      fs.writeFileSync(issuesFile, issues.map((issue) => JSON.stringify(issue)).join('\n'));
+
+      const response = await request(app)
+        .get('/api/issues')
+        .query({ q: '-status:closed priority:<=1 label:api -label:wontfix assignee:me', me: 'alice' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.issues.map((issue: Issue) => issue.id)).toEqual(['query-1']);
+    });
+
+    it('rejects a query that does not parse', async () => {
+      const response = await request(app).get('/api/issues').query({ q: 'status:bogus' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown status "bogus"');
+      expect(response.body.errors).toHaveLength(1);
+    });
+  });
+
+  describe('GET /api/search', () => {
+    it('searches markdown fields and limits the results', async () => {
+      const base = { issue_type: 'task', status: 'open', priority: 2, created_at: '2024-01-01T00:00:00Z' };
+      const issues = [
+        { ...base, id: 'search-1', title: 'Fix login', notes: 'Timeout seen in staging' },
+        { ...base, id: 'search-2', title: 'Login timeout on mobile' },
+        { ...base, id: 'search-3', title: 'Unrelated' },
+      ];
+      fs.writeFileSync(issuesFile, issues.map((issue) => JSON.stringify(issue)).join('\n'));
+
+      const response = await request(app).get('/api/search?q=login%20timeout&limit=1');
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(2);
+      expect(response.body.results.map((result: { issue: Issue }) => result.issue.id)).toEqual(['search-2']);
+    });
+
+    it('rejects an invalid limit', async () => {
+      const response = await request(app).get('/api/search?q=login&limit=0');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/config', () => {
+    it('returns the default board when there is no config file', async () => {
+      const response = await request(app).get('/api/config');
+
+      expect(response.status).toBe(200);
+      expect(response.body.errors).toEqual([]);
+      expect(response.body.config.board.columns.map((c: { id: string }) => c.id)).toEqual([
+        'blocked', 'ready', 'in_progress', 'closed',
+      ]);
+    });
+
+    it('reads columns from .beads/dashboard.json and reports invalid ones', async () => {
+      fs.writeFileSync(path.join(beadsDir, 'dashboard.json'), JSON.stringify({
+        board: {
+          columns: [
+            { id: 'todo', label: 'To Do', statuses: ['open'] },
+            { id: 'doing', statuses: ['in_progress'], wipLimit: 2 },
+            { id: 'bad', statuses: ['nope'] },
+          ],
+        },
+      }));
+
+      const response = await request(app).get('/api/config');
+
+      expect(response.status).toBe(200);
+      expect(response.body.config.board.columns).toEqual([
+        { id: 'todo', label: 'To Do', statuses: ['open'] },
+        { id: 'doing', label: 'doing', statuses: ['in_progress'], wipLimit: 2 },
+      ]);
+      expect(response.body.errors).toHaveLength(1);
+      expect(response.body.errors[0]).toMatch(/^board\.columns\[2\]: statuses/);
+    });
+
+    it('falls back to defaults when the file is not valid JSON', async () => {
+      fs.writeFileSync(path.join(beadsDir, 'dashboard.json'), '{ board: ');
+
+      const response = await request(app).get('/api/config');
+
+      expect(response.status).toBe(200);
+      expect(response.body.config.board.columns).toHaveLength(4);
+      expect(response.body.errors[0]).toMatch(/^Could not parse dashboard\.json/);
+    });
+  });
+
+  describe('/api/ranks', () => {
+    it('starts empty, stores ranks in dashboard metadata and clears them with null', async () => {
+      const empty = await request(app).get('/api/ranks');
+      expect(empty.status).toBe(200);
+      expect(empty.body).toEqual({ ranks: {} });
+
+      const saved = await request(app).patch('/api/ranks').send({ ranks: { 'rank-1': 1024, 'rank-2': 512.5 } });
+      expect(saved.status).toBe(200);
+      expect(saved.body.ranks).toEqual({ 'rank-1': 1024, 'rank-2': 512.5 });
+      // Clients reload the ranks alone, not all Beads data
+      expect(emitRefreshSpy).toHaveBeenCalledWith('ranks-changed');
+      expect(emitRefreshSpy).not.toHaveBeenCalledWith();
+
+      const metadata = JSON.parse(fs.readFileSync(path.join(beadsDir, 'dashboard', 'issue-metadata.json'), 'utf-8'));
+      expect(metadata).toEqual({ 'rank-1': { rank: 1024 }, 'rank-2': { rank: 512.5 } });
+
+      await request(app).patch('/api/ranks').send({ ranks: { 'rank-1': null } });
+      const after = await request(app).get('/api/ranks');
+      expect(after.body).toEqual({ ranks: { 'rank-2': 512.5 } });
+      // Ranks never go through bd
+      expect(executedCommands.some((cmd) => cmd.includes('update'))).toBe(false);
+    });
+
+    it('rejects invalid rank updates', async () => {
+      const badRank = await request(app).patch('/api/ranks').send({ ranks: { 'rank-1': 'first' } });
+      expect(badRank.status).toBe(400);
+      expect(badRank.body.error).toMatch(/Invalid rank for rank-1/);
+
+      const badId = await request(app).patch('/api/ranks').send({ ranks: { 'rank-1; rm -rf /': 1 } });
+      expect(badId.status).toBe(400);
+      expect(badId.body.error).toBe('Invalid issue ID format');
+
+      const empty = await request(app).patch('/api/ranks').send({ ranks: {} });
+      expect(empty.status).toBe(400);
+      expect(emitRefreshSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/api/views', () => {
+    it('saves, updates and deletes views in the dashboard data directory', async () => {
+      const empty = await request(app).get('/api/views');
+      expect(empty.status).toBe(200);
+      expect(empty.body).toEqual({ views: [], defaults: {} });
+
+      const created = await request(app)
+        .post('/api/views')
+        .send({ name: '  My bugs ', tab: 'table', query: '?q=type%3Abug' });
+      expect(created.status).toBe(201);
+      expect(created.body.view).toMatchObject({ name: 'My bugs', tab: 'table', query: '?q=type%3Abug' });
+      // Clients reload the views alone, not all Beads data
+      expect(emitRefreshSpy).toHaveBeenCalledWith('views-changed');
+      const id = created.body.view.id;
+
+      const stored = JSON.parse(fs.readFileSync(path.join(beadsDir, 'dashboard', 'saved-views.json'), 'utf-8'));
+      expect(stored.views).toHaveLength(1);
+
+      const renamed = await request(app).patch(`/api/views/${id}`).send({ name: 'Open bugs', query: '?q=type%3Abug+status%3Aopen' });
+      expect(renamed.status).toBe(200);
+      expect(renamed.body.view).toMatchObject({ id, name: 'Open bugs', query: '?q=type%3Abug+status%3Aopen' });
+
+      const missing = await request(app).patch('/api/views/nope').send({ name: 'x' });
+      expect(missing.status).toBe(404);
+
+      const deleted = await request(app).delete(`/api/views/${id}`);
+      expect(deleted.status).toBe(200);
+      expect((await request(app).get('/api/views')).body.views).toEqual([]);
+      expect((await request(app).delete(`/api/views/${id}`)).status).toBe(404);
+      expect(emitRefreshSpy).toHaveBeenCalledTimes(3);
+      expect(emitRefreshSpy).not.toHaveBeenCalledWith();
+    });
+
+    it('sets a default per tab and clears it when the view is deleted', async () => {
+      const graph = await request(app).post('/api/views').send({ name: 'Graph', tab: 'graph', query: '?epic=e-1' });
+      const table = await request(app).post('/api/views').send({ name: 'Table', tab: 'table', query: '?sort=priority' });
+
+      const mismatched = await request(app).put('/api/views/defaults/graph').send({ viewId: table.body.view.id });
+      expect(mismatched.status).toBe(400);
+
+      const set = await request(app).put('/api/views/defaults/table').send({ viewId: table.body.view.id });
+      expect(set.status).toBe(200);
+      expect(set.body.defaults).toEqual({ table: table.body.view.id });
+
+      await request(app).put('/api/views/defaults/graph').send({ viewId: graph.body.view.id });
+      await request(app).put('/api/views/defaults/graph').send({ viewId: null });
+      await request(app).delete(`/api/views/${table.body.view.id}`);
+      expect((await request(app).get('/api/views')).body.defaults).toEqual({});
+      expect(emitRefreshSpy).not.toHaveBeenCalledWith();
+    });
+
+    it('rejects invalid views', async () => {
+      const noName = await request(app).post('/api/views').send({ name: ' ', tab: 'table', query: '' });
+      expect(noName.status).toBe(400);
+      expect(noName.body.error).toBe('View name is required');
+
+      const badTab = await request(app).post('/api/views').send({ name: 'x', tab: 'epic', query: '' });
+      expect(badTab.status).toBe(400);
+      expect(badTab.body.error).toBe('Invalid tab');
+
+      // Board state isn't kept in the URL, so there is nothing for a view to save
+      const boardTab = await request(app).post('/api/views').send({ name: 'x', tab: 'board', query: '' });
+      expect(boardTab.status).toBe(400);
+
+      const badQuery = await request(app).post('/api/views').send({ name: 'x', tab: 'table', query: 'sort=id' });
+      expect(badQuery.status).toBe(400);
+
+      const badDefaultTab = await request(app).put('/api/views/defaults/epic').send({ viewId: null });
+      expect(badDefaultTab.status).toBe(400);
+      expect(emitRefreshSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Issue ID validation', () => {
     it('accepts issue IDs up to 100 characters', async () => {
       const longId = 'a'.repeat(100);
@@ -309,6 +599,25 @@ describe('API Routes', () => {
       expect(response.body).toHaveProperty('error', 'Invalid status value');
     });
 
+    it('closes via bd close with the close reason', async () => {
+      const response = await request(app)
+        .post('/api/issues/test-123/status')
+        .send({ status: 'closed', close_reason: "Won't fix" });
+
+      expect(response.status).toBe(200);
+      expect(executedCommands).toContain(`bd close test-123 --reason="Won't fix"`);
+      expect(executedCommands.some((cmd) => cmd.startsWith('bd update'))).toBe(false);
+    });
+
+    it('rejects a close reason for other statuses', async () => {
+      const response = await request(app)
+        .post('/api/issues/test-123/status')
+        .send({ status: 'open', close_reason: 'Done' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Close reason requires status "closed"');
+    });
+
     it('emits refresh event after successful status update', async () => {
       await request(app)
         .post('/api/issues/test-123/status')
@@ -328,6 +637,119 @@ describe('API Routes', () => {
       expect(response.body).toHaveProperty('error', 'No fields to update');
     });
 
+    describe('updated_at precondition', () => {
+      beforeEach(() => {
+        const issue: Partial<Issue> = {
+          id: 'test-cas',
+          title: 'Edited elsewhere',
+          status: 'open',
+          issue_type: 'task',
+          priority: 2,
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-05T10:00:00Z',
+        };
+        fs.writeFileSync(issuesFile, JSON.stringify(issue));
+      });
+
+      afterEach(() => {
+        commandHooks.onCommand = null;
+      });
+
+      it('applies the update when the issue is unchanged', async () => {
+        const response = await request(app)
+          .patch('/api/issues/test-cas')
+          .send({ title: 'Mine', expected_updated_at: '2024-01-05T10:00:00.000Z' });
+
+        expect(response.status).toBe(200);
+        expect(executedCommands).toContain('bd update test-cas --title=Mine');
+        expect(executedCommands.some((c) => c.includes('expected_updated_at'))).toBe(false);
+      });
+
+      it('returns the updated issue so the next change can use its updated_at', async () => {
+        commandHooks.onCommand = (command) => {
+          if (command.startsWith('bd update test-cas')) {
+            fs.writeFileSync(issuesFile, JSON.stringify({ id: 'test-cas', title: 'Mine', status: 'open', issue_type: 'task', priority: 2, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-06T10:00:00Z' }));
+          }
+        };
+
+        const response = await request(app)
+          .patch('/api/issues/test-cas')
+          .send({ title: 'Mine', expected_updated_at: '2024-01-05T10:00:00Z' });
+
+        expect(response.status).toBe(200);
+        expect(response.body).toEqual({ success: true, issue: expect.objectContaining({ title: 'Mine', updated_at: '2024-01-06T10:00:00Z' }) });
+      });
+
+      it('lets only one of two requests made against the same updated_at through', async () => {
+        commandHooks.onCommand = (command) => {
+          if (command.startsWith('bd update test-cas')) {
+            fs.writeFileSync(issuesFile, JSON.stringify({ id: 'test-cas', title: 'Changed', status: 'open', issue_type: 'task', priority: 2, created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-06T10:00:00Z' }));
+          }
+        };
+
+        const responses = await Promise.all([
+          request(app).patch('/api/issues/test-cas').send({ title: 'First', expected_updated_at: '2024-01-05T10:00:00Z' }),
+          request(app).patch('/api/issues/test-cas').send({ title: 'Second', expected_updated_at: '2024-01-05T10:00:00Z' }),
+        ]);
+
+        expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+        expect(executedCommands.filter((c) => c.startsWith('bd update test-cas'))).toHaveLength(1);
+      });
+
+      it('checks the precondition on status changes too', async () => {
+        const stale = await request(app)
+          .post('/api/issues/test-cas/status')
+          .send({ status: 'in_progress', expected_updated_at: '2024-01-04T09:00:00Z' });
+
+        expect(stale.status).toBe(409);
+        expect(stale.body.issue).toMatchObject({ id: 'test-cas' });
+        expect(executedCommands.some((c) => c.startsWith('bd update'))).toBe(false);
+
+        const current = await request(app)
+          .post('/api/issues/test-cas/status')
+          .send({ status: 'in_progress', expected_updated_at: '2024-01-05T10:00:00Z' });
+
+        expect(current.status).toBe(200);
+        expect(current.body).toEqual({ success: true, issue: expect.objectContaining({ id: 'test-cas' }) });
+        expect(executedCommands).toContain('bd update test-cas --status=in_progress');
+      });
+
+      it('checks the precondition on dependency changes too', async () => {
+        const stale = await request(app)
+          .post('/api/issues/test-cas/dependencies')
+          .send({ dependencies: [], expected_updated_at: '2024-01-04T09:00:00Z' });
+
+        expect(stale.status).toBe(409);
+        expect(stale.body.issue).toMatchObject({ id: 'test-cas' });
+        expect(emitRefreshSpy).not.toHaveBeenCalled();
+
+        const current = await request(app)
+          .post('/api/issues/test-cas/dependencies')
+          .send({ dependencies: [], expected_updated_at: '2024-01-05T10:00:00Z' });
+
+        expect(current.status).toBe(200);
+        expect(current.body).toEqual({ success: true, issue: expect.objectContaining({ id: 'test-cas' }) });
+      });
+
+      it('returns 409 with the current issue when it changed since it was loaded', async () => {
+        const response = await request(app)
+          .patch('/api/issues/test-cas')
+          .send({ title: 'Mine', expected_updated_at: '2024-01-04T09:00:00Z' });
+
+        expect(response.status).toBe(409);
+        expect(response.body.issue).toMatchObject({ id: 'test-cas', title: 'Edited elsewhere' });
+        expect(executedCommands.some((c) => c.startsWith('bd update'))).toBe(false);
+      });
+
+      it('rejects an unreadable precondition', async () => {
+        const response = await request(app)
+          .patch('/api/issues/test-cas')
+          .send({ title: 'Mine', expected_updated_at: 'yesterday' });
+
+        expect(response.status).toBe(400);
+      });
+    });
+
     describe('date field updates (due/defer) via bd update commands', () => {
       beforeEach(() => {
         // Create an issue in the JSONL file for label diffing
@@ -533,6 +955,17 @@ describe('API Routes', () => {
         expect(statusCommand).toContain('--status=in_progress');
       });
 
+      it('closes last via bd close when status is closed', async () => {
+        await request(app)
+          .patch('/api/issues/test-issue')
+          .send({ status: 'closed', close_reason: 'Duplicate', title: 'Dup' });
+
+        expect(executedCommands.filter((cmd) => /^bd (update|close)/.test(cmd))).toEqual([
+          'bd update test-issue --title=Dup',
+          'bd close test-issue --reason=Duplicate',
+        ]);
+      });
+
       it('calls bd update with --priority flag', async () => {
         await request(app)
           .patch('/api/issues/test-issue')
@@ -545,4 +978,457 @@ describe('API Routes', () => {
     });
   });
 
+  describe('Comment and activity routes', () => {
+    const issue: Partial<Issue> = {
+      id: 'act-1',
+      title: 'Discussed issue',
+      status: 'open',
+      issue_type: 'task',
+      priority: 2,
+      created_at: '2024-01-01T00:00:00Z',
+      created_by: 'bob',
+      labels: ['ui'],
+    };
+
+    beforeEach(() => {
+      fs.writeFileSync(issuesFile, JSON.stringify(issue));
+    });
+
+    it('lists comments with string IDs', async () => {
+      const response = await request(app).get('/api/issues/act-1/comments');
+
+      expect(response.status).toBe(200);
+      expect(response.body.comments).toEqual([
+        { id: '7', issue_id: 'act-1', author: 'alice', text: 'Looks good', created_at: '2024-01-03T00:00:00Z' },
+      ]);
+      expect(executedCommands).toContain('bd comments act-1 --json');
+    });
+
+    it('adds a comment from a temp file and triggers a refresh', async () => {
+      const response = await request(app)
+        .post('/api/issues/act-1/comments')
+        .send({ text: '--not a flag', author: 'alice' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.comment).toMatchObject({ id: '7', author: 'alice' });
+      const command = executedCommands.find((c) => c.startsWith('bd comments add act-1'));
+      expect(command).toMatch(/--file=\S+comment_file-\w+\.txt --json --author=alice$/);
+      expect(emitRefreshSpy).toHaveBeenCalled();
+    });
+
+    it('rejects empty comments', async () => {
+      const response = await request(app).post('/api/issues/act-1/comments').send({ text: '  ' });
+
+      expect(response.status).toBe(400);
+      expect(executedCommands.some((c) => c.startsWith('bd comments add'))).toBe(false);
+    });
+
+    it('merges creation, comments, status and label changes into the activity timeline', async () => {
+      await historyStore.record([issue as Issue]);
+      const changed = { ...issue, status: 'in_progress', labels: ['ui', 'urgent'] } as Issue;
+      await historyStore.record([changed]);
+      fs.writeFileSync(issuesFile, JSON.stringify(changed));
+
+      const response = await request(app).get('/api/issues/act-1/activity');
+
+      expect(response.status).toBe(200);
+      expect(response.body.events.map((e: { kind: string }) => e.kind)).toEqual(['created', 'comment', 'status', 'label_added']);
+      expect(response.body.events[0]).toMatchObject({ author: 'bob', at: '2024-01-01T00:00:00Z' });
+      expect(response.body.events[3]).toMatchObject({ label: 'urgent' });
+      expect(fs.existsSync(path.join(beadsDir, 'dashboard', 'changes.jsonl'))).toBe(true);
+    });
+
+    it('returns 404 for activity of an unknown issue', async () => {
+      const response = await request(app).get('/api/issues/act-404/activity');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Dependency routes', () => {
+    beforeEach(() => {
+      const issues: Partial<Issue>[] = [
+        {
+          id: 'dep-a',
+          title: 'Issue A',
+          status: 'open',
+          issue_type: 'task',
+          priority: 2,
+          created_at: '2024-01-01T00:00:00Z',
+          dependencies: [
+            { issue_id: 'dep-a', depends_on_id: 'dep-b', type: 'blocks' },
+            { issue_id: 'dep-a', depends_on_id: 'dep-epic', type: 'parent-child' },
+          ],
+        },
+        {
+          id: 'dep-b',
+          title: 'Issue B',
+          status: 'open',
+          issue_type: 'task',
+          priority: 2,
+          created_at: '2024-01-01T00:00:00Z',
+          dependencies: [{ issue_id: 'dep-b', depends_on_id: 'dep-c', type: 'blocks' }],
+        },
+        {
+          id: 'dep-c',
+          title: 'Issue C',
+          status: 'open',
+          issue_type: 'task',
+          priority: 2,
+          created_at: '2024-01-01T00:00:00Z',
+          dependencies: [{ issue_id: 'dep-c', depends_on_id: 'dep-d', type: 'discovered-from' }],
+        },
+        {
+          id: 'dep-d',
+          title: 'Issue D',
+          status: 'open',
+          issue_type: 'task',
+          priority: 2,
+          created_at: '2024-01-01T00:00:00Z',
+        },
+        {
+          id: 'dep-epic',
+          title: 'Epic',
+          status: 'open',
+          issue_type: 'epic',
+          priority: 2,
+          created_at: '2024-01-01T00:00:00Z',
+        },
+      ];
+      fs.writeFileSync(issuesFile, issues.map((i) => JSON.stringify(i)).join('\n'));
+    });
+
+    it('adds new links with their dependency type', async () => {
+      const response = await request(app)
+        .post('/api/issues/dep-b/dependencies')
+        .send({
+          dependencies: [
+            { issue_id: 'dep-a', depends_on_id: 'dep-b', type: 'blocks' },
+            { issue_id: 'dep-b', depends_on_id: 'dep-c', type: 'blocks' },
+            { issue_id: 'dep-b', depends_on_id: 'dep-d', type: 'discovered-from' },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, issue: expect.objectContaining({ id: 'dep-b' }) });
+      expect(executedCommands).toContain('bd dep add dep-b dep-d --type=discovered-from');
+      expect(executedCommands.filter((cmd) => cmd.startsWith('bd dep'))).toHaveLength(1);
+      expect(emitRefreshSpy).toHaveBeenCalled();
+    });
+
+    it('removes outgoing and incoming links missing from the desired set', async () => {
+      const response = await request(app)
+        .post('/api/issues/dep-b/dependencies')
+        .send({ dependencies: [] });
+
+      expect(response.status).toBe(200);
+      expect(executedCommands).toContain('bd dep remove dep-a dep-b');
+      expect(executedCommands).toContain('bd dep remove dep-b dep-c');
+    });
+
+    it('leaves the issue\'s own parent link to parent_id updates', async () => {
+      await request(app)
+        .post('/api/issues/dep-a/dependencies')
+        .send({ dependencies: [{ issue_id: 'dep-a', depends_on_id: 'dep-b', type: 'blocks' }] });
+
+      expect(executedCommands.filter((cmd) => cmd.startsWith('bd dep'))).toEqual([]);
+    });
+
+    it('rejects links that would create a cycle and reports them per link', async () => {
+      const response = await request(app)
+        .post('/api/issues/dep-c/dependencies')
+        .send({
+          dependencies: [
+            { issue_id: 'dep-b', depends_on_id: 'dep-c', type: 'blocks' },
+            { issue_id: 'dep-c', depends_on_id: 'dep-d', type: 'discovered-from' },
+            { issue_id: 'dep-c', depends_on_id: 'dep-a', type: 'waits-for' },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toContain('would create a dependency cycle');
+      expect(response.body.error).toContain('dep-c -> dep-a -> dep-b -> dep-c');
+      expect(executedCommands.find((cmd) => cmd.startsWith('bd dep add'))).toBeUndefined();
+    });
+
+    it('allows loops through links that do not block', async () => {
+      const response = await request(app)
+        .post('/api/issues/dep-d/dependencies')
+        .send({
+          dependencies: [
+            { issue_id: 'dep-c', depends_on_id: 'dep-d', type: 'discovered-from' },
+            { issue_id: 'dep-d', depends_on_id: 'dep-a', type: 'blocks' },
+          ],
+        });
+
+      expect(response.body).toEqual({ success: true, issue: expect.objectContaining({ id: 'dep-d' }) });
+      expect(executedCommands).toContain('bd dep add dep-d dep-a --type=blocks');
+    });
+
+    it('keeps checking a pair that is still linked after removing one of its link types', async () => {
+      const issues = fs.readFileSync(issuesFile, 'utf-8').split('\n').map((line) => JSON.parse(line) as Issue);
+      issues.find((issue) => issue.id === 'dep-b')!.dependencies!.push(
+        { issue_id: 'dep-b', depends_on_id: 'dep-c', type: 'waits-for' },
+      );
+      fs.writeFileSync(issuesFile, issues.map((i) => JSON.stringify(i)).join('\n'));
+
+      const response = await request(app)
+        .post('/api/issues/dep-c/dependencies')
+        .send({
+          dependencies: [
+            { issue_id: 'dep-b', depends_on_id: 'dep-c', type: 'waits-for' },
+            { issue_id: 'dep-c', depends_on_id: 'dep-b', type: 'blocks' },
+          ],
+        });
+
+      expect(executedCommands).toContain('bd dep remove dep-b dep-c');
+      expect(response.body.error).toContain('dep-c -> dep-b -> dep-c');
+      expect(executedCommands.find((cmd) => cmd.startsWith('bd dep add'))).toBeUndefined();
+    });
+
+    it('returns 400 for links that do not involve the issue', async () => {
+      const response = await request(app)
+        .post('/api/issues/dep-a/dependencies')
+        .send({ dependencies: [{ issue_id: 'dep-c', depends_on_id: 'dep-d', type: 'blocks' }] });
+
+      expect(response.status).toBe(400);
+      expect(executedCommands.filter((cmd) => cmd.startsWith('bd dep'))).toEqual([]);
+    });
+
+    it('returns 400 for malformed dependency types', async () => {
+      const response = await request(app)
+        .post('/api/issues/dep-a/dependencies')
+        .send({ dependencies: [{ issue_id: 'dep-a', depends_on_id: 'dep-d', type: 'blocks; rm' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toHaveProperty('error', 'Invalid dependency type');
+    });
+
+    it('DELETE removes only the listed links', async () => {
+      const response = await request(app)
+        .delete('/api/issues/dep-b/dependencies')
+        .send({ dependencies: [{ issue_id: 'dep-a', depends_on_id: 'dep-b', type: 'blocks' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true });
+      expect(executedCommands.filter((cmd) => cmd.startsWith('bd dep'))).toEqual(['bd dep remove dep-a dep-b']);
+    });
+
+    it('DELETE reports links that do not exist', async () => {
+      const response = await request(app)
+        .delete('/api/issues/dep-b/dependencies')
+        .send({ dependencies: [{ issue_id: 'dep-b', depends_on_id: 'dep-d', type: 'blocks' }] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toContain('link does not exist');
+    });
+  });
+
+  describe('POST /api/issues', () => {
+    it('creates an issue with every field and its initial dependencies', async () => {
+      const response = await request(app)
+        .post('/api/issues')
+        .send({
+          title: 'Crash on save',
+          issue_type: 'bug',
+          priority: 1,
+          assignee: 'alice',
+          labels: ['ui', 'crash'],
+          parent_id: 'epic-1',
+          due: '2026-11-01',
+          estimate: 90,
+          acceptance_criteria: '- [ ] No crash',
+          dependencies: [
+            { depends_on_id: 'dep-b', type: 'blocks' },
+            { issue_id: 'dep-c', type: 'blocks' },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, id: 'test-new-123' });
+      expect(executedCommands).toContain(
+        'bd create --title="Crash on save" --type=bug --priority=1 --assignee=alice --labels=ui,crash --parent=epic-1 --due=2026-11-01 --estimate=90',
+      );
+      expect(executedCommands.some((c) => /^bd update test-new-123 --acceptance-criteria-file=\S+$/.test(c))).toBe(true);
+      expect(executedCommands).toContain('bd dep add test-new-123 dep-b --type=blocks');
+      expect(executedCommands).toContain('bd dep add dep-c test-new-123 --type=blocks');
+      expect(emitRefreshSpy).toHaveBeenCalled();
+    });
+
+    it('accepts custom issue types but rejects malformed ones', async () => {
+      const custom = await request(app).post('/api/issues').send({ title: 'Gate', issue_type: 'merge-request' });
+      expect(custom.status).toBe(200);
+      expect(executedCommands[executedCommands.length - 1]).toContain('--type=merge-request');
+
+      const malformed = await request(app).post('/api/issues').send({ title: 'Bad', issue_type: 'Bug; rm' });
+      expect(malformed.status).toBe(400);
+    });
+
+    it('rejects dependencies that name both sides or neither', async () => {
+      const both = await request(app)
+        .post('/api/issues')
+        .send({ title: 'Linked', dependencies: [{ issue_id: 'a', depends_on_id: 'b', type: 'blocks' }] });
+      const neither = await request(app)
+        .post('/api/issues')
+        .send({ title: 'Linked', dependencies: [{ type: 'blocks' }] });
+
+      expect(both.status).toBe(400);
+      expect(neither.status).toBe(400);
+      expect(executedCommands.some((c) => c.startsWith('bd create'))).toBe(false);
+    });
+  });
+
+  describe('POST /api/issues/bulk', () => {
+    beforeEach(() => {
+      const issues: Partial<Issue>[] = [
+        { id: 'bulk-1', title: 'One', status: 'open', issue_type: 'task', priority: 2, created_at: '2024-01-01T00:00:00Z', labels: ['ui'] },
+        { id: 'bulk-2', title: 'Two', status: 'open', issue_type: 'task', priority: 2, created_at: '2024-01-01T00:00:00Z' },
+      ];
+      fs.writeFileSync(issuesFile, issues.map((i) => JSON.stringify(i)).join('\n'));
+    });
+
+    it('applies field updates to every issue', async () => {
+      const response = await request(app)
+        .post('/api/issues/bulk')
+        .send({ ids: ['bulk-1', 'bulk-2'], updates: { priority: 1, assignee: 'alice' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: true,
+        results: [{ id: 'bulk-1', success: true }, { id: 'bulk-2', success: true }],
+      });
+      expect(executedCommands).toContain('bd update bulk-1 --priority=1');
+      expect(executedCommands).toContain('bd update bulk-2 --assignee=alice');
+      expect(emitRefreshSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('only adds and removes labels that change', async () => {
+      await request(app)
+        .post('/api/issues/bulk')
+        .send({ ids: ['bulk-1', 'bulk-2'], updates: { add_labels: ['ui'], remove_labels: ['ui'] } })
+        .expect(200);
+
+      const labelCommands = executedCommands.filter((cmd) => cmd.startsWith('bd label'));
+      expect(labelCommands).toEqual([
+        'bd label remove bulk-1 ui',
+        'bd label add bulk-2 ui',
+      ]);
+    });
+
+    it('closes issues with a reason via bd close', async () => {
+      await request(app)
+        .post('/api/issues/bulk')
+        .send({ ids: ['bulk-1'], updates: { status: 'closed', close_reason: 'Duplicate' } })
+        .expect(200);
+
+      expect(executedCommands).toContain('bd close bulk-1 --reason=Duplicate');
+      expect(executedCommands.some((cmd) => cmd.includes('--status=closed'))).toBe(false);
+    });
+
+    it('reports per-issue failures for unknown issues', async () => {
+      const response = await request(app)
+        .post('/api/issues/bulk')
+        .send({ ids: ['bulk-1', 'missing-9'], updates: { status: 'in_progress' } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(false);
+      expect(response.body.results).toEqual([
+        { id: 'bulk-1', success: true },
+        { id: 'missing-9', success: false, error: 'Issue not found' },
+      ]);
+    });
+
+    it('rejects invalid payloads', async () => {
+      const noIds = await request(app).post('/api/issues/bulk').send({ ids: [], updates: { priority: 1 } });
+      const badId = await request(app).post('/api/issues/bulk').send({ ids: ['bad;id'], updates: { priority: 1 } });
+      const reasonWithoutClose = await request(app)
+        .post('/api/issues/bulk')
+        .send({ ids: ['bulk-1'], updates: { close_reason: 'Done' } });
+
+      expect(noIds.status).toBe(400);
+      expect(badId.body.error).toBe('Invalid issue ID format');
+      expect(reasonWithoutClose.status).toBe(400);
+      expect(executedCommands.some((cmd) => /^bd (update|close|label)/.test(cmd))).toBe(false);
+    });
+  });
+
+  describe('Read-only write guard', () => {
+    const remoteMigrationError = () => new Error([
+      'refusing to auto-apply 4 pending schema migrations to a remote-backed database (v49 -> v53):',
+      'migrating clones independently forks the schema (#4259)',
+    ].join(' '));
+
+    it('rejects writes with 409 while a remote migration is pending', async () => {
+      mockMigrationInspect.error = remoteMigrationError();
+
+      const response = await request(app)
+        .patch('/api/issues/test-123')
+        .send({ title: 'New title' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toMatchObject({
+        code: 'remote_schema_migration_required',
+        readOnly: true,
+        issue: { code: 'remote_schema_migration_required', severity: 'error' },
+      });
+      expect(response.body.error).toContain('Writes are disabled');
+      expect(executedCommands.some((cmd) => cmd.startsWith('bd update'))).toBe(false);
+      expect(emitRefreshSpy).not.toHaveBeenCalled();
+    });
+
+    it('guards create, status and dependency routes', async () => {
+      mockMigrationInspect.error = remoteMigrationError();
+
+      const responses = await Promise.all([
+        request(app).post('/api/issues').send({ title: 'New', issue_type: 'task', priority: 2 }),
+        request(app).post('/api/issues/test-123/status').send({ status: 'closed' }),
+        request(app).post('/api/issues/test-123/dependencies').send({ dependencies: [] }),
+      ]);
+
+      expect(responses.map((r) => r.status)).toEqual([409, 409, 409]);
+      expect(executedCommands.some((cmd) => /^bd (create|update|close|dep)/.test(cmd))).toBe(false);
+    });
+
+    it('reuses cached health between writes', async () => {
+      await request(app).post('/api/issues/test-123/status').send({ status: 'in_progress' });
+      await request(app).post('/api/issues/test-123/status').send({ status: 'open' });
+
+      expect(executedCommands.filter((cmd) => cmd === 'bd migrate --inspect')).toHaveLength(1);
+    });
+
+    it('allows writes again after a health refresh', async () => {
+      mockMigrationInspect.error = remoteMigrationError();
+      const blocked = await request(app).post('/api/issues/test-123/status').send({ status: 'closed' });
+      expect(blocked.status).toBe(409);
+
+      mockMigrationInspect.error = null;
+      await request(app).get('/api/beads/health');
+      const allowed = await request(app).post('/api/issues/test-123/status').send({ status: 'closed' });
+
+      expect(allowed.status).toBe(200);
+    });
+
+    it('keeps reads available while writes are blocked', async () => {
+      mockMigrationInspect.error = remoteMigrationError();
+
+      const response = await request(app).get('/api/data');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('locks other read-only states with 423', () => {
+      const block = getWriteBlock({
+        status: 'error',
+        readOnly: true,
+        issues: [{ code: 'bd_unavailable', severity: 'error', title: 'bd CLI is unavailable', message: '' }],
+        safeCommands: { backup: '', designatedMigrator: [], adoptRemote: [] },
+      });
+
+      expect(block?.status).toBe(423);
+      expect(block?.body.code).toBe('bd_unavailable');
+    });
+  });
+
 });
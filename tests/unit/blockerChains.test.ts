@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { analyzeBlockers, getBlockerIds } from '@/utils/blockerChains';
+import { issue } from '../fixtures/issues';
+
+function blockedBy(id: string, ...blockers: string[]): Partial<Issue> {
+  return {
+    dependencies: blockers.map((blocker) => ({ issue_id: id, depends_on_id: blocker, type: 'blocks' })),
+  };
+}
+
+function analyze(issues: Issue[], id: string) {
+  const issuesById = new Map(issues.map((i) => [i.id, i]));
+  return analyzeBlockers(issuesById.get(id)!, issuesById);
+}
+
+describe('getBlockerIds', () => {
+  it('combines dependency targets with legacy blocked_by, without duplicates or self references', () => {
+    const target = issue('a', { ...blockedBy('a', 'b', 'a'), blocked_by: ['b', 'c'] });
+
+    expect(getBlockerIds(target)).toEqual(['b', 'c']);
+  });
+});
+
+describe('analyzeBlockers', () => {
+  it('follows open blockers transitively and finds the root', () => {
+    const issues = [
+      issue('a', blockedBy('a', 'b')),
+      issue('b', { blocked_by: ['c'] }),
+      issue('c', blockedBy('c', 'done')),
+      issue('done', { status: 'closed' }),
+    ];
+
+    const analysis = analyze(issues, 'a');
+
+    expect(analysis.chains.map((node) => node.id)).toEqual(['b']);
+    expect(analysis.chains[0].blockers.map((node) => node.id)).toEqual(['c']);
+    // Closed blockers no longer count
+    expect(analysis.chains[0].blockers[0].blockers).toEqual([]);
+    expect(analysis.depth).toBe(2);
+    expect(analysis.rootBlockers.map((root) => root.id)).toEqual(['c']);
+    expect(analysis.cycle).toBeNull();
+  });
+
+  it('lists the deepest root blocker first', () => {
+    const issues = [
+      issue('a', blockedBy('a', 'near', 'b')),
+      issue('near'),
+      issue('b', blockedBy('b', 'far')),
+      issue('far'),
+    ];
+
+    const analysis = analyze(issues, 'a');
+
+    expect(analysis.rootBlockers.map((root) => root.id)).toEqual(['far', 'near']);
+    expect(analysis.depth).toBe(2);
+  });
+
+  it('flags cycles without looping', () => {
+    const issues = [
+      issue('a', blockedBy('a', 'b')),
+      issue('b', blockedBy('b', 'c')),
+      issue('c', blockedBy('c', 'b')),
+    ];
+
+    const analysis = analyze(issues, 'a');
+
+    expect(analysis.cycle).toEqual(['b', 'c', 'b']);
+    expect(analysis.chains[0].blockers[0].blockers[0]).toMatchObject({ id: 'b', problem: 'cycle' });
+    // Every blocker waits on another, so nothing starts the chain
+    expect(analysis.rootBlockers).toEqual([]);
+  });
+
+  it('flags missing and tombstoned references', () => {
+    const issues = [
+      issue('a', { blocked_by: ['gone', 'b'] }),
+      issue('b', blockedBy('b', 'deleted')),
+      issue('deleted', { status: 'tombstone' }),
+    ];
+
+    const analysis = analyze(issues, 'a');
+
+    expect(analysis.brokenRefs).toEqual([
+      { id: 'gone', problem: 'missing' },
+      { id: 'deleted', problem: 'tombstone' },
+    ]);
+    expect(analysis.chains[0]).toMatchObject({ id: 'gone', issue: null, problem: 'missing' });
+    // A blocker held up only by broken references is still where the work starts
+    expect(analysis.rootBlockers.map((root) => root.id)).toEqual(['b']);
+    expect(analysis.depth).toBe(1);
+  });
+
+  it('expands a blocker shared by two chains once', () => {
+    const issues = [
+      issue('a', blockedBy('a', 'b', 'c')),
+      issue('b', blockedBy('b', 'shared')),
+      issue('c', blockedBy('c', 'shared')),
+      issue('shared'),
+    ];
+
+    const analysis = analyze(issues, 'a');
+
+    expect(analysis.chains[1].blockers[0]).toMatchObject({ id: 'shared', repeated: true, blockers: [] });
+    expect(analysis.depth).toBe(2);
+    expect(analysis.rootBlockers.map((root) => root.id)).toEqual(['shared']);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { BoardColumnConfig, Issue } from '@shared/types';
+import { DEFAULT_BOARD_COLUMNS, parseDashboardConfig } from '@shared/dashboardConfig';
+import { categorizeIssue, getDropStatus, getWipUsage, groupIssuesByColumn } from '@/utils/boardColumns';
+
+const createIssue = (overrides: Partial<Issue>): Issue => ({
+  id: 'test-123',
+  title: 'Test Issue',
+  status: 'open',
+  issue_type: 'task',
+  priority: 2,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const columns: BoardColumnConfig[] = [
+  { id: 'blocked', label: 'Blocked', statuses: ['blocked'], blockedByDependencies: true },
+  { id: 'todo', label: 'To Do', statuses: ['open'] },
+  { id: 'review', label: 'Review', statuses: ['in_progress'], labels: ['review'], wipLimit: 1 },
+  { id: 'doing', label: 'Doing', statuses: ['in_progress'], wipLimit: 2 },
+  { id: 'done', label: 'Done', statuses: ['closed'] },
+];
+
+describe('parseDashboardConfig', () => {
+  it('uses the defaults when there is no board section', () => {
+    expect(parseDashboardConfig({})).toEqual({ config: { board: { columns: DEFAULT_BOARD_COLUMNS }, templates: [] }, errors: [] });
+  });
+
+  it('reports duplicate ids and bad limits but keeps valid columns', () => {
+    const { config, errors } = parseDashboardConfig({
+      board: {
+        columns: [
+          { id: 'todo', statuses: ['open'] },
+          { id: 'todo', statuses: ['closed'] },
+          { id: 'doing', statuses: ['in_progress'], wipLimit: 0 },
+        ],
+      },
+    });
+
+    expect(config.board.columns.map((c) => c.id)).toEqual(['todo']);
+    expect(errors).toEqual([
+      'board.columns[1]: duplicate id "todo"',
+      'board.columns[2]: wipLimit must be a positive whole number',
+    ]);
+  });
+
+  it('falls back to the default board when no column is valid', () => {
+    const { config, errors } = parseDashboardConfig({ board: { columns: [{ label: 'No id' }] } });
+
+    expect(config.board.columns).toBe(DEFAULT_BOARD_COLUMNS);
+    expect(errors).toHaveLength(2);
+  });
+
+  it('keeps valid issue templates and reports invalid ones', () => {
+    const { config, errors } = parseDashboardConfig({
+      templates: [
+        { id: 'bug-report', name: 'Bug report', issue_type: 'bug', priority: 1, labels: ['bug'], acceptance_criteria: '- [ ] Fixed' },
+        { id: 'spike', issue_type: 'Spike!' },
+        { id: 'chore', priority: 2 },
+      ],
+    });
+
+    expect(config.templates).toEqual([
+      { id: 'bug-report', name: 'Bug report', issue_type: 'bug', priority: 1, labels: ['bug'], acceptance_criteria: '- [ ] Fixed' },
+      { id: 'chore', name: 'chore', priority: 2 },
+    ]);
+    expect(errors).toEqual(['templates[1]: issue_type must be a lowercase issue type such as "bug"']);
+    expect(config.board.columns).toBe(DEFAULT_BOARD_COLUMNS);
+  });
+});
+
+describe('categorizeIssue with configured columns', () => {
+  it('matches label columns before status columns', () => {
+    const inReview = createIssue({ id: 'r', status: 'in_progress', labels: ['review'] });
+    const doing = createIssue({ id: 'd', status: 'in_progress' });
+
+    expect(categorizeIssue(inReview, [inReview], columns)).toBe('review');
+    expect(categorizeIssue(doing, [doing], columns)).toBe('doing');
+  });
+
+  it('sends dependency-blocked issues to the blocked column unless work has started', () => {
+    const blocker = createIssue({ id: 'b', status: 'open' });
+    const waiting = createIssue({ id: 'w', dependencies: [{ issue_id: 'w', depends_on_id: 'b', type: 'blocks' }] });
+    const started = { ...waiting, id: 's', status: 'in_progress' as const };
+    const all = [blocker, waiting, started];
+
+    expect(categorizeIssue(waiting, all, columns)).toBe('blocked');
+    expect(categorizeIssue(started, all, columns)).toBe('doing');
+  });
+
+  it('leaves issues whose status has no column unplaced', () => {
+    const deferred = createIssue({ status: 'deferred' });
+    expect(categorizeIssue(deferred, [deferred], columns)).toBeNull();
+    expect(Object.values(groupIssuesByColumn([deferred], columns)).flat()).toEqual([]);
+  });
+
+  it('resolves drop statuses, with none for label columns', () => {
+    expect(columns.map(getDropStatus)).toEqual(['blocked', 'open', null, 'in_progress', 'closed']);
+    expect(getDropStatus({ id: 'parked', label: 'Parked', statuses: ['deferred', 'pinned'], dropStatus: 'pinned' })).toBe('pinned');
+  });
+});
+
+describe('getWipUsage', () => {
+  it('reports columns with limits and flags the ones over the limit', () => {
+    const issues = [
+      createIssue({ id: '1', status: 'in_progress', labels: ['review'] }),
+      createIssue({ id: '2', status: 'in_progress', labels: ['review'] }),
+      createIssue({ id: '3', status: 'in_progress' }),
+      createIssue({ id: '4', status: 'tombstone' }),
+    ];
+
+    expect(getWipUsage(issues, columns).map(({ column, count, limit, exceeded }) => [column.id, count, limit, exceeded])).toEqual([
+      ['review', 2, 1, true],
+      ['doing', 1, 2, false],
+    ]);
+  });
+});
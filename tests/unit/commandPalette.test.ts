@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { fuzzyScore, rankCommands } from '../../src/client/utils/commandPalette';
+import type { PaletteCommand } from '../../src/client/utils/commandPalette';
+import { stepFocus } from '../../src/client/utils/keyboardShortcuts';
+
+function command(id: string, label: string, group = 'Navigation', keywords?: string): PaletteCommand {
+  return { id, label, group, keywords, run: () => {} };
+}
+
+describe('fuzzyScore', () => {
+  it('matches characters in order and rejects anything else', () => {
+    expect(fuzzyScore('gtb', 'Go to Board')).not.toBeNull();
+    expect(fuzzyScore('btg', 'Go to Board')).toBeNull();
+    expect(fuzzyScore('', 'anything')).toBe(0);
+  });
+
+  it('prefers substrings and word starts over scattered letters', () => {
+    expect(fuzzyScore('port', 'Report')!).toBeGreaterThan(fuzzyScore('port', 'Plot of art')!);
+    expect(fuzzyScore('sp', 'Set priority')!).toBeGreaterThan(fuzzyScore('sp', 'Status report')!);
+  });
+});
+
+describe('rankCommands', () => {
+  const commands = [
+    command('tab:board', 'Go to Board'),
+    command('tab:dashboard', 'Go to Dashboard'),
+    command('granularity:daily', 'Time scale: Daily', 'Dashboard', 'granularity'),
+  ];
+
+  it('keeps the given order for an empty query', () => {
+    expect(rankCommands('  ', commands)).toBe(commands);
+  });
+
+  it('matches labels, groups and keywords, best first', () => {
+    expect(rankCommands('go board', commands)[0].id).toBe('tab:board');
+    expect(rankCommands('daily', commands)[0].id).toBe('granularity:daily');
+    expect(rankCommands('gran', commands)[0].id).toBe('granularity:daily');
+    expect(rankCommands('xyz', commands)).toEqual([]);
+  });
+});
+
+describe('stepFocus', () => {
+  const ids = ['a', 'b', 'c'];
+
+  it('starts at either end and stops at the edges', () => {
+    expect(stepFocus(ids, null, 1)).toBe('a');
+    expect(stepFocus(ids, null, -1)).toBe('c');
+    expect(stepFocus(ids, 'b', 1)).toBe('c');
+    expect(stepFocus(ids, 'c', 1)).toBe('c');
+    expect(stepFocus(ids, 'a', -1)).toBe('a');
+    expect(stepFocus([], 'a', 1)).toBeNull();
+  });
+
+  it('restarts when the focused issue is no longer listed', () => {
+    expect(stepFocus(ids, 'gone', 1)).toBe('a');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { DashboardFilters, Issue } from '@shared/types';
+import {
+  EMPTY_DASHBOARD_FILTERS,
+  applyDashboardFilters,
+  parseDashboardFilters,
+  writeDashboardFilters,
+} from '@/utils/dashboardFilters';
+import { calculateMetrics } from '@/utils/metricsCalculations';
+
+const createIssue = (overrides: Partial<Issue>): Issue => ({
+  id: 'test-123',
+  title: 'Test Issue',
+  status: 'open',
+  issue_type: 'task',
+  priority: 2,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const filters = (overrides: Partial<DashboardFilters>): DashboardFilters => ({
+  ...EMPTY_DASHBOARD_FILTERS,
+  ...overrides,
+});
+
+describe('dashboard filter URL params', () => {
+  it('round-trips filters and keeps unrelated params', () => {
+    const selected = filters({
+      labels: ['frontend', 'api'],
+      types: ['bug'],
+      assignees: ['alex'],
+      priorities: [0, 1],
+      epic: 'proj-1',
+      from: '2024-01-01',
+      to: '2024-01-31',
+    });
+
+    const params = writeDashboardFilters(new URLSearchParams('tab=dashboard&label=old'), selected);
+
+    expect(params.get('tab')).toBe('dashboard');
+    expect(params.getAll('label')).toEqual(['frontend', 'api']);
+    expect(parseDashboardFilters(params.toString())).toEqual(selected);
+  });
+
+  it('ignores invalid priorities and dates', () => {
+    const parsed = parseDashboardFilters('?priority=9&priority=2&from=yesterday&to=2024-02-01');
+
+    expect(parsed.priorities).toEqual([2]);
+    expect(parsed.from).toBeNull();
+    expect(parsed.to).toBe('2024-02-01');
+  });
+});
+
+describe('applyDashboardFilters', () => {
+  const issues: Issue[] = [
+    createIssue({ id: 'epic', issue_type: 'epic' }),
+    createIssue({ id: 'a', labels: ['frontend'], assignee: 'alex', parent_id: 'epic' }),
+    createIssue({ id: 'b', labels: ['api'], owner: 'sam', priority: 0 }),
+    createIssue({ id: 'c', issue_type: 'bug', status: 'closed', closed_at: '2024-01-05T00:00:00Z', parent_id: 'epic' }),
+    createIssue({ id: 'd', created_at: '2024-03-01T00:00:00Z' }),
+  ];
+  const ids = (f: Partial<DashboardFilters>) => applyDashboardFilters(issues, filters(f)).map((i) => i.id);
+
+  it('matches any selected value within a dimension', () => {
+    expect(ids({ labels: ['frontend', 'api'] })).toEqual(['a', 'b']);
+    expect(ids({ assignees: ['sam'] })).toEqual(['b']); // Falls back to owner
+  });
+
+  it('combines dimensions', () => {
+    expect(ids({ epic: 'epic', types: ['bug'] })).toEqual(['c']);
+    expect(ids({ priorities: [0], labels: ['frontend'] })).toEqual([]);
+  });
+
+  it('keeps issues active during the date range', () => {
+    // c closed before the range; d created after it
+    expect(ids({ from: '2024-01-10', to: '2024-02-01' })).toEqual(['epic', 'a', 'b']);
+  });
+});
+
+describe('calculateMetrics with filters', () => {
+  it('computes metrics over the filtered slice only', () => {
+    const issues: Issue[] = [
+      createIssue({ id: 'a', labels: ['team-a'] }),
+      createIssue({ id: 'b', labels: ['team-b'] }),
+      createIssue({ id: 'c', labels: ['team-b'] }),
+    ];
+    const today = new Date('2024-01-10T00:00:00Z');
+
+    expect(calculateMetrics(issues, today, 'daily', [], filters({ labels: ['team-b'] }))!.openCount).toBe(2);
+    expect(calculateMetrics(issues, today, 'daily', [], filters({ labels: ['nobody'] }))).toBeNull();
+  });
+
+  it('trims time series to the date range', () => {
+    const issues: Issue[] = [createIssue({ id: 'a' })];
+    const today = new Date('2024-01-10T00:00:00Z');
+
+    const result = calculateMetrics(issues, today, 'daily', [], filters({ from: '2024-01-03', to: '2024-01-05' }));
+
+    expect(result!.flowChartData.map((p) => p.date)).toEqual(['2024-01-03', '2024-01-04', '2024-01-05']);
+  });
+});
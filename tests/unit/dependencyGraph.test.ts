@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import type { IssueDependency } from '@shared/types';
+import { buildDependencyGraph, collectEdges, getCriticalPath } from '@/utils/dependencyGraph';
+import { issue } from '../fixtures/issues';
+
+function dep(issueId: string, dependsOnId: string, type: IssueDependency['type'] = 'blocks'): IssueDependency {
+  return { issue_id: issueId, depends_on_id: dependsOnId, type };
+}
+
+describe('collectEdges', () => {
+  it('reads dependencies, parent_id and blocked_by without duplicates', () => {
+    const issues = [
+      issue('e', { issue_type: 'epic' }),
+      issue('a', { parent_id: 'e', dependencies: [dep('a', 'e', 'parent-child')] }),
+      issue('b', { dependencies: [dep('b', 'a'), dep('b', 'missing')], blocked_by: ['a'] }),
+      issue('c', { dependencies: [dep('c', 'b', 'discovered-from'), dep('c', 'a', 'related')] }),
+    ];
+
+    expect(collectEdges(issues)).toEqual([
+      { from: 'e', to: 'a', type: 'parent-child' },
+      { from: 'a', to: 'b', type: 'blocks' },
+      { from: 'b', to: 'c', type: 'discovered-from' },
+      { from: 'a', to: 'c', type: 'related' },
+    ]);
+  });
+});
+
+describe('buildDependencyGraph', () => {
+  it('places each issue one layer after its furthest predecessor', () => {
+    const issues = [
+      issue('a'),
+      issue('b', { dependencies: [dep('b', 'a')] }),
+      issue('c', { dependencies: [dep('c', 'a'), dep('c', 'b')] }),
+    ];
+
+    const graph = buildDependencyGraph(issues);
+    const layers = Object.fromEntries(graph.nodes.map((node) => [node.issue.id, node.layer]));
+
+    expect(layers).toEqual({ a: 0, b: 1, c: 2 });
+    expect(graph.layerCount).toBe(3);
+  });
+
+  it('lays out cycles without looping forever', () => {
+    const issues = [
+      issue('a', { dependencies: [dep('a', 'b')] }),
+      issue('b', { dependencies: [dep('b', 'a')] }),
+    ];
+
+    const graph = buildDependencyGraph(issues);
+
+    expect(graph.nodes.map((node) => node.layer).sort()).toEqual([0, 1]);
+    expect(graph.edges).toHaveLength(2);
+  });
+
+  it('filters to an epic subtree and hides closed and unlinked issues', () => {
+    const issues = [
+      issue('epic', { issue_type: 'epic' }),
+      issue('child', { parent_id: 'epic' }),
+      issue('done', { parent_id: 'epic', status: 'closed' }),
+      issue('other'),
+      issue('other-2', { dependencies: [dep('other-2', 'other')] }),
+    ];
+
+    const subtree = buildDependencyGraph(issues, { rootEpicId: 'epic', includeClosed: false });
+    expect(subtree.nodes.map((node) => node.issue.id)).toEqual(['child', 'epic']);
+
+    const linkedOnly = buildDependencyGraph([...issues, issue('loner')], { includeUnlinked: false });
+    expect(linkedOnly.nodes.map((node) => node.issue.id)).not.toContain('loner');
+  });
+});
+
+describe('getCriticalPath', () => {
+  it('follows the longest chain of open blockers', () => {
+    const issues = [
+      issue('a'),
+      issue('b', { dependencies: [dep('b', 'a')] }),
+      issue('c'),
+      issue('old', { status: 'closed' }),
+      issue('target', { dependencies: [dep('target', 'b'), dep('target', 'c'), dep('target', 'old')] }),
+    ];
+
+    expect(getCriticalPath('target', issues, collectEdges(issues))).toEqual(['a', 'b', 'target']);
+  });
+
+  it('stops at cycles', () => {
+    const issues = [
+      issue('a', { dependencies: [dep('a', 'b')] }),
+      issue('b', { dependencies: [dep('b', 'a')] }),
+    ];
+
+    expect(getCriticalPath('a', issues, collectEdges(issues))).toEqual(['b', 'a']);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import DependencyGraphView from '@/components/DependencyGraphView';
+import type { Issue } from '@shared/types';
+
+function createTestIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'test-1',
+    title: 'Test Issue',
+    status: 'open',
+    issue_type: 'task',
+    priority: 2,
+    created_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+const issues = [
+  createTestIssue({ id: 'g-epic', title: 'Launch', issue_type: 'epic' }),
+  createTestIssue({ id: 'g-1', title: 'Schema', parent_id: 'g-epic' }),
+  createTestIssue({
+    id: 'g-2',
+    title: 'API',
+    status: 'in_progress',
+    parent_id: 'g-epic',
+    dependencies: [{ issue_id: 'g-2', depends_on_id: 'g-1', type: 'blocks' }],
+  }),
+  createTestIssue({
+    id: 'g-3',
+    title: 'Found while testing',
+    dependencies: [{ issue_id: 'g-3', depends_on_id: 'g-2', type: 'discovered-from' }],
+  }),
+  createTestIssue({ id: 'g-loner', title: 'No links' }),
+  createTestIssue({ id: 'g-x', title: 'Elsewhere' }),
+  createTestIssue({
+    id: 'g-y',
+    title: 'Also elsewhere',
+    dependencies: [{ issue_id: 'g-y', depends_on_id: 'g-x', type: 'blocks' }],
+  }),
+];
+
+describe('DependencyGraphView', () => {
+  it('renders linked issues with status and edge types', () => {
+    render(<DependencyGraphView issues={issues} rootEpicId={null} onRootEpicChange={vi.fn()} onOpenIssue={vi.fn()} />);
+
+    expect(screen.getByTestId('graph-node-g-2')).toHaveAttribute('data-status', 'in_progress');
+    expect(screen.getByTestId('graph-edge-g-1-g-2')).toHaveAttribute('data-edge-type', 'blocks');
+    expect(screen.getByTestId('graph-edge-g-epic-g-1')).toHaveAttribute('data-edge-type', 'parent-child');
+    expect(screen.getByTestId('graph-edge-g-2-g-3')).toHaveAttribute('data-edge-type', 'discovered-from');
+    expect(screen.queryByTestId('graph-node-g-loner')).not.toBeInTheDocument();
+  });
+
+  it('highlights the critical path to the selected issue and opens it on double-click', () => {
+    const onOpenIssue = vi.fn();
+    render(<DependencyGraphView issues={issues} rootEpicId={null} onRootEpicChange={vi.fn()} onOpenIssue={onOpenIssue} />);
+
+    fireEvent.click(screen.getByTestId('graph-node-g-2'));
+
+    expect(screen.getByTestId('graph-node-g-1')).toHaveAttribute('data-critical', 'true');
+    expect(screen.getByTestId('graph-edge-g-1-g-2')).toHaveAttribute('data-critical', 'true');
+    expect(screen.getByTestId('graph-node-g-3')).not.toHaveAttribute('data-critical');
+    expect(screen.getByTestId('graph-selection')).toHaveTextContent('1 open blocker');
+
+    fireEvent.doubleClick(screen.getByTestId('graph-node-g-3'));
+    expect(onOpenIssue).toHaveBeenCalledWith(expect.objectContaining({ id: 'g-3' }));
+  });
+
+  it('limits the graph to the chosen epic subtree', () => {
+    const onRootEpicChange = vi.fn();
+    const { rerender } = render(
+      <DependencyGraphView issues={issues} rootEpicId={null} onRootEpicChange={onRootEpicChange} onOpenIssue={vi.fn()} />
+    );
+
+    fireEvent.change(screen.getByTestId('graph-epic-select'), { target: { value: 'g-epic' } });
+    expect(onRootEpicChange).toHaveBeenCalledWith('g-epic');
+
+    rerender(<DependencyGraphView issues={issues} rootEpicId="g-epic" onRootEpicChange={onRootEpicChange} onOpenIssue={vi.fn()} />);
+    expect(screen.getByTestId('graph-node-g-2')).toBeInTheDocument();
+    expect(screen.queryByTestId('graph-node-g-y')).not.toBeInTheDocument();
+  });
+});
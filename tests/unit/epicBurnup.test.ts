@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { calculateEpicBurnup } from '@/utils/epicBurnup';
+import { getEpicDescendants } from '@/utils/epicUtils';
+
+const createIssue = (overrides: Partial<Issue>): Issue => ({
+  id: 'test-123',
+  title: 'Test Issue',
+  status: 'open',
+  issue_type: 'task',
+  priority: 2,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const epic = createIssue({ id: 'epic', issue_type: 'epic', created_at: '2024-01-01T00:00:00Z' });
+
+describe('getEpicDescendants', () => {
+  it('follows child epics and ignores cycles', () => {
+    const issues: Issue[] = [
+      epic,
+      createIssue({ id: 'sub', issue_type: 'epic', parent_id: 'epic' }),
+      createIssue({ id: 'leaf', parent_id: 'sub' }),
+      createIssue({ id: 'loop', parent_id: 'leaf', blocked_by: ['epic'] }),
+      createIssue({ id: 'gone', parent_id: 'epic', status: 'tombstone' }),
+      createIssue({ id: 'other' }),
+    ];
+
+    expect(getEpicDescendants(issues, 'epic').map((i) => i.id)).toEqual(['sub', 'loop', 'leaf']);
+  });
+
+  it('only follows parent links below the epic', () => {
+    const issues: Issue[] = [
+      epic,
+      createIssue({ id: 'task', parent_id: 'epic' }),
+      createIssue({ id: 'sub', dependencies: [{ issue_id: 'sub', depends_on_id: 'task', type: 'parent-child' }] }),
+      createIssue({ id: 'waiting', dependencies: [{ issue_id: 'waiting', depends_on_id: 'task', type: 'blocks' }] }),
+      createIssue({ id: 'legacy', blocked_by: ['task'] }),
+    ];
+
+    expect(getEpicDescendants(issues, 'epic').map((i) => i.id)).toEqual(['task', 'sub']);
+  });
+});
+
+describe('calculateEpicBurnup', () => {
+  const today = new Date('2024-01-05T12:00:00Z');
+
+  it('tracks scope and completed work per day', () => {
+    const issues: Issue[] = [
+      epic,
+      createIssue({ id: 'a', parent_id: 'epic', status: 'closed', closed_at: '2024-01-02T10:00:00Z' }),
+      createIssue({ id: 'b', parent_id: 'epic' }),
+      createIssue({ id: 'c', parent_id: 'epic', created_at: '2024-01-03T09:00:00Z', title: 'Late addition' }),
+    ];
+
+    const result = calculateEpicBurnup(issues, epic, today);
+
+    expect(result.points.map((p) => [p.date, p.scope, p.completed])).toEqual([
+      ['2024-01-01', 2, 0],
+      ['2024-01-02', 2, 1],
+      ['2024-01-03', 3, 1],
+      ['2024-01-04', 3, 1],
+      ['2024-01-05', 3, 1],
+    ]);
+    expect(result.scope).toBe(3);
+    expect(result.completed).toBe(1);
+    expect(result.scopeChanges).toEqual([
+      { issue_id: 'c', title: 'Late addition', timestamp: Date.parse('2024-01-03T00:00:00Z') },
+    ]);
+    expect(result.agingChildren.map((c) => c.id)).toEqual(['b', 'c']);
+    expect(result.projection).not.toBeNull();
+  });
+
+  it('has no projection without recent closures', () => {
+    const issues: Issue[] = [epic, createIssue({ id: 'a', parent_id: 'epic' })];
+
+    expect(calculateEpicBurnup(issues, epic, today).projection).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import {
+  calculateDailyThroughput,
+  forecastCompletion,
+  forecastItemsByDate,
+  MAX_SIMULATED_DAYS,
+  simulateCompletionDays,
+} from '@/utils/forecasting';
+
+const createIssue = (overrides: Partial<Issue>): Issue => ({
+  id: 'test-123',
+  title: 'Test Issue',
+  status: 'open',
+  issue_type: 'task',
+  priority: 2,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+// Deterministic pseudo-random sequence (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe('calculateDailyThroughput', () => {
+  const today = new Date('2024-01-10T12:00:00Z');
+
+  it('counts closures per day, including empty days', () => {
+    const issues: Issue[] = [
+      createIssue({ id: '1', status: 'closed', closed_at: '2024-01-08T09:00:00Z' }),
+      createIssue({ id: '2', status: 'closed', closed_at: '2024-01-08T17:00:00Z' }),
+      createIssue({ id: '3', status: 'closed', closed_at: '2024-01-10T01:00:00Z' }),
+      createIssue({ id: '4', status: 'closed', closed_at: '2023-12-01T00:00:00Z' }), // Outside the window
+      createIssue({ id: '5', status: 'open', updated_at: '2024-01-09T00:00:00Z' }),
+    ];
+
+    const result = calculateDailyThroughput(issues, today, 5);
+    expect(result.map((p) => p.date)).toEqual(['2024-01-06', '2024-01-07', '2024-01-08', '2024-01-09', '2024-01-10']);
+    expect(result.map((p) => p.count)).toEqual([0, 0, 2, 0, 1]);
+  });
+});
+
+describe('forecastItemsByDate', () => {
+  it('returns exact totals for constant throughput', () => {
+    const result = forecastItemsByDate([2, 2, 2], 7, { trials: 50, random: seededRandom(1) });
+    expect(result).toEqual([
+      { confidence: 50, value: 14 },
+      { confidence: 85, value: 14 },
+      { confidence: 95, value: 14 },
+    ]);
+  });
+
+  it('is more conservative at higher confidence', () => {
+    const [p50, p85, p95] = forecastItemsByDate([0, 1, 3, 0, 2], 10, { trials: 2000, random: seededRandom(7) });
+    expect(p50.value).toBeGreaterThanOrEqual(p85.value);
+    expect(p85.value).toBeGreaterThanOrEqual(p95.value);
+    expect(p95.value).toBeGreaterThan(0);
+  });
+
+  it('stops simulating at the maximum horizon', () => {
+    const result = forecastItemsByDate([1], 100 * 365, { trials: 3, random: seededRandom(5) });
+    expect(result.map((p) => p.value)).toEqual([MAX_SIMULATED_DAYS, MAX_SIMULATED_DAYS, MAX_SIMULATED_DAYS]);
+  });
+});
+
+describe('forecastCompletion', () => {
+  it('returns days needed for constant throughput', () => {
+    const result = forecastCompletion([3], 10, { trials: 20, random: seededRandom(3) });
+    expect(result!.map((p) => p.value)).toEqual([4, 4, 4]);
+  });
+
+  it('takes longer at higher confidence', () => {
+    const [p50, p85, p95] = forecastCompletion([0, 1, 3, 0, 2], 20, { trials: 2000, random: seededRandom(11) })!;
+    expect(p85.value).toBeGreaterThanOrEqual(p50.value);
+    expect(p95.value).toBeGreaterThanOrEqual(p85.value);
+  });
+
+  it('returns null without any throughput history', () => {
+    expect(forecastCompletion([0, 0, 0], 5)).toBeNull();
+    expect(simulateCompletionDays([], 5)).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { IssueChange } from '@shared/types';
+import { buildIssueActivity, diffIssueChanges, getIssueLinkStates } from '@shared/issueActivity';
+import { issue } from '../fixtures/issues';
+
+describe('diffIssueChanges', () => {
+  it('reports added and removed labels and dependencies', () => {
+    const before = getIssueLinkStates([
+      issue('a', { labels: ['ui', 'old'], dependencies: [{ issue_id: 'a', depends_on_id: 'b', type: 'blocks' }] }),
+    ]);
+    const after = getIssueLinkStates([
+      issue('a', { labels: ['ui', 'new'], dependencies: [{ issue_id: 'a', depends_on_id: 'c', type: 'related' }] }),
+      issue('fresh', { labels: ['ui'] }),
+    ]);
+
+    const changes = diffIssueChanges(before, after, '2024-02-01T00:00:00Z');
+
+    expect(changes).toEqual([
+      { issue_id: 'a', kind: 'label_added', label: 'new', at: '2024-02-01T00:00:00Z' },
+      { issue_id: 'a', kind: 'label_removed', label: 'old', at: '2024-02-01T00:00:00Z' },
+      { issue_id: 'a', kind: 'dependency_added', dependency: { issue_id: 'a', depends_on_id: 'c', type: 'related' }, at: '2024-02-01T00:00:00Z' },
+      { issue_id: 'a', kind: 'dependency_removed', dependency: { issue_id: 'a', depends_on_id: 'b', type: 'blocks' }, at: '2024-02-01T00:00:00Z' },
+    ]);
+  });
+});
+
+describe('buildIssueActivity', () => {
+  it('merges every source oldest first, including links from other issues', () => {
+    const issues = [
+      issue('a', { created_by: 'bob' }),
+      issue('b', {
+        dependencies: [{ issue_id: 'b', depends_on_id: 'a', type: 'blocks', created_at: '2024-01-05T00:00:00Z', created_by: 'carol' }],
+      }),
+    ];
+    const changes: IssueChange[] = [
+      { issue_id: 'a', kind: 'label_added', label: 'ui', at: '2024-01-04T00:00:00Z' },
+      { issue_id: 'b', kind: 'label_added', label: 'other', at: '2024-01-04T00:00:00Z' },
+    ];
+
+    const events = buildIssueActivity('a', {
+      issues,
+      comments: [{ id: '1', issue_id: 'a', author: 'alice', text: 'Hi', created_at: '2024-01-03T00:00:00Z' }],
+      transitions: [
+        { issue_id: 'a', from: null, to: 'open', at: '2024-01-01T00:00:00Z', inferred: true },
+        { issue_id: 'a', from: 'open', to: 'in_progress', at: '2024-01-02T00:00:00Z' },
+        { issue_id: 'b', from: 'open', to: 'closed', at: '2024-01-02T00:00:00Z' },
+      ],
+      changes,
+    });
+
+    expect(events.map((e) => e.kind)).toEqual(['created', 'status', 'comment', 'label_added', 'dependency_added']);
+    expect(events[0].author).toBe('bob');
+    expect(events[4]).toMatchObject({ author: 'carol', dependency: { issue_id: 'b', depends_on_id: 'a', type: 'blocks' } });
+  });
+
+  it('prefers the dated Beads link over an observed addition of the same link', () => {
+    const link = { issue_id: 'a', depends_on_id: 'b', type: 'blocks' as const };
+    const events = buildIssueActivity('a', {
+      issues: [issue('a', { dependencies: [{ ...link, created_at: '2024-01-02T00:00:00Z' }] }), issue('b')],
+      comments: [],
+      transitions: [],
+      changes: [
+        { issue_id: 'a', kind: 'dependency_added', dependency: link, at: '2024-01-03T00:00:00Z' },
+        { issue_id: 'a', kind: 'dependency_removed', dependency: link, at: '2024-01-04T00:00:00Z' },
+      ],
+    });
+
+    expect(events.map((e) => [e.kind, e.at])).toEqual([
+      ['created', '2024-01-01T00:00:00Z'],
+      ['dependency_added', '2024-01-02T00:00:00Z'],
+      ['dependency_removed', '2024-01-04T00:00:00Z'],
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { Issue } from '@shared/types';
+import IssueEditorModal from '@/components/IssueEditorModal';
+import { IssueConflictError } from '@/utils/issueApi';
+import { applyIssueUpdates, formatIssueFieldValue, getIssueConflicts } from '@/utils/issueChanges';
+
+function createIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'test-1',
+    title: 'Original title',
+    description: 'Original description',
+    status: 'open',
+    issue_type: 'task',
+    priority: 2,
+    created_at: '2026-10-01T10:00:00Z',
+    updated_at: '2026-10-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('getIssueConflicts', () => {
+  it('lists fields changed since the issue was loaded, marking the ones also edited', () => {
+    const base = createIssue();
+    const current = createIssue({ title: 'Their title', priority: 0, updated_at: '2026-10-02T10:00:00Z' });
+
+    expect(getIssueConflicts(base, current, { title: 'My title', notes: 'Mine' })).toEqual([
+      { field: 'title', base: 'Original title', theirs: 'Their title', mine: 'My title', edited: true },
+      { field: 'priority', base: 2, theirs: 0, edited: false },
+    ]);
+  });
+
+  it('treats missing and empty values alike', () => {
+    const base = createIssue({ assignee: undefined, labels: [] });
+    const current = createIssue({ assignee: '', labels: undefined, updated_at: '2026-10-02T10:00:00Z' });
+
+    expect(getIssueConflicts(base, current, {})).toEqual([]);
+  });
+});
+
+describe('applyIssueUpdates', () => {
+  it('applies field updates and clears dates set to an empty string', () => {
+    const issue = createIssue({ due: '2026-11-01', defer: '2026-10-20' });
+
+    const next = applyIssueUpdates(issue, { status: 'in_progress', due: '', dependencies: [] });
+
+    expect(next.status).toBe('in_progress');
+    expect(next.due).toBeUndefined();
+    expect(next.defer).toBe('2026-10-20');
+    expect(next.dependencies).toBeUndefined();
+    expect(issue.status).toBe('open');
+  });
+});
+
+describe('formatIssueFieldValue', () => {
+  it('shows empty values and truncates long ones', () => {
+    expect(formatIssueFieldValue(undefined)).toBe('(empty)');
+    expect(formatIssueFieldValue(['ui', 'api'])).toBe('ui, api');
+    expect(formatIssueFieldValue('abcdef', 4)).toBe('abc…');
+  });
+});
+
+describe('IssueEditorModal conflicts', () => {
+  function editTitle() {
+    fireEvent.change(screen.getByPlaceholderText('Enter issue title...'), { target: { value: 'My title' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Changes' }));
+  }
+
+  it('saves with the updated_at the editor loaded', async () => {
+    const onSave = vi.fn().mockResolvedValue(undefined);
+    const onClose = vi.fn();
+    render(<IssueEditorModal issue={createIssue()} onClose={onClose} onSave={onSave} />);
+
+    editTitle();
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(onSave).toHaveBeenCalledWith({ title: 'My title' }, '2026-10-01T10:00:00Z');
+  });
+
+  it('shows the changed fields and can save over them', async () => {
+    const current = createIssue({ title: 'Their title', priority: 0, updated_at: '2026-10-02T10:00:00Z' });
+    const onSave = vi.fn()
+      .mockRejectedValueOnce(new IssueConflictError({ error: 'The issue was changed since it was loaded', issue: current }))
+      .mockResolvedValueOnce(undefined);
+    const onClose = vi.fn();
+    render(<IssueEditorModal issue={createIssue()} onClose={onClose} onSave={onSave} />);
+
+    editTitle();
+
+    const table = await screen.findByTestId('conflict-fields');
+    expect(within(table).getByText('Their title')).toBeInTheDocument();
+    expect(within(table).getByText('My title')).toBeInTheDocument();
+    expect(within(table).getByText('Priority')).toBeInTheDocument();
+    expect(onClose).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save mine anyway' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(onSave).toHaveBeenLastCalledWith({ title: 'My title' }, '2026-10-02T10:00:00Z');
+  });
+
+  it('can discard the edits and continue from the current issue', async () => {
+    const current = createIssue({ title: 'Their title', updated_at: '2026-10-02T10:00:00Z' });
+    const onSave = vi.fn().mockRejectedValue(
+      new IssueConflictError({ error: 'The issue was changed since it was loaded', issue: current })
+    );
+    render(<IssueEditorModal issue={createIssue()} onClose={vi.fn()} onSave={onSave} />);
+
+    editTitle();
+    fireEvent.click(await screen.findByRole('button', { name: 'Discard mine and reload' }));
+
+    expect(screen.queryByTestId('conflict-fields')).not.toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Enter issue title...')).toHaveValue('Their title');
+  });
+});
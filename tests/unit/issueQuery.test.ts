@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { filterIssuesByQuery, parseIssueQuery, resolveQueryDate } from '@shared/issueQuery';
+import { issue } from '../fixtures/issues';
+
+const now = new Date('2026-10-01T12:00:00Z');
+
+const matching = (issues: Issue[], query: string, me?: string) =>
+  filterIssuesByQuery(issues, query, { now, me }).issues.map((i) => i.id);
+
+describe('parseIssueQuery', () => {
+  it('parses fields, operators, value lists, negation and free text', () => {
+    const { clauses, errors } = parseIssueQuery('status:open,in_progress priority:<=1 -label:"won\'t fix" login');
+
+    expect(errors).toEqual([]);
+    expect(clauses.map(({ field, operator, values, negated }) => ({ field, operator, values, negated }))).toEqual([
+      { field: 'status', operator: '=', values: ['open', 'in_progress'], negated: false },
+      { field: 'priority', operator: '<=', values: ['1'], negated: false },
+      { field: 'label', operator: '=', values: ["won't fix"], negated: true },
+      { field: 'text', operator: '=', values: ['login'], negated: false },
+    ]);
+  });
+
+  it('reports unknown fields and bad values with their position', () => {
+    const { clauses, errors } = parseIssueQuery('colour:red status:bogus priority:9 label:>a blocked:maybe created:soon');
+
+    expect(clauses).toEqual([]);
+    expect(errors.map((error) => error.message)).toEqual([
+      'Unknown field "colour"',
+      'Unknown status "bogus"',
+      'Priority must be 0-4, not "9"',
+      "label can't be compared with >",
+      'blocked must be true or false',
+      'Dates look like 2026-09-01, today or -7d, not "soon"',
+    ]);
+    expect(errors[1]).toMatchObject({ start: 11, end: 23 });
+  });
+});
+
+describe('resolveQueryDate', () => {
+  it('accepts explicit, today and relative dates', () => {
+    expect(resolveQueryDate('2026-09-01', now)).toBe('2026-09-01');
+    expect(resolveQueryDate('today', now)).toBe('2026-10-01');
+    expect(resolveQueryDate('-7d', now)).toBe('2026-09-24');
+    expect(resolveQueryDate('-2w', now)).toBe('2026-09-17');
+    expect(resolveQueryDate('yesterday', now)).toBeNull();
+  });
+});
+
+describe('filterIssuesByQuery', () => {
+  const issues = [
+    issue('bd-1', { title: 'Login page', priority: 0, labels: ['api'], assignee: 'alice' }),
+    issue('bd-2', { title: 'Logout', priority: 1, labels: ['api', 'wontfix'], owner: 'bob' }),
+    issue('bd-3', {
+      priority: 3,
+      status: 'closed',
+      created_at: '2026-08-01T00:00:00Z',
+      closed_at: '2026-09-30T10:00:00Z',
+    }),
+    issue('bd-4', {
+      parent_id: 'bd-42',
+      dependencies: [{ issue_id: 'bd-4', depends_on_id: 'bd-1', type: 'blocks' }],
+    }),
+    issue('bd-42', { issue_type: 'epic' }),
+  ];
+
+  it('combines clauses with AND and value lists with OR', () => {
+    expect(matching(issues, 'status:open priority:<=1 label:api -label:wontfix')).toEqual(['bd-1']);
+    expect(matching(issues, 'priority:0,3')).toEqual(['bd-1', 'bd-3']);
+    expect(matching(issues, 'type:EPIC')).toEqual(['bd-42']);
+  });
+
+  it('matches assignees, owners, me and none', () => {
+    expect(matching(issues, 'assignee:bob')).toEqual(['bd-2']);
+    expect(matching(issues, 'assignee:me', 'Alice')).toEqual(['bd-1']);
+    // Without knowing who "me" is, nothing matches
+    expect(matching(issues, 'assignee:me')).toEqual([]);
+    expect(matching(issues, 'assignee:none -status:closed')).toEqual(['bd-4', 'bd-42']);
+  });
+
+  it('compares dates by calendar day', () => {
+    expect(matching(issues, 'created:<2026-01-01')).toEqual(['bd-1', 'bd-2', 'bd-4', 'bd-42']);
+    expect(matching(issues, 'created:>2026-07-31')).toEqual(['bd-3']);
+    expect(matching(issues, 'closed:>=-7d')).toEqual(['bd-3']);
+    expect(matching(issues, 'closed:2026-09-30')).toEqual(['bd-3']);
+  });
+
+  it('follows blockers and parents like bd ready', () => {
+    expect(matching(issues, 'blocked:true')).toEqual(['bd-4']);
+    expect(matching(issues, 'blocked:false parent:bd-42')).toEqual([]);
+    expect(matching(issues, 'parent:bd-42')).toEqual(['bd-4']);
+  });
+
+  it('matches free text against ID and title and skips clauses with errors', () => {
+    const result = filterIssuesByQuery(issues, 'log -logout nope:1', { now });
+
+    expect(result.issues.map((i) => i.id)).toEqual(['bd-1']);
+    expect(result.errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonFileStore } from '@server/utils/jsonFileStore';
+
+type Counts = Record<string, number>;
+
+function parseCounts(parsed: unknown): Counts | null {
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Counts : null;
+}
+
+describe('JsonFileStore', () => {
+  let tempDir: string;
+  let filePath: string;
+  let store: JsonFileStore<Counts>;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-json-store-test-'));
+    filePath = path.join(tempDir, 'dashboard', 'counts.json');
+    store = new JsonFileStore(() => filePath, parseCounts, () => ({}));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reads a missing file as empty and creates it on the first change', async () => {
+    expect(await store.read()).toEqual({});
+
+    await store.modify((data) => {
+      data.a = 1;
+    });
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual({ a: 1 });
+  });
+
+  it('runs overlapping changes one after another', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, () => store.modify((data) => {
+        data.a = (data.a ?? 0) + 1;
+      }))
+    );
+
+    expect(await store.read()).toEqual({ a: 5 });
+  });
+
+  it('moves a corrupt file aside instead of writing over it', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{"a": 1,');
+
+    expect(await store.read()).toEqual({});
+    await store.modify((data) => {
+      data.b = 2;
+    });
+
+    const backups = fs.readdirSync(path.dirname(filePath)).filter((name) => name.startsWith('counts.json.corrupt-'));
+    expect(backups).toHaveLength(1);
+    expect(fs.readFileSync(path.join(path.dirname(filePath), backups[0]), 'utf-8')).toBe('{"a": 1,');
+    expect(await store.read()).toEqual({ b: 2 });
+  });
+});
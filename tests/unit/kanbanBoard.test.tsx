@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import KanbanBoard, {
   getAgeInDays,
   getAgeBadgeColor,
@@ -12,7 +12,7 @@ import KanbanBoard, {
   getClosedAtAge,
   CLOSED_TIME_FILTERS,
 } from '@/components/KanbanBoard';
-import type { Issue, Priority } from '@shared/types';
+import type { BoardColumnConfig, Issue, Priority } from '@shared/types';
 
 // Mock fetch
 const mockFetch = vi.fn();
@@ -577,12 +577,78 @@ describe('KanbanBoard Component', () => {
             expect.objectContaining({
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ status: 'in_progress' }),
+              body: JSON.stringify({ status: 'in_progress', expected_updated_at: issues[0].updated_at }),
             })
           );
         });
       });
 
+      it('does not update status when the board is read-only', async () => {
+        const issues = [createTestIssue({ id: 'test-readonly', status: 'open', title: 'Read-only Test' })];
+        render(<KanbanBoard issues={issues} readOnly />);
+
+        const card = screen.getByTestId('kanban-card-test-readonly');
+        const inProgressColumn = screen.getByTestId('kanban-column-in_progress');
+        expect(card).toHaveAttribute('draggable', 'false');
+
+        fireEvent.dragStart(card, {
+          dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+        });
+        fireEvent.dragOver(inProgressColumn, {
+          preventDefault: vi.fn(),
+          dataTransfer: { dropEffect: 'move' },
+        });
+        fireEvent.drop(inProgressColumn);
+
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
+      it('asks for a close reason before closing a dropped card', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ success: true }),
+        });
+
+        const issues = [createTestIssue({ id: 'test-close', status: 'open', title: 'Close Test' })];
+        render(<KanbanBoard issues={issues} />);
+
+        fireEvent.dragStart(screen.getByTestId('kanban-card-test-close'), {
+          dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+        });
+        fireEvent.drop(screen.getByTestId('kanban-column-closed'));
+
+        expect(screen.getByRole('dialog')).toHaveTextContent('Close test-close');
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        fireEvent.change(screen.getByLabelText('Reason (optional)'), { target: { value: 'Shipped' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+        await waitFor(() => {
+          expect(mockFetch).toHaveBeenCalledWith(
+            '/api/issues/test-close/status',
+            expect.objectContaining({
+              body: JSON.stringify({ status: 'closed', close_reason: 'Shipped', expected_updated_at: issues[0].updated_at }),
+            })
+          );
+        });
+      });
+
+      it('leaves the card in place when closing is cancelled', () => {
+        const issues = [createTestIssue({ id: 'test-cancel', status: 'open', title: 'Cancel Test' })];
+        render(<KanbanBoard issues={issues} />);
+
+        fireEvent.dragStart(screen.getByTestId('kanban-card-test-cancel'), {
+          dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+        });
+        fireEvent.drop(screen.getByTestId('kanban-column-closed'));
+        fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+        expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+        expect(screen.getByTestId('kanban-column-ready')).toHaveTextContent('Cancel Test');
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
       it('card becomes semi-transparent during drag', () => {
         const issues = [createTestIssue({ id: 'test-opacity', status: 'open', title: 'Opacity Test' })];
         render(<KanbanBoard issues={issues} />);
@@ -806,6 +872,262 @@ describe('KanbanBoard Component', () => {
     });
   });
 
+  describe('Configured Columns', () => {
+    const columns: BoardColumnConfig[] = [
+      { id: 'todo', label: 'To Do', statuses: ['open'] },
+      { id: 'review', label: 'Review', statuses: ['in_progress'], labels: ['review'] },
+      { id: 'doing', label: 'Doing', statuses: ['in_progress'], wipLimit: 1 },
+      { id: 'parked', label: 'Parked', statuses: ['deferred'] },
+    ];
+
+    it('renders configured columns in order and highlights exceeded WIP limits', () => {
+      render(
+        <KanbanBoard
+          issues={[
+            createTestIssue({ id: 'cfg-1', status: 'in_progress' }),
+            createTestIssue({ id: 'cfg-2', status: 'in_progress' }),
+            createTestIssue({ id: 'cfg-3', status: 'in_progress', labels: ['review'] }),
+            createTestIssue({ id: 'cfg-4', status: 'deferred' }),
+          ]}
+          columns={columns}
+        />
+      );
+
+      const columnIds = screen.getAllByTestId(/^kanban-column-/).map((el) => el.getAttribute('data-testid'));
+      expect(columnIds).toEqual(['kanban-column-todo', 'kanban-column-review', 'kanban-column-doing', 'kanban-column-parked']);
+
+      const doing = screen.getByTestId('kanban-column-doing');
+      expect(doing).toHaveTextContent('2 / 1');
+      expect(doing).toHaveAttribute('data-wip-exceeded', 'true');
+      expect(screen.getByTestId('kanban-column-review')).not.toHaveAttribute('data-wip-exceeded');
+      expect(screen.getByTestId('kanban-column-parked')).toContainElement(screen.getByTestId('kanban-card-cfg-4'));
+    });
+
+    it('does not change status when a card is dropped on a label column', () => {
+      render(<KanbanBoard issues={[createTestIssue({ id: 'cfg-5', status: 'open' })]} columns={columns} />);
+
+      fireEvent.dragStart(screen.getByTestId('kanban-card-cfg-5'), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.drop(screen.getByTestId('kanban-column-review'));
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(screen.getByTestId('kanban-column-todo')).toContainElement(screen.getByTestId('kanban-card-cfg-5'));
+    });
+  });
+
+  describe('Swimlanes', () => {
+    const epic = createTestIssue({ id: 'lane-epic', title: 'Payments', issue_type: 'epic', status: 'in_progress' });
+    const laneIssues = [
+      epic,
+      createTestIssue({ id: 'lane-1', title: 'Alice task', status: 'open', assignee: 'alice', parent_id: 'lane-epic' }),
+      createTestIssue({ id: 'lane-2', title: 'Bob task', status: 'in_progress', assignee: 'bob' }),
+      createTestIssue({ id: 'lane-3', title: 'Unassigned task', status: 'open' }),
+    ];
+
+    afterEach(() => {
+      localStorage.clear();
+    });
+
+    it('groups cards into lanes with per-lane counts', () => {
+      render(<KanbanBoard issues={laneIssues} />);
+      fireEvent.change(screen.getByTestId('swimlane-select'), { target: { value: 'assignee' } });
+
+      expect(screen.getByTestId('kanban-lane-alice-ready')).toContainElement(screen.getByTestId('kanban-card-lane-1'));
+      expect(screen.getByTestId('kanban-lane-bob-in_progress')).toContainElement(screen.getByTestId('kanban-card-lane-2'));
+      expect(screen.getByTestId('kanban-lane-none')).toHaveTextContent('Unassigned');
+      // Unassigned lane holds the epic and lane-3
+      expect(screen.getByRole('button', { name: /Unassigned/ })).toHaveTextContent('2');
+      expect(screen.getByTestId('kanban-column-header-ready')).toHaveTextContent('2');
+    });
+
+    it('collapses a lane', () => {
+      render(<KanbanBoard issues={laneIssues} />);
+      fireEvent.change(screen.getByTestId('swimlane-select'), { target: { value: 'epic' } });
+
+      const laneToggle = screen.getByRole('button', { name: /lane-epic: Payments/ });
+      fireEvent.click(laneToggle);
+
+      expect(laneToggle).toHaveAttribute('aria-expanded', 'false');
+      expect(screen.queryByTestId('kanban-card-lane-1')).not.toBeInTheDocument();
+      expect(screen.getByTestId('kanban-card-lane-3')).toBeInTheDocument();
+    });
+
+    it('reassigns and changes status when dropped in another lane and column', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+      render(<KanbanBoard issues={laneIssues} />);
+      fireEvent.change(screen.getByTestId('swimlane-select'), { target: { value: 'assignee' } });
+
+      fireEvent.dragStart(screen.getByTestId('kanban-card-lane-1'), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.drop(screen.getByTestId('kanban-lane-bob-in_progress'));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith('/api/issues/lane-1', expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ assignee: 'bob', status: 'in_progress', expected_updated_at: laneIssues[1].updated_at }),
+        }));
+      });
+      expect(screen.getByTestId('kanban-lane-bob-in_progress')).toContainElement(screen.getByTestId('kanban-card-lane-1'));
+    });
+
+    it('puts the card where it is now when someone else changed the issue first', async () => {
+      const current = { ...laneIssues[1], assignee: 'carol', updated_at: '2099-01-01T00:00:00Z' };
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        json: async () => ({ error: 'The issue was changed since it was loaded', issue: current }),
+      });
+      render(<KanbanBoard issues={laneIssues} />);
+      fireEvent.change(screen.getByTestId('swimlane-select'), { target: { value: 'assignee' } });
+
+      fireEvent.dragStart(screen.getByTestId('kanban-card-lane-1'), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.drop(screen.getByTestId('kanban-lane-bob-in_progress'));
+
+      expect(await screen.findByText(/lane-1 was changed by someone else/)).toBeInTheDocument();
+      expect(screen.getByTestId('kanban-lane-carol-ready')).toContainElement(screen.getByTestId('kanban-card-lane-1'));
+    });
+
+    it('checks the next move against the updated_at the last save returned', async () => {
+      const saved = { ...laneIssues[1], status: 'in_progress' as const, updated_at: '2099-01-01T00:00:00Z' };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ success: true, issue: saved }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+      render(<KanbanBoard issues={laneIssues} />);
+      fireEvent.change(screen.getByTestId('swimlane-select'), { target: { value: 'assignee' } });
+
+      fireEvent.dragStart(screen.getByTestId('kanban-card-lane-1'), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.drop(screen.getByTestId('kanban-lane-alice-in_progress'));
+      await waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+      fireEvent.dragStart(screen.getByTestId('kanban-card-lane-1'), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.drop(screen.getByTestId('kanban-lane-alice-blocked'));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenLastCalledWith('/api/issues/lane-1/status', expect.objectContaining({
+          body: JSON.stringify({ status: 'blocked', expected_updated_at: '2099-01-01T00:00:00Z' }),
+        }));
+      });
+    });
+
+    it('keeps the status endpoint for moves within a lane', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+      render(<KanbanBoard issues={laneIssues} />);
+      fireEvent.change(screen.getByTestId('swimlane-select'), { target: { value: 'assignee' } });
+
+      fireEvent.dragStart(screen.getByTestId('kanban-card-lane-1'), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.drop(screen.getByTestId('kanban-lane-alice-in_progress'));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith('/api/issues/lane-1/status', expect.objectContaining({
+          body: JSON.stringify({ status: 'in_progress', expected_updated_at: laneIssues[1].updated_at }),
+        }));
+      });
+    });
+  });
+
+  describe('Manual Ordering', () => {
+    const orderIssues = [
+      createTestIssue({ id: 'ord-1', title: 'First created', status: 'open' }),
+      createTestIssue({ id: 'ord-2', title: 'Second created', status: 'open' }),
+      createTestIssue({ id: 'ord-3', title: 'Third created', status: 'open' }),
+    ];
+    const ranks = { 'ord-3': 1, 'ord-1': 2 };
+
+    function readyColumnOrder(): string[] {
+      return Array.from(screen.getByTestId('kanban-column-ready').querySelectorAll('[data-issue-id]')).map(
+        (card) => card.getAttribute('data-issue-id') as string
+      );
+    }
+
+    // jsdom has no layout or pointer position, so the drop lands below the target card
+    function dragBelow(issueId: string, targetId: string) {
+      fireEvent.dragStart(screen.getByTestId(`kanban-card-${issueId}`), {
+        dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
+      });
+      fireEvent.dragOver(screen.getByTestId(`kanban-card-${targetId}`), { dataTransfer: {} });
+    }
+
+    it('orders cards by rank, with unranked cards after ranked ones', () => {
+      render(<KanbanBoard issues={orderIssues} ranks={ranks} />);
+
+      expect(readyColumnOrder()).toEqual(['ord-3', 'ord-1', 'ord-2']);
+    });
+
+    it('saves the new rank when a card is dropped onto another in the same column', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ ranks: {} }) });
+      render(<KanbanBoard issues={orderIssues} ranks={ranks} />);
+
+      dragBelow('ord-2', 'ord-3');
+      expect(screen.getByTestId('kanban-drop-indicator-ord-3')).toBeInTheDocument();
+      fireEvent.drop(screen.getByTestId('kanban-column-ready'));
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalledWith('/api/ranks', expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify({ ranks: { 'ord-2': 1.5 } }),
+        }));
+      });
+      expect(readyColumnOrder()).toEqual(['ord-3', 'ord-2', 'ord-1']);
+      // Reordering within a column doesn't change the status
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('reverts the order when saving fails', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, json: async () => ({ error: 'Disk full' }) });
+      render(<KanbanBoard issues={orderIssues} ranks={ranks} />);
+
+      dragBelow('ord-2', 'ord-3');
+      fireEvent.drop(screen.getByTestId('kanban-column-ready'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Disk full')).toBeInTheDocument();
+      });
+      expect(readyColumnOrder()).toEqual(['ord-3', 'ord-1', 'ord-2']);
+    });
+  });
+
+  describe('Blocker Chains', () => {
+    const chainIssues = [
+      createTestIssue({
+        id: 'chain-a',
+        title: 'Waiting',
+        dependencies: [{ issue_id: 'chain-a', depends_on_id: 'chain-b', type: 'blocks' }],
+      }),
+      createTestIssue({ id: 'chain-b', title: 'Middle', blocked_by: ['chain-c', 'chain-gone'] }),
+      createTestIssue({ id: 'chain-c', title: 'Root cause' }),
+    ];
+
+    it('explains why a card is blocked, including the chain depth and broken references', () => {
+      render(<KanbanBoard issues={chainIssues} />);
+
+      const summary = screen.getByTestId('blocker-summary-chain-a');
+      expect(summary).toHaveTextContent('Blocked by chain-b');
+      expect(summary).toHaveTextContent('chain of 2');
+      expect(screen.getByTestId('blocker-summary-chain-b')).toHaveTextContent('1 missing or deleted');
+      expect(screen.queryByTestId('blocker-summary-chain-c')).not.toBeInTheDocument();
+    });
+
+    it('jumps to the root blocker without opening the blocked card', () => {
+      const onOpenIssue = vi.fn();
+      render(<KanbanBoard issues={chainIssues} onOpenIssue={onOpenIssue} />);
+
+      fireEvent.click(within(screen.getByTestId('blocker-summary-chain-a')).getByRole('button', { name: 'Root: chain-c' }));
+
+      expect(onOpenIssue).toHaveBeenCalledTimes(1);
+      expect(onOpenIssue).toHaveBeenCalledWith(expect.objectContaining({ id: 'chain-c' }));
+    });
+  });
+
   describe('API Integration', () => {
     describe('Status Update API', () => {
       it('sends correct request format for status update (ready to blocked)', async () => {
@@ -831,7 +1153,7 @@ describe('KanbanBoard Component', () => {
             expect.objectContaining({
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ status: 'blocked' }),
+              body: JSON.stringify({ status: 'blocked', expected_updated_at: issues[0].updated_at }),
             })
           );
         });
@@ -860,7 +1182,7 @@ describe('KanbanBoard Component', () => {
             expect.objectContaining({
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ status: 'open' }),
+              body: JSON.stringify({ status: 'open', expected_updated_at: issues[0].updated_at }),
             })
           );
         });
@@ -904,6 +1226,7 @@ describe('KanbanBoard Component', () => {
           dataTransfer: { effectAllowed: 'move', setData: vi.fn() },
         });
         fireEvent.drop(closedColumn);
+        fireEvent.click(screen.getByRole('button', { name: 'Close' }));
 
         await waitFor(() => {
           expect(screen.getByText(/Internal server error/)).toBeInTheDocument();
@@ -1782,3 +2105,32 @@ describe('Closed Time Filter', () => {
     });
   });
 });
+
+describe('KanbanBoard keyboard navigation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetch.mockClear();
+  });
+
+  it('walks the cards column by column and changes the focused card\'s status', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+    const issues = [
+      createTestIssue({ id: 'key-2', title: 'Started', status: 'in_progress' }),
+      createTestIssue({ id: 'key-1', title: 'Waiting', status: 'open' }),
+    ];
+    render(<KanbanBoard issues={issues} />);
+
+    fireEvent.keyDown(document, { key: 'j' });
+    expect(screen.getByTestId('kanban-card-key-1')).toHaveAttribute('data-focused', 'true');
+    fireEvent.keyDown(document, { key: 'j' });
+    expect(screen.getByTestId('kanban-card-key-2')).toHaveAttribute('data-focused', 'true');
+    expect(screen.getByTestId('kanban-card-key-1')).not.toHaveAttribute('data-focused');
+
+    fireEvent.keyDown(document, { key: 'b' });
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/issues/key-2/status', expect.objectContaining({
+        body: JSON.stringify({ status: 'blocked', expected_updated_at: issues[0].updated_at }),
+      }));
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import type { Issue } from '@shared/types';
+import type { Issue, StatusTransition } from '@shared/types';
 import {
   calculateLeadTime,
+  calculateCycleTime,
   calculatePercentile,
   calculateAgingWIP,
   calculateAgeDistribution,
@@ -171,7 +172,7 @@ describe('calculateLeadTime', () => {
     expect(calculateLeadTime(issues)).toEqual([]);
   });
 
-  it('calculates cycle time for closed issues', () => {
+  it('calculates lead time for closed issues', () => {
     const issues: Issue[] = [
       createIssue({
         id: 'closed-1',
@@ -183,8 +184,8 @@ describe('calculateLeadTime', () => {
 
     const result = calculateLeadTime(issues);
     expect(result).toHaveLength(1);
-    expect(result[0].cycleTimeDays).toBe(2);
-    expect(result[0].cycleTimeHours).toBe(48);
+    expect(result[0].durationDays).toBe(2);
+    expect(result[0].durationHours).toBe(48);
     expect(result[0].id).toBe('closed-1');
   });
 
@@ -199,8 +200,8 @@ describe('calculateLeadTime', () => {
     ];
 
     const result = calculateLeadTime(issues);
-    expect(result[0].cycleTimeHours).toBe(8);
-    expect(result[0].cycleTimeDays).toBeCloseTo(8 / 24, 5);
+    expect(result[0].durationHours).toBe(8);
+    expect(result[0].durationDays).toBeCloseTo(8 / 24, 5);
   });
 
   it('sorts by close date', () => {
@@ -223,6 +224,54 @@ describe('calculateLeadTime', () => {
     expect(result[0].id).toBe('first');
     expect(result[1].id).toBe('second');
   });
+
+  it('measures to closed_at rather than later edits', () => {
+    const issues: Issue[] = [
+      createIssue({
+        id: 'edited-after-close',
+        status: 'closed',
+        created_at: '2024-01-01T00:00:00Z',
+        closed_at: '2024-01-02T00:00:00Z',
+        updated_at: '2024-01-20T00:00:00Z',
+      }),
+    ];
+
+    const result = calculateLeadTime(issues);
+    expect(result[0].durationHours).toBe(24);
+    expect(result[0].closedDateStr).toBe('2024-01-02');
+  });
+});
+
+describe('calculateCycleTime', () => {
+  const closedIssue = createIssue({
+    id: 'cycle-1',
+    status: 'closed',
+    created_at: '2024-01-01T00:00:00Z',
+    closed_at: '2024-01-05T00:00:00Z',
+  });
+
+  it('measures from the first in_progress transition to closed_at', () => {
+    const history: StatusTransition[] = [
+      { issue_id: 'cycle-1', from: null, to: 'open', at: '2024-01-01T00:00:00Z' },
+      { issue_id: 'cycle-1', from: 'open', to: 'in_progress', at: '2024-01-03T00:00:00Z' },
+      { issue_id: 'cycle-1', from: 'in_progress', to: 'blocked', at: '2024-01-03T12:00:00Z' },
+      { issue_id: 'cycle-1', from: 'blocked', to: 'in_progress', at: '2024-01-04T00:00:00Z' },
+      { issue_id: 'cycle-1', from: 'in_progress', to: 'closed', at: '2024-01-05T00:00:00Z' },
+    ];
+
+    const result = calculateCycleTime([closedIssue], history);
+    expect(result).toHaveLength(1);
+    expect(result[0].durationHours).toBe(48);
+  });
+
+  it('skips issues never seen in progress', () => {
+    const history: StatusTransition[] = [
+      { issue_id: 'cycle-1', from: null, to: 'open', at: '2024-01-01T00:00:00Z' },
+      { issue_id: 'cycle-1', from: 'open', to: 'closed', at: '2024-01-05T00:00:00Z' },
+    ];
+
+    expect(calculateCycleTime([closedIssue], history)).toEqual([]);
+  });
 });
 
 describe('calculatePercentile', () => {
@@ -387,6 +436,28 @@ describe('calculateCumulativeFlow', () => {
     expect(result[0].open).toBe(2); // 3 created - 1 closed
     expect(result[0].closed).toBe(1);
   });
+
+  it('draws per-status bands from recorded history', () => {
+    const issues: Issue[] = [
+      createIssue({ id: '1', status: 'open', created_at: '2024-01-01T00:00:00Z' }),
+      createIssue({ id: '2', status: 'blocked', created_at: '2024-01-01T00:00:00Z', updated_at: '2024-01-04T12:00:00Z' }),
+    ];
+    const history: StatusTransition[] = [
+      { issue_id: '1', from: null, to: 'open', at: '2024-01-01T00:00:00Z' },
+      { issue_id: '1', from: 'open', to: 'in_progress', at: '2024-01-02T10:00:00Z' },
+      { issue_id: '1', from: 'in_progress', to: 'closed', at: '2024-01-03T10:00:00Z' },
+      { issue_id: '1', from: 'closed', to: 'open', at: '2024-01-04T10:00:00Z' },
+    ];
+
+    const result = calculateCumulativeFlow(issues, today, 'daily', history);
+
+    // Issue 2 has no recorded history, so it is inferred as blocked from updated_at
+    expect(result[1]).toMatchObject({ open: 1, in_progress: 1, closed: 0 });
+    expect(result[2]).toMatchObject({ in_progress: 0, closed: 1, throughput: 1 });
+    // Reopened issues leave the closed band
+    expect(result[3]).toMatchObject({ open: 1, closed: 0, throughput: 0 });
+    expect(result[3].blocked).toBe(1);
+  });
 });
 
 describe('calculateAverageAge', () => {
@@ -462,7 +533,7 @@ describe('calculateMetrics', () => {
     expect(typeof result!.cycleTimeP85).toBe('number');
   });
 
-  it('calculates percentiles from lead time data', () => {
+  it('calculates lead time and cycle time percentiles separately', () => {
     const issues: Issue[] = [
       ...Array.from({ length: 10 }, (_, i) =>
         createIssue({
@@ -474,8 +545,14 @@ describe('calculateMetrics', () => {
       ),
     ];
 
-    const result = calculateMetrics(issues, today);
-    expect(result!.cycleTimeP50).toBeGreaterThan(0);
-    expect(result!.cycleTimeP85).toBeGreaterThan(result!.cycleTimeP50);
+    const history: StatusTransition[] = [
+      { issue_id: 'closed-0', from: 'open', to: 'in_progress', at: '2024-01-01T12:00:00Z' },
+    ];
+
+    const result = calculateMetrics(issues, today, 'daily', history);
+    expect(result!.leadTimeP50).toBeGreaterThan(0);
+    expect(result!.leadTimeP85).toBeGreaterThan(result!.leadTimeP50);
+    expect(result!.cycleTimeData).toHaveLength(1);
+    expect(result!.cycleTimeP50).toBe(12);
   });
 });
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { getQuerySuggestions } from '@/utils/queryAutocomplete';
+import { issue } from '../fixtures/issues';
+
+const issues = [
+  issue('bd-1', { labels: ['api', 'needs review'], assignee: 'alice' }),
+  issue('bd-2', { labels: ['apple'], parent_id: 'bd-9' }),
+  issue('bd-9', { title: 'Payments epic', issue_type: 'epic' }),
+];
+
+describe('getQuerySuggestions', () => {
+  it('completes field names, keeping a negation', () => {
+    expect(getQuerySuggestions('status:open -la', issues).map((s) => s.value)).toEqual(['status:open -label:']);
+    expect(getQuerySuggestions('', issues)[0].label).toBe('status:');
+  });
+
+  it('completes known values from the issues', () => {
+    expect(getQuerySuggestions('label:ap', issues).map((s) => s.value)).toEqual(['label:api ', 'label:apple ']);
+    expect(getQuerySuggestions('label:api,ne', issues).map((s) => s.label)).toEqual(['label:api,"needs review"']);
+    expect(getQuerySuggestions('assignee:', issues).map((s) => s.label)).toEqual([
+      'assignee:me',
+      'assignee:none',
+      'assignee:alice',
+    ]);
+    expect(getQuerySuggestions('parent:', issues)).toEqual([
+      { label: 'parent:bd-9', description: 'Payments epic', value: 'parent:bd-9 ' },
+    ]);
+    expect(getQuerySuggestions('priority:<=', issues)).toHaveLength(5);
+    expect(getQuerySuggestions('colour:', issues)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { isQuickAddQuery, parseQuickAdd, resolveQuickAddDate } from '../../src/client/utils/quickAdd';
+
+// A Wednesday afternoon, local time
+const NOW = new Date(2026, 9, 14, 15, 0);
+
+describe('resolveQuickAddDate', () => {
+  it('resolves explicit, named and relative days', () => {
+    expect(resolveQuickAddDate('2026-11-01', NOW)).toBe('2026-11-01');
+    expect(resolveQuickAddDate('today', NOW)).toBe('2026-10-14');
+    expect(resolveQuickAddDate('Tomorrow', NOW)).toBe('2026-10-15');
+    expect(resolveQuickAddDate('3d', NOW)).toBe('2026-10-17');
+    expect(resolveQuickAddDate('+2w', NOW)).toBe('2026-10-28');
+  });
+
+  it('picks the next occurrence of a weekday, never today', () => {
+    expect(resolveQuickAddDate('fri', NOW)).toBe('2026-10-16');
+    expect(resolveQuickAddDate('friday', NOW)).toBe('2026-10-16');
+    expect(resolveQuickAddDate('wed', NOW)).toBe('2026-10-21');
+    expect(resolveQuickAddDate('mon', NOW)).toBe('2026-10-19');
+  });
+
+  describe('when the UTC date is already tomorrow', () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+      if (originalTimeZone === undefined) delete process.env.TZ;
+      else process.env.TZ = originalTimeZone;
+    });
+
+    it('counts from the local date', () => {
+      process.env.TZ = 'America/Los_Angeles';
+      // Wednesday 20:00 in Los Angeles, Thursday 03:00 UTC
+      const evening = new Date('2026-10-15T03:00:00Z');
+
+      expect(resolveQuickAddDate('today', evening)).toBe('2026-10-14');
+      expect(resolveQuickAddDate('tomorrow', evening)).toBe('2026-10-15');
+      expect(resolveQuickAddDate('3d', evening)).toBe('2026-10-17');
+      expect(resolveQuickAddDate('thu', evening)).toBe('2026-10-15');
+      expect(resolveQuickAddDate('wed', evening)).toBe('2026-10-21');
+    });
+  });
+
+  it('rejects anything else', () => {
+    expect(resolveQuickAddDate('fr', NOW)).toBeNull();
+    expect(resolveQuickAddDate('someday', NOW)).toBeNull();
+    expect(resolveQuickAddDate('2026-13-45', NOW)).toBeNull();
+    expect(resolveQuickAddDate('2026-02-30', NOW)).toBeNull();
+    expect(resolveQuickAddDate('2026-04-31', NOW)).toBeNull();
+    expect(resolveQuickAddDate('2028-02-29', NOW)).toBe('2028-02-29');
+    expect(resolveQuickAddDate('', NOW)).toBeNull();
+  });
+});
+
+describe('parseQuickAdd', () => {
+  it('only treats queries with the prefix as quick-add', () => {
+    expect(isQuickAddQuery('+ Fix it')).toBe(true);
+    expect(isQuickAddQuery('+label')).toBe(false);
+    expect(isQuickAddQuery('Fix it')).toBe(false);
+  });
+
+  it('pulls field tokens out of the title wherever they appear', () => {
+    const parsed = parseQuickAdd('+ Fix login !p0 #bug crash @alice +label:auth +ui ^bd-42 due:fri', NOW);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.request).toEqual({
+      title: 'Fix login crash',
+      priority: 0,
+      issue_type: 'bug',
+      assignee: 'alice',
+      labels: ['auth', 'ui'],
+      parent_id: 'bd-42',
+      due: '2026-10-16',
+    });
+  });
+
+  it('keeps hashes and plus signs that are not fields in the title', () => {
+    const parsed = parseQuickAdd('+ Handle #123 and C++ builds', NOW);
+
+    expect(parsed.request.title).toBe('Handle #123 and C++ builds');
+    expect(parsed.request.issue_type).toBeUndefined();
+  });
+
+  it('reports unusable field tokens and a missing title', () => {
+    const parsed = parseQuickAdd('+ !p7 +a,b due:someday', NOW);
+
+    expect(parsed.errors).toEqual([
+      'Priority is !p0 to !p4, not "!p7"',
+      'Labels can\'t contain commas: "+a,b"',
+      'Dates look like 2026-11-01, today, tomorrow, fri or 3d, not "someday"',
+      'Add a title',
+    ]);
+    expect(parsed.request.priority).toBeUndefined();
+    expect(parsed.request.labels).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { RANK_STEP, computeRankUpdates, getRankPositions, sortByRank } from '@/utils/ranking';
+import { issue } from '../fixtures/issues';
+
+const ids = (issues: Issue[]) => issues.map((i) => i.id);
+
+describe('sortByRank', () => {
+  it('puts ranked issues first and keeps the order of unranked ones', () => {
+    const issues = [issue('a'), issue('b'), issue('c'), issue('d')];
+
+    expect(ids(sortByRank(issues, { d: 5, b: 10 }))).toEqual(['d', 'b', 'a', 'c']);
+    expect(ids(sortByRank(issues, {}))).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('getRankPositions', () => {
+  it('numbers ranked issues from 1 in rank order', () => {
+    expect(getRankPositions({ x: 30, y: -2, z: 4 })).toEqual(new Map([['y', 1], ['z', 2], ['x', 3]]));
+  });
+});
+
+describe('computeRankUpdates', () => {
+  it('places a card between two ranked neighbours', () => {
+    const list = [issue('a'), issue('b')];
+
+    expect(computeRankUpdates(list, 'm', 1, { a: 100, b: 200 })).toEqual({ m: 150 });
+  });
+
+  it('places a card before the first or after the last one', () => {
+    const list = [issue('a'), issue('b')];
+    const ranks = { a: 100, b: 200 };
+
+    expect(computeRankUpdates(list, 'm', 0, ranks)).toEqual({ m: 100 - RANK_STEP });
+    expect(computeRankUpdates(list, 'm', 2, ranks)).toEqual({ m: 200 + RANK_STEP });
+  });
+
+  it('ranks unranked neighbours so the displayed order is kept', () => {
+    const list = [issue('a'), issue('b'), issue('c')];
+
+    expect(computeRankUpdates(list, 'm', 1, { a: 100 })).toEqual({
+      b: 100 + RANK_STEP,
+      m: (100 + 100 + RANK_STEP) / 2,
+    });
+    expect(computeRankUpdates(list, 'm', 0, {})).toEqual({ a: RANK_STEP, m: 0 });
+  });
+
+  it('renumbers the list when there is no room between neighbours', () => {
+    const list = [issue('a'), issue('b')];
+
+    expect(computeRankUpdates(list, 'm', 1, { a: 1, b: 1 })).toEqual({
+      a: RANK_STEP,
+      m: 2 * RANK_STEP,
+      b: 3 * RANK_STEP,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { computeReadyWork } from '@shared/readyWork';
+import { issue } from '../fixtures/issues';
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+const readyIds = (issues: Issue[]) => computeReadyWork(issues, now).ready.map((item) => item.issue.id);
+
+function reasonsFor(issues: Issue[], id: string) {
+  return computeReadyWork(issues, now).notReady.find((item) => item.issue.id === id)?.reasons ?? [];
+}
+
+describe('computeReadyWork', () => {
+  it('only counts open issues, explaining other statuses', () => {
+    const issues = [
+      issue('open'),
+      issue('doing', { status: 'in_progress' }),
+      issue('pinned', { status: 'pinned' }),
+      issue('hooked', { status: 'hooked' }),
+      issue('closed', { status: 'closed' }),
+    ];
+
+    expect(readyIds(issues)).toEqual(['open']);
+    expect(reasonsFor(issues, 'pinned')[0].code).toBe('status');
+    expect(reasonsFor(issues, 'hooked')[0].message).toBe('Hooked to an agent');
+    // Finished work is neither ready nor waiting
+    expect(computeReadyWork(issues, now).notReady.map((item) => item.issue.id)).not.toContain('closed');
+  });
+
+  it('honours defer dates', () => {
+    const issues = [
+      issue('future', { defer: '2024-07-01T00:00:00Z' }),
+      issue('past', { defer: '2024-05-01T00:00:00Z' }),
+    ];
+
+    expect(readyIds(issues)).toEqual(['past']);
+    expect(reasonsFor(issues, 'future')).toEqual([{ code: 'deferred', message: 'Deferred until 2024-07-01' }]);
+  });
+
+  it('treats unclosed blockers, including legacy blocked_by, as blocking', () => {
+    const issues = [
+      issue('blocker'),
+      issue('done', { status: 'closed' }),
+      issue('waiting', { dependencies: [{ issue_id: 'waiting', depends_on_id: 'blocker', type: 'blocks' }] }),
+      issue('legacy', { blocked_by: ['blocker'] }),
+      issue('unblocked', { dependencies: [{ issue_id: 'unblocked', depends_on_id: 'done', type: 'blocks' }] }),
+      issue('related', { dependencies: [{ issue_id: 'related', depends_on_id: 'blocker', type: 'related' }] }),
+    ];
+
+    expect(readyIds(issues)).toEqual(['blocker', 'unblocked', 'related']);
+    expect(reasonsFor(issues, 'waiting')).toEqual([
+      { code: 'blocked', message: 'Blocked by blocker', issue_ids: ['blocker'] },
+    ]);
+    expect(reasonsFor(issues, 'legacy')[0].code).toBe('blocked');
+  });
+
+  it('inherits blocking and deferral from ancestors', () => {
+    const issues = [
+      issue('gate'),
+      issue('epic', { issue_type: 'epic', blocked_by: ['gate'] }),
+      issue('feature', { parent_id: 'epic' }),
+      issue('task', { dependencies: [{ issue_id: 'task', depends_on_id: 'feature', type: 'parent-child' }] }),
+      issue('parked', { issue_type: 'epic', status: 'deferred' }),
+      issue('parked-child', { parent_id: 'parked' }),
+      issue('stuck', { issue_type: 'epic', status: 'blocked' }),
+      issue('stuck-child', { parent_id: 'stuck' }),
+    ];
+
+    expect(readyIds(issues)).toEqual(['gate']);
+    expect(reasonsFor(issues, 'task')).toEqual([
+      { code: 'parent_blocked', message: 'Parent epic is blocked by gate', issue_ids: ['epic', 'gate'] },
+    ]);
+    expect(reasonsFor(issues, 'parked-child')[0].code).toBe('parent_deferred');
+    expect(reasonsFor(issues, 'stuck-child')).toEqual([
+      { code: 'parent_blocked', message: 'Parent stuck is marked as blocked', issue_ids: ['stuck'] },
+    ]);
+  });
+
+  it('sorts by priority, then oldest first', () => {
+    const issues = [
+      issue('new-p1', { priority: 1, created_at: '2024-05-01T00:00:00Z' }),
+      issue('p3', { priority: 3 }),
+      issue('old-p1', { priority: 1, created_at: '2024-02-01T00:00:00Z' }),
+    ];
+
+    expect(readyIds(issues)).toEqual(['old-p1', 'new-p1', 'p3']);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { parseRoute, routePath } from '@/utils/router';
+import { buildSearchResultsQuery, buildTableQuery, parseTableQuery } from '@/utils/tableUrlState';
+import { EMPTY_DASHBOARD_FILTERS, buildDashboardQuery, parseDashboardFilters, parseGranularity } from '@/utils/dashboardFilters';
+
+describe('parseRoute', () => {
+  it('parses tabs, issues and epics', () => {
+    expect(parseRoute('/table')).toEqual({ view: 'table' });
+    expect(parseRoute('/board/')).toEqual({ view: 'board' });
+    expect(parseRoute('/dashboard')).toEqual({ view: 'dashboard' });
+    expect(parseRoute('/graph')).toEqual({ view: 'graph' });
+    expect(parseRoute('/ready')).toEqual({ view: 'ready' });
+    expect(parseRoute('/issue/bd-12')).toEqual({ view: 'issue', id: 'bd-12' });
+    expect(parseRoute('/epic/bd-1')).toEqual({ view: 'epic', id: 'bd-1' });
+  });
+
+  it('maps unknown or incomplete paths to root', () => {
+    expect(parseRoute('/')).toEqual({ view: 'root' });
+    expect(parseRoute('/issue')).toEqual({ view: 'root' });
+    expect(parseRoute('/settings')).toEqual({ view: 'root' });
+  });
+
+  it('round-trips ids that need encoding', () => {
+    const route = { view: 'issue' as const, id: 'proj-1.2/a b' };
+    expect(parseRoute(routePath(route))).toEqual(route);
+  });
+});
+
+describe('table URL state', () => {
+  it('returns null when the URL has no table params', () => {
+    expect(parseTableQuery('')).toBeNull();
+    expect(parseTableQuery('?granularity=daily')).toBeNull();
+  });
+
+  it('omits defaults and round-trips everything else', () => {
+    const state = {
+      statusFilter: ['open' as const, 'blocked' as const],
+      typeFilter: ['bug'],
+      priorityFilter: [0 as const, 1 as const],
+      labelFilter: ['frontend'],
+      closeReasonFilter: [],
+      sortColumn: 'title' as const,
+      sortDirection: 'desc' as const,
+      showEpicsView: true,
+      expandedEpics: ['bd-1'],
+      epicStatusFilter: [],
+      search: '',
+      query: '',
+      columns: ['rank' as const, 'type' as const, 'priority' as const, 'status' as const, 'close_reason' as const],
+      columnWidths: {},
+    };
+    const query = buildTableQuery(state);
+
+    expect(query).toBe('?status=open&status=blocked&type=bug&priority=0&priority=1&label=frontend&sort=title&dir=desc&view=epics&expanded=bd-1');
+    expect(parseTableQuery(query)).toEqual(state);
+  });
+
+  it('ignores invalid values', () => {
+    const state = parseTableQuery('?status=bogus&priority=9&sort=nope&dir=sideways');
+    expect(state).toMatchObject({
+      statusFilter: [],
+      priorityFilter: [],
+      sortColumn: 'priority',
+      sortDirection: 'asc',
+    });
+  });
+
+  it('keeps chosen columns in order with their widths', () => {
+    const state = parseTableQuery('?cols=due,assignee,bogus,due&widths=assignee:150,labels:9999,nope:80,due:x');
+
+    expect(state).toMatchObject({ columns: ['due', 'assignee'], columnWidths: { assignee: 150, labels: 480 } });
+    expect(buildTableQuery(state!)).toBe('?cols=due%2Cassignee&widths=assignee%3A150%2Clabels%3A480');
+    // No columns at all is a choice too
+    expect(parseTableQuery('?cols=')?.columns).toEqual([]);
+  });
+
+  it('opens search results sorted by relevance', () => {
+    const query = buildSearchResultsQuery(' login timeout ');
+
+    expect(query).toBe('?sort=relevance&search=login+timeout');
+    expect(parseTableQuery(query)).toMatchObject({ search: 'login timeout', sortColumn: 'relevance', statusFilter: [] });
+  });
+});
+
+describe('dashboard URL state', () => {
+  it('always includes the time scale', () => {
+    const query = buildDashboardQuery('4-hourly', { ...EMPTY_DASHBOARD_FILTERS, labels: ['api'] });
+
+    expect(query).toBe('?granularity=4-hourly&label=api');
+    expect(parseGranularity(query)).toBe('4-hourly');
+    expect(parseDashboardFilters(query).labels).toEqual(['api']);
+  });
+
+  it('rejects unknown time scales', () => {
+    expect(parseGranularity('?granularity=yearly')).toBeNull();
+    expect(parseGranularity('')).toBeNull();
+  });
+});
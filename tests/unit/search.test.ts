@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { buildSearchIndex, parseSearchTerms, searchIssues } from '@shared/search';
+import { issue } from '../fixtures/issues';
+
+const search = (issues: Issue[], query: string, limit?: number) => searchIssues(buildSearchIndex(issues), query, limit);
+const resultIds = (issues: Issue[], query: string) => search(issues, query).results.map((result) => result.issue.id);
+
+describe('parseSearchTerms', () => {
+  it('lowercases terms and keeps quoted phrases together', () => {
+    expect(parseSearchTerms('Login "Session Timeout"  login')).toEqual(['login', 'session timeout']);
+    expect(parseSearchTerms('   ')).toEqual([]);
+  });
+});
+
+describe('searchIssues', () => {
+  it('covers long-form fields, labels, people and external refs', () => {
+    const issues = [
+      issue('desc', { description: 'Crashes on **startup**' }),
+      issue('design', { design: 'Use a startup probe' }),
+      issue('ac', { acceptance_criteria: 'Startup under 2s' }),
+      issue('notes', { notes: 'Seen at startup' }),
+      issue('label', { labels: ['startup'] }),
+      issue('owner', { owner: 'startup-team' }),
+      issue('ref', { external_ref: 'gh-startup-12' }),
+      issue('none', { description: 'Unrelated' }),
+    ];
+
+    expect(resultIds(issues, 'startup').sort()).toEqual(['ac', 'desc', 'design', 'label', 'notes', 'owner', 'ref']);
+  });
+
+  it('requires every term and ranks identifying fields first', () => {
+    const issues = [
+      issue('in-notes', { title: 'Cache bug', notes: 'Flaky login redirect' }),
+      issue('in-title', { title: 'Login redirect loops' }),
+      issue('one-term', { title: 'Login page' }),
+      issue('tombstoned', { title: 'Login redirect', status: 'tombstone' }),
+    ];
+
+    expect(resultIds(issues, 'login redirect')).toEqual(['in-title', 'in-notes']);
+  });
+
+  it('puts an exact ID match first and breaks ties by priority', () => {
+    const issues = [
+      issue('bd-10', { title: 'Mentions bd-1 in the title', priority: 0 }),
+      issue('bd-1', { priority: 3 }),
+      issue('other', { title: 'Fix bd-1 follow-up', priority: 1 }),
+    ];
+
+    expect(resultIds(issues, 'bd-1')).toEqual(['bd-1', 'bd-10', 'other']);
+  });
+
+  it('returns a highlighted snippet around the match in long fields', () => {
+    const filler = 'lorem ipsum '.repeat(30);
+    const issues = [issue('long', { description: `${filler}the\n\nwebhook retries ${filler}` })];
+
+    const [match] = search(issues, 'webhook').results[0].matches;
+
+    expect(match.field).toBe('description');
+    expect(match.snippet.startsWith('…')).toBe(true);
+    expect(match.snippet.endsWith('…')).toBe(true);
+    expect(match.snippet).toContain('the webhook retries');
+    expect(match.highlights).toHaveLength(1);
+    const [start, end] = match.highlights[0];
+    expect(match.snippet.slice(start, end)).toBe('webhook');
+  });
+
+  it('counts every match while limiting the results', () => {
+    const issues = ['a', 'b', 'c'].map((id) => issue(`limit-${id}`));
+
+    const response = search(issues, 'limit', 2);
+
+    expect(response.total).toBe(3);
+    expect(response.results).toHaveLength(2);
+  });
+});
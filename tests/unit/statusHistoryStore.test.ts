@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import path from 'path';
+import { isDashboardDataPath } from '@server/utils/statusHistoryStore';
+
+describe('isDashboardDataPath', () => {
+  const beadsDir = path.join('/projects', 'app', '.beads');
+
+  it('matches files in the dashboard data directory', () => {
+    expect(isDashboardDataPath(beadsDir, path.join(beadsDir, 'dashboard', 'history.jsonl'))).toBe(true);
+    expect(isDashboardDataPath(beadsDir, path.join(beadsDir, 'dashboard'))).toBe(true);
+  });
+
+  it('lets a dashboard.json change trigger a refresh', () => {
+    expect(isDashboardDataPath(beadsDir, path.join(beadsDir, 'dashboard.json'))).toBe(false);
+    expect(isDashboardDataPath(beadsDir, path.join(beadsDir, 'issues.jsonl'))).toBe(false);
+  });
+});
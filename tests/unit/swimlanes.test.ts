@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { Issue } from '@shared/types';
+import { NO_LANE, buildSwimlanes, getLaneUpdates, getParentEpicId } from '@/utils/swimlanes';
+
+const createIssue = (overrides: Partial<Issue>): Issue => ({
+  id: 'test-123',
+  title: 'Test Issue',
+  status: 'open',
+  issue_type: 'task',
+  priority: 2,
+  created_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getParentEpicId', () => {
+  it('walks up parents and parent-child links to the nearest epic', () => {
+    const epic = createIssue({ id: 'epic', issue_type: 'epic' });
+    const task = createIssue({ id: 'task', parent_id: 'epic' });
+    const subtask = createIssue({
+      id: 'sub',
+      dependencies: [{ issue_id: 'sub', depends_on_id: 'task', type: 'parent-child' }],
+    });
+    const byId = new Map([epic, task, subtask].map((i) => [i.id, i]));
+
+    expect(getParentEpicId(subtask, byId)).toBe('epic');
+    expect(getParentEpicId(epic, byId)).toBeNull();
+  });
+
+  it('stops on parent cycles', () => {
+    const a = createIssue({ id: 'a', parent_id: 'b' });
+    const b = createIssue({ id: 'b', parent_id: 'a' });
+    expect(getParentEpicId(a, new Map([[a.id, a], [b.id, b]]))).toBeNull();
+  });
+});
+
+describe('buildSwimlanes', () => {
+  it('orders priority lanes by priority', () => {
+    const lanes = buildSwimlanes(
+      [createIssue({ id: '1', priority: 3 }), createIssue({ id: '2', priority: 0 })],
+      'priority'
+    );
+    expect(lanes.map((l) => l.label)).toEqual(['P0 Critical', 'P3 Low']);
+  });
+
+  it('puts multi-label issues in every label lane and unlabelled ones last', () => {
+    const lanes = buildSwimlanes(
+      [
+        createIssue({ id: '1', labels: ['ui', 'api'] }),
+        createIssue({ id: '2' }),
+        createIssue({ id: '3', labels: ['api'] }),
+      ],
+      'label'
+    );
+
+    expect(lanes.map((l) => [l.key, l.issues.map((i) => i.id)])).toEqual([
+      ['api', ['1', '3']],
+      ['ui', ['1']],
+      [NO_LANE, ['2']],
+    ]);
+    expect(lanes[2].label).toBe('No label');
+  });
+
+  it('groups by owner when an issue has no assignee', () => {
+    const lanes = buildSwimlanes(
+      [
+        createIssue({ id: '1', assignee: 'alice', owner: 'bob' }),
+        createIssue({ id: '2', owner: 'bob' }),
+        createIssue({ id: '3' }),
+      ],
+      'assignee'
+    );
+
+    expect(lanes.map((l) => [l.key, l.issues.map((i) => i.id)])).toEqual([
+      ['alice', ['1']],
+      ['bob', ['2']],
+      [NO_LANE, ['3']],
+    ]);
+  });
+});
+
+describe('getLaneUpdates', () => {
+  const issue = createIssue({ labels: ['ui', 'api'] });
+
+  it('swaps the label of the lane the card left', () => {
+    expect(getLaneUpdates(issue, 'label', 'ui', 'backend')).toEqual({ labels: ['api', 'backend'] });
+    expect(getLaneUpdates(issue, 'label', 'ui', NO_LANE)).toEqual({ labels: ['api'] });
+  });
+
+  it('re-parents, reassigns and reprioritizes', () => {
+    expect(getLaneUpdates(issue, 'epic', 'epic-1', NO_LANE)).toEqual({ parent_id: '' });
+    expect(getLaneUpdates(issue, 'assignee', NO_LANE, 'alice')).toEqual({ assignee: 'alice' });
+    expect(getLaneUpdates(issue, 'priority', '2', '0')).toEqual({ priority: 0 });
+  });
+
+  it('returns null when the lane does not change', () => {
+    expect(getLaneUpdates(issue, 'assignee', 'alice', 'alice')).toBeNull();
+    expect(getLaneUpdates(issue, 'none', NO_LANE, NO_LANE)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { ISSUE_COMPARATORS, getDependencyIds, getIssueAgeDays } from '../../src/client/utils/tableColumns';
+import type { Issue } from '../../src/shared/types';
+
+function createIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'col-1',
+    title: 'Issue',
+    status: 'open',
+    issue_type: 'task',
+    priority: 2,
+    created_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const sortIds = (issues: Issue[], compare: (a: Issue, b: Issue) => number) => [...issues].sort(compare).map((issue) => issue.id);
+
+describe('table column comparators', () => {
+  it('sorts issues missing a value after the rest', () => {
+    const issues = [
+      createIssue({ id: 'a', due: undefined }),
+      createIssue({ id: 'b', due: '2026-03-01' }),
+      createIssue({ id: 'c', due: '2026-02-01' }),
+    ];
+
+    expect(sortIds(issues, ISSUE_COMPARATORS.due)).toEqual(['c', 'b', 'a']);
+    expect(sortIds(issues, ISSUE_COMPARATORS.external_ref)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('sorts parents naturally and counts dependencies without the parent link', () => {
+    const child = (id: string, parent: string) =>
+      createIssue({ id, dependencies: [{ issue_id: id, depends_on_id: parent, type: 'parent-child' }] });
+    const issues = [child('a', 'bd.10'), child('b', 'bd.9'), createIssue({ id: 'c' })];
+    expect(sortIds(issues, ISSUE_COMPARATORS.parent)).toEqual(['b', 'a', 'c']);
+
+    const blocked = createIssue({
+      id: 'x',
+      blocked_by: ['y'],
+      dependencies: [
+        { issue_id: 'x', depends_on_id: 'y', type: 'blocks' },
+        { issue_id: 'x', depends_on_id: 'z', type: 'related' },
+        { issue_id: 'x', depends_on_id: 'epic', type: 'parent-child' },
+      ],
+    });
+    expect(getDependencyIds(blocked)).toEqual(['y', 'z']);
+  });
+
+  it('counts age until an issue closed', () => {
+    const now = new Date('2026-01-31T00:00:00Z');
+    expect(getIssueAgeDays(createIssue(), now)).toBe(30);
+    expect(getIssueAgeDays(createIssue({ closed_at: '2026-01-11T12:00:00Z' }), now)).toBe(10);
+  });
+});
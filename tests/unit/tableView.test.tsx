@@ -0,0 +1,378 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import TableView from '@/components/TableView';
+import type { Issue } from '@shared/types';
+
+// Mock fetch
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createTestIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: 'test-1',
+    title: 'Test Issue',
+    status: 'open',
+    issue_type: 'task',
+    priority: 2,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+// Sorted by ID so row order is predictable
+const issues = ['bulk-1', 'bulk-2', 'bulk-3', 'bulk-4'].map((id) => createTestIssue({ id, title: `Issue ${id}` }));
+
+describe('TableView bulk selection', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('beads-sort-column', 'id');
+    mockFetch.mockClear();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the bulk action bar once a row is selected', () => {
+    render(<TableView issues={issues} />);
+
+    expect(screen.queryByTestId('bulk-action-bar')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Select bulk-2'));
+
+    expect(screen.getByTestId('bulk-action-bar')).toHaveTextContent('1 selected');
+  });
+
+  it('selects a range with shift-click', () => {
+    render(<TableView issues={issues} />);
+
+    fireEvent.click(screen.getByLabelText('Select bulk-1'));
+    fireEvent.click(screen.getByLabelText('Select bulk-3'), { shiftKey: true });
+
+    expect(screen.getByLabelText('Select bulk-1')).toBeChecked();
+    expect(screen.getByLabelText('Select bulk-2')).toBeChecked();
+    expect(screen.getByLabelText('Select bulk-3')).toBeChecked();
+    expect(screen.getByLabelText('Select bulk-4')).not.toBeChecked();
+  });
+
+  it('sends selected issues to the bulk endpoint and reports failures', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        success: false,
+        results: [
+          { id: 'bulk-1', success: true },
+          { id: 'bulk-2', success: false, error: 'priority: boom' },
+        ],
+      }),
+    });
+
+    render(<TableView issues={issues} />);
+    fireEvent.click(screen.getByLabelText('Select bulk-1'));
+    fireEvent.click(screen.getByLabelText('Select bulk-2'));
+    fireEvent.change(screen.getByLabelText('Set priority'), { target: { value: '1' } });
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/issues/bulk', expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ ids: ['bulk-1', 'bulk-2'], updates: { priority: 1 } }),
+      }));
+    });
+    expect(await screen.findByRole('alert')).toHaveTextContent('1 of 2 issues failed: bulk-2 (priority: boom)');
+  });
+
+  it('closes selected issues with a reason', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: true, results: [{ id: 'bulk-4', success: true }] }),
+    });
+
+    render(<TableView issues={issues} />);
+    fireEvent.click(screen.getByLabelText('Select bulk-4'));
+    fireEvent.click(screen.getByRole('button', { name: /Close…/ }));
+    expect(screen.getByRole('dialog')).toHaveTextContent('Close 1 issue');
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicate' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/issues/bulk', expect.objectContaining({
+        body: JSON.stringify({ ids: ['bulk-4'], updates: { status: 'closed', close_reason: 'Duplicate' } }),
+      }));
+    });
+  });
+});
+
+describe('TableView close reasons', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetch.mockClear();
+  });
+
+  it('shows close reasons and filters by them', () => {
+    render(
+      <TableView
+        issues={[
+          createTestIssue({ id: 'reason-1', title: 'Shipped work', status: 'closed', close_reason: 'Done' }),
+          createTestIssue({ id: 'reason-2', title: 'Duplicate work', status: 'closed', close_reason: 'Duplicate' }),
+        ]}
+      />
+    );
+
+    expect(screen.getByTitle('Duplicate')).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByTitle('Filter')[3]);
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Done' }));
+
+    expect(screen.getByText('Shipped work')).toBeInTheDocument();
+    expect(screen.queryByText('Duplicate work')).not.toBeInTheDocument();
+  });
+
+  it('asks for a reason before a quick close', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+
+    const issue = createTestIssue({ id: 'quick-1', title: 'Quick close' });
+    render(<TableView issues={[issue]} />);
+    fireEvent.click(screen.getByTitle('Close Issue'));
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Reason (optional)'), { target: { value: 'Fixed upstream' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/issues/quick-1/status', expect.objectContaining({
+        body: JSON.stringify({ status: 'closed', close_reason: 'Fixed upstream', expected_updated_at: issue.updated_at }),
+      }));
+    });
+  });
+});
+
+describe('TableView epics view', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('beads-show-epics-view', 'true');
+  });
+
+  it('opens the burnup page for an epic', () => {
+    const onOpenEpic = vi.fn();
+    render(
+      <TableView
+        issues={[
+          createTestIssue({ id: 'epic-1', title: 'Big epic', issue_type: 'epic' }),
+          createTestIssue({ id: 'child-1', parent_id: 'epic-1' }),
+        ]}
+        onOpenEpic={onOpenEpic}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('View burnup for epic-1'));
+
+    expect(onOpenEpic).toHaveBeenCalledWith('epic-1');
+  });
+});
+
+describe('TableView URL state', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('beads-filter-status', JSON.stringify(['open']));
+  });
+
+  it('restores filters from the query over saved preferences and reports changes', () => {
+    const onQueryChange = vi.fn();
+    render(
+      <TableView
+        issues={[
+          createTestIssue({ id: 'url-1', title: 'Still open' }),
+          createTestIssue({ id: 'url-2', title: 'Already closed', status: 'closed' }),
+        ]}
+        query="?status=closed"
+        onQueryChange={onQueryChange}
+      />
+    );
+
+    expect(screen.getByText('Already closed')).toBeInTheDocument();
+    expect(screen.queryByText('Still open')).not.toBeInTheDocument();
+    expect(onQueryChange).toHaveBeenLastCalledWith('?status=closed');
+  });
+});
+
+describe('TableView search results', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    mockFetch.mockReset();
+  });
+
+  it('lists only the matches, best first, with a snippet of the matched field', async () => {
+    const searchIssues = [
+      createTestIssue({ id: 'find-1', title: 'Weaker match' }),
+      createTestIssue({ id: 'find-2', title: 'Better match' }),
+      createTestIssue({ id: 'find-3', title: 'No match' }),
+    ];
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        query: 'webhook',
+        total: 2,
+        results: [
+          { issue: searchIssues[1], score: 16, matches: [{ field: 'title', snippet: 'Better match', highlights: [] }] },
+          {
+            issue: searchIssues[0],
+            score: 2,
+            matches: [{ field: 'notes', snippet: 'retry the webhook', highlights: [[10, 17]] }],
+          },
+        ],
+      }),
+    });
+
+    render(<TableView issues={searchIssues} query="?sort=relevance&search=webhook" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('search-results-banner')).toHaveTextContent('2 results for “webhook”');
+    });
+    expect(mockFetch).toHaveBeenCalledWith('/api/search?q=webhook');
+    expect(screen.queryByText('No match')).not.toBeInTheDocument();
+    const titles = screen.getAllByText(/match$/).map((el) => el.textContent);
+    expect(titles).toEqual(['Better match', 'Weaker match']);
+    expect(screen.getByTestId('search-snippet-find-1')).toHaveTextContent('Notes: retry the webhook');
+    expect(screen.getByText('webhook', { selector: 'mark' })).toBeInTheDocument();
+
+    // Clearing the search shows everything again and drops the relevance order
+    fireEvent.click(screen.getByText('Clear search'));
+
+    expect(screen.getByText('No match')).toBeInTheDocument();
+    expect(localStorage.getItem('beads-sort-column')).toBe('priority');
+  });
+});
+
+describe('TableView structured query', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const queryIssues = [
+    createTestIssue({ id: 'q-1', title: 'Urgent api work', priority: 0, labels: ['api'] }),
+    createTestIssue({ id: 'q-2', title: 'Shelved api work', priority: 1, labels: ['api', 'wontfix'] }),
+    createTestIssue({ id: 'q-3', title: 'Low priority chore', priority: 4 }),
+  ];
+
+  it('filters the list with the query from the URL and reports it back', () => {
+    const onQueryChange = vi.fn();
+    render(<TableView issues={queryIssues} query="?q=label%3Aapi+-label%3Awontfix" onQueryChange={onQueryChange} />);
+
+    expect(screen.getByLabelText('Issue query')).toHaveValue('label:api -label:wontfix');
+    expect(screen.getByText('Urgent api work')).toBeInTheDocument();
+    expect(screen.queryByText('Shelved api work')).not.toBeInTheDocument();
+    expect(screen.queryByText('Low priority chore')).not.toBeInTheDocument();
+    expect(onQueryChange).toHaveBeenLastCalledWith('?q=label%3Aapi+-label%3Awontfix');
+  });
+
+  it('shows parse errors and completes fields from the suggestions', () => {
+    render(<TableView issues={queryIssues} />);
+    const input = screen.getByLabelText('Issue query');
+
+    fireEvent.change(input, { target: { value: 'priority:9' } });
+    expect(screen.getByTestId('issue-query-errors')).toHaveTextContent('Priority must be 0-4, not "9"');
+    // A clause with an error doesn't filter
+    expect(screen.getByText('Low priority chore')).toBeInTheDocument();
+
+    fireEvent.change(input, { target: { value: 'prio' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(input).toHaveValue('priority:');
+
+    fireEvent.change(input, { target: { value: 'priority:<=0' } });
+    expect(screen.queryByTestId('issue-query-errors')).not.toBeInTheDocument();
+    expect(screen.getByText('Urgent api work')).toBeInTheDocument();
+    expect(screen.queryByText('Low priority chore')).not.toBeInTheDocument();
+  });
+});
+
+describe('TableView columns', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  const columnIssues = [
+    createTestIssue({ id: 'col-1', title: 'Unassigned work' }),
+    createTestIssue({ id: 'col-2', title: 'Work for zoe', assignee: 'zoe' }),
+    createTestIssue({ id: 'col-3', title: 'Work for amy', owner: 'amy' }),
+  ];
+
+  const rowTitles = () => screen.getAllByText(/work/i).map((el) => el.textContent);
+
+  it('adds a column from the chooser, sorts by it and reports it in the query', () => {
+    const onQueryChange = vi.fn();
+    render(<TableView issues={columnIssues} onQueryChange={onQueryChange} />);
+
+    expect(screen.queryByTestId('column-header-assignee')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByTitle('Choose columns'));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Assignee' }));
+
+    fireEvent.click(within(screen.getByTestId('column-header-assignee')).getByRole('button', { name: 'Assignee' }));
+
+    // Owners count as assignees; issues without one sort last
+    expect(rowTitles()).toEqual(['Work for amy', 'Work for zoe', 'Unassigned work']);
+    expect(onQueryChange).toHaveBeenLastCalledWith(
+      '?sort=assignee&cols=rank%2Ctype%2Cpriority%2Cstatus%2Cclose_reason%2Cassignee'
+    );
+  });
+
+  it('restores column order and widths from the query', () => {
+    render(<TableView issues={columnIssues} query="?cols=assignee,priority&widths=assignee:200" />);
+
+    expect(screen.getByTestId('column-header-assignee')).toHaveStyle({ width: '200px' });
+    expect(screen.getByTestId('column-header-priority')).toHaveStyle({ width: '96px' });
+    expect(screen.queryByTestId('column-header-status')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(screen.getByLabelText('Resize Assignee column'), { key: 'ArrowLeft' });
+    expect(screen.getByTestId('column-header-assignee')).toHaveStyle({ width: '184px' });
+  });
+});
+
+describe('TableView keyboard navigation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('beads-sort-column', 'id');
+    mockFetch.mockClear();
+  });
+
+  it('moves focus with j/k, opens with Enter and changes status with a single key', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ success: true }) });
+    const onOpenIssue = vi.fn();
+    const onFocusedIssueChange = vi.fn();
+
+    render(<TableView issues={issues} onOpenIssue={onOpenIssue} onFocusedIssueChange={onFocusedIssueChange} />);
+    fireEvent.keyDown(document, { key: 'j' });
+    fireEvent.keyDown(document, { key: 'j' });
+    fireEvent.keyDown(document, { key: 'k' });
+    fireEvent.keyDown(document, { key: 'j' });
+
+    expect(screen.getByTestId('table-row-bulk-2')).toHaveAttribute('data-focused', 'true');
+    expect(onFocusedIssueChange).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'bulk-2' }));
+
+    fireEvent.keyDown(document, { key: 'Enter' });
+    expect(onOpenIssue).toHaveBeenCalledWith(expect.objectContaining({ id: 'bulk-2' }));
+
+    fireEvent.keyDown(document, { key: 'i' });
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenCalledWith('/api/issues/bulk-2/status', expect.objectContaining({
+        body: JSON.stringify({ status: 'in_progress', expected_updated_at: issues.find((issue) => issue.id === 'bulk-2')?.updated_at }),
+      }));
+    });
+
+    // Closing asks for a reason, like the quick Close action
+    fireEvent.keyDown(document, { key: 'x' });
+    expect(screen.getByLabelText('Reason (optional)')).toBeInTheDocument();
+  });
+
+  it('ignores the keys while typing or when read-only', () => {
+    render(<TableView issues={issues} readOnly />);
+
+    fireEvent.keyDown(screen.getByPlaceholderText(/Filter with a query/), { key: 'j' });
+    expect(screen.queryByTestId('table-row-bulk-1')).not.toHaveAttribute('data-focused');
+
+    fireEvent.keyDown(document, { key: 'j' });
+    fireEvent.keyDown(document, { key: 'x' });
+    expect(screen.getByTestId('table-row-bulk-1')).toHaveAttribute('data-focused', 'true');
+    expect(screen.queryByLabelText('Reason (optional)')).not.toBeInTheDocument();
+  });
+});